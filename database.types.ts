@@ -9,6 +9,137 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      ai_cache: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          hits: number
+          key: string
+          last_hit_at: string | null
+          model: string
+          prompt_id: string | null
+          provider: string
+          response: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          hits?: number
+          key: string
+          last_hit_at?: string | null
+          model: string
+          prompt_id?: string | null
+          provider: string
+          response: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          hits?: number
+          key?: string
+          last_hit_at?: string | null
+          model?: string
+          prompt_id?: string | null
+          provider?: string
+          response?: string
+        }
+        Relationships: []
+      }
+      ai_calls: {
+        Row: {
+          cost_usd: number | null
+          created_at: string
+          error: string | null
+          id: string
+          input_tokens: number | null
+          latency_ms: number
+          model: string
+          outcome: string
+          output_tokens: number | null
+          prompt_id: string | null
+          provider: string
+          status_code: number | null
+        }
+        Insert: {
+          cost_usd?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          input_tokens?: number | null
+          latency_ms: number
+          model: string
+          outcome: string
+          output_tokens?: number | null
+          prompt_id?: string | null
+          provider: string
+          status_code?: number | null
+        }
+        Update: {
+          cost_usd?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          input_tokens?: number | null
+          latency_ms?: number
+          model?: string
+          outcome?: string
+          output_tokens?: number | null
+          prompt_id?: string | null
+          provider?: string
+          status_code?: number | null
+        }
+        Relationships: []
+      }
+      ai_suggestions: {
+        Row: {
+          article_id: string
+          created_at: string
+          edited_value: string | null
+          field: string
+          id: string
+          model: string | null
+          prompt_id: string | null
+          prompt_version: string | null
+          reviewed_at: string | null
+          status: string
+          value: string
+        }
+        Insert: {
+          article_id: string
+          created_at?: string
+          edited_value?: string | null
+          field: string
+          id?: string
+          model?: string | null
+          prompt_id?: string | null
+          prompt_version?: string | null
+          reviewed_at?: string | null
+          status?: string
+          value: string
+        }
+        Update: {
+          article_id?: string
+          created_at?: string
+          edited_value?: string | null
+          field?: string
+          id?: string
+          model?: string | null
+          prompt_id?: string | null
+          prompt_version?: string | null
+          reviewed_at?: string | null
+          status?: string
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_suggestions_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       article_categories: {
         Row: {
           article_id: string
@@ -39,17 +170,59 @@ export type Database = {
           },
         ]
       }
+      article_images: {
+        Row: {
+          alt: string | null
+          article_id: string
+          image_id: string
+          position: number
+          source_url: string
+        }
+        Insert: {
+          alt?: string | null
+          article_id: string
+          image_id: string
+          position?: number
+          source_url: string
+        }
+        Update: {
+          alt?: string | null
+          article_id?: string
+          image_id?: string
+          position?: number
+          source_url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_images_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "article_images_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       article_related: {
         Row: {
           article_id: string
+          position: number
           related_article_id: string
         }
         Insert: {
           article_id: string
+          position?: number
           related_article_id: string
         }
         Update: {
           article_id?: string
+          position?: number
           related_article_id?: string
         }
         Relationships: [
@@ -69,6 +242,125 @@ export type Database = {
           },
         ]
       }
+      article_revisions: {
+        Row: {
+          article_id: string
+          created_at: string
+          field: string
+          id: string
+          model: string | null
+          prompt_id: string | null
+          prompt_version: string | null
+          rollback_of: string | null
+          source: string
+          value: string
+          value_hash: string | null
+        }
+        Insert: {
+          article_id: string
+          created_at?: string
+          field: string
+          id?: string
+          model?: string | null
+          prompt_id?: string | null
+          prompt_version?: string | null
+          rollback_of?: string | null
+          source: string
+          value: string
+          value_hash?: never
+        }
+        Update: {
+          article_id?: string
+          created_at?: string
+          field?: string
+          id?: string
+          model?: string | null
+          prompt_id?: string | null
+          prompt_version?: string | null
+          rollback_of?: string | null
+          source?: string
+          value?: string
+          value_hash?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_revisions_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "article_revisions_rollback_of_fkey"
+            columns: ["rollback_of"]
+            isOneToOne: false
+            referencedRelation: "article_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      article_search: {
+        Row: {
+          article_id: string
+          document: unknown
+          updated_at: string
+        }
+        Insert: {
+          article_id: string
+          document: unknown
+          updated_at?: string
+        }
+        Update: {
+          article_id?: string
+          document?: unknown
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_search_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: true
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      article_series: {
+        Row: {
+          article_id: string
+          part: number | null
+          position: number
+          series_id: string
+        }
+        Insert: {
+          article_id: string
+          part?: number | null
+          position: number
+          series_id: string
+        }
+        Update: {
+          article_id?: string
+          part?: number | null
+          position?: number
+          series_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_series_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: true
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "article_series_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       article_tags: {
         Row: {
           article_id: string
@@ -104,12 +396,18 @@ export type Database = {
           ai_content: string | null
           ai_summary: string | null
           ai_title: string | null
+          comment_count: number
           content: string
+          content_changed_at: string
           created_at: string
           id: string
           images: string[]
+          images_mirrored_at: string | null
           link: string
+          links_rewritten_at: string | null
           old_id: number
+          related_old_ids: number[]
+          source: string
           summary: string | null
           title: string
         }
@@ -117,12 +415,18 @@ export type Database = {
           ai_content?: string | null
           ai_summary?: string | null
           ai_title?: string | null
+          comment_count?: number
           content: string
+          content_changed_at?: string
           created_at: string
           id?: string
           images?: string[]
+          images_mirrored_at?: string | null
           link: string
+          links_rewritten_at?: string | null
           old_id: number
+          related_old_ids?: number[]
+          source?: string
           summary?: string | null
           title: string
         }
@@ -130,12 +434,18 @@ export type Database = {
           ai_content?: string | null
           ai_summary?: string | null
           ai_title?: string | null
+          comment_count?: number
           content?: string
+          content_changed_at?: string
           created_at?: string
           id?: string
           images?: string[]
+          images_mirrored_at?: string | null
           link?: string
+          links_rewritten_at?: string | null
           old_id?: number
+          related_old_ids?: number[]
+          source?: string
           summary?: string | null
           title?: string
         }
@@ -146,16 +456,19 @@ export type Database = {
           description: string
           id: string
           name: string
+          slug: string | null
         }
         Insert: {
           description?: string
           id?: string
           name: string
+          slug?: string | null
         }
         Update: {
           description?: string
           id?: string
           name?: string
+          slug?: string | null
         }
         Relationships: []
       }
@@ -163,26 +476,35 @@ export type Database = {
         Row: {
           article_id: string
           author: string
+          author_url: string | null
           content: string[]
+          content_html: string | null
           created_at: string
           id: string
           old_id: number
+          parent_id: string | null
         }
         Insert: {
           article_id: string
           author: string
+          author_url?: string | null
           content?: string[]
+          content_html?: string | null
           created_at: string
           id?: string
           old_id: number
+          parent_id?: string | null
         }
         Update: {
           article_id?: string
           author?: string
+          author_url?: string | null
           content?: string[]
+          content_html?: string | null
           created_at?: string
           id?: string
           old_id?: number
+          parent_id?: string | null
         }
         Relationships: [
           {
@@ -192,29 +514,177 @@ export type Database = {
             referencedRelation: "articles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       found_links: {
         Row: {
+          content_hash: string | null
           created_at: string | null
+          etag: string | null
           href: string | null
           id: string
+          last_checked_at: string | null
+          last_modified: string | null
           processed_at: string | null
+          published_at: string | null
+          source: string
           status: number | null
+          structure_checked_at: string | null
         }
         Insert: {
+          content_hash?: string | null
           created_at?: string | null
+          etag?: string | null
           href?: string | null
           id?: string
+          last_checked_at?: string | null
+          last_modified?: string | null
           processed_at?: string | null
+          published_at?: string | null
+          source?: string
           status?: number | null
+          structure_checked_at?: string | null
         }
         Update: {
+          content_hash?: string | null
           created_at?: string | null
+          etag?: string | null
           href?: string | null
           id?: string
+          last_checked_at?: string | null
+          last_modified?: string | null
           processed_at?: string | null
+          published_at?: string | null
+          source?: string
           status?: number | null
+          structure_checked_at?: string | null
+        }
+        Relationships: []
+      }
+      images: {
+        Row: {
+          bytes: number
+          content_type: string
+          created_at: string
+          hash: string
+          height: number | null
+          id: string
+          storage_key: string
+          url: string
+          width: number | null
+        }
+        Insert: {
+          bytes: number
+          content_type: string
+          created_at?: string
+          hash: string
+          height?: number | null
+          id?: string
+          storage_key: string
+          url: string
+          width?: number | null
+        }
+        Update: {
+          bytes?: number
+          content_type?: string
+          created_at?: string
+          hash?: string
+          height?: number | null
+          id?: string
+          storage_key?: string
+          url?: string
+          width?: number | null
+        }
+        Relationships: []
+      }
+      jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          dedupe_key: string | null
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_at: string
+          started_at: string | null
+          status: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          dedupe_key?: string | null
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_at?: string
+          started_at?: string | null
+          status?: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          dedupe_key?: string | null
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_at?: string
+          started_at?: string | null
+          status?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      series: {
+        Row: {
+          created_at: string
+          detected_by: string
+          id: string
+          name: string
+          slug: string
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          detected_by: string
+          id?: string
+          name: string
+          slug: string
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          detected_by?: string
+          id?: string
+          name?: string
+          slug?: string
+          source?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -239,12 +709,152 @@ export type Database = {
         }
         Relationships: []
       }
+      unresolved_links: {
+        Row: {
+          article_id: string
+          created_at: string
+          href: string
+          kind: string
+          source: string
+          target: string
+        }
+        Insert: {
+          article_id: string
+          created_at?: string
+          href: string
+          kind: string
+          source: string
+          target: string
+        }
+        Update: {
+          article_id?: string
+          created_at?: string
+          href?: string
+          kind?: string
+          source?: string
+          target?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "unresolved_links_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      category_counts: {
+        Row: {
+          article_count: number | null
+          description: string | null
+          id: string | null
+          name: string | null
+          slug: string | null
+        }
+        Relationships: []
+      }
+      tag_counts: {
+        Row: {
+          article_count: number | null
+          description: string | null
+          id: string | null
+          name: string | null
+          slug: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      ai_cache_lookup: {
+        Args: { cache_key: string }
+        Returns: string
+      }
+      ai_usage_totals: {
+        Args: { since: string }
+        Returns: {
+          cached: number
+          calls: number
+          cost_usd: number
+          day: string
+          errors: number
+          input_tokens: number
+          latency_ms: number
+          model: string
+          output_tokens: number
+        }[]
+      }
+      claim_next_job: {
+        Args: { lease_seconds?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          dedupe_key: string | null
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_at: string
+          started_at: string | null
+          status: string
+          type: string
+          updated_at: string
+        }[]
+      }
+      html_to_text: {
+        Args: { html: string }
+        Returns: string
+      }
+      refresh_article_search: {
+        Args: { article_ids: string[] }
+        Returns: undefined
+      }
+      related_tags: {
+        Args: {
+          tag_slug?: string
+          category_slug?: string
+          result_limit?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          slug: string
+          description: string
+          article_count: number
+        }[]
+      }
+      replace_article_comments: {
+        Args: { target_article_id: string; new_comments: Json }
+        Returns: number
+      }
+      search_articles: {
+        Args: {
+          query: string
+          tag_slugs?: string[]
+          category_slugs?: string[]
+          date_from?: string
+          date_to?: string
+          result_limit?: number
+          result_offset?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          ai_title: string | null
+          summary: string | null
+          ai_summary: string | null
+          images: string[]
+          created_at: string
+          rank: number
+          snippet: string
+          total_count: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,3 +1,5 @@
+import { fileURLToPath } from 'node:url'
+
 // https://nuxt.com/docs/api/configuration/nuxt-config
 export default defineNuxtConfig({
   compatibilityDate: '2025-05-15',
@@ -15,10 +17,87 @@ export default defineNuxtConfig({
 
   runtimeConfig: {
     openRouterKey: '',
+    openRouterModel: '',
+    // LLM provider for AI enhancement (server/utils/llm.ts):
+    // openrouter, openai-compatible (baseUrl + model, e.g. Ollama) or mock
+    ai: {
+      provider: 'openrouter',
+      baseUrl: '',
+      apiKey: '',
+      model: '',
+      // Context window in tokens per model (prompt and answer); long articles
+      // are split to fit (server/utils/chunking.ts)
+      contextTokens: {
+        'deepseek/deepseek-chat-v3-0324:free': 32768,
+      },
+      defaultContextTokens: 8192,
+      // Answer cache (server/utils/ai-cache.ts): supabase, memory or off;
+      // entries expire after ttlSeconds (0: never)
+      cache: {
+        driver: 'supabase',
+        ttlSeconds: 2_592_000,
+      },
+      // Token bucket per provider and model, retries with backoff on
+      // 429/5xx and timeouts (server/utils/rate-limit.ts)
+      rateLimit: {
+        requestsPerMinute: {
+          'deepseek/deepseek-chat-v3-0324:free': 20,
+        },
+        defaultRequestsPerMinute: 60,
+        burst: 3,
+        maxRetries: 4,
+        backoffBaseMs: 2000,
+        maxBackoffMs: 120000,
+        timeoutMs: 120000,
+      },
+      // AI call accounting (server/utils/ai-usage.ts): ai_calls rows, cost
+      // from OpenRouter or pricing (USD per million tokens), and budget caps
+      // in USD checked before every AI call (0: no cap; unpriced models are
+      // refused while a cap is set)
+      usage: {
+        record: true,
+        pricing: {
+          'openai/gpt-4.1-nano': { input: 0.1, output: 0.4 },
+          'mistralai/ministral-8b': { input: 0.1, output: 0.1 },
+        },
+        dailyBudgetUsd: 0,
+        monthlyBudgetUsd: 0,
+      },
+    },
+    jobs: {
+      workerEnabled: true,
+      pollIntervalMs: 5000,
+      leaseSeconds: 900,
+    },
+    crawler: {
+      userAgent: 'AlexandrianArchiveBot/1.0',
+      requestsPerMinute: 30,
+      minDelayMs: 1000,
+      maxRetries: 4,
+      backoffBaseMs: 2000,
+      maxBackoffMs: 300000,
+      respectRobotsTxt: true,
+    },
+    assets: {
+      driver: 'local',
+      bucket: 'article-images',
+      maxBytes: 10_000_000,
+    },
   },
   css: ['~/assets/css/main.css'],
 
   supabase: {
     redirect: false,
   },
+
+  // Mirrored article images (server/utils/assets.ts): IPX reads local copies
+  // from .data/mirror/assets as /assets/..., Supabase storage copies over http
+  image: {
+    domains: process.env.SUPABASE_URL ? [new URL(process.env.SUPABASE_URL).host] : [],
+    ipx: {
+      fs: {
+        dir: ['public', '.data/mirror'].map(dir => fileURLToPath(new URL(`./${dir}`, import.meta.url))),
+      },
+    },
+  },
 })
@@ -0,0 +1,43 @@
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { useAiCache } from '~/server/utils/ai-cache'
+import type { AiCacheFilter } from '~/server/utils/ai-cache'
+
+/**
+ * Invalidate cached AI answers (see ai-cache.ts), e.g. after a model update
+ * that should produce different output for the same prompt.
+ *
+ * Query Params (filters combine; at least one, or all=true):
+ * - model: Answers of one model
+ * - promptId: Answers to one prompt template (prompts.ts)
+ * - expired=true: Only entries past their expiry
+ * - all=true: Everything
+ *
+ * @endpoint DELETE /api/ai/cache
+ * @returns {{ deleted: number }}
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const filter: AiCacheFilter = {
+    model: typeof query.model === 'string' && query.model ? query.model : undefined,
+    promptId: typeof query.promptId === 'string' && query.promptId ? query.promptId : undefined,
+    expired: query.expired === 'true' || undefined,
+  }
+
+  if (!filter.model && !filter.promptId && !filter.expired && query.all !== 'true') {
+    throw createError({ statusCode: 400, statusMessage: 'Pass model, promptId or expired=true, or all=true to clear the cache' })
+  }
+
+  const cache = useAiCache()
+  if (!cache) return { deleted: 0 }
+
+  try {
+    const deleted = await cache.invalidate(filter)
+    console.info(`[AI Cache] Invalidated ${deleted} entries`, filter)
+    return { deleted }
+  } catch (err) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: err instanceof Error ? err.message : 'Unknown error'
+    })
+  }
+})
@@ -0,0 +1,22 @@
+import { defineEventHandler, createError } from 'h3'
+import { useAiCache } from '~/server/utils/ai-cache'
+
+/**
+ * Size of the AI answer cache (see ai-cache.ts).
+ *
+ * @endpoint GET /api/ai/cache
+ * @returns {{ driver: string, ttlSeconds: number, entries: number, expired: number } | { driver: 'off' }}
+ */
+export default defineEventHandler(async () => {
+  const cache = useAiCache()
+  if (!cache) return { driver: 'off' }
+
+  try {
+    return { driver: cache.driver, ttlSeconds: cache.ttlSeconds, ...await cache.stats() }
+  } catch (err) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: err instanceof Error ? err.message : 'Unknown error'
+    })
+  }
+})
@@ -1,6 +1,12 @@
-import { OpenRouterError } from '~/server/utils/openRouter';
+import { useLlmProvider, LlmError } from '~/server/utils/llm';
+import { AiBudgetError } from '~/server/utils/ai-usage';
+import { BLOG_ENHANCEMENT, promptRef } from '~/server/utils/prompts';
 import { createError } from 'h3';
 import { getArticleEnhancedContent } from '~/server/utils/article.controller';
+import { saveSuggestions } from '~/server/utils/suggestions';
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { ArticleWithRelations } from '~/server/utils/types';
+import type { PostgrestError } from '@supabase/supabase-js';
 
 export default defineEventHandler(async (event) => {
   try {
@@ -18,7 +24,7 @@ export default defineEventHandler(async (event) => {
     // Fetch article from Supabase using the query builder
     const { data: article, error: fetchError } = await getArticleQuery(event)
       .eq('id', articleId)
-      .single();
+      .single() as { data: ArticleWithRelations | null, error: PostgrestError | null };
 
     if (fetchError || !article) {
       throw createError({
@@ -39,34 +45,28 @@ export default defineEventHandler(async (event) => {
       title: article.title
     });
 
-    // Get runtime config
-    const config = useRuntimeConfig();
+    // LLM provider configured for this environment (llm.ts)
+    const provider = useLlmProvider({ prompt: BLOG_ENHANCEMENT });
 
-    // Process with OpenRouter
-    const suggestions = await getArticleEnhancedContent(article.content, {
-      apiKey: config.openRouterKey,
-    });
-
-    // Save enhanced content back to Supabase
-    const { error: updateError } = await updateArticle(event, article.id, {
-      ai_content: suggestions
-      }).select('*');
+    // Process with the LLM provider
+    const suggestions = await getArticleEnhancedContent(article.content, provider);
 
-    if (updateError) throw updateError;
+    // Save enhanced content for review
+    const pending = await saveSuggestions(serverSupabaseServiceRole(event), article.id, [
+      { field: 'ai_content', value: suggestions, model: provider.model, ...promptRef(BLOG_ENHANCEMENT) }
+    ], article.link);
 
     console.info('Article enhancement completed successfully');
 
     return { 
       suggestions,
-      article: {
-        ...article,
-        ai_content: suggestions
-      }
+      pending,
+      article
     };
   } catch (error) {
     console.error('Article enhancement failed:', error);
 
-    if (error instanceof OpenRouterError) {
+    if (error instanceof LlmError || error instanceof AiBudgetError) {
       throw createError({
         statusCode: error.statusCode || 500,
         message: error.message
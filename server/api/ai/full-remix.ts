@@ -1,6 +1,12 @@
-import { BLOG_ENHANCEMENT, formatPrompt } from '~/server/utils/prompts';
-import { processArticleWithAI, OpenRouterError } from '~/server/utils/openRouter';
+import { ARTICLE_SUMMARY, BLOG_ENHANCEMENT, TITLE_OPTIMIZATION, promptRef } from '~/server/utils/prompts';
+import { useLlmProvider, LlmError } from '~/server/utils/llm';
+import { AiBudgetError } from '~/server/utils/ai-usage';
+import { TITLE_TASK, runAiTask } from '~/server/utils/ai-tasks';
 import type { ArticleWithRelations, SupabaseError } from '~/server/utils/types';
+import { enhanceHtmlInChunks, summarizeInChunks } from '~/server/utils/chunking';
+import { saveSuggestions } from '~/server/utils/suggestions';
+import type { NewSuggestion } from '~/server/utils/suggestions';
+import { serverSupabaseServiceRole } from '#supabase/server';
 import { createError } from 'h3';
 
 export default defineEventHandler(async (event) => {
@@ -43,67 +49,58 @@ export default defineEventHandler(async (event) => {
         message: 'Article content is required'
       });
     }
-    // Get runtime config
-    const config = useRuntimeConfig();
     let suggestions = '';
     let summary = '';
     let newTitle = '';
-    let toUpdate = {}
+    const toSuggest: NewSuggestion[] = []
    
     if (doContent) {
-      const enchancementPrompt = formatPrompt(BLOG_ENHANCEMENT, {
-        articleContent: article.content
-      });
-      suggestions = await processArticleWithAI(enchancementPrompt, {
-        apiKey: config.openRouterKey,
-      });
-      toUpdate = { ai_content: suggestions }
+      // LLM provider configured for this environment and prompt (llm.ts)
+      const provider = useLlmProvider({ prompt: BLOG_ENHANCEMENT });
+      // Long articles are enhanced chunk by chunk (chunking.ts)
+      suggestions = await enhanceHtmlInChunks(article.content, provider);
+      toSuggest.push({ field: 'ai_content', value: suggestions, model: provider.model, ...promptRef(BLOG_ENHANCEMENT) })
     }
     
     if (doSummary) {
-      const summaryPrompt = formatPrompt(ARTICLE_SUMMARY, {
+      const provider = useLlmProvider({ prompt: ARTICLE_SUMMARY });
+      // Validated JSON, no quotes or Markdown to strip (ai-tasks.ts)
+      ({ summary } = await summarizeInChunks({
         articleContent: article.content,
         title: article.title,
         categories: article.categories?.map(c => c.category.name),
         tags: article.tags?.map(t => t.tag.name)
-      });
-      summary = await processArticleWithAI(summaryPrompt, {
-        apiKey: config.openRouterKey,
-      })
-      summary = summary.replaceAll('"', '').replaceAll('*', '');
-      toUpdate = { ai_summary: summary }
+      }, provider))
+      toSuggest.push({ field: 'ai_summary', value: summary, model: provider.model, ...promptRef(ARTICLE_SUMMARY) })
     }
 
      if (doTitle) {
-      const newTitlePrompt = formatPrompt(TITLE_OPTIMIZATION, {
+      const provider = useLlmProvider({ prompt: TITLE_OPTIMIZATION });
+      ({ title: newTitle } = await runAiTask(TITLE_TASK, {
         articleContent: article.content,
-        title: article.title
-      });
-      newTitle = await processArticleWithAI(newTitlePrompt, {
-        apiKey: config.openRouterKey,
-      });
-      newTitle = newTitle.replaceAll('"', '');
-      toUpdate = { ai_title: newTitle }
+        title: article.title,
+        categories: article.categories?.map(c => c.category.name),
+        tags: article.tags?.map(t => t.tag.name)
+      }, provider));
+      toSuggest.push({ field: 'ai_title', value: newTitle, model: provider.model, ...promptRef(TITLE_OPTIMIZATION) })
     }
 
-    console.info('Article enhancement:', toUpdate);
-
-    // Save enhanced content back to Supabase
-    const { data: updatedArticle, error: updateError } = await updateArticle(event, article.id, toUpdate)
-      .select('*');
+    console.info('Article enhancement:', toSuggest.map(suggestion => suggestion.field));
 
-    if (updateError) throw updateError;
+    // Save enhanced fields for review
+    const pending = await saveSuggestions(serverSupabaseServiceRole(event), article.id, toSuggest, article.link);
 
     return { 
       suggestions,
       summary,
       newTitle,
-      article: updatedArticle
+      pending,
+      article
     };
   } catch (error) {
     console.error('Article enhancement failed:', error);
 
-    if (error instanceof OpenRouterError) {
+    if (error instanceof LlmError || error instanceof AiBudgetError) {
       throw createError({
         statusCode: error.statusCode || 500,
         message: error.message
@@ -1,8 +1,11 @@
-import { TITLE_OPTIMIZATION, formatPrompt } from '~/server/utils/prompts';
-import { processArticleWithAI, OpenRouterError } from '~/server/utils/openRouter';
+import { TITLE_OPTIMIZATION, promptRef } from '~/server/utils/prompts';
+import { useLlmProvider, LlmError } from '~/server/utils/llm';
+import { AiBudgetError } from '~/server/utils/ai-usage';
+import { TITLE_TASK, runAiTask } from '~/server/utils/ai-tasks';
+import { saveSuggestions } from '~/server/utils/suggestions';
 import { serverSupabaseServiceRole } from '#supabase/server';
 import type { ArticleWithRelations } from '~/server/utils/types';
-import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { PostgrestError } from '@supabase/supabase-js';
 import { createError } from 'h3';
 
 export default defineEventHandler(async (event) => {
@@ -42,43 +45,33 @@ export default defineEventHandler(async (event) => {
       currentTitle: article.title
     });
 
-    // Format the prompt with article data
-    const prompt = formatPrompt(TITLE_OPTIMIZATION, {
-      articleContent: article.content,
-      title: article.title
-    });
-
-    // Get runtime config
-    const config = useRuntimeConfig();
+    // LLM provider configured for this environment (llm.ts)
+    const provider = useLlmProvider({ prompt: TITLE_OPTIMIZATION });
 
-    // Process with OpenRouter
-    const suggestions = await processArticleWithAI(prompt, {
-      apiKey: config.openRouterKey,
-    });
-
-    // Save optimized title back to Supabase
-    const supabase = serverSupabaseServiceRole(event) as SupabaseClient;
-    
-    const { error: updateError } = await supabase
-      .from('articles')
-      .update({ ai_title: suggestions })
-      .eq('id', article.id);
+    // Ask for the title as validated JSON (ai-tasks.ts)
+    const { title: suggestions } = await runAiTask(TITLE_TASK, {
+      articleContent: article.content,
+      title: article.title,
+      categories: article.categories?.map(c => c.category.name),
+      tags: article.tags?.map(t => t.tag.name)
+    }, provider);
 
-    if (updateError) throw updateError;
+    // Save optimized title for review
+    const pending = await saveSuggestions(serverSupabaseServiceRole(event), article.id, [
+      { field: 'ai_title', value: suggestions, model: provider.model, ...promptRef(TITLE_OPTIMIZATION) }
+    ]);
 
     console.info('Title optimization completed successfully');
 
     return { 
       suggestions,
-      article: {
-        ...article,
-        ai_title: suggestions
-      }
+      pending,
+      article
     };
   } catch (error) {
     console.error('Title optimization failed:', error);
 
-    if (error instanceof OpenRouterError) {
+    if (error instanceof LlmError || error instanceof AiBudgetError) {
       throw createError({
         statusCode: error.statusCode || 500,
         message: error.message
@@ -1,17 +1,14 @@
 import { defineEventHandler, createError } from 'h3';
-import type { ArticleWithRelations, SupabaseError } from '~/server/utils/types';
-import { delay } from '~/server/utils/crawler';
-import { getArticleEnhancedContent, getArticleSummary, getEnhancedTitle } from '~/server/utils/article.controller';
-
-// Delay constants (ms)
-const SUGGESTION_DELAY_MS = 20000;
-const SUMMARY_DELAY_MS    = 20000;
-const TITLE_DELAY_MS      = 20000;
-const UPDATE_DELAY_MS     = 5000;
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~/database.types';
+import { JobType, enqueueJob } from '~/server/utils/jobs';
+import { AiBudgetError, assertAiBudget } from '~/server/utils/ai-usage';
 
 export default defineEventHandler(async (event) => {
   const query = getQuery(event)
   const articleLimit =  Number(query.limit) || 10;
+  const model = typeof query.model === 'string' ? query.model : undefined;
+
   // Fetch articles
   const { data: articles, error: fetchError } = await getArticleQuery(event)
     .order('created_at', { ascending: false})
@@ -27,59 +24,30 @@ export default defineEventHandler(async (event) => {
     });
   }
 
-  const config = useRuntimeConfig();
-  const results: Array<{ id: string; status: 'success' | 'error'; error?: string }> = [];
+  const supabase = serverSupabaseServiceRole<Database>(event);
 
-  const openRouterConfig: OpenRouterConfig = {
-    apiKey: config.openRouterKey,
-    model: config.openRouterModel,
+  // Don't queue work the budget can't pay for
+  try {
+    await assertAiBudget(supabase);
+  } catch (err) {
+    if (err instanceof AiBudgetError) {
+      throw createError({ statusCode: err.statusCode, message: err.message, data: err.status });
+    }
+    throw err;
   }
-  // Process one article at a time to respect rate limits
-  for (const article of articles) {
-    try {
-      // 1) Generate enhancement suggestions
-      await delay(SUGGESTION_DELAY_MS);
-      const suggestions = await getArticleEnhancedContent(article.content, openRouterConfig);
-
-      // 2) Generate summary
-      await delay(SUMMARY_DELAY_MS);
-      const summary = await getArticleSummary(article, openRouterConfig);
-
-      // 3) Optimize title
-      await delay(TITLE_DELAY_MS);
-      const optimizedTitle = await getEnhancedTitle(article.title, article.content, openRouterConfig);
+  const results: Array<{ id: string; jobId: string | null }> = [];
 
-      console.info({
-        articleId: article.id,
-        suggestions,
-        summary,
-        optimizedTitle
-      })
-      // 4) Save all AI fields in one update
-      const { data, error: updateError } = await updateArticle(event, article.id, {
-        ai_content: suggestions,
-        ai_summary: summary,
-        ai_title:   optimizedTitle
-      }).select('*');
-
-      if (updateError) {
-        throw updateError;
-      }
-      console.info('Update response:', data);
-
-      results.push({ id: article.id, status: 'success' });
-      // Brief pause before next article
-      await delay(UPDATE_DELAY_MS);
-
-    } catch (err: SupabaseError) {
-      console.error(`Enhancement failed for article ${article.id}:`, err);
-      // If it's an OpenRouterError, convert to HTTP error once (outside loop)
-      results.push({
-        id:    article.id,
-        status:'error',
-        error: err.message || String(err)
-      });
-    }
+  // One job per article, all due now: the worker's AI calls are paced by
+  // the model's rate limit (server/utils/rate-limit.ts)
+  for (const article of articles) {
+    const job = await enqueueJob(
+      supabase,
+      JobType.AiRemix,
+      { articleId: article.id, model: model ?? null },
+      { dedupeKey: `${JobType.AiRemix}:${article.id}` }
+    );
+
+    results.push({ id: article.id, jobId: job?.id ?? null });
   }
 
   return {
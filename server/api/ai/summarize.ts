@@ -1,8 +1,11 @@
-import { ARTICLE_SUMMARY, formatPrompt } from '~/server/utils/prompts';
-import { processArticleWithAI, OpenRouterError } from '~/server/utils/openRouter';
+import { ARTICLE_SUMMARY, promptRef } from '~/server/utils/prompts';
+import { useLlmProvider, LlmError } from '~/server/utils/llm';
+import { AiBudgetError } from '~/server/utils/ai-usage';
+import { summarizeInChunks } from '~/server/utils/chunking';
+import { saveSuggestions } from '~/server/utils/suggestions';
 import { serverSupabaseServiceRole } from '#supabase/server';
 import type { ArticleWithRelations } from '~/server/utils/types';
-import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { PostgrestError } from '@supabase/supabase-js';
 import { createError } from 'h3';
 
 export default defineEventHandler(async (event) => {
@@ -42,45 +45,36 @@ export default defineEventHandler(async (event) => {
       title: article.title
     });
 
-    // Format the prompt with article data
-    const prompt = formatPrompt(ARTICLE_SUMMARY, {
+    // LLM provider configured for this environment (llm.ts)
+    const provider = useLlmProvider({ prompt: ARTICLE_SUMMARY });
+
+    // Summarize with the LLM provider (in parts for long articles, chunking.ts),
+    // validated as JSON with key points and reading level (ai-tasks.ts)
+    const { summary, keyPoints, readingLevel } = await summarizeInChunks({
       articleContent: article.content,
       title: article.title,
       categories: article.categories?.map(c => c.category.name),
       tags: article.tags?.map(t => t.tag.name)
-    });
-
-    // Get runtime config
-    const config = useRuntimeConfig();
-
-    // Process with OpenRouter
-    const summary = await processArticleWithAI(prompt, {
-      apiKey: config.openRouterKey,
-    });
-
-    // Save summary back to Supabase
-    const supabase = serverSupabaseServiceRole(event) as SupabaseClient;
-    
-    const { error: updateError } = await supabase
-      .from('articles')
-      .update({ ai_summary: summary })
-      .eq('id', article.id);
+    }, provider);
 
-    if (updateError) throw updateError;
+    // Save summary for review
+    const pending = await saveSuggestions(serverSupabaseServiceRole(event), article.id, [
+      { field: 'ai_summary', value: summary, model: provider.model, ...promptRef(ARTICLE_SUMMARY) }
+    ]);
 
     console.info('Article summarization completed successfully');
 
     return { 
       summary,
-      article: {
-        ...article,
-        ai_summary: summary
-      }
+      keyPoints,
+      readingLevel,
+      pending,
+      article
     };
   } catch (error) {
     console.error('Article summarization failed:', error);
 
-    if (error instanceof OpenRouterError) {
+    if (error instanceof LlmError || error instanceof AiBudgetError) {
       throw createError({
         statusCode: error.statusCode || 500,
         message: error.message
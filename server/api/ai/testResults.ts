@@ -1,14 +1,7 @@
 import { defineEventHandler, createError } from 'h3';
-import { delay } from '~/server/utils/crawler';
 import { getArticleEnhancedContent, getArticleQueryWithRelations, getArticleSummary, getEnhancedTitle } from '~/server/utils/article.controller';
 import type { SupabaseError } from '~/server/utils/types';
 
-// Delay constants (ms)
-const SUGGESTION_DELAY_MS = 20000;
-const SUMMARY_DELAY_MS    = 20000;
-const TITLE_DELAY_MS      = 20000;
-const UPDATE_DELAY_MS     = 5000;
-
 export default defineEventHandler(async (event) => {
   const articleId = '137ad14d-3689-4a8a-becd-9b64ecfe5826'
   // Fetch articles
@@ -28,8 +21,6 @@ export default defineEventHandler(async (event) => {
 
   console.info('Article:', article);
 
-  const config = useRuntimeConfig();
-
   const modelsToTest = [
     'deepseek/deepseek-chat-v3-0324:free',
     'openai/gpt-4.1-nano',
@@ -39,22 +30,17 @@ export default defineEventHandler(async (event) => {
   const results: Array<{ model: string; suggestions: string; summary: string; optimizedTitle: string; id: string; status: 'success' | 'error'; error?: string }> = [];
   
   for (const model of modelsToTest) {
-    const openRouterConfig: OpenRouterConfig = {
-      apiKey: config.openRouterKey,
-      model,
-    }
+    // Configured provider (llm.ts) with its cache, usage recorder and rate limit
+    const provider = useLlmProvider({ model })
     try {
       // 1) Generate enhancement suggestions
-      await delay(SUGGESTION_DELAY_MS);
-      const suggestions = await getArticleEnhancedContent(article.content, openRouterConfig);
+      const suggestions = await getArticleEnhancedContent(article.content, provider);
 
       // 2) Generate summary
-      await delay(SUMMARY_DELAY_MS);
-      const summary = await getArticleSummary(article, openRouterConfig);
+      const summary = await getArticleSummary(article, provider);
 
       // 3) Optimize title
-      await delay(TITLE_DELAY_MS);
-      const optimizedTitle = await getEnhancedTitle(article.title, article.content, openRouterConfig);
+      const optimizedTitle = await getEnhancedTitle(article.title, article.content, provider);
 
       results.push({
         model,
@@ -64,9 +50,6 @@ export default defineEventHandler(async (event) => {
         id: article.id,
         status: 'success'
       });
-      // Brief pause before next article
-      await delay(UPDATE_DELAY_MS);
-
     } catch (err: SupabaseError) {
       console.error(`Enhancement failed for article ${article.id}:`, err);
     }
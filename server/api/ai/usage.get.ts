@@ -0,0 +1,33 @@
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import { getAiBudgetStatus, getAiUsage } from '~/server/utils/ai-usage'
+
+/**
+ * AI calls, tokens, latency and estimated cost (see ai-usage.ts), per UTC day
+ * and per model, with spend against the budget caps.
+ *
+ * Query Params:
+ * - days: Period ending today (default: 30, at most 366)
+ *
+ * @endpoint GET /api/ai/usage
+ * @returns {AiUsageReport & { budget: AiBudgetStatus }}
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const days = Math.min(366, Math.max(1, Number(query.days) || 30))
+
+  const now = new Date()
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)))
+  const client = serverSupabaseServiceRole<Database>(event)
+
+  try {
+    const [report, budget] = await Promise.all([getAiUsage(client, since), getAiBudgetStatus(client)])
+    return { ...report, budget }
+  } catch (err) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: err instanceof Error ? err.message : 'Unknown error',
+    })
+  }
+})
@@ -13,7 +13,7 @@ export default defineEventHandler(async (event) => {
           tag: tags ( id, name, slug )
         ),
         categories: article_categories (
-          category: categories ( id, name )
+          category: categories ( id, name, slug )
         )
       `)
       .eq('id', id)
@@ -0,0 +1,28 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import { buildCommentThreads } from '~/server/utils/comments'
+
+/**
+ * Get an article's comments as threads, replies nested under the comment
+ * they answer (oldest first).
+ *
+ * @endpoint GET /api/articles/{id}/comments
+ */
+export default defineEventHandler(async (event) => {
+  const { id } = event.context.params as { id: string }
+
+  const { data, error } = await serverSupabaseServiceRole<Database>(event)
+    .from('comments')
+    .select('*')
+    .eq('article_id', id)
+
+  if (error) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: error.message
+    })
+  }
+
+  return buildCommentThreads(data ?? [])
+})
@@ -0,0 +1,88 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { ArticleLink, ArticleNavigation, SeriesArticle } from '~/server/utils/types'
+import { cursorFilter } from '~/server/utils/listing'
+
+const linkColumns = 'id, title, ai_title, created_at'
+
+/**
+ * Get an article's chronological previous/next posts (same site) and the
+ * series it belongs to with all its articles (see series.ts).
+ *
+ * @endpoint GET /api/articles/{id}/navigation
+ * @returns {ArticleNavigation} Previous, next and series (null where there is none)
+ */
+export default defineEventHandler(async (event): Promise<ArticleNavigation> => {
+  const { id } = event.context.params as { id: string }
+  const client = serverSupabaseServiceRole<Database>(event)
+
+  const { data: article, error } = await client
+    .from('articles')
+    .select('id, source, created_at, membership: article_series ( series_id )')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!article) {
+    throw createError({ statusCode: 404, statusMessage: `Article not found: ${id}` })
+  }
+
+  // Neighbours in the listing's date order: (created_at, id) just past this article
+  const neighbour = async (order: 'asc' | 'desc'): Promise<ArticleLink | null> => {
+    const { data, error: neighbourError } = await client
+      .from('articles')
+      .select(linkColumns)
+      .eq('source', article.source)
+      .or(cursorFilter({ sort: 'date', order, value: article.created_at, id: article.id }))
+      .order('created_at', { ascending: order === 'asc' })
+      .order('id', { ascending: order === 'asc' })
+      .limit(1)
+      .maybeSingle()
+
+    if (neighbourError) {
+      throw createError({ statusCode: 500, statusMessage: neighbourError.message })
+    }
+    return data
+  }
+
+  const [previous, next] = await Promise.all([neighbour('desc'), neighbour('asc')])
+
+  // === Series ===
+  const seriesId = [article.membership].flat()[0]?.series_id
+  if (!seriesId) return { previous, next, series: null }
+
+  const { data: series, error: seriesError } = await client
+    .from('series')
+    .select(`
+      id, slug, name,
+      members: article_series (
+        position, part,
+        article: articles ( ${linkColumns} )
+      )
+    `)
+    .eq('id', seriesId)
+    .order('position', { referencedTable: 'article_series' })
+    .single()
+
+  if (seriesError) {
+    throw createError({ statusCode: 500, statusMessage: seriesError.message })
+  }
+
+  const articles: SeriesArticle[] = series.members.flatMap(({ position, part, article: member }) =>
+    member ? [{ ...member, position, part }] : [])
+
+  return {
+    previous,
+    next,
+    series: {
+      id: series.id,
+      slug: series.slug,
+      name: series.name,
+      position: articles.find(member => member.id === article.id)?.position ?? 0,
+      articles,
+    },
+  }
+})
@@ -0,0 +1,33 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+
+/**
+ * Get an article's related posts (from the YARPP block on the original page),
+ * in the order the blog showed them.
+ *
+ * @endpoint GET /api/articles/{id}/related
+ */
+export default defineEventHandler(async (event) => {
+  const { id } = event.context.params as { id: string }
+
+  const { data, error } = await serverSupabaseServiceRole<Database>(event)
+    .from('article_related')
+    .select(`
+      position,
+      article: articles!article_related_related_article_id_fkey (
+        id, title, ai_title, summary, images, created_at
+      )
+    `)
+    .eq('article_id', id)
+    .order('position')
+
+  if (error) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: error.message
+    })
+  }
+
+  return (data ?? []).map(row => row.article)
+})
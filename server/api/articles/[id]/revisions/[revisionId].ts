@@ -0,0 +1,30 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { ArticleRevision } from '~/server/utils/types'
+
+/**
+ * Get one revision of an article with its value.
+ *
+ * @endpoint GET /api/articles/{id}/revisions/{revisionId}
+ * @returns {ArticleRevision} Revision (404 if it isn't one of the article's)
+ */
+export default defineEventHandler(async (event): Promise<ArticleRevision> => {
+  const { id, revisionId } = event.context.params as { id: string; revisionId: string }
+
+  const { data, error } = await serverSupabaseServiceRole<Database>(event)
+    .from('article_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .eq('article_id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: `Revision not found: ${revisionId}` })
+  }
+
+  return data
+})
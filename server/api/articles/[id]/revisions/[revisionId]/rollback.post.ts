@@ -0,0 +1,39 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import { JobType, enqueueJob } from '~/server/utils/jobs'
+import { rollbackArticleRevision } from '~/server/utils/revisions'
+
+/**
+ * Restore a revision's value to its article field. The rollback is recorded
+ * as a new revision; restored content gets its images mirrored and links
+ * rewritten again.
+ *
+ * @endpoint POST /api/articles/{id}/revisions/{revisionId}/rollback
+ * @returns {{ field: string, revisionId: string }} Field restored and the revision it came from
+ */
+export default defineEventHandler(async (event) => {
+  const { id, revisionId } = event.context.params as { id: string; revisionId: string }
+  const client = serverSupabaseServiceRole<Database>(event)
+
+  let revision
+  try {
+    revision = await rollbackArticleRevision(client, id, revisionId)
+  } catch (err) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: err instanceof Error ? err.message : 'Unknown error'
+    })
+  }
+
+  if (!revision) {
+    throw createError({ statusCode: 404, statusMessage: `Revision not found: ${revisionId}` })
+  }
+
+  if (revision.field === 'content') {
+    await enqueueJob(client, JobType.MirrorImages, { articleId: id }, { dedupeKey: `${JobType.MirrorImages}:${id}` })
+    await enqueueJob(client, JobType.RewriteLinks, { articleId: id }, { dedupeKey: `${JobType.RewriteLinks}:${id}` })
+  }
+
+  return { field: revision.field, revisionId: revision.id }
+})
@@ -0,0 +1,77 @@
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { ArticleRevision, RevisionDiff, RevisionSummary } from '~/server/utils/types'
+import { diffRevisionValues, isRevisionField } from '~/server/utils/revisions'
+
+/**
+ * Drop the value (returned as diff parts instead).
+ */
+function toSummary({ value: _value, value_hash: _hash, ...summary }: ArticleRevision): RevisionSummary {
+  return summary
+}
+
+/**
+ * Compare two revisions of the same field, or a revision with the article's
+ * current value. HTML fields are compared by line, titles and summaries by word.
+ *
+ * Query Params:
+ * - from: Older revision id (required)
+ * - to: Newer revision id (default: the current value of from's field)
+ *
+ * Usage:
+ * GET /api/articles/{id}/revisions/diff?from={revisionId}&to={revisionId}
+ *
+ * @endpoint GET /api/articles/{id}/revisions/diff
+ * @returns {RevisionDiff} Both revisions and the runs of equal, removed and added text
+ */
+export default defineEventHandler(async (event): Promise<RevisionDiff> => {
+  const { id } = event.context.params as { id: string }
+  const query = getQuery(event)
+  const client = serverSupabaseServiceRole<Database>(event)
+
+  if (typeof query.from !== 'string' || !query.from) {
+    throw createError({ statusCode: 400, statusMessage: 'from (revision id) is required' })
+  }
+
+  const ids = [query.from, typeof query.to === 'string' && query.to ? query.to : null]
+  const { data: revisions, error } = await client
+    .from('article_revisions')
+    .select('*')
+    .eq('article_id', id)
+    .in('id', ids.filter((revisionId): revisionId is string => revisionId !== null))
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  const [from, to] = ids.map(revisionId => revisions?.find(revision => revision.id === revisionId) ?? null)
+  if (!from || (ids[1] && !to)) {
+    throw createError({ statusCode: 404, statusMessage: 'Revision not found' })
+  }
+  if (!isRevisionField(from.field) || (to && to.field !== from.field)) {
+    throw createError({ statusCode: 400, statusMessage: 'Revisions belong to different fields' })
+  }
+
+  // Without `to`, compare with what the article shows now
+  let toValue = to?.value
+  if (!to) {
+    const { data: article, error: articleError } = await client
+      .from('articles')
+      .select(from.field)
+      .eq('id', id)
+      .single()
+
+    if (articleError) {
+      throw createError({ statusCode: 500, statusMessage: articleError.message })
+    }
+    toValue = (article as Record<string, string | null>)[from.field] ?? ''
+  }
+
+  return {
+    field: from.field,
+    from: toSummary(from),
+    to: to && toSummary(to),
+    parts: diffRevisionValues(from.value, toValue ?? '', from.field),
+  }
+})
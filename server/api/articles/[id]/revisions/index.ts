@@ -0,0 +1,40 @@
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { RevisionSummary } from '~/server/utils/types'
+import { REVISION_FIELDS, REVISION_SUMMARY_COLUMNS, isRevisionField } from '~/server/utils/revisions'
+
+/**
+ * List an article's revisions, newest first, without their values
+ * (GET /api/articles/{id}/revisions/{revisionId} has the value).
+ *
+ * Query Params:
+ * - field: Only revisions of content, ai_content, ai_title or ai_summary
+ *
+ * @endpoint GET /api/articles/{id}/revisions
+ * @returns {RevisionSummary[]} Revisions with source, model and prompt version
+ */
+export default defineEventHandler(async (event): Promise<RevisionSummary[]> => {
+  const { id } = event.context.params as { id: string }
+  const { field } = getQuery(event)
+
+  if (field !== undefined && !isRevisionField(field)) {
+    throw createError({ statusCode: 400, statusMessage: `Invalid field (expected ${REVISION_FIELDS.join(', ')})` })
+  }
+
+  let query = serverSupabaseServiceRole<Database>(event)
+    .from('article_revisions')
+    .select(REVISION_SUMMARY_COLUMNS)
+    .eq('article_id', id)
+    .order('created_at', { ascending: false })
+
+  if (field) query = query.eq('field', field)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  return data ?? []
+})
@@ -1,54 +1,80 @@
-import { defineEventHandler, createError, getQuery } from 'h3'
-import { serverSupabaseServiceRole } from '#supabase/server'
+import { defineEventHandler, createError, getQuery, isError } from 'h3'
 import type { ArticleWithRelations, PaginatedResponse } from '~/server/utils/types'
+import { ARTICLE_SORTS, cursorFilter, encodeCursor, parseArticleListQuery } from '~/server/utils/listing'
 
+/**
+ * List articles, filtered and sorted.
+ *
+ * Query Params:
+ * - tag: Only articles with this tag slug
+ * - category: Only articles in this category slug
+ * - year / month: Only articles published in this year, or month of it (month 1-12, needs year)
+ * - hasAi: true / false, only articles with / without AI content
+ * - hasComments: true / false, only articles with / without comments
+ * - sort: date (default, newest first), title (A-Z) or comments (most first)
+ * - order: asc / desc, overrides the sort's direction
+ * - page / limit: Offset pagination (default 1 / 12, max limit 50)
+ * - cursor: meta.nextCursor of the previous page; continues after it and
+ *   ignores page, so articles inserted meanwhile don't shift the pages.
+ *   meta.total then counts the articles from the cursor on.
+ *
+ * Usage:
+ * GET /api/articles?category=roleplaying-games&year=2010&sort=comments
+ * GET /api/articles?limit=12&cursor=WyJkYXRlIiwiZGVzYyIs…
+ *
+ * @endpoint GET /api/articles
+ * @returns {PaginatedResponse<ArticleWithRelations>} Articles and meta (with nextCursor)
+ */
 export default defineEventHandler(async (event) => {
   try {
-    // Get pagination parameters from query
-    const query = getQuery(event)
-    const page = Math.max(1, Number(query.page) || 1)
-    const limit = Math.min(50, Math.max(1, Number(query.limit) || 12))
-    const offset = (page - 1) * limit
-
-    // Get total count
-    const { count, error: countError } = await serverSupabaseServiceRole(event)
-      .from('articles')
-      .select('id', { count: 'exact', head: true })
-
-    if (countError) throw countError
-    if (count === null) throw new Error('Failed to get total count')
+    const { sort, order, page, limit, cursor, ...filter } = parseArticleListQuery(getQuery(event))
+    const column = ARTICLE_SORTS[sort]
+    const ascending = order === 'asc'
 
-    // Get paginated data
-    const { data, error } = await getArticleQueryWithRelations(event)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1) as {
-        data: ArticleWithRelations[] | null;
-        error: SupabaseError | null;
-      }
+    // Sort by the chosen column with id as tie-breaker, so cursors are exact
+    let query = getArticleQueryWithRelations(event, filter, { count: 'exact' })
+      .order(column, { ascending })
+      .order('id', { ascending })
 
-    if (error) throw error
+    // One extra row tells whether there is a next page
+    query = cursor
+      ? query.or(cursorFilter(cursor)).limit(limit + 1)
+      : query.range((page - 1) * limit, page * limit)
+
+    const { data, error, count } = await query as {
+      data: Array<ArticleWithRelations & { tag_filter?: unknown; category_filter?: unknown }> | null;
+      error: SupabaseError | null;
+      count: number | null;
+    }
 
-    // Calculate pagination metadata
-    const totalPages = Math.ceil(count / limit)
-    const hasMore = page < totalPages
+    if (error) throw error
+    if (count === null) throw new Error('Failed to get total count')
 
-    // Ensure data is never null
-    const articles = data || []
+    // Ensure data is never null; drop the joins used only for filtering
+    const rows = (data || []).map(({ tag_filter: _tag, category_filter: _category, ...article }) => article)
+    const articles = rows.slice(0, limit)
+    const hasMore = rows.length > limit
     console.info('Articles:', articles)
-    
+
+    const last = articles[articles.length - 1]
+
     return {
       data: articles,
       meta: {
         total: count,
         page,
-        totalPages,
-        hasMore
+        totalPages: Math.ceil(count / limit),
+        hasMore,
+        nextCursor: hasMore && last
+          ? encodeCursor({ sort, order, value: last[column], id: last.id })
+          : null
       }
     } satisfies PaginatedResponse<ArticleWithRelations>
   } catch (err) {
-    throw createError({ 
-      statusCode: 500, 
-      statusMessage: err instanceof Error ? err.message : 'Unknown error' 
+    if (isError(err)) throw err
+    throw createError({
+      statusCode: 500,
+      statusMessage: err instanceof Error ? err.message : 'Unknown error'
     })
   }
 })
@@ -0,0 +1,42 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { Category, CategoryWithCount, TaxonomyDetail } from '~/server/utils/types'
+
+/**
+ * Get a category by slug with its article count and related tags (the tags
+ * used most in the category). Its articles come from
+ * GET /api/articles?category={slug}.
+ *
+ * @endpoint GET /api/categories/{slug}
+ * @returns {TaxonomyDetail<Category>} Category, article_count and related tags
+ */
+export default defineEventHandler(async (event) => {
+  const { slug } = event.context.params as { slug: string }
+  const client = serverSupabaseServiceRole<Database>(event)
+
+  const { data: category, error } = await client
+    .from('category_counts')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!category) {
+    throw createError({ statusCode: 404, statusMessage: `Category not found: ${slug}` })
+  }
+
+  const { data: related, error: relatedError } = await client
+    .rpc('related_tags', { category_slug: slug })
+
+  if (relatedError) {
+    throw createError({ statusCode: 500, statusMessage: relatedError.message })
+  }
+
+  return {
+    ...(category as CategoryWithCount),
+    related: related ?? [],
+  } satisfies TaxonomyDetail<Category>
+})
@@ -0,0 +1,32 @@
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { CategoryWithCount } from '~/server/utils/types'
+
+/**
+ * List categories with their article counts (category_counts view).
+ *
+ * Query Params:
+ * - sort: 'name' (default) or 'count' (largest first)
+ *
+ * @endpoint GET /api/categories
+ * @returns {CategoryWithCount[]} Categories with article_count
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+
+  try {
+    const { data, error } = await serverSupabaseServiceRole<Database>(event)
+      .from('category_counts')
+      .select('*')
+      .order(query.sort === 'count' ? 'article_count' : 'name', { ascending: query.sort !== 'count' })
+
+    if (error) throw error
+    return (data ?? []) as CategoryWithCount[]
+  } catch (err) {
+    throw createError({ 
+      statusCode: 500, 
+      statusMessage: err instanceof Error ? err.message : 'Unknown error' 
+    })
+  }
+})
@@ -0,0 +1,42 @@
+/**
+ * ALEXANDRIAN SCRAPING - Link Classification Endpoint
+ *
+ * Queues a classify job that sets CrawlStatus Article, Tag and Category on
+ * Visited links (see classifier.ts) and updates found_links in bulk.
+ * Review the proposed changes first with GET /api/classify/report.
+ *
+ * A classify job is also queued automatically when a crawl finishes.
+ *
+ * Usage:
+ * GET /api/classify
+ * GET /api/classify?structureChecks=false      (URL rules only)
+ * GET /api/classify?structureLimit=500
+ *
+ * @endpoint GET /api/classify
+ * @returns {{ job: Job | null, message: string }} Queued job (null if classification is already active)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { JobType, enqueueJob } from '../../utils/jobs';
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event);
+  const structureChecks = query.structureChecks !== 'false';
+  const structureLimit = query.structureLimit === undefined ? 200 : Number(query.structureLimit);
+  if (Number.isNaN(structureLimit)) {
+    throw createError({ statusCode: 400, statusMessage: 'structureLimit must be a number' });
+  }
+
+  const job = await enqueueJob(
+    serverSupabaseServiceRole<Database>(event),
+    JobType.Classify,
+    { structureChecks, structureLimit: Math.max(0, structureLimit) },
+    { dedupeKey: JobType.Classify }
+  );
+
+  return {
+    job,
+    message: job ? 'Classification queued' : 'Classification is already queued or running',
+  };
+})
@@ -0,0 +1,54 @@
+/**
+ * ALEXANDRIAN SCRAPING - Link Classification Dry Run
+ *
+ * Runs the link classifier without updating found_links and returns how each
+ * Visited link would be classified, so the rules can be reviewed before
+ * GET /api/classify applies them.
+ *
+ * Structure checks fetch pages, so they are off by default here; enable them
+ * with a small limit to preview them.
+ *
+ * Query Params:
+ * - structureChecks: 'true' to fetch unmatched pages (default: false)
+ * - structureLimit: Maximum pages fetched (default: 20)
+ * - status: Only list changes to this CrawlStatus (e.g. 7)
+ * - limit: Maximum changes listed (default: 500; counts always cover all links)
+ *
+ * @endpoint GET /api/classify/report
+ * @returns {ClassificationReport} Proposed changes (applied: false)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { classifyLinks } from '../../utils/classifier';
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event);
+  const limit = Math.max(1, Number(query.limit) || 500);
+  const structureLimit = query.structureLimit === undefined ? 20 : Number(query.structureLimit);
+  if (Number.isNaN(structureLimit)) {
+    throw createError({ statusCode: 400, statusMessage: 'structureLimit must be a number' });
+  }
+
+  try {
+    const report = await classifyLinks(serverSupabaseServiceRole<Database>(event), {
+      dryRun: true,
+      structureChecks: query.structureChecks === 'true',
+      structureLimit: Math.max(0, structureLimit),
+    });
+
+    const changes = query.status !== undefined
+      ? report.changes.filter(change => change.to === Number(query.status))
+      : report.changes;
+
+    return {
+      ...report,
+      changes: changes.slice(0, limit),
+    };
+  } catch (err) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: err instanceof Error ? err.message : 'Unknown error',
+    });
+  }
+})
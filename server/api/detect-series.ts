@@ -0,0 +1,31 @@
+/**
+ * ALEXANDRIAN SCRAPING - Series Detection Endpoint
+ *
+ * Queues a detect-series job that groups all articles into multi-part series
+ * from title patterns and series tags (see series.ts). Scrapes queue one
+ * already; this is for backfills and after changing the detection rules.
+ *
+ * Usage:
+ * GET /api/detect-series
+ *
+ * @endpoint GET /api/detect-series
+ * @returns {{ job: Job | null, message: string }} Queued job (null if detection is already active)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { JobType, enqueueJob } from '../utils/jobs';
+
+export default defineEventHandler(async (event) => {
+  const job = await enqueueJob(
+    serverSupabaseServiceRole<Database>(event),
+    JobType.DetectSeries,
+    {},
+    { dedupeKey: JobType.DetectSeries }
+  );
+
+  return {
+    job,
+    message: job ? 'Series detection queued' : 'Series detection is already queued or running',
+  };
+})
@@ -0,0 +1,67 @@
+/**
+ * ALEXANDRIAN SCRAPING - Sitemap & Feed Discovery Endpoint
+ *
+ * Queues a discover job that reads the site's sitemaps and WordPress feeds and
+ * seeds found_links with pre-classified URLs (see discovery.ts). Much faster
+ * than a full breadth-first crawl, and records publish dates up front. Links
+ * that can't be classified from their URL are inserted as Pending and a crawl
+ * job is queued for them.
+ *
+ * Usage:
+ * Sitemaps and feeds:
+ * GET /api/discover
+ *
+ * Sitemaps only:
+ * GET /api/discover?sources=sitemap
+ *
+ * Feeds only, first 10 pages:
+ * GET /api/discover?sources=feed&maxFeedPages=10
+ *
+ * Another site (see site-profiles.ts):
+ * GET /api/discover?site=alexandrian
+ *
+ * @endpoint GET /api/discover
+ * @returns {{ job: Job | null, message: string }} Queued job (null if discovery is already active)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { JobType, enqueueJob } from '../utils/jobs';
+import { LinkSource } from '../utils/discovery';
+import { DEFAULT_SITE_PROFILE_ID, siteProfiles } from '../utils/site-profiles';
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event);
+  const sources = String(query.sources || `${LinkSource.Sitemap},${LinkSource.Feed}`).split(',');
+  const maxFeedPages = Math.max(1, Number(query.maxFeedPages) || 50);
+  const site = String(query.site || DEFAULT_SITE_PROFILE_ID);
+
+  const sitemaps = sources.includes(LinkSource.Sitemap);
+  const feeds = sources.includes(LinkSource.Feed);
+
+  if (!siteProfiles.some(profile => profile.id === site)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Unknown site: ${site}`,
+    });
+  }
+
+  if (!sitemaps && !feeds) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'sources must include sitemap and/or feed',
+    });
+  }
+
+  const job = await enqueueJob(
+    serverSupabaseServiceRole<Database>(event),
+    JobType.Discover,
+    { site, sitemaps, feeds, maxFeedPages },
+    { dedupeKey: `${JobType.Discover}:${site}` }
+  );
+
+  return {
+    job,
+    message: job ? 'Discovery queued' : 'Discovery is already queued or running',
+  };
+})
@@ -1,9 +1,12 @@
 import type { LinkRecord } from '../utils/crawler';
 import { CrawlStatus, exportLinksToJson, getLinksFromUrl } from '../utils/crawler';
+import { getSiteProfile } from '../utils/site-profiles';
 import { join } from 'node:path';
 
 export default defineEventHandler(async (event) => {
-  const startUrl = 'https://thealexandrian.net/';
+  const query = getQuery(event);
+  const { startUrl } = getSiteProfile(typeof query.site === 'string' ? query.site : undefined);
+  const origin = new URL(startUrl).origin;
   const visited = new Set<string>();
   const allLinks: LinkRecord[] = [];
   const toVisit = new Set<string>([startUrl]);
@@ -12,7 +15,7 @@ export default defineEventHandler(async (event) => {
 
   while (toVisit.size > 0) {
     const currentUrl = toVisit.values().next().value as string;
-    const shortUrl = currentUrl.replace('https://thealexandrian.net', '');
+    const shortUrl = currentUrl.replace(origin, '');
     console.info('Crawling:', shortUrl);
 
     const foundLinks = await getLinksFromUrl(currentUrl, visited);
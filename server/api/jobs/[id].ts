@@ -0,0 +1,34 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+
+/**
+ * Get a single background job, including its payload, result and last error.
+ *
+ * @endpoint GET /api/jobs/{id}
+ */
+export default defineEventHandler(async (event) => {
+  const { id } = event.context.params as { id: string }
+
+  const { data, error } = await serverSupabaseServiceRole<Database>(event)
+    .from('jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: error.message
+    })
+  }
+
+  if (!data) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Job not found'
+    })
+  }
+
+  return data
+})
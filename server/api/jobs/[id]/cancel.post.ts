@@ -0,0 +1,25 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import { cancelJob } from '~/server/utils/jobs'
+
+/**
+ * Cancel a queued or running job.
+ * Running jobs stop at their next cancellation check.
+ *
+ * @endpoint POST /api/jobs/{id}/cancel
+ */
+export default defineEventHandler(async (event) => {
+  const { id } = event.context.params as { id: string }
+
+  const job = await cancelJob(serverSupabaseServiceRole<Database>(event), id)
+
+  if (!job) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: 'Job not found or already finished'
+    })
+  }
+
+  return job
+})
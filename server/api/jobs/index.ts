@@ -0,0 +1,55 @@
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { Job, PaginatedResponse } from '~/server/utils/types'
+
+/**
+ * List background jobs, newest first.
+ *
+ * Query Params:
+ * - status: Filter by JobStatus (queued, running, succeeded, failed, cancelled)
+ * - type: Filter by JobType (crawl, scrape, ai-remix, recrawl, discover, classify,
+ *   resolve-related, mirror-images, rewrite-links, detect-series, sanitize-content)
+ * - page, limit: Pagination (limit capped at 100)
+ *
+ * @endpoint GET /api/jobs
+ */
+export default defineEventHandler(async (event) => {
+  try {
+    const query = getQuery(event)
+    const page = Math.max(1, Number(query.page) || 1)
+    const limit = Math.min(100, Math.max(1, Number(query.limit) || 20))
+    const offset = (page - 1) * limit
+
+    let jobsQuery = serverSupabaseServiceRole<Database>(event)
+      .from('jobs')
+      .select('*', { count: 'exact' })
+
+    if (typeof query.status === 'string') jobsQuery = jobsQuery.eq('status', query.status)
+    if (typeof query.type === 'string') jobsQuery = jobsQuery.eq('type', query.type)
+
+    const { data, count, error } = await jobsQuery
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) throw error
+
+    const total = count ?? 0
+    const totalPages = Math.ceil(total / limit)
+
+    return {
+      data: data ?? [],
+      meta: {
+        total,
+        page,
+        totalPages,
+        hasMore: page < totalPages
+      }
+    } satisfies PaginatedResponse<Job>
+  } catch (err) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: err instanceof Error ? err.message : 'Unknown error'
+    })
+  }
+})
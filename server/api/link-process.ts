@@ -11,7 +11,7 @@
  * - Populates tags and categories tables
  * - Classifies links by type (Tag vs Category)
  *
- * URL Pattern Matching:
+ * URL Pattern Matching (urlPatterns.tag / urlPatterns.category of the link's site profile):
  * - Tag pages: /tag/{tag-name} or /tag/{tag-name}/page/{number}
  * - Category pages: /category/{category-name} or /category/{category-name}/page/{number}
  *
@@ -36,6 +36,9 @@
 import { serverSupabaseClient } from '#supabase/server';
 import type { Database } from '~~/database.types';
 import { CrawlStatus } from '../utils/crawler';
+import type { SiteUrlPatterns } from '../utils/site-profiles';
+import { getSiteProfileForUrl } from '../utils/site-profiles';
+import { toSlug } from '../utils/links';
 
 export default defineEventHandler(async (event) => {
   const supabase = await serverSupabaseClient<Database>(event);
@@ -50,14 +53,14 @@ export default defineEventHandler(async (event) => {
      *
      * @param statusValue - CrawlStatus to filter by (Tag or Category)
      * @param table - Database table name ('tags' or 'categories')
-     * @param regex - Pattern to extract slug from URL
+     * @param pattern - Site profile URL pattern that captures the slug
      */
     async function handle(
       statusValue: CrawlStatus,
       table: 'tags' | 'categories',
-      regex: RegExp
+      pattern: keyof Pick<SiteUrlPatterns, 'tag' | 'category'>
     ) {
-      console.table({ statusValue, table, regex });
+      console.table({ statusValue, table, pattern });
 
       // Fetch all links with specified status (Tag or Category)
       const { data: links, error: loadError } = await supabase
@@ -76,9 +79,10 @@ export default defineEventHandler(async (event) => {
 
       // Process each link individually
       for (const link of links || []) {
-        // Extract slug from URL using regex
+        // Extract slug from URL using the site's pattern
         // Example: /tag/rpg/page/2 => captures "rpg"
-        const m = link.href?.match(regex);
+        const profile = link.href ? getSiteProfileForUrl(link.href) : null;
+        const m = profile ? link.href?.match(profile.urlPatterns[pattern]) : null;
         console.log('Link:', link.href);
         console.log('Match:', m);
 
@@ -100,9 +104,11 @@ export default defineEventHandler(async (event) => {
         console.log('Name:', name);
 
         // Title-case the name (capitalize first letter of each word)
+        // Keep the slug so internal links to this page can be rewritten (links.ts)
         const row  = {
           name: name.replace(/\b\w/g, c => c.toUpperCase()),
-          description: ''
+          description: '',
+          slug: toSlug(decodeURIComponent(slug))
         };
         console.log('Row:', row);
 
@@ -120,19 +126,11 @@ export default defineEventHandler(async (event) => {
 
     // Process tag links (status = 5)
     // Pattern: /tag/{tag-name} or /tag/{tag-name}/page/{number}
-    await handle(
-      CrawlStatus.Tag,
-      'tags',
-      /\/tag\/([^\/]+)(?:\/page\/\d+)?/
-    );
+    await handle(CrawlStatus.Tag, 'tags', 'tag');
 
     // Process category links (status = 6)
     // Pattern: /category/{category-name} or /category/{category-name}/page/{number}
-    await handle(
-      CrawlStatus.Category,
-      'categories',
-      /\/category\/([^\/]+)(?:\/page\/\d+)?/
-    );
+    await handle(CrawlStatus.Category, 'categories', 'category');
   }
   
   await processFoundLinks().catch(console.error);
@@ -0,0 +1,52 @@
+/**
+ * ALEXANDRIAN SCRAPING - Image Mirroring Endpoint
+ *
+ * Queues mirror-images jobs for articles whose images aren't mirrored yet
+ * (articles.images_mirrored_at is NULL), see assets.ts. Scrape jobs already
+ * queue one for each article they save; this endpoint is for backfills and
+ * for retrying articles where some images failed.
+ *
+ * Usage:
+ * GET /api/mirror-images
+ * GET /api/mirror-images?limit=200
+ *
+ * @endpoint GET /api/mirror-images
+ * @returns {{ results: Array<{ id: string, jobId: string | null }>, count: number }} Queued jobs (jobId null if already queued)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { JobType, enqueueJob } from '../utils/jobs';
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event);
+  const limit = Math.min(1000, Math.max(1, Number(query.limit) || 50));
+  const supabase = serverSupabaseServiceRole<Database>(event);
+
+  const { data: articles, error } = await supabase
+    .from('articles')
+    .select('id')
+    .is('images_mirrored_at', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message });
+  }
+
+  const results: Array<{ id: string; jobId: string | null }> = [];
+  for (const article of articles ?? []) {
+    const job = await enqueueJob(
+      supabase,
+      JobType.MirrorImages,
+      { articleId: article.id },
+      { dedupeKey: `${JobType.MirrorImages}:${article.id}` }
+    );
+    results.push({ id: article.id, jobId: job?.id ?? null });
+  }
+
+  return {
+    results,
+    count: results.length,
+  };
+})
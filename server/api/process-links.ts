@@ -25,7 +25,8 @@
  *    a. Scrape article content from HTML
  *    b. Insert article record
  *    c. Upsert tags and create relationships
- *    d. Mark link as processed
+ *    d. Link related posts
+ *    e. Mark link as processed
  * 5. On error: Attempt cleanup of partial inserts
  *
  * Transactional Safety:
@@ -50,6 +51,8 @@ import { serverSupabaseClient } from '#supabase/server';
 import type { Database } from '../../database.types';
 import { CrawlStatus } from '../utils/crawler';
 import { scrapeArticles } from '../utils/scraper';
+import { saveRelatedArticles } from '../utils/related';
+import { toSlug } from '../utils/links';
 
 export default defineEventHandler(async (event) => {
   console.log('[Process Links] Starting link processor');
@@ -121,7 +124,9 @@ export default defineEventHandler(async (event) => {
           created_at: typeof scrapedArticle.created_at === 'string'
             ? scrapedArticle.created_at
             : new Date(scrapedArticle.created_at).toISOString(),
-          old_id: scrapedArticle.old_id
+          old_id: scrapedArticle.old_id,
+          source: scrapedArticle.source,
+          related_old_ids: scrapedArticle.related_ids.filter(id => id > 0)
         } satisfies Omit<Database['public']['Tables']['articles']['Insert'], 'id'>)
         .select('id')
         .single();
@@ -139,7 +144,7 @@ export default defineEventHandler(async (event) => {
           .upsert({
             name: tagName,
             description: `Tag for ${tagName}`,
-            slug: tagName.toLowerCase().replace(/[^a-z0-9]+/g, '-')  // URL-safe slug
+            slug: toSlug(tagName)  // URL-safe slug
           })
           .select('id')
           .single();
@@ -162,7 +167,16 @@ export default defineEventHandler(async (event) => {
 
       console.log(`[Process Links] Created ${tagIds.length} tag relationships`);
 
-      // Step 3: Mark Link as Processed
+      // Step 3: Link Related Posts (both directions, see related.ts)
+      const related = await saveRelatedArticles(client, {
+        id: article.id,
+        source: scrapedArticle.source,
+        old_id: scrapedArticle.old_id,
+        related_old_ids: scrapedArticle.related_ids.filter(id => id > 0),
+      });
+      console.log(`[Process Links] Linked ${related.linked} related posts (${related.unresolved} not scraped yet)`);
+
+      // Step 4: Mark Link as Processed
       const { error: updateError } = await client
         .from('found_links')
         .update({ processed_at: new Date().toISOString() })
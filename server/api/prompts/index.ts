@@ -0,0 +1,20 @@
+import { defineEventHandler } from 'h3'
+import { PROMPT_REGISTRY } from '~/server/utils/prompts'
+
+/**
+ * List the registered prompt templates, to look up the prompt id and version
+ * recorded with AI suggestions and revisions.
+ *
+ * @endpoint GET /api/prompts
+ */
+export default defineEventHandler(() => {
+  return Object.values(PROMPT_REGISTRY).map(template => ({
+    id: template.id,
+    version: template.version,
+    description: template.description,
+    model: template.model ?? null,
+    parameters: template.parameters,
+    variables: template.variables,
+    prompt: template.prompt,
+  }))
+})
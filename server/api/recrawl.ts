@@ -0,0 +1,41 @@
+/**
+ * ALEXANDRIAN SCRAPING - Incremental Re-crawl Endpoint
+ *
+ * Queues an incremental re-crawl that revisits the home page and the tag and
+ * category listing pages, records new links and queues changed articles for
+ * re-scraping (see recrawl.ts). With intervalMinutes, the recrawl job
+ * reschedules itself after every run, keeping the mirror current.
+ *
+ * Usage:
+ * Run once:
+ * GET /api/recrawl
+ *
+ * Run every 6 hours:
+ * GET /api/recrawl?intervalMinutes=360
+ *
+ * Stop a schedule by cancelling the queued job (POST /api/jobs/{id}/cancel).
+ *
+ * @endpoint GET /api/recrawl
+ * @returns {{ job: Job | null, message: string }} Queued job (null if a re-crawl is already active)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { JobType, enqueueJob } from '../utils/jobs';
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event);
+  const intervalMinutes = Math.max(0, Number(query.intervalMinutes) || 0);
+
+  const job = await enqueueJob(
+    serverSupabaseServiceRole<Database>(event),
+    JobType.Recrawl,
+    { intervalMinutes },
+    { dedupeKey: JobType.Recrawl }
+  );
+
+  return {
+    job,
+    message: job ? 'Re-crawl queued' : 'A re-crawl is already queued or running',
+  };
+})
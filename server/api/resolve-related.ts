@@ -0,0 +1,32 @@
+/**
+ * ALEXANDRIAN SCRAPING - Related Posts Resolution Endpoint
+ *
+ * Queues a resolve-related job that links every article's YARPP related posts
+ * whose targets are scraped (see related.ts). Scraping already links new
+ * articles in both directions; this pass is for backfills and repairs, e.g.
+ * after a bulk re-scrape.
+ *
+ * Usage:
+ * GET /api/resolve-related
+ *
+ * @endpoint GET /api/resolve-related
+ * @returns {{ job: Job | null, message: string }} Queued job (null if resolution is already active)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { JobType, enqueueJob } from '../utils/jobs';
+
+export default defineEventHandler(async (event) => {
+  const job = await enqueueJob(
+    serverSupabaseServiceRole<Database>(event),
+    JobType.ResolveRelated,
+    {},
+    { dedupeKey: JobType.ResolveRelated }
+  );
+
+  return {
+    job,
+    message: job ? 'Related posts resolution queued' : 'Related posts resolution is already queued or running',
+  };
+})
@@ -0,0 +1,63 @@
+/**
+ * ALEXANDRIAN SCRAPING - Internal Link Rewriting Endpoint
+ *
+ * Queues rewrite-links jobs (see links.ts) for articles whose links aren't
+ * rewritten yet (articles.links_rewritten_at is NULL). Scrape jobs already
+ * queue one for each article they save; this endpoint is for backfills and,
+ * with ?unresolved=true, for retrying articles whose links had missing
+ * targets (e.g. after new tags or categories were added).
+ *
+ * Usage:
+ * GET /api/rewrite-links
+ * GET /api/rewrite-links?limit=200
+ * GET /api/rewrite-links?unresolved=true
+ *
+ * @endpoint GET /api/rewrite-links
+ * @returns {{ results: Array<{ id: string, jobId: string | null }>, count: number }} Queued jobs (jobId null if already queued)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { JobType, enqueueJob } from '../../utils/jobs';
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event);
+  const limit = Math.min(1000, Math.max(1, Number(query.limit) || 50));
+  const supabase = serverSupabaseServiceRole<Database>(event);
+
+  const { data: rows, error } = query.unresolved === 'true'
+    ? await supabase
+      .from('unresolved_links')
+      .select('id: article_id')
+      .order('created_at', { ascending: true })
+      .limit(limit * 10)
+    : await supabase
+      .from('articles')
+      .select('id')
+      .is('links_rewritten_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message });
+  }
+
+  // unresolved_links has one row per link; queue each article once
+  const articleIds = [...new Set((rows ?? []).map(row => row.id))].slice(0, limit);
+
+  const results: Array<{ id: string; jobId: string | null }> = [];
+  for (const id of articleIds) {
+    const job = await enqueueJob(
+      supabase,
+      JobType.RewriteLinks,
+      { articleId: id },
+      { dedupeKey: `${JobType.RewriteLinks}:${id}` }
+    );
+    results.push({ id, jobId: job?.id ?? null });
+  }
+
+  return {
+    results,
+    count: results.length,
+  };
+})
@@ -0,0 +1,68 @@
+/**
+ * ALEXANDRIAN SCRAPING - Unresolved Internal Links Report
+ *
+ * Lists the link targets that are still missing from the scrape: source-site
+ * articles, tags and categories that scraped articles link to but that have
+ * no row in our database (see links.ts). Each target is listed once with the
+ * number of articles linking to it, most linked first.
+ *
+ * Query Params:
+ * - kind: Only list 'article', 'tag' or 'category' targets
+ * - source: Only list targets on this site profile
+ * - limit: Maximum targets listed (default: 100; counts always cover all links)
+ *
+ * @endpoint GET /api/rewrite-links/unresolved
+ * @returns {{ links: number, targets: Array<{ source, kind, target, href, articles }>, count: number }}
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+
+/** Rows read per page (Supabase caps responses at 1000 rows) */
+const PAGE_SIZE = 1000;
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event);
+  const limit = Math.max(1, Number(query.limit) || 100);
+  const supabase = serverSupabaseServiceRole<Database>(event);
+
+  const rows: Array<Pick<Database['public']['Tables']['unresolved_links']['Row'], 'article_id' | 'href' | 'source' | 'kind' | 'target'>> = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let request = supabase
+      .from('unresolved_links')
+      .select('article_id, href, source, kind, target')
+      .order('article_id')
+      .order('href')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (typeof query.kind === 'string') request = request.eq('kind', query.kind);
+    if (typeof query.source === 'string') request = request.eq('source', query.source);
+
+    const { data, error } = await request;
+    if (error) {
+      throw createError({ statusCode: 500, statusMessage: error.message });
+    }
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // Group links to the same target (different slugs or fragments of one URL)
+  const targets = new Map<string, { source: string; kind: string; target: string; href: string; articles: Set<string> }>();
+  for (const row of rows) {
+    const key = `${row.source}:${row.kind}:${row.target}`;
+    const entry = targets.get(key) ?? { source: row.source, kind: row.kind, target: row.target, href: row.href, articles: new Set<string>() };
+    entry.articles.add(row.article_id);
+    targets.set(key, entry);
+  }
+
+  const sorted = [...targets.values()]
+    .map(({ articles, ...target }) => ({ ...target, articles: articles.size }))
+    .sort((a, b) => b.articles - a.articles);
+
+  return {
+    links: rows.length,
+    targets: sorted.slice(0, limit),
+    count: sorted.length,
+  };
+})
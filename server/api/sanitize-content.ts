@@ -0,0 +1,32 @@
+/**
+ * ALEXANDRIAN SCRAPING - Content Sanitizing Endpoint
+ *
+ * Queues a sanitize-content job that runs the HTML sanitizer (see sanitize.ts)
+ * over every stored article and comment. New scrapes and AI writes are
+ * sanitized already; this cleans content stored before the sanitizer existed
+ * and after changing its rules.
+ *
+ * Usage:
+ * GET /api/sanitize-content
+ *
+ * @endpoint GET /api/sanitize-content
+ * @returns {{ job: Job | null, message: string }} Queued job (null if sanitizing is already active)
+ */
+
+import { serverSupabaseServiceRole } from '#supabase/server';
+import type { Database } from '~~/database.types';
+import { JobType, enqueueJob } from '../utils/jobs';
+
+export default defineEventHandler(async (event) => {
+  const job = await enqueueJob(
+    serverSupabaseServiceRole<Database>(event),
+    JobType.SanitizeContent,
+    {},
+    { dedupeKey: JobType.SanitizeContent }
+  );
+
+  return {
+    job,
+    message: job ? 'Content sanitizing queued' : 'Content sanitizing is already queued or running',
+  };
+})
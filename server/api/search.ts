@@ -0,0 +1,98 @@
+/**
+ * ALEXANDRIAN SCRAPING - Full-Text Search Endpoint
+ *
+ * Searches articles and their comments with Postgres full-text search
+ * (search_articles(), see the article_search migration and search.ts).
+ * Results are ranked by relevance (title > AI summary > content > comments),
+ * then by date, and carry a highlighted snippet of the content.
+ *
+ * Query Params:
+ * - q: Search text in web search syntax: words, "exact phrase", -excluded, or (required)
+ * - tag: Tag slug(s), comma-separated or repeated; articles with any of them
+ * - category: Category slug(s), same format
+ * - from / to: Publish date range (ISO dates, inclusive)
+ * - page / limit: Pagination (default 1 / 12, max limit 50)
+ *
+ * Usage:
+ * GET /api/search?q=three+clue+rule
+ * GET /api/search?q="node-based"&category=roleplaying-games&from=2010-01-01&page=2
+ *
+ * @endpoint GET /api/search
+ * @returns {PaginatedResponse<SearchResult>} Matching articles for the page
+ */
+
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { PaginatedResponse, SearchResult } from '~/server/utils/types'
+import { highlightSnippet } from '~/server/utils/search'
+
+/**
+ * Read a list parameter given as `a,b` or repeated (`?tag=a&tag=b`).
+ */
+function toList(value: unknown): string[] | undefined {
+  const items = [value].flat()
+    .flatMap(item => typeof item === 'string' ? item.split(',') : [])
+    .map(item => item.trim())
+    .filter(Boolean)
+
+  return items.length > 0 ? items : undefined
+}
+
+/**
+ * Read a date parameter; `to` dates without a time cover the whole day.
+ */
+function toDate(value: unknown, endOfDay = false): string | undefined {
+  if (typeof value !== 'string' || !value) return undefined
+
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value)
+  if (Number.isNaN(date.getTime())) {
+    throw createError({ statusCode: 400, statusMessage: `Invalid date: ${value}` })
+  }
+
+  return date.toISOString()
+}
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const q = typeof query.q === 'string' ? query.q.trim() : ''
+
+  if (!q) {
+    throw createError({ statusCode: 400, statusMessage: 'Search text (q) is required' })
+  }
+
+  const page = Math.max(1, Number(query.page) || 1)
+  const limit = Math.min(50, Math.max(1, Number(query.limit) || 12))
+
+  const { data, error } = await serverSupabaseServiceRole<Database>(event)
+    .rpc('search_articles', {
+      query: q,
+      tag_slugs: toList(query.tag),
+      category_slugs: toList(query.category),
+      date_from: toDate(query.from),
+      date_to: toDate(query.to, true),
+      result_limit: limit,
+      result_offset: (page - 1) * limit,
+    })
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  const rows = data ?? []
+  const total = Number(rows[0]?.total_count ?? 0)
+  const totalPages = Math.ceil(total / limit)
+
+  return {
+    data: rows.map(({ total_count: _total, snippet, ...row }) => ({
+      ...row,
+      snippet: highlightSnippet(snippet),
+    })),
+    meta: {
+      total,
+      page,
+      totalPages,
+      hasMore: page < totalPages,
+    },
+  } satisfies PaginatedResponse<SearchResult>
+})
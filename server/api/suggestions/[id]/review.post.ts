@@ -0,0 +1,31 @@
+import { defineEventHandler, createError, readBody } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { AiSuggestion } from '~/server/utils/types'
+import { SuggestionReviewError, parseSuggestionReview, reviewSuggestion } from '~/server/utils/suggestions'
+
+/**
+ * Approve, edit or reject a pending AI suggestion. Approved and edited
+ * values are written to the article's ai_* column (see suggestions.ts).
+ *
+ * Body: { action: 'approve' | 'reject' } or { action: 'edit', value: string }
+ *
+ * @endpoint POST /api/suggestions/{id}/review
+ * @returns {AiSuggestion} The reviewed suggestion
+ */
+export default defineEventHandler(async (event): Promise<AiSuggestion> => {
+  const { id } = event.context.params as { id: string }
+
+  try {
+    const review = parseSuggestionReview(await readBody(event))
+    return await reviewSuggestion(serverSupabaseServiceRole<Database>(event), id, review)
+  } catch (err) {
+    if (err instanceof SuggestionReviewError) {
+      throw createError({ statusCode: err.statusCode, statusMessage: err.message })
+    }
+    throw createError({
+      statusCode: 500,
+      statusMessage: err instanceof Error ? err.message : 'Unknown error'
+    })
+  }
+})
@@ -0,0 +1,75 @@
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { PaginatedResponse, SuggestionWithArticle } from '~/server/utils/types'
+import { SUGGESTION_ORIGINALS, SUGGESTION_STATUSES, isSuggestionField } from '~/server/utils/suggestions'
+
+/**
+ * List AI suggestions for review, oldest first, each with the article's
+ * original text and currently approved value for the same field.
+ *
+ * Query Params:
+ * - status: pending (default), approved, rejected, edited or all
+ * - field: ai_content, ai_title or ai_summary
+ * - articleId: Suggestions for one article
+ * - page, limit: Pagination (limit capped at 50)
+ *
+ * @endpoint GET /api/suggestions
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const status = typeof query.status === 'string' ? query.status : 'pending'
+  const page = Math.max(1, Number(query.page) || 1)
+  const limit = Math.min(50, Math.max(1, Number(query.limit) || 10))
+  const offset = (page - 1) * limit
+
+  if (status !== 'all' && !(SUGGESTION_STATUSES as readonly string[]).includes(status)) {
+    throw createError({ statusCode: 400, statusMessage: `Unknown status: ${status}` })
+  }
+  if (query.field !== undefined && !isSuggestionField(query.field)) {
+    throw createError({ statusCode: 400, statusMessage: `Unknown field: ${query.field}` })
+  }
+
+  let suggestionsQuery = serverSupabaseServiceRole<Database>(event)
+    .from('ai_suggestions')
+    .select(`
+      *,
+      article: articles!inner ( id, title, link, created_at, content, summary, ai_content, ai_title, ai_summary )
+    `, { count: 'exact' })
+
+  if (status !== 'all') suggestionsQuery = suggestionsQuery.eq('status', status)
+  if (isSuggestionField(query.field)) suggestionsQuery = suggestionsQuery.eq('field', query.field)
+  if (typeof query.articleId === 'string') suggestionsQuery = suggestionsQuery.eq('article_id', query.articleId)
+
+  const { data, count, error } = await suggestionsQuery
+    .order('created_at', { ascending: status === 'pending' })
+    .order('id')
+    .range(offset, offset + limit - 1)
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  const suggestions: SuggestionWithArticle[] = (data ?? []).map(({ article, ...suggestion }) => {
+    const field = isSuggestionField(suggestion.field) ? suggestion.field : 'ai_content'
+    return {
+      ...suggestion,
+      article: { id: article.id, title: article.title, link: article.link, created_at: article.created_at },
+      original: article[SUGGESTION_ORIGINALS[field]],
+      current: article[field],
+    }
+  })
+
+  const total = count ?? 0
+  const totalPages = Math.ceil(total / limit)
+
+  return {
+    data: suggestions,
+    meta: {
+      total,
+      page,
+      totalPages,
+      hasMore: page < totalPages
+    }
+  } satisfies PaginatedResponse<SuggestionWithArticle>
+})
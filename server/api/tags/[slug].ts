@@ -0,0 +1,42 @@
+import { defineEventHandler, createError } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { Tag, TaxonomyDetail, TagWithCount } from '~/server/utils/types'
+
+/**
+ * Get a tag by slug with its article count and related tags (the tags that
+ * appear most often on the same articles). Its articles come from
+ * GET /api/articles?tag={slug}.
+ *
+ * @endpoint GET /api/tags/{slug}
+ * @returns {TaxonomyDetail<Tag>} Tag, article_count and related tags
+ */
+export default defineEventHandler(async (event) => {
+  const { slug } = event.context.params as { slug: string }
+  const client = serverSupabaseServiceRole<Database>(event)
+
+  const { data: tag, error } = await client
+    .from('tag_counts')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!tag) {
+    throw createError({ statusCode: 404, statusMessage: `Tag not found: ${slug}` })
+  }
+
+  const { data: related, error: relatedError } = await client
+    .rpc('related_tags', { tag_slug: slug })
+
+  if (relatedError) {
+    throw createError({ statusCode: 500, statusMessage: relatedError.message })
+  }
+
+  return {
+    ...(tag as TagWithCount),
+    related: related ?? [],
+  } satisfies TaxonomyDetail<Tag>
+})
@@ -0,0 +1,36 @@
+import { defineEventHandler, createError, getQuery } from 'h3'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { Database } from '~~/database.types'
+import type { TagWithCount } from '~/server/utils/types'
+
+/**
+ * List tags with their article counts (tag_counts view).
+ *
+ * Query Params:
+ * - sort: 'name' (default) or 'count' (most used first)
+ * - limit: Maximum tags returned (default: all)
+ *
+ * @endpoint GET /api/tags
+ * @returns {TagWithCount[]} Tags with article_count
+ */
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+
+  try {
+    let request = serverSupabaseServiceRole<Database>(event)
+      .from('tag_counts')
+      .select('*')
+      .order(query.sort === 'count' ? 'article_count' : 'name', { ascending: query.sort !== 'count' })
+
+    if (Number(query.limit) > 0) request = request.limit(Number(query.limit))
+
+    const { data, error } = await request
+    if (error) throw error
+    return (data ?? []) as TagWithCount[]
+  } catch (err) {
+    throw createError({ 
+      statusCode: 500, 
+      statusMessage: err instanceof Error ? err.message : 'Unknown error' 
+    })
+  }
+})
@@ -0,0 +1,58 @@
+/**
+ * ALEXANDRIAN SCRAPING - Background Job Worker
+ *
+ * Polls the jobs table and runs due jobs one at a time for as long as the
+ * server is up. Jobs survive restarts: anything still queued is picked up on
+ * the next start, and jobs abandoned mid-run are reclaimed once their lease
+ * (runtimeConfig.jobs.leaseSeconds) expires.
+ *
+ * Configuration (runtimeConfig.jobs):
+ * - workerEnabled: Set NUXT_JOBS_WORKER_ENABLED=false to run without a worker
+ * - pollIntervalMs: Delay between polls when the queue is empty
+ * - leaseSeconds: Time after which a running job is considered abandoned
+ *   (renewed while its handler runs, so only crashed workers lose their jobs)
+ */
+
+export default defineNitroPlugin((nitroApp) => {
+  const { jobs, supabase } = useRuntimeConfig();
+
+  if (!jobs.workerEnabled) {
+    console.info('[Jobs] Worker disabled');
+    return;
+  }
+
+  if (!supabase.serviceKey) {
+    console.warn('[Jobs] Worker not started: missing `SUPABASE_SERVICE_KEY`');
+    return;
+  }
+
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  async function tick() {
+    try {
+      const client = useJobsSupabaseClient();
+
+      // Drain every due job before going back to sleep
+      let job = await claimNextJob(client, jobs.leaseSeconds);
+      while (job && !stopped) {
+        await runJob(client, job, jobs.leaseSeconds);
+        job = stopped ? null : await claimNextJob(client, jobs.leaseSeconds);
+      }
+    } catch (error) {
+      console.error('[Jobs] Worker poll failed:', error);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(tick, jobs.pollIntervalMs);
+    }
+  }
+
+  timer = setTimeout(tick, jobs.pollIntervalMs);
+  console.info('[Jobs] Worker started');
+
+  nitroApp.hooks.hook('close', () => {
+    stopped = true;
+    clearTimeout(timer);
+  });
+});
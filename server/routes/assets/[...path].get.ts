@@ -0,0 +1,53 @@
+import { readFile, stat } from 'node:fs/promises'
+import { extname, join, normalize } from 'node:path'
+import { createError, defineEventHandler, serveStatic } from 'h3'
+import { LOCAL_ASSET_PATH, LOCAL_ASSET_ROOT } from '~/server/utils/assets'
+
+/** Content types by file extension of mirrored images */
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+}
+
+/** No scripts, plugins, frames or requests; inline styles only */
+const SVG_CONTENT_SECURITY_POLICY = "default-src 'none'; style-src 'unsafe-inline'; sandbox"
+
+/**
+ * Serve images mirrored by the local storage driver (see assets.ts).
+ * Files are named by content hash, so they can be cached forever.
+ *
+ * SVGs are documents that can carry script, and these come from our own
+ * origin: a Content-Security-Policy without script sources (and a sandbox)
+ * keeps one opened directly from running anything. <img> never runs SVG script.
+ *
+ * @endpoint GET /assets/{key}
+ */
+export default defineEventHandler((event) => {
+  const key = normalize(event.context.params?.path ?? '')
+
+  if (key.startsWith('..') || !CONTENT_TYPES[extname(key)]) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Asset not found'
+    })
+  }
+
+  const path = join(LOCAL_ASSET_ROOT, LOCAL_ASSET_PATH, key)
+  event.node.res.setHeader('Cache-Control', 'public, max-age=31536000, immutable')
+  event.node.res.setHeader('X-Content-Type-Options', 'nosniff')
+  if (extname(key) === '.svg') {
+    event.node.res.setHeader('Content-Security-Policy', SVG_CONTENT_SECURITY_POLICY)
+  }
+
+  return serveStatic(event, {
+    getContents: () => readFile(path),
+    getMeta: async () => {
+      const stats = await stat(path).catch(() => null)
+      if (!stats?.isFile()) return undefined
+      return { type: CONTENT_TYPES[extname(key)], size: stats.size, mtime: stats.mtime }
+    },
+  })
+})
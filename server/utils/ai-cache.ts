@@ -0,0 +1,273 @@
+/**
+ * ALEXANDRIAN SCRAPING - AI Completion Cache
+ *
+ * Re-running remixes or model comparisons sends the same article content with
+ * the same prompt again. Answers are cached, keyed by a SHA-256 of the
+ * provider, model, rendered messages and sampling parameters, so a re-run
+ * after a crash or a redeploy that doesn't touch the prompts costs nothing.
+ * Changing a prompt's text changes its messages, so its old answers are
+ * simply never asked for again.
+ *
+ * Drivers (runtimeConfig.ai.cache.driver):
+ * - supabase: ai_cache table, shared by every server and the job worker
+ * - memory: this process only, for development
+ * - off: no caching
+ *
+ * Entries expire after runtimeConfig.ai.cache.ttlSeconds (0: never) and can
+ * be invalidated by model or prompt id (DELETE /api/ai/cache). Cache failures
+ * are logged and the provider is asked instead.
+ *
+ * Key Exports:
+ * - completeWithCache(): Cached provider.complete()
+ * - aiCacheKey(): Key of a request
+ * - useAiCache(): Cache from runtimeConfig.ai.cache
+ * - createSupabaseAiCache(), createMemoryAiCache()
+ *
+ * @module server/utils/ai-cache
+ */
+
+import { createHash } from 'node:crypto'
+import type { TablesInsert } from '~~/database.types'
+import type { JobsClient } from './jobs'
+import { useJobsSupabaseClient } from './jobs'
+import type { CompletionOptions, LlmMessage, LlmProvider } from './llm'
+import { recordAiCall } from './ai-usage'
+
+/**
+ * A cached answer and what produced it.
+ */
+export interface AiCacheEntry {
+  provider: string;
+  model: string;
+  /** Prompt template id (prompts.ts), for invalidation */
+  promptId?: string;
+  response: string;
+}
+
+/**
+ * Entries to invalidate; no filter invalidates everything.
+ */
+export interface AiCacheFilter {
+  model?: string;
+  promptId?: string;
+  /** Only entries past their expiry */
+  expired?: boolean;
+}
+
+export interface AiCacheStats {
+  entries: number;
+  expired: number;
+}
+
+/**
+ * Where cached answers are kept.
+ */
+export interface AiCache {
+  /** Driver name, for logs */
+  driver: string;
+  /** Lifetime of new entries in seconds (0: never expire) */
+  ttlSeconds: number;
+  /** Cached answer, or null if missing or expired */
+  get(key: string): Promise<string | null>;
+  /** Store an answer (replacing any entry with the same key) */
+  set(key: string, entry: AiCacheEntry): Promise<void>;
+  /**
+   * Delete entries.
+   * @returns {Promise<number>} Entries deleted
+   */
+  invalidate(filter?: AiCacheFilter): Promise<number>;
+  stats(): Promise<AiCacheStats>;
+}
+
+/**
+ * Cache key of a request: everything that shapes the answer. The prompt id
+ * is left out, so the same text sent for another prompt is the same request.
+ *
+ * @param {Pick<LlmProvider, 'name' | 'model'>} provider - Provider and model
+ * @param {LlmMessage[]} messages - Rendered messages
+ * @param {CompletionOptions} options - Sampling parameters and output schema
+ * @returns {string} SHA-256 hex digest
+ */
+export function aiCacheKey(
+  provider: Pick<LlmProvider, 'name' | 'model'>,
+  messages: LlmMessage[],
+  options: CompletionOptions = {}
+): string {
+  const request = {
+    provider: provider.name,
+    model: provider.model,
+    messages: messages.map(({ role, content }) => ({ role, content })),
+    temperature: options.temperature ?? null,
+    maxTokens: options.maxTokens ?? null,
+    schema: options.schema ?? null,
+  }
+
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex')
+}
+
+/**
+ * Expiry of an entry written now, or null for entries that never expire.
+ */
+function expiresAt(ttlSeconds: number, now: number): string | null {
+  return ttlSeconds > 0 ? new Date(now + ttlSeconds * 1000).toISOString() : null
+}
+
+/**
+ * Cache kept in this process's memory.
+ *
+ * @param {number} ttlSeconds - Lifetime of entries (0: never expire)
+ * @param {() => number} now - Clock (tests)
+ * @returns {AiCache} Memory cache
+ */
+export function createMemoryAiCache(ttlSeconds: number, now: () => number = Date.now): AiCache {
+  const entries = new Map<string, AiCacheEntry & { expiresAt: string | null }>()
+  const isExpired = (entry: { expiresAt: string | null }) => entry.expiresAt !== null && Date.parse(entry.expiresAt) <= now()
+
+  return {
+    driver: 'memory',
+    ttlSeconds,
+    async get(key) {
+      const entry = entries.get(key)
+      return entry && !isExpired(entry) ? entry.response : null
+    },
+    async set(key, entry) {
+      entries.set(key, { ...entry, expiresAt: expiresAt(ttlSeconds, now()) })
+    },
+    async invalidate(filter = {}) {
+      let deleted = 0
+      for (const [key, entry] of entries) {
+        if (filter.model && entry.model !== filter.model) continue
+        if (filter.promptId && entry.promptId !== filter.promptId) continue
+        if (filter.expired && !isExpired(entry)) continue
+        entries.delete(key)
+        deleted++
+      }
+      return deleted
+    },
+    async stats() {
+      return { entries: entries.size, expired: [...entries.values()].filter(isExpired).length }
+    },
+  }
+}
+
+/**
+ * Cache in the ai_cache table. Lookups go through ai_cache_lookup(), which
+ * also counts the hit.
+ *
+ * @param {JobsClient} client - Supabase client (service role)
+ * @param {number} ttlSeconds - Lifetime of entries (0: never expire)
+ * @returns {AiCache} Supabase cache
+ */
+export function createSupabaseAiCache(client: JobsClient, ttlSeconds: number): AiCache {
+  return {
+    driver: 'supabase',
+    ttlSeconds,
+    async get(key) {
+      const { data, error } = await client.rpc('ai_cache_lookup', { cache_key: key })
+      if (error) throw new Error(`Failed to read AI cache: ${error.message}`)
+      return data ?? null
+    },
+    async set(key, entry) {
+      const row: TablesInsert<'ai_cache'> = {
+        key,
+        provider: entry.provider,
+        model: entry.model,
+        prompt_id: entry.promptId ?? null,
+        response: entry.response,
+        hits: 0,
+        created_at: new Date().toISOString(),
+        expires_at: expiresAt(ttlSeconds, Date.now()),
+      }
+      const { error } = await client.from('ai_cache').upsert(row, { onConflict: 'key' })
+      if (error) throw new Error(`Failed to write AI cache: ${error.message}`)
+    },
+    async invalidate(filter = {}) {
+      // Always filtered: deletes without a WHERE clause are refused
+      let query = client.from('ai_cache').delete({ count: 'exact' }).not('key', 'is', null)
+      if (filter.model) query = query.eq('model', filter.model)
+      if (filter.promptId) query = query.eq('prompt_id', filter.promptId)
+      if (filter.expired) query = query.lte('expires_at', new Date().toISOString())
+
+      const { count, error } = await query
+      if (error) throw new Error(`Failed to invalidate AI cache: ${error.message}`)
+      return count ?? 0
+    },
+    async stats() {
+      const [all, expired] = await Promise.all([
+        client.from('ai_cache').select('key', { count: 'exact', head: true }),
+        client.from('ai_cache').select('key', { count: 'exact', head: true }).lte('expires_at', new Date().toISOString()),
+      ])
+      const error = all.error ?? expired.error
+      if (error) throw new Error(`Failed to read AI cache stats: ${error.message}`)
+      return { entries: all.count ?? 0, expired: expired.count ?? 0 }
+    },
+  }
+}
+
+let memoryCache: AiCache | null = null
+
+/**
+ * Get the cache configured in runtimeConfig.ai.cache.
+ *
+ * @returns {AiCache | undefined} Cache, or undefined when the driver is off
+ * @throws {Error} If the driver name is unknown
+ */
+export function useAiCache(): AiCache | undefined {
+  const { cache } = useRuntimeConfig().ai
+  const ttlSeconds = Number(cache.ttlSeconds) || 0
+
+  if (cache.driver === 'off') return undefined
+  if (cache.driver === 'memory') return (memoryCache ??= createMemoryAiCache(ttlSeconds))
+  if (cache.driver === 'supabase') return createSupabaseAiCache(useJobsSupabaseClient(), ttlSeconds)
+  throw new Error(`Unknown AI cache driver: ${cache.driver}`)
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Cached Completion
+ *
+ * Answers from the provider's cache when it has the request (recorded as a
+ * cached call), otherwise asks the provider and caches the answer. Providers
+ * without a cache are asked directly.
+ *
+ * @param {LlmProvider} provider - Provider (and its cache)
+ * @param {LlmMessage[]} messages - Messages to send
+ * @param {CompletionOptions} options - Sampling parameters, schema and prompt id
+ * @param {(reply: string) => boolean} accept - Whether an answer may be used from or stored in the cache (default: all)
+ * @returns {Promise<string>} Answer text
+ * @throws {LlmError} If the provider fails
+ */
+export async function completeWithCache(
+  provider: LlmProvider,
+  messages: LlmMessage[],
+  options: CompletionOptions = {},
+  accept: (reply: string) => boolean = () => true
+): Promise<string> {
+  const { cache } = provider
+  if (!cache) return provider.complete(messages, options)
+
+  const key = aiCacheKey(provider, messages, options)
+  const started = Date.now()
+  const cached = await cache.get(key).catch((error) => {
+    console.warn(`[AI Cache] ${cache.driver} lookup failed, asking ${provider.name}:`, error)
+    return null
+  })
+  if (cached !== null && accept(cached)) {
+    console.info(`[AI Cache] Hit for ${provider.model}${options.promptId ? ` (${options.promptId})` : ''}`)
+    await recordAiCall(provider.recorder, {
+      provider: provider.name,
+      model: provider.model,
+      promptId: options.promptId,
+      outcome: 'cached',
+      latencyMs: Date.now() - started,
+    })
+    return cached
+  }
+
+  const reply = await provider.complete(messages, options)
+  if (accept(reply)) {
+    await cache.set(key, { provider: provider.name, model: provider.model, promptId: options.promptId, response: reply })
+      .catch(error => console.warn(`[AI Cache] ${cache.driver} write failed:`, error))
+  }
+
+  return reply
+}
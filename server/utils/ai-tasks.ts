@@ -0,0 +1,285 @@
+/**
+ * ALEXANDRIAN SCRAPING - Structured AI Tasks
+ *
+ * Titles and summaries come back from the model as JSON objects, checked
+ * against a schema declared with each task instead of free text patched up
+ * afterwards. runAiTask():
+ *
+ * 1. Sends the task's prompt plus a description of the schema (JSON mode);
+ *    valid answers are cached (ai-cache.ts), corrections aren't
+ * 2. Parses the reply (Markdown fences and text around the object tolerated)
+ *    and validates it against the schema
+ * 3. On failure, sends the errors back and asks for a corrected object, up
+ *    to MAX_REPAIR_ATTEMPTS times
+ * 4. Returns the typed object, or throws AiOutputError (502)
+ *
+ * Tasks:
+ * - TITLE_TASK: { title } (TITLE_OPTIMIZATION)
+ * - SUMMARY_TASK: { summary, keyPoints, readingLevel } (ARTICLE_SUMMARY)
+ *
+ * Content enhancement stays raw HTML (BLOG_ENHANCEMENT); see chunking.ts.
+ *
+ * Key Exports:
+ * - runAiTask(): Run a task and return its validated output
+ * - parseTaskOutput(): Parse and validate a reply against a schema
+ * - describeSchema(): Output instructions appended to the prompt
+ *
+ * @module server/utils/ai-tasks
+ */
+
+import type { LlmMessage, LlmProvider } from './llm'
+import { LlmError, useLlmProvider } from './llm'
+import { completeWithCache } from './ai-cache'
+import { ARTICLE_SUMMARY, JSON_SYSTEM_PROMPT, TITLE_OPTIMIZATION, formatPrompt } from './prompts'
+import type { PromptTemplate, PromptTemplateVars } from './prompts'
+
+/** Corrections asked for after an invalid reply */
+export const MAX_REPAIR_ATTEMPTS = 2
+
+/**
+ * One key of a task's output.
+ */
+export type FieldSpec =
+  | { type: 'string'; description: string; maxLength?: number }
+  | { type: 'string[]'; description: string; maxItems?: number }
+  | { type: 'enum'; description: string; values: readonly string[] }
+
+/**
+ * Keys of a task's output object.
+ */
+export type OutputSchema = Record<string, FieldSpec>
+
+type FieldValue<F extends FieldSpec> =
+  F extends { type: 'enum'; values: readonly (infer V)[] } ? V
+    : F extends { type: 'string[]' } ? string[]
+      : string
+
+/**
+ * Typed output of a schema.
+ */
+export type SchemaOutput<S extends OutputSchema> = { [K in keyof S]: FieldValue<S[K]> }
+
+/**
+ * A prompt and the shape of its answer.
+ */
+export interface AiTask<S extends OutputSchema> {
+  /** Task name, for logs and errors */
+  name: string;
+  template: PromptTemplate;
+  schema: S;
+}
+
+/**
+ * Result of parseTaskOutput().
+ */
+export type ParsedOutput<S extends OutputSchema> =
+  | { ok: true; value: SchemaOutput<S> }
+  | { ok: false; errors: string[] }
+
+/**
+ * The model's reply didn't match the task's schema, even after repairs.
+ */
+export class AiOutputError extends LlmError {
+  constructor(
+    message: string,
+    public reply: string,
+    public errors: string[]
+  ) {
+    super(message, 502, { reply, errors })
+    this.name = 'AiOutputError'
+  }
+}
+
+/**
+ * Shorter title for an article.
+ */
+export const TITLE_TASK = {
+  name: 'title',
+  template: TITLE_OPTIMIZATION,
+  schema: {
+    title: { type: 'string', description: 'The new title, on one line', maxLength: 150 },
+  },
+} as const satisfies AiTask<OutputSchema>
+
+/**
+ * Two-sentence summary of an article, its key points and reading level.
+ */
+export const SUMMARY_TASK = {
+  name: 'summary',
+  template: ARTICLE_SUMMARY,
+  schema: {
+    summary: { type: 'string', description: 'The two-sentence summary, plain text', maxLength: 800 },
+    keyPoints: { type: 'string[]', description: 'The main points of the post, one short sentence each', maxItems: 5 },
+    readingLevel: { type: 'enum', description: 'Who the post is written for', values: ['beginner', 'intermediate', 'advanced'] },
+  },
+} as const satisfies AiTask<OutputSchema>
+
+export type TitleOutput = SchemaOutput<typeof TITLE_TASK.schema>
+export type SummaryOutput = SchemaOutput<typeof SUMMARY_TASK.schema>
+
+/**
+ * Describe one key for the model.
+ */
+function describeField(key: string, spec: FieldSpec): string {
+  const type = spec.type === 'string'
+    ? `string${spec.maxLength ? `, at most ${spec.maxLength} characters` : ''}`
+    : spec.type === 'string[]'
+      ? `array of strings${spec.maxItems ? `, at most ${spec.maxItems}` : ''}`
+      : `one of ${spec.values.map(value => JSON.stringify(value)).join(', ')}`
+
+  return `- "${key}" (${type}): ${spec.description}`
+}
+
+/**
+ * Output instructions for a schema, appended to the task's prompt.
+ *
+ * @param {OutputSchema} schema - Output keys
+ * @returns {string} Instructions listing every key
+ */
+export function describeSchema(schema: OutputSchema): string {
+  return [
+    'Respond with one JSON object and nothing else, with exactly these keys:',
+    ...Object.entries(schema).map(([key, spec]) => describeField(key, spec)),
+  ].join('\n')
+}
+
+/**
+ * Pull the JSON object out of a reply: Markdown fences and text before or
+ * after the object are ignored.
+ */
+function extractJson(reply: string): unknown {
+  const unfenced = reply.replace(/```(?:json)?/gi, '')
+  const start = unfenced.indexOf('{')
+  const end = unfenced.lastIndexOf('}')
+  if (start === -1 || end < start) throw new Error('no JSON object found')
+
+  return JSON.parse(unfenced.slice(start, end + 1))
+}
+
+/**
+ * Check one value against its spec.
+ *
+ * @returns {{ value?: unknown, error?: string }} Normalized value, or why it doesn't match
+ */
+function validateField(key: string, spec: FieldSpec, value: unknown): { value?: unknown; error?: string } {
+  if (value === undefined || value === null) return { error: `"${key}" is missing` }
+
+  if (spec.type === 'string') {
+    if (typeof value !== 'string' || !value.trim()) return { error: `"${key}" must be a non-empty string` }
+    const text = value.trim()
+    if (spec.maxLength && text.length > spec.maxLength) {
+      return { error: `"${key}" is ${text.length} characters, at most ${spec.maxLength} allowed` }
+    }
+    return { value: text }
+  }
+
+  if (spec.type === 'string[]') {
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.trim())) {
+      return { error: `"${key}" must be an array of non-empty strings` }
+    }
+    if (spec.maxItems && value.length > spec.maxItems) {
+      return { error: `"${key}" has ${value.length} items, at most ${spec.maxItems} allowed` }
+    }
+    return { value: value.map(item => item.trim()) }
+  }
+
+  const match = typeof value === 'string'
+    ? spec.values.find(allowed => allowed.toLowerCase() === value.trim().toLowerCase())
+    : undefined
+  if (!match) return { error: `"${key}" must be one of ${spec.values.join(', ')}` }
+  return { value: match }
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Validate a Reply
+ *
+ * Parses a model reply as JSON and checks it against a schema: every key
+ * present with the right type and within its limits. Strings are trimmed and
+ * enum values matched case-insensitively; unknown keys are dropped.
+ *
+ * @param {OutputSchema} schema - Expected keys
+ * @param {string} reply - Model reply
+ * @returns {ParsedOutput} The typed object, or every error found
+ *
+ * @example
+ * parseTaskOutput(TITLE_TASK.schema, '```json\n{ "title": " Three Clue Rule " }\n```');
+ * // { ok: true, value: { title: 'Three Clue Rule' } }
+ */
+export function parseTaskOutput<S extends OutputSchema>(schema: S, reply: string): ParsedOutput<S> {
+  let data: unknown
+  try {
+    data = extractJson(reply)
+  } catch (error) {
+    return { ok: false, errors: [`Reply is not a JSON object (${error instanceof Error ? error.message : 'parse error'})`] }
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, errors: ['Reply must be a JSON object'] }
+  }
+
+  const value: Record<string, unknown> = {}
+  const errors: string[] = []
+  for (const [key, spec] of Object.entries(schema)) {
+    const field = validateField(key, spec, (data as Record<string, unknown>)[key])
+    if (field.error) errors.push(field.error)
+    else value[key] = field.value
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: value as SchemaOutput<S> }
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Run an AI Task
+ *
+ * Asks the model for the task's JSON object and validates it; invalid replies
+ * are sent back with their errors for a corrected object.
+ *
+ * @param {AiTask} task - Prompt and output schema
+ * @param {Partial<PromptTemplateVars>} vars - Prompt variables
+ * @param {LlmProvider} provider - LLM provider (default: useLlmProvider())
+ * @returns {Promise<SchemaOutput>} Validated output
+ * @throws {AiOutputError} If the reply is still invalid after MAX_REPAIR_ATTEMPTS corrections
+ * @throws {LlmError} If the provider fails
+ *
+ * @example
+ * const { title } = await runAiTask(TITLE_TASK, { title: article.title, articleContent: article.content });
+ */
+export async function runAiTask<S extends OutputSchema>(
+  task: AiTask<S>,
+  vars: Partial<PromptTemplateVars>,
+  provider: LlmProvider = useLlmProvider()
+): Promise<SchemaOutput<S>> {
+  const messages: LlmMessage[] = [
+    { role: 'system', content: JSON_SYSTEM_PROMPT.prompt },
+    { role: 'user', content: `${formatPrompt(task.template, vars)}\n\n${describeSchema(task.schema)}` },
+  ]
+
+  const options = { ...task.template.parameters, schema: task.schema, promptId: task.template.id }
+  const isValid = (reply: string) => parseTaskOutput(task.schema, reply).ok
+
+  for (let attempt = 0; ; attempt++) {
+    // Only the first request is cached, and only with a valid answer
+    const reply = attempt === 0
+      ? await completeWithCache(provider, messages, options, isValid)
+      : await provider.complete(messages, options)
+    const parsed = parseTaskOutput(task.schema, reply)
+    if (parsed.ok) return parsed.value
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new AiOutputError(
+        `Invalid ${task.name} reply from ${provider.model}: ${parsed.errors.join('; ')}`,
+        reply,
+        parsed.errors
+      )
+    }
+
+    console.warn(`[AI Tasks] ${task.name}: invalid reply from ${provider.model}, asking for a correction`, parsed.errors)
+    messages.push(
+      { role: 'assistant', content: reply },
+      {
+        role: 'user',
+        content: `Your reply didn't match the required format:\n${parsed.errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON object.`,
+      }
+    )
+  }
+}
@@ -3,7 +3,7 @@
  *
  * Provides database operations and AI enhancement utilities for articles.
  * This module serves as a data access layer between API endpoints and Supabase,
- * with additional AI processing capabilities via OpenRouter.
+ * with additional AI processing capabilities via the configured LLM provider (llm.ts).
  *
  * Architecture Role:
  * - Abstraction layer for article database operations
@@ -14,15 +14,16 @@
  * Key Exports:
  * - getArticleQuery(): Simple article queries
  * - getArticleQueryWithRelations(): Articles with tags/categories
- * - updateArticle(): Update article fields
+ * - updateArticle(): Update article fields (recording revisions)
  * - enhanceArticle(): Full AI enhancement (content + title + summary)
+ * - remixArticle(): Full AI enhancement saved as suggestions for review (used by the ai-remix job)
  * - getArticleEnhancedContent(): AI-improved HTML content
  * - getArticleSummary(): AI-generated summary
  * - getEnhancedTitle(): AI-optimized title
  *
  * AI Enhancement:
- * Uses OpenRouter API to process article content through various prompts:
- * - Content enhancement: Tailwind CSS styling, semantic HTML
+ * Sends article content through various prompts (llm.ts picks the provider):
+ * - Content enhancement: semantic HTML
  * - Title optimization: Shorter, punchier titles
  * - Summary generation: Two-sentence article summaries
  *
@@ -32,8 +33,56 @@
 import type { H3Event } from 'h3'
 import type { Article, ArticleWithRelations, SupabaseError } from './types';
 import type { Database } from '~/database.types';
+import type { JobsClient } from './jobs';
+import { sanitizeHtml } from './sanitize';
+import { useLlmProvider } from './llm';
+import type { LlmProvider } from './llm';
+import { enhanceHtmlInChunks, summarizeInChunks } from './chunking';
+import { TITLE_TASK, runAiTask } from './ai-tasks';
+import { recordArticleRevisions, revisionChanges } from './revisions';
+import type { RevisionSource } from './revisions';
+import { saveSuggestions } from './suggestions';
+import { ARTICLE_SUMMARY, BLOG_ENHANCEMENT, TITLE_OPTIMIZATION, promptRef } from './prompts';
 import { serverSupabaseServiceRole } from '#supabase/server'
 
+/**
+ * Column selection for articles with their tags and categories.
+ * Shared by request handlers and background jobs.
+ */
+const relationshipQuery = `
+  *,
+  tags: article_tags (
+    tag: tags ( id, name, slug )
+  ),
+  categories: article_categories (
+    category: categories ( id, name, slug )
+  )
+`
+
+/**
+ * Taxonomy filters for getArticleQueryWithRelations().
+ */
+export interface ArticleTaxonomyFilter {
+  /** Only articles with this tag slug */
+  tag?: string;
+  /** Only articles in this category slug */
+  category?: string;
+}
+
+/**
+ * All filters of the article listing (GET /api/articles).
+ */
+export interface ArticleListFilter extends ArticleTaxonomyFilter {
+  /** Only articles created at or after this ISO timestamp */
+  dateFrom?: string;
+  /** Only articles created before this ISO timestamp */
+  dateTo?: string;
+  /** Only articles with (true) or without (false) AI content */
+  hasAi?: boolean;
+  /** Only articles with (true) or without (false) comments */
+  hasComments?: boolean;
+}
+
 /**
  * Initialize Supabase client with service role privileges.
  * Service role bypasses RLS policies for server-side operations.
@@ -60,10 +109,11 @@ function supabaseArticle(event: H3Event) {
  *
  * @param {H3Event} event - Nuxt H3 event object
  * @param {string} select - Column selection string (default: '*')
+ * @param {{ count?: 'exact' }} options - Count the matching rows (returned as count)
  * @returns {QueryBuilder} Configured query builder
  */
-function selectArticle(event: H3Event, select: string = '*') {
-  return supabaseArticle(event).select(select);
+function selectArticle(event: H3Event, select: string = '*', options?: { count?: 'exact' }) {
+  return supabaseArticle(event).select(select, options);
 }
 
 /**
@@ -94,76 +144,115 @@ export function getArticleQuery(event: H3Event){
  * ├── tags[] (via article_tags)
  * │   └── tag (id, name, slug)
  * └── categories[] (via article_categories)
- *     └── category (id, name)
+ *     └── category (id, name, slug)
  * ```
  *
+ * Taxonomy filters inner-join an extra copy of the junction table
+ * (tag_filter / category_filter), so the article's full tags and categories
+ * are still returned. The other filters are plain column conditions
+ * (comment_count is kept up to date by triggers on comments).
+ *
  * Usage:
  * ```ts
  * const { data } = await getArticleQueryWithRelations(event)
  *   .eq('id', articleId)
  *   .single();
  * // data.tags = [{ tag: { id, name, slug } }, ...]
- * // data.categories = [{ category: { id, name } }, ...]
+ * // data.categories = [{ category: { id, name, slug } }, ...]
+ *
+ * const { data, count } = await getArticleQueryWithRelations(event, { tag: 'three-clue-rule' }, { count: 'exact' })
+ *   .range(0, 11);
  * ```
  *
  * @param {H3Event} event - Nuxt H3 event object
+ * @param {ArticleListFilter} filter - Tag, category, date range, AI content, comments
+ * @param {{ count?: 'exact' }} options - Count the matching rows
  * @returns {QueryBuilder} Article query builder with relationships
  */
-export function getArticleQueryWithRelations(event: H3Event) {
-  const relationshipQuery = `
-    *,
-    tags: article_tags (
-      tag: tags ( id, name, slug )
-    ),
-    categories: article_categories (
-      category: categories ( id, name )
-    )
-  `
+export function getArticleQueryWithRelations(
+  event: H3Event,
+  filter: ArticleListFilter = {},
+  options?: { count?: 'exact' }
+) {
+  const filterJoins = [
+    filter.tag && 'tag_filter: article_tags!inner ( tag: tags!inner ( slug ) )',
+    filter.category && 'category_filter: article_categories!inner ( category: categories!inner ( slug ) )',
+  ].filter(Boolean)
+
+  let query = selectArticle(event, [relationshipQuery, ...filterJoins].join(',\n'), options);
+  if (filter.tag) query = query.eq('tag_filter.tag.slug', filter.tag);
+  if (filter.category) query = query.eq('category_filter.category.slug', filter.category);
+  if (filter.dateFrom) query = query.gte('created_at', filter.dateFrom);
+  if (filter.dateTo) query = query.lt('created_at', filter.dateTo);
+  if (filter.hasAi !== undefined) {
+    query = filter.hasAi ? query.not('ai_content', 'is', null) : query.is('ai_content', null);
+  }
+  if (filter.hasComments !== undefined) {
+    query = filter.hasComments ? query.gt('comment_count', 0) : query.eq('comment_count', 0);
+  }
 
-  return  selectArticle(event, relationshipQuery);
+  return query;
 }
 /**
  * Update article fields in the database.
  *
+ * HTML fields (content, ai_content) are sanitized before they are saved,
+ * since AI output is rendered with v-html like scraped content. New values of
+ * content and the ai_* fields are recorded as revisions (revisions.ts).
+ *
  * Usage:
  * ```ts
  * await updateArticle(event, articleId, {
- *   title: 'New Title',
- *   summary: 'Updated summary'
- * });
+ *   ai_summary: 'Updated summary'
+ * }, { source: 'ai', model, ...promptRef(ARTICLE_SUMMARY) });
  * ```
  *
  * @param {H3Event} event - Nuxt H3 event object
  * @param {string} articleId - UUID of the article to update
  * @param {Partial<Article>} data - Fields to update
- * @returns {QueryBuilder} Update query builder
+ * @param {RevisionSource} revision - Where the new values came from (default: manual edit)
+ * @returns {Promise<PostgrestResponse>} Result of the update
  */
-export async function updateArticle(event: H3Event, articleId: string, data: Partial<Article>) {
-  return supabaseArticle(event)
-    .update(data)
-    .eq('id', articleId)
+export async function updateArticle(
+  event: H3Event,
+  articleId: string,
+  data: Partial<Article>,
+  revision: RevisionSource = { source: 'manual' }
+) {
+  const safeData = { ...data };
+  if (typeof safeData.content === 'string') safeData.content = sanitizeHtml(safeData.content);
+  if (typeof safeData.ai_content === 'string') safeData.ai_content = sanitizeHtml(safeData.ai_content);
+
+  const result = await supabaseArticle(event)
+    .update(safeData)
+    .eq('id', articleId);
+
+  if (!result.error) {
+    await recordArticleRevisions(initializeSupabaseClient(event), articleId, revisionChanges(safeData, revision));
+  }
+
+  return result;
 }
 
 /**
- * Generate AI-enhanced HTML content with Tailwind CSS styling.
+ * Generate AI-enhanced HTML content.
  *
  * Takes raw article HTML and returns semantically improved HTML with:
- * - Tailwind CSS classes for styling
  * - Better semantic structure
  * - Improved readability
  *
- * Uses BLOG_ENHANCEMENT prompt template.
+ * Uses BLOG_ENHANCEMENT prompt template, one chunk at a time for articles
+ * too long for the model's context window (chunking.ts).
  *
  * @param {string} content - Original article HTML content
- * @param {OpenRouterConfig} orConfig - OpenRouter API configuration
+ * @param {LlmProvider} provider - LLM provider (default: the provider for BLOG_ENHANCEMENT)
  * @returns {Promise<string>} Enhanced HTML content
  */
-export async function getArticleEnhancedContent(content: Article['content'], orConfig: OpenRouterConfig) {
-  const finalEnhancementPrompt = formatPrompt(BLOG_ENHANCEMENT, {
-    articleContent: content
-  });
-
-  return await processArticleWithAI(finalEnhancementPrompt, orConfig);
+export async function getArticleEnhancedContent(
+  content: Article['content'],
+  provider: LlmProvider = useLlmProvider({ prompt: BLOG_ENHANCEMENT })
+) {
+  return await enhanceHtmlInChunks(content, provider);
 }
 
 /**
@@ -172,26 +261,26 @@ export async function getArticleEnhancedContent(content: Article['content'], orC
  * Creates a concise two-sentence summary capturing the article's main idea.
  * Considers title, categories, tags, and content for context.
  *
- * Uses ARTICLE_SUMMARY prompt template.
+ * Uses ARTICLE_SUMMARY prompt template; long articles are summarized in
+ * parts first (map-reduce, chunking.ts).
  *
  * @param {ArticleWithRelations} fullArticle - Complete article with relationships
- * @param {OpenRouterConfig} orConfig - OpenRouter API configuration
- * @returns {Promise<string>} Two-sentence article summary (cleaned)
+ * @param {LlmProvider} provider - LLM provider (default: the provider for ARTICLE_SUMMARY)
+ * @returns {Promise<string>} Two-sentence article summary (validated, see ai-tasks.ts)
+ * @throws {AiOutputError} If the model doesn't return a valid summary
  */
-export async function getArticleSummary(fullArticle: ArticleWithRelations, orConfig: OpenRouterConfig) {
-
-  const finalSummaryPrompt = formatPrompt(ARTICLE_SUMMARY, {
+export async function getArticleSummary(
+  fullArticle: ArticleWithRelations,
+  provider: LlmProvider = useLlmProvider({ prompt: ARTICLE_SUMMARY })
+) {
+  const { summary } = await summarizeInChunks({
     articleContent: fullArticle.content,
     title: fullArticle.title,
     categories: fullArticle.categories?.map(c => c.category.name),
     tags: fullArticle.tags?.map(t => t.tag.name)
-  });
+  }, provider);
 
-  // Remove quotes and asterisks from AI response
-  return (await processArticleWithAI(
-          finalSummaryPrompt,
-          orConfig
-        )).replace(/["*]/g, '');
+  return summary;
   }
 
 /**
@@ -207,20 +296,21 @@ export async function getArticleSummary(fullArticle: ArticleWithRelations, orCon
  *
  * @param {string} title - Original article title
  * @param {string} content - Article content for context
- * @param {OpenRouterConfig} orConfig - OpenRouter API configuration
- * @returns {Promise<string>} Optimized title (cleaned)
+ * @param {LlmProvider} provider - LLM provider (default: the provider for TITLE_OPTIMIZATION)
+ * @returns {Promise<string>} Optimized title (validated, see ai-tasks.ts)
+ * @throws {AiOutputError} If the model doesn't return a valid title
  */
-export async function getEnhancedTitle(title: Article['title'], content: Article['content'], orConfig: OpenRouterConfig) {
-  const finalTitlePrompt = formatPrompt(TITLE_OPTIMIZATION, {
+export async function getEnhancedTitle(
+  title: Article['title'],
+  content: Article['content'],
+  provider: LlmProvider = useLlmProvider({ prompt: TITLE_OPTIMIZATION })
+) {
+  const output = await runAiTask(TITLE_TASK, {
     articleContent: content,
     title
-  });
+  }, provider);
 
-  // Remove quotes from AI response
-  return (await processArticleWithAI(
-          finalTitlePrompt,
-          orConfig
-        )).replace(/"/g, '');
+  return output.title;
 }
 
 /**
@@ -236,7 +326,7 @@ export async function getEnhancedTitle(title: Article['title'], content: Article
  *
  * @param {H3Event} event - Nuxt H3 event object
  * @param {string} articleId - UUID of article to enhance
- * @param {OpenRouterConfig} orConfig - OpenRouter API configuration
+ * @param {LlmProvider} [provider] - LLM provider for every prompt (default: each prompt's provider)
  * @returns {Promise<Object>} Object with enhancedContent, summary, optimizedTitle
  * @throws {Error} If article not found (404)
  *
@@ -244,10 +334,10 @@ export async function getEnhancedTitle(title: Article['title'], content: Article
  * const { enhancedContent, summary, optimizedTitle } = await enhanceArticle(
  *   event,
  *   articleId,
- *   { apiKey: process.env.OPENROUTER_KEY }
+ *   createMockProvider()
  * );
  */
-export async function enhanceArticle(event: H3Event, articleId: string, orConfig: OpenRouterConfig) {
+export async function enhanceArticle(event: H3Event, articleId: string, provider?: LlmProvider) {
   // Fetch article with full relationships
   const { data: article, error: fetchError } = await getArticleQueryWithRelations(event)
     .eq('id', articleId)
@@ -264,13 +354,74 @@ export async function enhanceArticle(event: H3Event, articleId: string, orConfig
   }
 
   // Run AI enhancements
-  const enhancedContent = await getArticleEnhancedContent(article.content, orConfig);
-  const summary = await getArticleSummary(article, orConfig);
-  const optimizedTitle = await getEnhancedTitle(article.title, article.content, orConfig);
+  const enhancedContent = await getArticleEnhancedContent(article.content, provider);
+  const summary = await getArticleSummary(article, provider);
+  const optimizedTitle = await getEnhancedTitle(article.title, article.content, provider);
 
   return {
     enhancedContent,
     summary,
     optimizedTitle
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Run full AI enhancement for an article and save the results as pending
+ * suggestions; the article's ai_* columns change once they are approved.
+ *
+ * Works with a Supabase client instead of an H3 event so it can run from the
+ * ai-remix background job. Stops between AI calls if isCancelled() reports
+ * that the job was cancelled, saving nothing.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} articleId - UUID of article to remix
+ * @param {LlmProvider} [provider] - LLM provider for every prompt (default: each prompt's provider)
+ * @param {() => Promise<boolean>} isCancelled - Optional cancellation check
+ * @returns {Promise<boolean>} True if suggestions were saved, false if cancelled
+ * @throws {Error} If the article is not found or the suggestions can't be saved
+ */
+export async function remixArticle(
+  client: JobsClient,
+  articleId: string,
+  provider?: LlmProvider,
+  isCancelled: () => Promise<boolean> = async () => false
+) {
+  const { data: article, error: fetchError } = await client
+    .from('articles')
+    .select(relationshipQuery)
+    .eq('id', articleId)
+    .single() as {
+    data: ArticleWithRelations | null;
+    error: SupabaseError | null;
+  };
+
+  if (fetchError || !article) {
+    throw new Error(fetchError?.message || `Article ${articleId} not found`);
+  }
+
+  // Each prompt's provider (its default model), unless the caller picked one
+  const contentProvider = provider ?? useLlmProvider({ prompt: BLOG_ENHANCEMENT });
+  const summaryProvider = provider ?? useLlmProvider({ prompt: ARTICLE_SUMMARY });
+  const titleProvider = provider ?? useLlmProvider({ prompt: TITLE_OPTIMIZATION });
+
+  // 1) Generate enhancement suggestions
+  const suggestions = await getArticleEnhancedContent(article.content, contentProvider);
+  if (await isCancelled()) return false;
+
+  // 2) Generate summary
+  const summary = await getArticleSummary(article, summaryProvider);
+  if (await isCancelled()) return false;
+
+  // 3) Optimize title
+  const optimizedTitle = await getEnhancedTitle(article.title, article.content, titleProvider);
+  if (await isCancelled()) return false;
+
+  // 4) Save the AI fields as suggestions for review (see suggestions.ts)
+  await saveSuggestions(client, article.id, [
+    { field: 'ai_content', value: suggestions, model: contentProvider.model, ...promptRef(BLOG_ENHANCEMENT) },
+    { field: 'ai_summary', value: summary, model: summaryProvider.model, ...promptRef(ARTICLE_SUMMARY) },
+    { field: 'ai_title', value: optimizedTitle, model: titleProvider.model, ...promptRef(TITLE_OPTIMIZATION) },
+  ], article.link);
+
+  return true;
+}
@@ -0,0 +1,471 @@
+/**
+ * ALEXANDRIAN SCRAPING - Image Mirroring
+ *
+ * Copies the images used by scraped articles into our own storage so the
+ * mirror keeps working if the source site goes down or blocks hotlinking.
+ *
+ * Pipeline (mirrorArticleImages()):
+ * 1. Collect <img> sources from the article HTML and its images list
+ * 2. Reuse images already mirrored from the same source URL, download the rest
+ *    (polite fetcher: robots.txt, pacing and backoff)
+ * 3. Deduplicate by SHA-256: identical files are stored once (images table)
+ * 4. Record each use with its alt text (article_images table)
+ * 5. Rewrite the article HTML and images list to the mirrored URLs, written
+ *    back only if articles.content_changed_at is still the value read in step 1
+ *    (otherwise the new HTML is rewritten instead)
+ *
+ * Storage Drivers (runtimeConfig.assets.driver):
+ * - local: files in .data/mirror/assets, served by /server/routes/assets/ and
+ *   read by @nuxt/image (IPX, whose fs root includes .data/mirror) as /assets/...
+ * - supabase: public Supabase storage bucket (runtimeConfig.assets.bucket)
+ *
+ * Images that fail to download keep their source URL and are tried again the
+ * next time the article is mirrored.
+ *
+ * Key Exports:
+ * - mirrorArticleImages(): Mirror one article's images and rewrite its HTML
+ * - useAssetStorage(): Storage driver from runtimeConfig.assets
+ * - readImageSize(): Image dimensions from file headers (PNG, GIF, JPEG, WebP, SVG)
+ *
+ * @module server/utils/assets
+ */
+
+import { createHash } from 'node:crypto'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { JSDOM } from 'jsdom'
+import type { Tables } from '~~/database.types'
+import type { JobsClient } from './jobs'
+import { usePoliteFetcher } from './politeness'
+
+/**
+ * Root directory of the local storage driver (relative to the server's working
+ * directory). Files live under {root}/assets so paths below the root match
+ * their URLs, which is what IPX expects.
+ */
+export const LOCAL_ASSET_ROOT = '.data/mirror'
+
+/** URL path the local storage driver serves files under */
+export const LOCAL_ASSET_PATH = '/assets'
+
+/**
+ * Where mirrored files are written.
+ */
+export interface AssetStorage {
+  /** Driver name, for logs */
+  driver: string;
+  /** Whether a URL points at a file in this storage (already mirrored) */
+  owns(url: string): boolean;
+  /**
+   * Store a file (overwriting any file with the same key).
+   * @returns {Promise<string>} Public URL of the file
+   */
+  save(key: string, data: Buffer, contentType: string): Promise<string>;
+}
+
+/**
+ * Dimensions read from an image file.
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+  /** File format detected from the header */
+  format: 'png' | 'gif' | 'jpeg' | 'webp' | 'svg';
+}
+
+/**
+ * Options for mirrorArticleImages().
+ */
+export interface MirrorOptions {
+  /** Storage driver (default: useAssetStorage()) */
+  storage?: AssetStorage;
+  /** Download an image (default: shared polite fetcher) */
+  download?: (url: string) => Promise<{ data: Buffer; contentType: string }>;
+  /** Largest file mirrored, in bytes (default: runtimeConfig.assets.maxBytes) */
+  maxBytes?: number;
+}
+
+/**
+ * Outcome of mirrorArticleImages().
+ */
+export interface MirrorResult {
+  articleId: string;
+  /** Distinct image URLs found in the article */
+  found: number;
+  /** Images downloaded and stored */
+  downloaded: number;
+  /** Images served from an earlier download (same URL or same file) */
+  reused: number;
+  /** Images that could not be mirrored (still pointing at the source) */
+  failed: number;
+}
+
+/** Tries to write the rewritten HTML when the article keeps changing underneath */
+const MAX_WRITE_ATTEMPTS = 3
+
+/** File extensions by content type */
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+}
+
+/**
+ * Read image dimensions from a file's header.
+ *
+ * @param {Uint8Array} data - File contents
+ * @returns {ImageSize | null} Dimensions, or null if the format is unknown or the header is cut off
+ *
+ * @example
+ * readImageSize(await readFile('logo.png'));  // { width: 320, height: 80, format: 'png' }
+ */
+export function readImageSize(data: Uint8Array): ImageSize | null {
+  const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+
+  // PNG: signature, then IHDR with width/height
+  if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47 && buf.toString('ascii', 12, 16) === 'IHDR') {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20), format: 'png' }
+  }
+
+  // GIF: logical screen size after the signature
+  if (buf.length >= 10 && buf.toString('ascii', 0, 3) === 'GIF') {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8), format: 'gif' }
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < buf.length) {
+      if (buf[offset] !== 0xff) return null
+      const marker = buf[offset + 1]
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5), format: 'jpeg' }
+      }
+      offset += 2 + buf.readUInt16BE(offset + 2)
+    }
+    return null
+  }
+
+  // WebP: RIFF container with a VP8, VP8L or VP8X chunk
+  if (buf.length >= 30 && buf.toString('ascii', 0, 4) === 'RIFF' && buf.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = buf.toString('ascii', 12, 16)
+    if (chunk === 'VP8 ') {
+      return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff, format: 'webp' }
+    }
+    if (chunk === 'VP8L') {
+      const bits = buf.readUInt32LE(21)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, format: 'webp' }
+    }
+    if (chunk === 'VP8X') {
+      return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1, format: 'webp' }
+    }
+    return null
+  }
+
+  // SVG: width/height attributes, or the viewBox
+  const head = buf.toString('utf-8', 0, Math.min(buf.length, 4096))
+  const svg = head.match(/<svg\b[^>]*>/i)?.[0]
+  if (svg) {
+    const width = parseFloat(svg.match(/\swidth="([\d.]+)(px)?"/)?.[1] ?? '')
+    const height = parseFloat(svg.match(/\sheight="([\d.]+)(px)?"/)?.[1] ?? '')
+    if (width > 0 && height > 0) return { width: Math.round(width), height: Math.round(height), format: 'svg' }
+
+    const viewBox = svg.match(/\sviewBox="[\d.-]+[\s,]+[\d.-]+[\s,]+([\d.]+)[\s,]+([\d.]+)"/)
+    if (viewBox) return { width: Math.round(Number(viewBox[1])), height: Math.round(Number(viewBox[2])), format: 'svg' }
+  }
+
+  return null
+}
+
+/**
+ * Storage driver writing to the local disk.
+ *
+ * @param {string} root - Root directory (default: LOCAL_ASSET_ROOT)
+ * @returns {AssetStorage} Driver returning /assets/{key} URLs
+ */
+export function createLocalAssetStorage(root: string = LOCAL_ASSET_ROOT): AssetStorage {
+  return {
+    driver: 'local',
+    owns: url => url.startsWith(`${LOCAL_ASSET_PATH}/`),
+    async save(key, data) {
+      const path = join(root, LOCAL_ASSET_PATH, key)
+      await mkdir(dirname(path), { recursive: true })
+      await writeFile(path, data)
+      return `${LOCAL_ASSET_PATH}/${key}`
+    },
+  }
+}
+
+/**
+ * Storage driver writing to a public Supabase storage bucket.
+ *
+ * @param {JobsClient} client - Supabase client (service role)
+ * @param {string} bucket - Bucket name
+ * @returns {AssetStorage} Driver returning the bucket's public URLs
+ */
+export function createSupabaseAssetStorage(client: JobsClient, bucket: string): AssetStorage {
+  const baseUrl = client.storage.from(bucket).getPublicUrl('').data.publicUrl
+
+  return {
+    driver: 'supabase',
+    owns: url => url.startsWith(baseUrl),
+    async save(key, data, contentType) {
+      const { error } = await client.storage
+        .from(bucket)
+        .upload(key, data, { contentType, upsert: true, cacheControl: '31536000' })
+
+      if (error) throw new Error(`Failed to upload ${key} to storage: ${error.message}`)
+      return client.storage.from(bucket).getPublicUrl(key).data.publicUrl
+    },
+  }
+}
+
+/**
+ * Get the storage driver configured in runtimeConfig.assets.
+ *
+ * @param {JobsClient} client - Supabase client (used by the supabase driver)
+ * @returns {AssetStorage} Storage driver
+ * @throws {Error} If the driver name is unknown
+ */
+export function useAssetStorage(client: JobsClient): AssetStorage {
+  const { assets } = useRuntimeConfig()
+
+  if (assets.driver === 'local') return createLocalAssetStorage()
+  if (assets.driver === 'supabase') return createSupabaseAssetStorage(client, assets.bucket)
+  throw new Error(`Unknown asset storage driver: ${assets.driver}`)
+}
+
+/**
+ * Download an image through the shared polite fetcher.
+ */
+async function politeDownload(url: string): Promise<{ data: Buffer; contentType: string }> {
+  const { data, headers } = await usePoliteFetcher().fetch(url, { binary: true })
+  return {
+    data: data ?? Buffer.alloc(0),
+    contentType: headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '',
+  }
+}
+
+/**
+ * Point an article's <img> tags and images list at their mirrored copies.
+ *
+ * @returns {{ content: string, images: string[], remaining: number }} Rewritten
+ *   HTML and list, and how many of their images still point at another site
+ */
+function rewriteImageSources(
+  article: Pick<Tables<'articles'>, 'link' | 'content' | 'images'>,
+  mirrored: Map<string, Tables<'images'>>,
+  storage: AssetStorage
+) {
+  const document = new JSDOM(article.content).window.document
+  const resolve = (src: string) => {
+    try {
+      return new URL(src, article.link).href
+    } catch {
+      return null
+    }
+  }
+  const remaining = new Set<string>()
+
+  document.querySelectorAll('img').forEach(img => {
+    const src = img.getAttribute('src') ?? ''
+    const url = resolve(src)
+    const image = url ? mirrored.get(url) : undefined
+    if (!image) {
+      if (url && !storage.owns(src)) remaining.add(url)
+      return
+    }
+
+    img.setAttribute('src', image.url)
+    // srcset candidates point at the source site's resized copies
+    img.removeAttribute('srcset')
+    img.removeAttribute('sizes')
+    if (image.width && image.height && !img.hasAttribute('width') && !img.hasAttribute('height')) {
+      img.setAttribute('width', String(image.width))
+      img.setAttribute('height', String(image.height))
+    }
+  })
+
+  const images = article.images.map(src => {
+    const url = resolve(src)
+    const mirroredUrl = url ? mirrored.get(url)?.url : undefined
+    if (!mirroredUrl && url && !storage.owns(src)) remaining.add(url)
+    return mirroredUrl || src
+  })
+
+  return { content: document.body.innerHTML, images, remaining: remaining.size }
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Mirror an Article's Images
+ *
+ * Downloads the article's images into storage, records them and rewrites the
+ * article's content and images list to the mirrored URLs. Safe to run again:
+ * images mirrored earlier are looked up by source URL instead of downloaded.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} articleId - Article UUID
+ * @param {MirrorOptions} options - Storage driver, downloader and size limit
+ * @returns {Promise<MirrorResult>} Counts of found, downloaded, reused and failed images
+ * @throws {Error} If the article can't be loaded, a database write fails or the
+ *   content keeps changing while it is rewritten
+ *
+ * @example
+ * const result = await mirrorArticleImages(client, articleId);
+ * console.log(result);  // { articleId, found: 3, downloaded: 2, reused: 1, failed: 0 }
+ */
+export async function mirrorArticleImages(
+  client: JobsClient,
+  articleId: string,
+  options: MirrorOptions = {}
+): Promise<MirrorResult> {
+  const storage = options.storage ?? useAssetStorage(client)
+  const download = options.download ?? politeDownload
+  const maxBytes = options.maxBytes ?? Number(useRuntimeConfig().assets.maxBytes)
+  const result: MirrorResult = { articleId, found: 0, downloaded: 0, reused: 0, failed: 0 }
+
+  // === PHASE 1: Collect Image URLs ===
+  const { data: article, error: loadError } = await client
+    .from('articles')
+    .select('id, link, content, images, content_changed_at')
+    .eq('id', articleId)
+    .single()
+
+  if (loadError || !article) throw new Error(loadError?.message || `Article ${articleId} not found`)
+
+  const document = new JSDOM(article.content).window.document
+  const imgEls = Array.from(document.querySelectorAll('img'))
+
+  // Resolve against the article URL; mirrored images already point at our storage
+  const resolve = (src: string) => {
+    try {
+      return new URL(src, article.link).href
+    } catch {
+      return null
+    }
+  }
+
+  const sources = new Map<string, { alt: string | null; position: number }>()
+  const addSource = (src: string | null, alt: string | null) => {
+    if (!src || storage.owns(src)) return
+    const url = resolve(src)
+    if (url && !sources.has(url)) sources.set(url, { alt, position: sources.size })
+  }
+  imgEls.forEach(img => addSource(img.getAttribute('src'), img.getAttribute('alt')))
+  article.images.forEach(src => addSource(src, null))
+  result.found = sources.size
+
+  // === PHASE 2: Reuse or Download ===
+  const mirrored = new Map<string, Tables<'images'>>()
+
+  for (const [url, { alt, position }] of sources) {
+    try {
+      const { data: known } = await client
+        .from('article_images')
+        .select('image: images ( * )')
+        .eq('source_url', url)
+        .limit(1)
+        .maybeSingle()
+
+      let image = known?.image ?? null
+      if (image) {
+        result.reused++
+      } else {
+        const { data, contentType } = await download(url)
+        // Trust the file header over a generic content type (application/octet-stream)
+        const size = readImageSize(data)
+        const type = EXTENSIONS[contentType] || !size
+          ? contentType
+          : `image/${size.format === 'svg' ? 'svg+xml' : size.format}`
+        const extension = EXTENSIONS[type]
+
+        if (!extension) throw new Error(`Not an image (${contentType || 'no content type'})`)
+        if (data.length === 0 || data.length > maxBytes) throw new Error(`Unexpected size: ${data.length} bytes`)
+
+        // === PHASE 3: Deduplicate by Content Hash ===
+        const hash = createHash('sha256').update(data).digest('hex')
+        const { data: existing } = await client
+          .from('images')
+          .select('*')
+          .eq('hash', hash)
+          .maybeSingle()
+
+        if (existing) {
+          image = existing
+          result.reused++
+        } else {
+          const key = `${hash.slice(0, 2)}/${hash}.${extension}`
+          const publicUrl = await storage.save(key, data, type)
+
+          const { data: saved, error: saveError } = await client
+            .from('images')
+            .upsert({
+              hash,
+              storage_key: key,
+              url: publicUrl,
+              content_type: type,
+              bytes: data.length,
+              width: size?.width ?? null,
+              height: size?.height ?? null,
+            }, { onConflict: 'hash' })
+            .select()
+            .single()
+
+          if (saveError || !saved) throw new Error(saveError?.message || 'Failed to save image')
+          image = saved
+          result.downloaded++
+        }
+      }
+
+      // === PHASE 4: Record the Use ===
+      const { error: useError } = await client
+        .from('article_images')
+        .upsert({ article_id: article.id, image_id: image.id, source_url: url, alt, position },
+          { onConflict: 'article_id,source_url' })
+
+      if (useError) throw new Error(`Failed to record image use: ${useError.message}`)
+      mirrored.set(url, image)
+    } catch (error) {
+      // Keep the source URL; the next mirror run tries again
+      result.failed++
+      console.error(`[Assets] Failed to mirror ${url}:`, error)
+    }
+  }
+
+  // === PHASE 5: Rewrite Article ===
+  // Written back only if the content didn't change while we downloaded (a
+  // scrape or link rewrite in between); otherwise the new content is rewritten
+  let current = article
+  for (let attempt = 1; ; attempt++) {
+    const rewritten = rewriteImageSources(current, mirrored, storage)
+    const { data: updated, error: updateError } = await client
+      .from('articles')
+      .update({
+        content: rewritten.content,
+        images: rewritten.images,
+        images_mirrored_at: result.failed === 0 && rewritten.remaining === 0 ? new Date().toISOString() : null,
+      })
+      .eq('id', article.id)
+      .eq('content_changed_at', current.content_changed_at)
+      .select('id')
+
+    if (updateError) throw new Error(`Failed to update article images: ${updateError.message}`)
+    if (updated.length > 0) break
+    if (attempt === MAX_WRITE_ATTEMPTS) throw new Error(`Article ${article.id} kept changing while its images were mirrored`)
+
+    const { data: fresh, error: reloadError } = await client
+      .from('articles')
+      .select('id, link, content, images, content_changed_at')
+      .eq('id', article.id)
+      .single()
+
+    if (reloadError || !fresh) throw new Error(reloadError?.message || `Article ${articleId} not found`)
+    current = fresh
+  }
+
+  console.info(`[Assets] ${article.id}: ${result.downloaded} downloaded, ${result.reused} reused, ${result.failed} failed (${storage.driver})`)
+  return result
+}
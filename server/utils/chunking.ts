@@ -0,0 +1,261 @@
+/**
+ * ALEXANDRIAN SCRAPING - Prompt Chunking
+ *
+ * Long essays don't fit in the context window of small or free models when
+ * the whole article HTML goes into one prompt. Prompts are sized against the
+ * provider's contextTokens (llm.ts) and long content is split at block
+ * boundaries first:
+ *
+ * - Enhancement (BLOG_ENHANCEMENT): each chunk is rewritten on its own and
+ *   the results are joined in order
+ * - Summary (SUMMARY_TASK): map-reduce; each chunk is summarized with
+ *   CHUNK_SUMMARY, then the part summaries are summarized like an article
+ *   (chunked again if they still don't fit)
+ *
+ * Content that fits is sent in one prompt, as before.
+ *
+ * Token counts are estimates (characters / CHARS_PER_TOKEN), on the safe side
+ * for English prose and HTML.
+ *
+ * Key Exports:
+ * - estimateTokens(): Rough token count of a text
+ * - chunkHtml(): Split HTML into chunks under a token budget
+ * - enhanceHtmlInChunks(): BLOG_ENHANCEMENT, chunk by chunk
+ * - summarizeInChunks(): SUMMARY_TASK with map-reduce for long articles
+ *
+ * @module server/utils/chunking
+ */
+
+import { JSDOM } from 'jsdom'
+import type { LlmProvider } from './llm'
+import { processArticleWithAI } from './llm'
+import { ARTICLE_SUMMARY, BLOG_ENHANCEMENT, CHUNK_SUMMARY, SYSTEM_PROMPT, formatPrompt } from './prompts'
+import type { PromptTemplate, PromptTemplateVars } from './prompts'
+import { SUMMARY_TASK, runAiTask } from './ai-tasks'
+import type { SummaryOutput } from './ai-tasks'
+
+/** Characters per token assumed by estimateTokens() */
+export const CHARS_PER_TOKEN = 3.5
+
+/** Rewritten HTML runs longer than its input (added structure): answer tokens per input token */
+const ENHANCEMENT_OUTPUT_RATIO = 1.5
+
+/** Smallest content budget worth sending; below it the model's context is too small */
+const MIN_CHUNK_TOKENS = 256
+
+/**
+ * Estimate the number of tokens in a text.
+ *
+ * @param {string} text - Prompt, HTML or answer
+ * @returns {number} Estimated tokens
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Expected answer size: a fixed number of tokens plus a share of the content.
+ */
+export interface AnswerSize {
+  tokens?: number;
+  /** Answer tokens per content token */
+  ratio?: number;
+}
+
+/**
+ * Tokens left for {articleContent} in a prompt, after the system prompt, the
+ * template's other text and the expected answer.
+ *
+ * @param {LlmProvider} provider - Provider (context window)
+ * @param {PromptTemplate} template - Prompt template
+ * @param {Partial<PromptTemplateVars>} vars - Template variables other than articleContent
+ * @param {AnswerSize} answer - Expected answer size
+ * @returns {number} Largest content in tokens
+ * @throws {Error} If the context window leaves less than MIN_CHUNK_TOKENS
+ */
+export function contentBudget(
+  provider: LlmProvider,
+  template: PromptTemplate,
+  vars: Partial<PromptTemplateVars>,
+  answer: AnswerSize
+): number {
+  const overhead = estimateTokens(SYSTEM_PROMPT.prompt) + estimateTokens(formatPrompt(template, { ...vars, articleContent: ' ' }))
+  const budget = Math.floor((provider.contextTokens - overhead - (answer.tokens ?? 0)) / (1 + (answer.ratio ?? 0)))
+
+  if (budget < MIN_CHUNK_TOKENS) {
+    throw new Error(`Context window of ${provider.model} (${provider.contextTokens} tokens) is too small for: ${template.description}`)
+  }
+  return budget
+}
+
+/**
+ * Serialize a node as HTML.
+ */
+function toHtml(node: Node, container: Element): string {
+  if (node.nodeType === node.ELEMENT_NODE) return (node as Element).outerHTML
+  container.replaceChildren(node.cloneNode(true))
+  return container.innerHTML
+}
+
+/**
+ * Split serialized text at whitespace into pieces under maxTokens.
+ */
+function splitText(html: string, maxTokens: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxTokens * CHARS_PER_TOKEN))
+  const pieces: string[] = []
+  let rest = html
+
+  while (rest.length > maxChars) {
+    const space = rest.lastIndexOf(' ', maxChars)
+    const cut = space > 0 ? space + 1 : maxChars
+    pieces.push(rest.slice(0, cut))
+    rest = rest.slice(cut)
+  }
+  if (rest) pieces.push(rest)
+
+  return pieces
+}
+
+/**
+ * Join pieces in order into as few chunks under maxTokens as possible.
+ */
+function pack(pieces: string[], maxTokens: number): string[] {
+  const chunks: string[] = []
+  let current = ''
+
+  for (const piece of pieces) {
+    if (current && estimateTokens(current + piece) > maxTokens) {
+      chunks.push(current)
+      current = ''
+    }
+    current += piece
+  }
+  if (current.trim()) chunks.push(current)
+
+  return chunks
+}
+
+/**
+ * Split one node into pieces under maxTokens: elements too large are split
+ * between their children (each group in a copy of the element, so a long
+ * list becomes several lists), text between words.
+ */
+function splitNode(node: Node, maxTokens: number, container: Element): string[] {
+  const html = toHtml(node, container)
+  if (estimateTokens(html) <= maxTokens) return [html]
+
+  if (node.nodeType === node.ELEMENT_NODE && node.childNodes.length > 0) {
+    const element = node as Element
+    const shell = element.cloneNode(false) as Element
+    const innerBudget = maxTokens - estimateTokens(shell.outerHTML)
+
+    if (innerBudget >= MIN_CHUNK_TOKENS / 4) {
+      const children = Array.from(element.childNodes).flatMap(child => splitNode(child, innerBudget, container))
+      return pack(children, innerBudget).map((inner) => {
+        shell.innerHTML = inner
+        return shell.outerHTML
+      })
+    }
+  }
+
+  return splitText(html, maxTokens)
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Split HTML into Chunks
+ *
+ * Splits HTML between top-level blocks (paragraphs, headings, lists…) into
+ * chunks of at most maxTokens each. Blocks larger than a chunk are split
+ * between their children, and text between words, as a last resort.
+ * Joining the chunks gives back the same content.
+ *
+ * @param {string} html - Article HTML
+ * @param {number} maxTokens - Largest chunk in estimated tokens
+ * @returns {string[]} Chunks in order (one if the HTML fits, none if empty)
+ *
+ * @example
+ * chunkHtml('<p>One.</p><p>Two.</p>', 4);
+ * // ['<p>One.</p>', '<p>Two.</p>']
+ */
+export function chunkHtml(html: string, maxTokens: number): string[] {
+  if (!html.trim()) return []
+  if (estimateTokens(html) <= maxTokens) return [html]
+
+  const { document } = new JSDOM('').window
+  const root = document.createElement('div')
+  root.innerHTML = html
+  const container = document.createElement('div')
+
+  const pieces = Array.from(root.childNodes)
+    .filter(node => node.nodeType !== node.COMMENT_NODE)
+    .flatMap(node => splitNode(node, maxTokens, container))
+
+  return pack(pieces, maxTokens)
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Chunked Enhancement
+ *
+ * Rewrites article HTML with BLOG_ENHANCEMENT, one chunk per prompt when it
+ * doesn't fit in one, and joins the rewritten chunks in order.
+ *
+ * @param {string} html - Article HTML
+ * @param {LlmProvider} provider - LLM provider
+ * @returns {Promise<string>} Enhanced HTML
+ * @throws {Error} If the provider fails or its context window is too small
+ */
+export async function enhanceHtmlInChunks(html: string, provider: LlmProvider): Promise<string> {
+  const budget = contentBudget(provider, BLOG_ENHANCEMENT, {}, { ratio: ENHANCEMENT_OUTPUT_RATIO })
+  const chunks = chunkHtml(html, budget)
+  if (chunks.length > 1) console.info(`[Chunking] Enhancing ${chunks.length} chunks of ≤${budget} tokens (${provider.model})`)
+
+  const enhanced: string[] = []
+  for (const chunk of chunks) {
+    const prompt = formatPrompt(BLOG_ENHANCEMENT, { articleContent: chunk })
+    enhanced.push(await processArticleWithAI(prompt, provider, { ...BLOG_ENHANCEMENT.parameters, promptId: BLOG_ENHANCEMENT.id }))
+  }
+
+  return enhanced.join('\n')
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Map-Reduce Summary
+ *
+ * Summarizes an article with SUMMARY_TASK. Articles too long for one
+ * prompt are split; each chunk is summarized with CHUNK_SUMMARY (map) and
+ * the part summaries are summarized as the article's content (reduce),
+ * splitting again while they don't fit.
+ *
+ * @param {PromptTemplateVars} vars - Article content, title, categories and tags
+ * @param {LlmProvider} provider - LLM provider
+ * @returns {Promise<SummaryOutput>} Summary, key points and reading level
+ * @throws {AiOutputError} If the final reply doesn't match SUMMARY_TASK's schema
+ * @throws {Error} If the provider fails or its context window is too small
+ */
+export async function summarizeInChunks(vars: PromptTemplateVars, provider: LlmProvider): Promise<SummaryOutput> {
+  const { articleContent, ...context } = vars
+  const budget = contentBudget(provider, ARTICLE_SUMMARY, context, { tokens: ARTICLE_SUMMARY.parameters.maxTokens })
+
+  if (estimateTokens(articleContent) <= budget) {
+    return runAiTask(SUMMARY_TASK, vars, provider)
+  }
+
+  // Map: summarize each part
+  const chunkBudget = contentBudget(provider, CHUNK_SUMMARY, { title: vars.title }, { tokens: CHUNK_SUMMARY.parameters.maxTokens })
+  const chunks = chunkHtml(articleContent, chunkBudget)
+  console.info(`[Chunking] Summarizing ${chunks.length} chunks of ≤${chunkBudget} tokens (${provider.model})`)
+
+  const partSummaries: string[] = []
+  for (const chunk of chunks) {
+    const prompt = formatPrompt(CHUNK_SUMMARY, { articleContent: chunk, title: vars.title })
+    partSummaries.push(await processArticleWithAI(prompt, provider, { ...CHUNK_SUMMARY.parameters, promptId: CHUNK_SUMMARY.id }))
+  }
+
+  // Reduce: the part summaries stand in for the content
+  const reduced = partSummaries.join('\n\n')
+  if (reduced.length >= articleContent.length) {
+    throw new Error('Part summaries are no shorter than the article; the model isn\'t summarizing')
+  }
+
+  return summarizeInChunks({ ...context, articleContent: reduced }, provider)
+}
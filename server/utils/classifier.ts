@@ -0,0 +1,215 @@
+/**
+ * ALEXANDRIAN SCRAPING - Link Classifier
+ *
+ * Fills in CrawlStatus Article (7), Tag (5) and Category (6) on crawled
+ * links. /api/link-process depends on Tag/Category statuses and /api/scrap on
+ * Article statuses, but the crawler only marks links as Visited.
+ *
+ * Classification Rules (first match wins):
+ * 1. file-extension: URL ends with a file extension → File (4)
+ * 2. url-pattern: classifyLinkUrl() → Article, Tag or Category, using the
+ *    site profile's urlPatterns (/wordpress/{id}/{slug}, /tag/{slug}[/page/N],
+ *    /category/{slug}[/page/N] for The Alexandrian)
+ * 3. page-structure: for links no URL rule matches, the page is fetched and
+ *    checked with classifyLinkDocument() (WordPress body classes, single entry
+ *    with .storycontent). Each run fetches up to structureLimit pages, never
+ *    checked links first, then the longest-unchecked (structure_checked_at),
+ *    so links no check can classify don't crowd out the rest
+ *
+ * Only Visited links are classified: Pending links still need to be crawled
+ * for their links, and links that already have a final status are left alone.
+ * Links no rule matches stay Visited (home page, pagination, static pages).
+ *
+ * Key Exports:
+ * - classifyLinks(): Build a classification report, optionally applying it
+ * - ClassificationReport: Proposed status changes and counts
+ *
+ * @module server/utils/classifier
+ */
+
+import { JSDOM } from 'jsdom'
+import type { JobsClient } from './jobs'
+import { CrawlStatus, classifyLinkDocument, classifyLinkUrl, fileExts } from './crawler'
+import { politeFetchHtml } from './politeness'
+import { getSiteProfileForUrl } from './site-profiles'
+
+/**
+ * Options for classifyLinks().
+ */
+export interface ClassifyOptions {
+  /** Only report changes, don't update found_links (default: false) */
+  dryRun?: boolean;
+  /** Fetch pages that no URL rule matches (default: true) */
+  structureChecks?: boolean;
+  /** Maximum pages fetched for structure checks (default: 200) */
+  structureLimit?: number;
+  /** Checked between page fetches; returning true stops structure checks */
+  isCancelled?: () => Promise<boolean>;
+}
+
+/**
+ * A proposed status change for one link.
+ */
+export interface ClassificationChange {
+  id: string;
+  href: string;
+  from: CrawlStatus;
+  to: CrawlStatus;
+  /** Rule that decided the new status */
+  rule: 'file-extension' | 'url-pattern' | 'page-structure';
+}
+
+/**
+ * Outcome of classifyLinks().
+ */
+export interface ClassificationReport {
+  /** Whether changes were written to found_links */
+  applied: boolean;
+  /** Visited links considered */
+  checked: number;
+  /** Pages fetched for structure checks */
+  structureChecked: number;
+  /** Links no rule matched (stay Visited) */
+  unclassified: number;
+  /** Number of changes by new status name (e.g. { Article: 120 }) */
+  counts: Record<string, number>;
+  /** Proposed (or applied) changes */
+  changes: ClassificationChange[];
+  /** Whether structure checks stopped because the job was cancelled */
+  cancelled: boolean;
+}
+
+/** Links updated per bulk UPDATE ... WHERE id IN (...) */
+const UPDATE_CHUNK_SIZE = 200
+
+/** Rows read per page (Supabase caps responses at 1000 rows) */
+const PAGE_SIZE = 1000
+
+/**
+ * ALEXANDRIAN SCRAPING - Link Classification
+ *
+ * Classifies Visited links and, unless dryRun is set, updates their statuses
+ * in bulk (one UPDATE per status and chunk of ids).
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {ClassifyOptions} options - Dry run and structure check settings
+ * @returns {Promise<ClassificationReport>} Proposed or applied changes
+ * @throws {Error} If found_links can't be read or written
+ *
+ * @example
+ * const report = await classifyLinks(client, { dryRun: true, structureChecks: false });
+ * console.log(report.counts);  // { Article: 2300, Tag: 410, Category: 35 }
+ */
+export async function classifyLinks(client: JobsClient, options: ClassifyOptions = {}): Promise<ClassificationReport> {
+  const { dryRun = false, structureChecks = true, structureLimit = 200, isCancelled } = options
+  const report: ClassificationReport = {
+    applied: false,
+    checked: 0,
+    structureChecked: 0,
+    unclassified: 0,
+    counts: {},
+    changes: [],
+    cancelled: false,
+  }
+
+  // === PHASE 1: Load Visited Links ===
+  const links: Array<{ id: string; href: string | null; structure_checked_at: string | null }> = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error: loadError } = await client
+      .from('found_links')
+      .select('id, href, structure_checked_at')
+      .eq('status', CrawlStatus.Visited)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (loadError) throw new Error(`Failed to load links from Supabase: ${loadError.message}`)
+    links.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  report.checked = links.length
+
+  const propose = (link: { id: string; href: string }, to: CrawlStatus, rule: ClassificationChange['rule']) => {
+    report.changes.push({ id: link.id, href: link.href, from: CrawlStatus.Visited, to, rule })
+    report.counts[CrawlStatus[to]] = (report.counts[CrawlStatus[to]] ?? 0) + 1
+  }
+
+  // === PHASE 2: URL Rules ===
+  const undecided: Array<{ id: string; href: string; structureCheckedAt: string }> = []
+  for (const link of links) {
+    if (!link.href) continue
+    const rec = { id: link.id, href: link.href, structureCheckedAt: link.structure_checked_at ?? '' }
+
+    if (fileExts.some(ext => rec.href.toLowerCase().endsWith(ext))) {
+      propose(rec, CrawlStatus.File, 'file-extension')
+      continue
+    }
+
+    const status = classifyLinkUrl(rec.href)
+    if (status !== null) propose(rec, status, 'url-pattern')
+    else undecided.push(rec)
+  }
+
+  // === PHASE 3: Page Structure Checks ===
+  // Never checked first (''), then the longest-unchecked; ids keep the order stable
+  undecided.sort((a, b) => a.structureCheckedAt.localeCompare(b.structureCheckedAt) || a.id.localeCompare(b.id))
+  const attemptedIds: string[] = []
+
+  if (structureChecks) {
+    for (const link of undecided.slice(0, structureLimit)) {
+      if (isCancelled && await isCancelled()) {
+        report.cancelled = true
+        break
+      }
+
+      attemptedIds.push(link.id)
+      try {
+        const html = await politeFetchHtml(link.href)
+        report.structureChecked++
+
+        const status = classifyLinkDocument(new JSDOM(html).window.document, getSiteProfileForUrl(link.href) ?? undefined)
+        if (status !== null) propose(link, status, 'page-structure')
+      } catch (error) {
+        // Leave the link Visited; it is checked again once the others have had their turn
+        console.error(`[Classifier] Failed to fetch ${link.href}:`, error)
+      }
+    }
+  }
+
+  report.unclassified = report.checked - report.changes.length
+  console.info(`[Classifier] ${report.changes.length} of ${report.checked} links classified`, report.counts)
+
+  if (dryRun) return report
+
+  // === PHASE 4: Bulk Status Updates ===
+  const idsByStatus = new Map<CrawlStatus, string[]>()
+  report.changes.forEach(change => {
+    idsByStatus.set(change.to, [...(idsByStatus.get(change.to) ?? []), change.id])
+  })
+
+  for (const [status, ids] of idsByStatus) {
+    for (let i = 0; i < ids.length; i += UPDATE_CHUNK_SIZE) {
+      const { error: updateError } = await client
+        .from('found_links')
+        .update({ status })
+        .in('id', ids.slice(i, i + UPDATE_CHUNK_SIZE))
+        // Don't overwrite links that changed since they were loaded
+        .eq('status', CrawlStatus.Visited)
+
+      if (updateError) throw new Error(`Failed to update link statuses: ${updateError.message}`)
+    }
+  }
+
+  // Move checked links to the back of the structure check queue
+  const checkedAt = new Date().toISOString()
+  for (let i = 0; i < attemptedIds.length; i += UPDATE_CHUNK_SIZE) {
+    const { error: updateError } = await client
+      .from('found_links')
+      .update({ structure_checked_at: checkedAt })
+      .in('id', attemptedIds.slice(i, i + UPDATE_CHUNK_SIZE))
+
+    if (updateError) throw new Error(`Failed to record structure checks: ${updateError.message}`)
+  }
+
+  report.applied = true
+  return report
+}
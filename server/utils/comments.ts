@@ -0,0 +1,42 @@
+/**
+ * ALEXANDRIAN SCRAPING - Comment Threads
+ *
+ * Turns the flat comments table back into the reply hierarchy shown on the
+ * original blog. Replies reference their parent through comments.parent_id
+ * (set by scrapeAndSaveLink() from the nesting in the page).
+ *
+ * Key Exports:
+ * - buildCommentThreads(): Nest comments under their parents
+ *
+ * @module server/utils/comments
+ */
+
+import type { Comment, CommentThread } from './types'
+
+/**
+ * Nest comments under the comments they reply to.
+ * Threads and replies are ordered oldest first. A reply whose parent is not in
+ * the list is shown as a top-level comment rather than dropped.
+ *
+ * @param {Comment[]} comments - Flat comments of one article
+ * @returns {CommentThread[]} Top-level comments with their replies
+ *
+ * @example
+ * const threads = buildCommentThreads(comments);
+ * threads[0].replies[0].author;  // "Justin Alexander"
+ */
+export function buildCommentThreads(comments: Comment[]): CommentThread[] {
+  const sorted = [...comments].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at) || a.old_id - b.old_id)
+  const threads = new Map<string, CommentThread>(
+    sorted.map(comment => [comment.id, { ...comment, replies: [] }]))
+
+  const roots: CommentThread[] = []
+  for (const thread of threads.values()) {
+    const parent = thread.parent_id ? threads.get(thread.parent_id) : undefined
+    if (parent) parent.replies.push(thread)
+    else roots.push(thread)
+  }
+
+  return roots
+}
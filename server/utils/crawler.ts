@@ -2,20 +2,28 @@
  * ALEXANDRIAN SCRAPING - Crawler Utilities
  *
  * This module provides core crawling functionality for discovering and managing links
- * from The Alexandrian blog (https://thealexandrian.net/). It handles URL normalization,
- * link discovery, duplicate detection, and status tracking.
+ * from The Alexandrian blog (https://thealexandrian.net/) and any other site with a
+ * profile in site-profiles.ts. It handles URL normalization, link discovery,
+ * duplicate detection, and status tracking.
  *
  * Architecture Role:
  * - Foundation layer for the scraping pipeline
  * - Provides link discovery and classification utilities
- * - Used by /server/api/crawl.ts for systematic site traversal
+ * - Used by the crawl job (see job.handlers.ts) for systematic site traversal
  * - Manages link state tracking through CrawlStatus enum
  *
  * Key Exports:
  * - getLinksFromUrl(): Extracts internal links from a URL
+ * - extractInternalLinks(): Extracts internal links from a parsed page
+ * - fetchPageConditionally(): Fetches a page with ETag/Last-Modified validators
+ * - hashPageContent(): Hashes a page's main content for change detection
  * - normalizeUrl(): Standardizes URLs by removing fragments and query params
  * - getDuplicateLinks(): Identifies duplicate entries
  * - getFileLinks(): Filters file resources (images, PDFs, etc.)
+ * - classifyLinkUrl(): Classifies a URL as Article/Tag/Category by its path
+ * - classifyLinkDocument(): Classifies a parsed page by its structure
+ * - getAllArticleLinks() / getAllTagsLinks() / getAllCategoriesLinks(): Filter links by URL pattern
+ * - crawlPendingLinks(): Crawls one batch of pending links (used by the crawl job)
  * - CrawlStatus enum: Tracks link processing states
  * - LinkRecord interface: Database schema representation
  *
@@ -23,7 +31,12 @@
  */
 
 // server/utils/crawler.ts
+import { createHash } from 'node:crypto';
 import { JSDOM } from 'jsdom';
+import type { JobsClient } from './jobs';
+import { politeFetchHtml, usePoliteFetcher } from './politeness';
+import type { SiteProfile } from './site-profiles';
+import { getSiteProfile, getSiteProfileForUrl } from './site-profiles';
 
 /**
  * Represents a link record stored in the found_links database table.
@@ -40,6 +53,8 @@ export interface LinkRecord {
   visited: boolean;
   /** Current processing status (see CrawlStatus enum) */
   status: number;
+  /** When the article was scraped (null until then) */
+  processed_at?: string | null;
 }
 
 /**
@@ -109,12 +124,6 @@ export function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-/**
- * Base domain for The Alexandrian blog.
- * Used to filter internal vs external links during crawling.
- */
-const baseDomain = new URL('https://thealexandrian.net/').origin;
-
 /**
  * ALEXANDRIAN SCRAPING - Core Link Discovery Function
  *
@@ -122,8 +131,9 @@ const baseDomain = new URL('https://thealexandrian.net/').origin;
  * This is the primary mechanism for discovering new pages to crawl.
  *
  * Process:
- * 1. Adds a delay to prevent rate limiting
- * 2. Fetches the HTML content of the URL
+ * 1. Fetches the HTML content of the URL through the politeness engine
+ *    (robots.txt, pacing, rate cap and backoff; see politeness.ts)
+ * 2. Skips the page if robots.txt disallows it
  * 3. Parses the HTML using JSDOM
  * 4. Extracts all anchor tags with href attributes
  * 5. Filters links to only include:
@@ -139,7 +149,6 @@ const baseDomain = new URL('https://thealexandrian.net/').origin;
  *
  * @param {string} currentUrl - The URL to fetch and extract links from
  * @param {Set<string>} visited - Set of already visited URLs to avoid re-crawling
- * @param {number} delayMs - Milliseconds to wait before fetching (default: 1000)
  * @returns {Promise<string[] | null>} Array of discovered internal links, or null if fetch failed
  *
  * @example
@@ -147,58 +156,72 @@ const baseDomain = new URL('https://thealexandrian.net/').origin;
  * const newLinks = await getLinksFromUrl('https://thealexandrian.net/', visited);
  * // Returns: ['https://thealexandrian.net/blog', 'https://thealexandrian.net/contact', ...]
  */
-export async function getLinksFromUrl(currentUrl: string, visited: Set<string>, delayMs = 1000): Promise<string[] | null> {
+export async function getLinksFromUrl(currentUrl: string, visited: Set<string>): Promise<string[] | null> {
   // Early return if URL is invalid or already visited
   if (!currentUrl || visited.has(currentUrl)) return [];
 
-  // Rate limiting: wait before making request
-  await delay(delayMs);
+  try {
+    // Fetch HTML content from the URL (paced and rate limited)
+    const html = await politeFetchHtml(currentUrl);
+    const dom = new JSDOM(html);
 
+    return extractInternalLinks(dom.window.document, visited, currentUrl);
+  } catch (error) {
+    console.error(`Failed to fetch ${currentUrl}:`, error);
+    return null;  // Return null to indicate fetch failure
+  }
+}
+
+/**
+ * Extracts new internal links from a parsed page.
+ *
+ * Link Filtering Logic:
+ * - External links (different domain than the page): Skipped
+ * - Already visited links: Skipped
+ * - Duplicate links in current batch: Skipped
+ *
+ * @param {Document} document - Parsed HTML document
+ * @param {Set<string>} visited - Set of already visited URLs to skip
+ * @param {string} pageUrl - URL of the page; links on other origins are external
+ * @returns {string[]} Normalized internal links not in visited
+ */
+export function extractInternalLinks(document: Document, visited: Set<string>, pageUrl: string): string[] {
+  const baseDomain = new URL(pageUrl).origin;
   const foundLinks: string[] = [];
   const _externalLinks: string[] = [];  // For logging purposes
   const _visitedLinks: string[] = [];   // For logging purposes
 
-  try {
-    // Fetch HTML content from the URL
-    const html = await $fetch<string>(currentUrl);
-    const dom = new JSDOM(html);
-    const document = dom.window.document;
-
-    // Extract all anchor elements with href attributes
-    const anchors: HTMLAnchorElement[] = Array.from(document.querySelectorAll('a[href]'));
-    console.info(`Found ${anchors.length} raw links`);
+  // Extract all anchor elements with href attributes
+  const anchors: HTMLAnchorElement[] = Array.from(document.querySelectorAll('a[href]'));
+  console.info(`Found ${anchors.length} raw links`);
 
-    for (const anchor of anchors) {
-      const href = anchor.getAttribute('href');
-      if (!href) continue;
+  for (const anchor of anchors) {
+    const href = anchor.getAttribute('href');
+    if (!href) continue;
 
-      // Normalize URL to ensure consistency
-      const absoluteUrl = normalizeUrl(href);
+    // Normalize URL to ensure consistency
+    const absoluteUrl = normalizeUrl(href);
 
-      // Skip if already found in this batch
-      const alreadyFound = foundLinks.includes(absoluteUrl);
-      if (alreadyFound) continue;
-
-      // Check if link is internal (same domain as The Alexandrian)
-      const isInternal = absoluteUrl.startsWith(baseDomain);
-      if (!isInternal) {
-        _externalLinks.push(absoluteUrl);
-        continue;
-      }
+    // Skip if already found in this batch
+    const alreadyFound = foundLinks.includes(absoluteUrl);
+    if (alreadyFound) continue;
 
-      // Skip if already visited in previous crawls
-      const isVisited = visited.has(absoluteUrl);
-      if (isVisited) {
-        _visitedLinks.push(absoluteUrl);
-        continue;
-      }
+    // Check if link is internal (same domain as the page)
+    const isInternal = absoluteUrl.startsWith(baseDomain);
+    if (!isInternal) {
+      _externalLinks.push(absoluteUrl);
+      continue;
+    }
 
-      // Add to list of new links discovered
-      foundLinks.push(absoluteUrl);
+    // Skip if already visited in previous crawls
+    const isVisited = visited.has(absoluteUrl);
+    if (isVisited) {
+      _visitedLinks.push(absoluteUrl);
+      continue;
     }
-  } catch (error) {
-    console.error(`Failed to fetch ${currentUrl}:`, error);
-    return null;  // Return null to indicate fetch failure
+
+    // Add to list of new links discovered
+    foundLinks.push(absoluteUrl);
   }
 
   // Log summary of link discovery
@@ -209,6 +232,87 @@ export async function getLinksFromUrl(currentUrl: string, visited: Set<string>,
   return foundLinks;
 }
 
+/**
+ * HTTP validators remembered from a previous fetch of a page.
+ */
+export interface PageValidators {
+  /** ETag response header */
+  etag?: string | null;
+  /** Last-Modified response header */
+  lastModified?: string | null;
+}
+
+/**
+ * Result of a conditional page fetch.
+ */
+export interface ConditionalFetchResult extends PageValidators {
+  /** True if the server answered 304 Not Modified (html is empty) */
+  notModified: boolean;
+  /** Page HTML */
+  html: string;
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Conditional Page Fetch
+ *
+ * Fetches a page with If-None-Match / If-Modified-Since built from the
+ * validators of a previous fetch, so unchanged pages cost a 304 instead of
+ * a full download. Used by incremental re-crawls.
+ *
+ * @param {string} url - Page URL
+ * @param {PageValidators} validators - ETag / Last-Modified from the last fetch
+ * @returns {Promise<ConditionalFetchResult>} Page HTML and new validators
+ * @throws {PolitenessError} If robots.txt disallows the URL or the request fails after retries
+ */
+export async function fetchPageConditionally(url: string, validators: PageValidators = {}): Promise<ConditionalFetchResult> {
+  const headers: Record<string, string> = {};
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const response = await usePoliteFetcher().fetch(url, { headers });
+
+  return {
+    notModified: response.status === 304,
+    html: response.body,
+    etag: response.headers.get('etag') ?? validators.etag ?? null,
+    lastModified: response.headers.get('last-modified') ?? validators.lastModified ?? null,
+  };
+}
+
+/**
+ * Computes a stable hash of a page's main content.
+ * Only the main column (the profile's mainContent selector, e.g. #yui-main) is
+ * hashed, with whitespace collapsed, so sidebar widgets (recent comments,
+ * archives) don't register as changes.
+ *
+ * @param {Document} document - Parsed HTML document
+ * @param {SiteProfile} profile - Site the page belongs to
+ * @returns {string} SHA-256 hex digest
+ */
+export function hashPageContent(document: Document, profile: SiteProfile = getSiteProfile()): string {
+  const main = document.querySelector(profile.selectors.mainContent) ?? document.body;
+  const text = (main?.innerHTML ?? '').replace(/\s+/g, ' ').trim();
+
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/** Rows read per page (Supabase caps responses at 1000 rows) */
+const PAGE_SIZE = 1000;
+
+/**
+ * Preference order when one href has several rows: rows the pipeline has
+ * classified or scraped carry the most information, Pending the least.
+ */
+const statusRank: Record<number, number> = {
+  [CrawlStatus.Article]: 6,
+  [CrawlStatus.Tag]: 5,
+  [CrawlStatus.Category]: 5,
+  [CrawlStatus.File]: 4,
+  [CrawlStatus.Visited]: 3,
+  [CrawlStatus.Error]: 2,
+  [CrawlStatus.Pending]: 1,
+};
+
 /**
  * ALEXANDRIAN SCRAPING - Duplicate Link Detection
  *
@@ -216,19 +320,20 @@ export async function getLinksFromUrl(currentUrl: string, visited: Set<string>,
  * This helps clean up the found_links table and prevent redundant crawling.
  *
  * Algorithm:
- * 1. Counts occurrences of each unique href
- * 2. Identifies hrefs that appear more than once
- * 3. Returns all records with duplicate hrefs
+ * 1. Groups records by href
+ * 2. Keeps one record per href: processed (scraped) records first, then the
+ *    most classified status (Article, Tag/Category, File, Visited, Error, Pending)
+ * 3. Returns the other records of each group, which are safe to delete
  *
  * Note: This finds exact duplicates. Use getNormalizedDuplicateLinks() for
  * URLs that differ only by query params or hash fragments.
  *
  * @param {LinkRecord[]} links - Array of link records to check
- * @returns {Promise<LinkRecord[]>} Array of all records with duplicate hrefs
+ * @returns {Promise<LinkRecord[]>} Records to delete (never the kept record of an href)
  *
  * @example
  * const dupes = await getDuplicateLinks(allLinks);
- * // Returns all records where href appears multiple times
+ * // Returns the extra records of every href that appears multiple times
  */
 export async function getDuplicateLinks(links: LinkRecord[]): Promise<LinkRecord[]> {
   const uniqueCount = new Set(links.map(rec => rec.href)).size;
@@ -239,21 +344,31 @@ export async function getDuplicateLinks(links: LinkRecord[]): Promise<LinkRecord
   }
   console.error(`Found duplicate links: ${dupeCount} dupe${dupeCount > 1 ? 's' : ''}`);
 
-  // Build a frequency map: href → occurrence count
-  const freq = new Map<string, number>();
-  for (const { href } of links) {
-    freq.set(href, (freq.get(href) ?? 0) + 1);
+  // Pick the record to keep for each href
+  const keep = new Map<string, LinkRecord>();
+  for (const rec of links) {
+    const kept = keep.get(rec.href);
+    if (!kept || compareLinkRecords(rec, kept) > 0) {
+      keep.set(rec.href, rec);
+    }
   }
 
-  // Identify which hrefs are duplicates (appear more than once)
-  const dupHrefs = new Set(
-    Array.from(freq.entries())
-      .filter(([, count]) => count > 1)
-      .map(([href]) => href)
-  );
+  // Return every other record
+  return links.filter(rec => keep.get(rec.href) !== rec);
+}
+
+/**
+ * Compares two records of the same href by how much the pipeline knows about them.
+ *
+ * @param {LinkRecord} a - First record
+ * @param {LinkRecord} b - Second record
+ * @returns {number} Positive if a should be kept over b
+ */
+function compareLinkRecords(a: LinkRecord, b: LinkRecord): number {
+  const processed = Number(!!a.processed_at) - Number(!!b.processed_at);
+  if (processed !== 0) return processed;
 
-  // Return every record whose href is in the duplicate set
-  return links.filter(rec => dupHrefs.has(rec.href));
+  return (statusRank[a.status] ?? 0) - (statusRank[b.status] ?? 0);
 }
 
 /**
@@ -328,48 +443,108 @@ export async function getFileLinks(links: LinkRecord[]): Promise<LinkRecord[]> {
 }
 
 /**
- * ALEXANDRIAN SCRAPING - Article Link Classification (Placeholder)
+ * Classifies a URL as Article, Tag or Category from its URL alone, using the
+ * urlPatterns of the site profile the URL belongs to.
+ * Used to pre-classify links found in sitemaps and feeds.
+ *
+ * URL Patterns (The Alexandrian):
+ * - Article: /wordpress/{post-id}/{slug}
+ * - Tag: /tag/{tag-name} (optionally /page/{number})
+ * - Category: /category/{category-name} (optionally /page/{number})
+ *
+ * @param {string} href - Full URL
+ * @returns {CrawlStatus | null} Article, Tag or Category, or null if no pattern matches
+ *   (or the URL belongs to no configured site)
  *
- * Future function to identify links that are article pages.
- * Articles typically have URLs like:
+ * @example
+ * classifyLinkUrl('https://thealexandrian.net/wordpress/123/post-title');  // CrawlStatus.Article
+ * classifyLinkUrl('https://thealexandrian.net/about');  // null
+ */
+export function classifyLinkUrl(href: string): CrawlStatus | null {
+  const profile = getSiteProfileForUrl(href);
+  if (!profile) return null;
+
+  // Patterns are anchored at the end of the path
+  const { origin, pathname } = new URL(href);
+  const url = origin + pathname;
+  const { urlPatterns } = profile;
+
+  if (urlPatterns.article.test(url)) return CrawlStatus.Article;
+  if (urlPatterns.tag.test(url)) return CrawlStatus.Tag;
+  if (urlPatterns.category.test(url)) return CrawlStatus.Category;
+
+  return null;
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Article Link Classification
+ *
+ * Identifies links that are article pages by URL pattern.
+ * Articles have URLs like:
  * https://thealexandrian.net/wordpress/{post-id}/{slug}
  *
  * @param {LinkRecord[]} links - Array of link records to check
  * @returns {Promise<LinkRecord[]>} Array of article links
  */
 export async function getAllArticleLinks(links: LinkRecord[]): Promise<LinkRecord[]> {
-  // TODO: Implement article link detection
-  return [];
+  return links.filter(rec => classifyLinkUrl(rec.href) === CrawlStatus.Article);
 }
 
 /**
- * ALEXANDRIAN SCRAPING - Tag Link Classification (Placeholder)
+ * ALEXANDRIAN SCRAPING - Tag Link Classification
  *
- * Future function to identify links that are tag listing pages.
+ * Identifies links that are tag listing pages (including their pagination) by URL pattern.
  * Tag pages have URLs like:
  * https://thealexandrian.net/tag/{tag-name}
+ * https://thealexandrian.net/tag/{tag-name}/page/{number}
  *
  * @param {LinkRecord[]} links - Array of link records to check
  * @returns {Promise<LinkRecord[]>} Array of tag page links
  */
 export async function getAllTagsLinks(links: LinkRecord[]): Promise<LinkRecord[]> {
-  // TODO: Implement tag link detection
-  return [];
+  return links.filter(rec => classifyLinkUrl(rec.href) === CrawlStatus.Tag);
 }
 
 /**
- * ALEXANDRIAN SCRAPING - Category Link Classification (Placeholder)
+ * ALEXANDRIAN SCRAPING - Category Link Classification
  *
- * Future function to identify links that are category listing pages.
+ * Identifies links that are category listing pages (including their pagination) by URL pattern.
  * Category pages have URLs like:
  * https://thealexandrian.net/category/{category-name}
+ * https://thealexandrian.net/category/{category-name}/page/{number}
  *
  * @param {LinkRecord[]} links - Array of link records to check
  * @returns {Promise<LinkRecord[]>} Array of category page links
  */
 export async function getAllCategoriesLinks(links: LinkRecord[]): Promise<LinkRecord[]> {
-  // TODO: Implement category link detection
-  return [];
+  return links.filter(rec => classifyLinkUrl(rec.href) === CrawlStatus.Category);
+}
+
+/**
+ * Classifies a parsed page as Article, Tag or Category from its structure.
+ * Used for links whose URL matches no pattern.
+ *
+ * Structure Rules:
+ * - WordPress body classes: `single` → Article, `tag` → Tag, `category` → Category
+ * - Exactly one article container (profile selectors.article) with a body
+ *   (selectors.content) → Article
+ *
+ * @param {Document} document - Parsed HTML document
+ * @param {SiteProfile} profile - Site the page belongs to
+ * @returns {CrawlStatus | null} Article, Tag or Category, or null if undecided
+ */
+export function classifyLinkDocument(document: Document, profile: SiteProfile = getSiteProfile()): CrawlStatus | null {
+  const bodyClasses = document.body?.classList;
+  if (bodyClasses?.contains('single')) return CrawlStatus.Article;
+  if (bodyClasses?.contains('tag')) return CrawlStatus.Tag;
+  if (bodyClasses?.contains('category')) return CrawlStatus.Category;
+
+  const entries = document.querySelectorAll(profile.selectors.article);
+  if (entries.length === 1 && entries[0].querySelector(profile.selectors.content)) {
+    return CrawlStatus.Article;
+  }
+
+  return null;
 }
 
 export async function exportLinksToJson(links: LinkRecord[], filePath: string): Promise<void> {
@@ -384,3 +559,223 @@ export async function exportLinksToJson(links: LinkRecord[], filePath: string):
 
   console.info(`Exported ${links.length} links to ${filePath}`);
 }
+
+/**
+ * Options for crawlPendingLinks().
+ */
+export interface CrawlBatchOptions {
+  /** Maximum number of URLs to visit in this batch */
+  batchSize?: number;
+  /** Site profile id whose startUrl seeds an empty crawl (default: The Alexandrian) */
+  site?: string;
+  /** Checked between URLs; returning true stops the batch early */
+  isCancelled?: () => Promise<boolean>;
+}
+
+/**
+ * Outcome of one crawl batch.
+ */
+export interface CrawlBatchResult {
+  /** URLs visited during this batch */
+  visited: string[];
+  /** URLs still waiting to be crawled */
+  pending: number;
+  /** Whether the batch stopped because the job was cancelled */
+  cancelled: boolean;
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Crawl Batch
+ *
+ * Runs one bounded slice of the breadth-first crawl. The crawl job calls this
+ * repeatedly (one job per batch) until no Pending links remain, so progress
+ * survives restarts and each step stays short.
+ *
+ * Crawling Algorithm:
+ * 1. Load existing links from database, a page at a time
+ * 2. Clean up duplicates and normalize URLs
+ * 3. Identify and mark file resources
+ * 4. Build visited and toVisit sets
+ * 5. Until batchSize URLs were visited or toVisit is empty:
+ *    a. Pop next URL from toVisit
+ *    b. Fetch page and extract links
+ *    c. Filter for internal, unvisited links
+ *    d. Add new links to database with Pending status
+ *    e. Mark current URL as Visited
+ *
+ * Pending links of every site are crawled; the site option only decides
+ * where an empty crawl starts.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {CrawlBatchOptions} options - Batch size, start site and cancellation check
+ * @returns {Promise<CrawlBatchResult>} Visited URLs and remaining queue size
+ * @throws {Error} If found_links can't be read or written or the site is unknown
+ */
+export async function crawlPendingLinks(client: JobsClient, options: CrawlBatchOptions = {}): Promise<CrawlBatchResult> {
+  const { batchSize = 50, isCancelled } = options;
+  const { startUrl } = getSiteProfile(options.site);
+
+  // === PHASE 1: Load Existing Crawl State ===
+  // Every row, a page at a time: a link missing here would be re-added as Pending
+  const existing: LinkRecord[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error: loadError } = await client
+      .from('found_links')
+      .select('*')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (loadError || !data) {
+      throw new Error(`Failed to load existing links from Supabase: ${loadError?.message}`);
+    }
+    existing.push(...(data as unknown as LinkRecord[]));
+    if (data.length < PAGE_SIZE) break;
+  }
+  const visited = new Set<string>();  // URLs already crawled for links
+  const toVisit = new Set<string>();  // URLs queued for crawling
+  const known = new Set<string>();    // URLs with a found_links row, whatever its status
+  const visitedNow: string[] = [];    // URLs crawled in this batch
+
+  // === PHASE 2: Clean Up Duplicate Links ===
+  // Find exact duplicates (same href appearing multiple times)
+  const duplicates = await getDuplicateLinks(existing);
+  // Find normalized duplicates (URLs differing only by query params or hash)
+  const normalizedDuplicates = await getNormalizedDuplicateLinks(duplicates);
+  const toDeleteIds = new Set([...duplicates, ...normalizedDuplicates].map(rec => rec.id));
+
+  // Delete duplicate records in parallel
+  const deletedIds = await Promise.all(
+    Array.from(toDeleteIds).map(id =>
+      client
+        .from('found_links')
+        .delete()
+        .eq('id', id)
+        .then(() => id)
+    )
+  );
+  console.info(`Deleted ${deletedIds.length} duplicate links`);
+
+  // Only the kept record of each href decides what happens to it
+  const links = existing.filter(rec => !toDeleteIds.has(rec.id));
+
+  // === PHASE 3: Identify and Mark File Resources ===
+  // Files (images, PDFs, etc.) should not be crawled for links
+  const fileLinks = await getFileLinks(links);
+  const fileHrefs = new Set(fileLinks.map(rec => rec.href));
+  await Promise.all(
+    fileLinks
+      .filter(rec => rec.status !== CrawlStatus.File)
+      .map(rec =>
+        client
+          .from('found_links')
+          .update({ status: CrawlStatus.File })
+          .eq('id', rec.id)
+      )
+  );
+  console.info(`Updated ${fileLinks.length} file links`);
+
+  // === PHASE 4: Build Crawl Queue ===
+  // Populate visited and toVisit sets from existing records
+  links.forEach(rec => {
+    // Every stored href is known, so a classified or scraped row is never re-added as Pending
+    known.add(rec.href);
+
+    // Skip file links (already processed above)
+    if (fileHrefs.has(rec.href)) return;
+
+    // Add to visited if already crawled
+    if (rec.status === CrawlStatus.Visited) visited.add(rec.href);
+    // Add to queue if pending
+    else if (rec.status === CrawlStatus.Pending) toVisit.add(rec.href);
+  });
+
+  console.info(`Loaded ${existing.length} links from Supabase`);
+  console.info(`with ${visited.size} visited links`);
+  console.info(`and ${toVisit.size} links to visit`);
+
+  // === PHASE 5: Initialize Crawl if Needed ===
+  // If no pending links and haven't crawled homepage, start there
+  if (toVisit.size === 0 && !visited.has(startUrl)) {
+    toVisit.add(startUrl);
+    if (!known.has(startUrl)) {
+      known.add(startUrl);
+      await client.from('found_links').insert({ href: startUrl, status: CrawlStatus.Pending });
+    }
+  }
+
+  // === PHASE 6: Crawl One Batch ===
+  while (toVisit.size > 0 && visitedNow.length < batchSize) {
+    if (isCancelled && await isCancelled()) {
+      console.info('Crawl batch cancelled');
+      return { visited: visitedNow, pending: toVisit.size, cancelled: true };
+    }
+
+    // Get next URL from queue (Set.values() returns iterator)
+    const currentUrl = toVisit.values().next().value as string;
+    console.log(`Starting ${currentUrl}`);
+    console.log('--- * ---');
+
+    // Double-check if URL is a file resource
+    if (fileExts.some(ext => currentUrl.endsWith(ext))) {
+      toVisit.delete(currentUrl);
+      await client
+        .from('found_links')
+        .update({ status: CrawlStatus.File })
+        .eq('href', currentUrl);
+      continue;
+    }
+
+    // Fetch page and extract links (snapshot of visited set for filtering)
+    const foundLinks = await getLinksFromUrl(currentUrl, new Set(visited));
+
+    // Mark URL as processed
+    visited.add(currentUrl);
+    toVisit.delete(currentUrl);
+    visitedNow.push(currentUrl);
+
+    // Update database with crawl result (Error if fetch failed, Visited otherwise)
+    const { error: updateError } = await client
+      .from('found_links')
+      .update({ status: foundLinks === null ? CrawlStatus.Error : CrawlStatus.Visited })
+      .eq('href', currentUrl);
+
+    if (updateError) {
+      throw new Error(`Failed to update link status in Supabase: ${updateError.message}`);
+    }
+
+    // Skip to next URL if fetch failed
+    if (foundLinks === null) continue;
+
+    // Add newly discovered links to queue
+    const finalAdd = foundLinks.filter(link => !known.has(link) && !visited.has(link) && !toVisit.has(link));
+    finalAdd.forEach(link => {
+      known.add(link);
+      toVisit.add(link);
+    });
+
+    if (finalAdd.length !== 0) {
+      console.info(`Adding ${finalAdd.length} links to DB`);
+
+      // Batch insert new links with Pending status
+      const { error: insertError } = await client
+        .from('found_links')
+        .insert(finalAdd.map(link => ({
+          href: link,
+          status: CrawlStatus.Pending,
+        })));
+
+      if (insertError) {
+        throw new Error(`Failed to insert links into Supabase: ${insertError.message}`);
+      }
+    }
+
+    // Progress logging
+    console.log(`Visited ${visited.size} links`);
+    console.log(`Pending ${toVisit.size} links`);
+    console.log('---------------------------');
+  }
+
+  console.log(`Finished crawl batch of ${visitedNow.length} links, ${toVisit.size} pending`);
+
+  return { visited: visitedNow, pending: toVisit.size, cancelled: false };
+}
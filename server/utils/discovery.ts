@@ -0,0 +1,405 @@
+/**
+ * ALEXANDRIAN SCRAPING - Sitemap & Feed Discovery
+ *
+ * Seeds found_links from the site's sitemaps and WordPress feeds instead of
+ * discovering every page by following anchors from the home page. A sitemap
+ * lists every post in a few requests, so full discovery takes minutes rather
+ * than hours of breadth-first crawling, and both sources carry dates.
+ *
+ * Sources (LinkSource):
+ * - sitemap: Sitemap: lines in robots.txt, then the profile's sitemapPaths
+ *   (/sitemap.xml, /sitemap_index.xml, /wp-sitemap.xml); sitemap index files
+ *   are followed recursively
+ * - feed: the profile's feedPaths (WordPress RSS /feed/, Atom /feed/atom/ as
+ *   fallback), paged with ?paged=N until a page is empty
+ * - crawl: links found by the anchor-following crawler (column default)
+ *
+ * Discovery Flow:
+ * 1. Read sitemaps and feeds (through the politeness engine)
+ * 2. Keep internal, non-file URLs (normalized)
+ * 3. Pre-classify each URL as Article/Tag/Category (classifyLinkUrl())
+ * 4. Insert unknown URLs with their source and publish date; unclassified
+ *    URLs are inserted as Pending
+ * 5. Fill in published_at on known links that don't have one yet
+ * 6. If Pending links were inserted, enqueue a crawl job to visit them
+ *
+ * Publish Dates:
+ * Feed items carry the real publish date (pubDate / published). Sitemaps only
+ * carry <lastmod>, which is used when no feed date is known.
+ *
+ * Key Exports:
+ * - discoverLinks(): Run sitemap and feed discovery
+ * - parseSitemap() / parseFeed(): XML parsers
+ * - LinkSource enum: Values stored in found_links.source
+ *
+ * @module server/utils/discovery
+ */
+
+import { JSDOM } from 'jsdom'
+import type { JobsClient } from './jobs'
+import { JobType, enqueueJob } from './jobs'
+import { CrawlStatus, classifyLinkUrl, fileExts, normalizeUrl } from './crawler'
+import { PolitenessError, politeFetchHtml } from './politeness'
+import type { SiteProfile } from './site-profiles'
+import { getSiteProfile } from './site-profiles'
+
+/**
+ * How a link was first found (found_links.source).
+ *
+ * @enum {string}
+ */
+export enum LinkSource {
+  /** Found by following anchors (crawler.ts) */
+  Crawl = 'crawl',
+  /** Listed in a sitemap */
+  Sitemap = 'sitemap',
+  /** Listed in an RSS/Atom feed */
+  Feed = 'feed',
+}
+
+/**
+ * Options for discoverLinks().
+ */
+export interface DiscoveryOptions {
+  /** Site profile id (default: The Alexandrian) */
+  site?: string;
+  /** Read sitemaps (default: true) */
+  sitemaps?: boolean;
+  /** Read feeds (default: true) */
+  feeds?: boolean;
+  /** Maximum feed pages to read (default: 50) */
+  maxFeedPages?: number;
+  /** Checked between requests; returning true stops discovery early */
+  isCancelled?: () => Promise<boolean>;
+}
+
+/**
+ * Outcome of one discovery run.
+ */
+export interface DiscoveryResult {
+  /** Sitemap files read (including index files) */
+  sitemapsRead: number;
+  /** Feed pages read */
+  feedPagesRead: number;
+  /** Distinct internal URLs found */
+  discovered: number;
+  /** URLs inserted into found_links */
+  inserted: number;
+  /** Inserted URLs by pre-classification */
+  classified: { article: number; tag: number; category: number; pending: number };
+  /** Known links that received a published_at */
+  datesFilled: number;
+  /** Whether discovery stopped because the job was cancelled */
+  cancelled: boolean;
+}
+
+/**
+ * A URL with its source and publish date.
+ */
+interface DiscoveredLink {
+  href: string;
+  source: LinkSource;
+  publishedAt: string | null;
+}
+
+/** Guards against sitemap index loops */
+const MAX_SITEMAPS = 500
+
+/** Rows read per page (Supabase caps responses at 1000 rows) */
+const PAGE_SIZE = 1000
+
+/**
+ * Parses a date string into an ISO timestamp.
+ *
+ * @param {string | null | undefined} value - W3C, RFC 822 or ISO date
+ * @returns {string | null} ISO timestamp or null if missing/invalid
+ */
+function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null
+  const date = new Date(value.trim())
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Parses a sitemap or sitemap index.
+ *
+ * @param {string} xml - Sitemap XML
+ * @returns {{ sitemaps: string[], urls: Array<{ loc: string, lastmod: string | null }> }}
+ *   Child sitemaps (index files) and page URLs (urlset files)
+ *
+ * @example
+ * parseSitemap('<urlset><url><loc>https://thealexandrian.net/wordpress/1/a</loc></url></urlset>');
+ * // { sitemaps: [], urls: [{ loc: 'https://thealexandrian.net/wordpress/1/a', lastmod: null }] }
+ */
+export function parseSitemap(xml: string) {
+  const document = new JSDOM(xml, { contentType: 'text/xml' }).window.document
+
+  const sitemaps = Array.from(document.querySelectorAll('sitemap > loc'))
+    .map(el => el.textContent?.trim() ?? '')
+    .filter(Boolean)
+
+  const urls = Array.from(document.querySelectorAll('url'))
+    .map(el => ({
+      loc: el.querySelector('loc')?.textContent?.trim() ?? '',
+      lastmod: toIsoDate(el.querySelector('lastmod')?.textContent),
+    }))
+    .filter(url => url.loc)
+
+  return { sitemaps, urls }
+}
+
+/**
+ * Parses an RSS 2.0 or Atom feed.
+ *
+ * @param {string} xml - Feed XML
+ * @returns {Array<{ link: string, published: string | null }>} Item links and publish dates
+ */
+export function parseFeed(xml: string) {
+  const document = new JSDOM(xml, { contentType: 'text/xml' }).window.document
+
+  // RSS 2.0: <item><link>…</link><pubDate>…</pubDate></item>
+  const rssItems = Array.from(document.querySelectorAll('item')).map(item => ({
+    link: item.querySelector('link')?.textContent?.trim() ?? '',
+    published: toIsoDate(item.querySelector('pubDate')?.textContent),
+  }))
+
+  // Atom: <entry><link rel="alternate" href="…"/><published>…</published></entry>
+  const atomEntries = Array.from(document.querySelectorAll('entry')).map(entry => {
+    const link = entry.querySelector('link[rel="alternate"]') ?? entry.querySelector('link')
+    return {
+      link: link?.getAttribute('href')?.trim() ?? '',
+      published: toIsoDate(entry.querySelector('published')?.textContent ?? entry.querySelector('updated')?.textContent),
+    }
+  })
+
+  return [...rssItems, ...atomEntries].filter(item => item.link)
+}
+
+/**
+ * Fetches a URL, returning null when it doesn't exist (4xx) or robots.txt forbids it.
+ */
+async function fetchOptional(url: string): Promise<string | null> {
+  try {
+    return await politeFetchHtml(url)
+  } catch (error) {
+    if (error instanceof PolitenessError && (error.statusCode === undefined || error.statusCode < 500)) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Normalizes a discovered URL, keeping only internal HTML pages.
+ *
+ * @returns {string | null} Normalized URL or null if it should be skipped
+ */
+function toInternalUrl(href: string, siteUrl: string): string | null {
+  try {
+    const url = new URL(href, siteUrl)
+    if (url.origin !== new URL(siteUrl).origin) return null
+    const normalized = normalizeUrl(url.toString())
+    return fileExts.some(ext => normalized.toLowerCase().endsWith(ext)) ? null : normalized
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads all sitemaps, following sitemap index files.
+ *
+ * @returns {Promise<{ links: DiscoveredLink[], read: number, cancelled: boolean }>}
+ */
+async function readSitemaps(profile: SiteProfile, isCancelled?: () => Promise<boolean>) {
+  const siteUrl = profile.startUrl
+  const links: DiscoveredLink[] = []
+  const seen = new Set<string>()
+  let read = 0
+
+  // Sitemaps declared in robots.txt come first
+  const robots = await fetchOptional(new URL('robots.txt', siteUrl).toString())
+  const declared = (robots ?? '')
+    .split(/\r?\n/)
+    .map(line => line.match(/^\s*sitemap\s*:\s*(\S+)/i)?.[1])
+    .filter((loc): loc is string => !!loc)
+
+  // Fallback locations are tried one at a time until one of them answers
+  const queue = [...declared]
+  const fallbacks = declared.length > 0 ? [] : profile.sitemapPaths.map(path => new URL(path, siteUrl).toString())
+
+  while (seen.size < MAX_SITEMAPS) {
+    if (queue.length === 0 && read === 0 && fallbacks.length > 0) queue.push(fallbacks.shift()!)
+    if (queue.length === 0) break
+
+    if (isCancelled && await isCancelled()) return { links, read, cancelled: true }
+
+    const sitemapUrl = queue.shift()!
+    if (seen.has(sitemapUrl)) continue
+    seen.add(sitemapUrl)
+
+    const xml = await fetchOptional(sitemapUrl)
+    if (!xml) continue
+    read++
+
+    const { sitemaps, urls } = parseSitemap(xml)
+    queue.push(...sitemaps)
+    urls.forEach(({ loc, lastmod }) => links.push({ href: loc, source: LinkSource.Sitemap, publishedAt: lastmod }))
+    console.info(`[Discovery] ${sitemapUrl}: ${sitemaps.length} sitemaps, ${urls.length} urls`)
+  }
+
+  return { links, read, cancelled: false }
+}
+
+/**
+ * Reads the paged WordPress feed.
+ *
+ * @returns {Promise<{ links: DiscoveredLink[], read: number, cancelled: boolean }>}
+ */
+async function readFeeds(profile: SiteProfile, maxPages: number, isCancelled?: () => Promise<boolean>) {
+  const links: DiscoveredLink[] = []
+  let read = 0
+
+  for (const feedPath of profile.feedPaths) {
+    const feedUrl = new URL(feedPath, profile.startUrl)
+
+    for (let page = 1; page <= maxPages; page++) {
+      if (isCancelled && await isCancelled()) return { links, read, cancelled: true }
+
+      if (page > 1) feedUrl.searchParams.set('paged', String(page))
+      const xml = await fetchOptional(feedUrl.toString())
+      if (!xml) break
+
+      const items = parseFeed(xml)
+      if (items.length === 0) break
+      read++
+
+      items.forEach(({ link, published }) => links.push({ href: link, source: LinkSource.Feed, publishedAt: published }))
+    }
+
+    // One working feed is enough
+    if (read > 0) break
+  }
+
+  console.info(`[Discovery] ${profile.id}: read ${read} feed pages, ${links.length} items`)
+  return { links, read, cancelled: false }
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Sitemap & Feed Discovery
+ *
+ * Reads sitemaps and feeds and seeds found_links with pre-classified URLs.
+ * See module documentation for the full flow.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {DiscoveryOptions} options - Site, sources to read and cancellation check
+ * @returns {Promise<DiscoveryResult>} Counts of discovered and inserted links
+ * @throws {Error} If found_links can't be read or written or the site is unknown
+ */
+export async function discoverLinks(client: JobsClient, options: DiscoveryOptions = {}): Promise<DiscoveryResult> {
+  const { sitemaps = true, feeds = true, maxFeedPages = 50, isCancelled } = options
+  const profile = getSiteProfile(options.site)
+  const result: DiscoveryResult = {
+    sitemapsRead: 0,
+    feedPagesRead: 0,
+    discovered: 0,
+    inserted: 0,
+    classified: { article: 0, tag: 0, category: 0, pending: 0 },
+    datesFilled: 0,
+    cancelled: false,
+  }
+
+  // === PHASE 1: Read Sources ===
+  const found: DiscoveredLink[] = []
+
+  if (sitemaps) {
+    const { links, read, cancelled } = await readSitemaps(profile, isCancelled)
+    found.push(...links)
+    result.sitemapsRead = read
+    if (cancelled) return { ...result, cancelled }
+  }
+
+  if (feeds) {
+    const { links, read, cancelled } = await readFeeds(profile, maxFeedPages, isCancelled)
+    found.push(...links)
+    result.feedPagesRead = read
+    if (cancelled) return { ...result, cancelled }
+  }
+
+  // === PHASE 2: Normalize & Merge ===
+  // First source wins (sitemaps are read first); feed publish dates win over lastmod
+  const byHref = new Map<string, DiscoveredLink>()
+  for (const link of found) {
+    const href = toInternalUrl(link.href, profile.startUrl)
+    if (!href) continue
+
+    const existing = byHref.get(href)
+    if (!existing) {
+      byHref.set(href, { ...link, href })
+    } else if (link.publishedAt && (link.source === LinkSource.Feed || !existing.publishedAt)) {
+      existing.publishedAt = link.publishedAt
+    }
+  }
+  result.discovered = byHref.size
+  console.info(`[Discovery] ${byHref.size} distinct internal URLs`)
+
+  // === PHASE 3: Compare With Known Links ===
+  const knownByHref = new Map<string, { id: string; href: string | null; published_at: string | null }>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error: loadError } = await client
+      .from('found_links')
+      .select('id, href, published_at')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (loadError) throw new Error(`Failed to load links from Supabase: ${loadError.message}`)
+    for (const rec of data ?? []) {
+      if (rec.href) knownByHref.set(rec.href, rec)
+    }
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  // === PHASE 4: Insert New, Pre-classified Links ===
+  const rows = Array.from(byHref.values())
+    .filter(link => !knownByHref.has(link.href))
+    .map(link => {
+      const status = classifyLinkUrl(link.href) ?? CrawlStatus.Pending
+      if (status === CrawlStatus.Article) result.classified.article++
+      else if (status === CrawlStatus.Tag) result.classified.tag++
+      else if (status === CrawlStatus.Category) result.classified.category++
+      else result.classified.pending++
+
+      return { href: link.href, status, source: link.source, published_at: link.publishedAt }
+    })
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error: insertError } = await client
+      .from('found_links')
+      .insert(rows.slice(i, i + 500))
+
+    if (insertError) throw new Error(`Failed to insert links: ${insertError.message}`)
+  }
+  result.inserted = rows.length
+  console.info(`[Discovery] Inserted ${rows.length} links`, result.classified)
+
+  // === PHASE 5: Fill In Missing Publish Dates ===
+  for (const link of byHref.values()) {
+    const rec = knownByHref.get(link.href)
+    if (!rec || rec.published_at || !link.publishedAt) continue
+
+    const { error: updateError } = await client
+      .from('found_links')
+      .update({ published_at: link.publishedAt })
+      .eq('id', rec.id)
+
+    if (updateError) throw new Error(`Failed to update ${link.href}: ${updateError.message}`)
+    result.datesFilled++
+  }
+
+  // === PHASE 6: Crawl Unclassified Links ===
+  if (result.classified.pending > 0) {
+    await enqueueJob(client, JobType.Crawl, { site: profile.id }, { dedupeKey: JobType.Crawl })
+  }
+
+  console.info('[Discovery] Finished', result)
+  return result
+}
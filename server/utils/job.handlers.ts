@@ -0,0 +1,317 @@
+/**
+ * ALEXANDRIAN SCRAPING - Background Job Handlers
+ *
+ * Maps each JobType to the code that performs it and runs claimed jobs.
+ * Handlers are small, resumable units of work: a crawl job visits one batch of
+ * links and enqueues its own continuation (and a classify job once the crawl
+ * is done), a classify job sets Article/Tag/Category statuses, a scrape job saves one article
+ * (and enqueues a mirror-images job for it), a mirror-images job copies one
+ * article's images, an ai-remix job enhances one article, a recrawl job checks
+ * listing pages and schedules its next run, a discover job seeds links from
+ * sitemaps and feeds, a resolve-related job links related posts across all articles,
+ * a detect-series job groups articles into series and a sanitize-content job
+ * re-sanitizes stored HTML.
+ *
+ * Architecture Role:
+ * - Bridges the job queue (jobs.ts) and the pipeline utilities
+ *   (crawler.ts, classifier.ts, recrawl.ts, discovery.ts, scrape.controller.ts,
+ *   related.ts, assets.ts, links.ts, series.ts, sanitize.ts, article.controller.ts)
+ * - Used by the worker plugin (/server/plugins/jobs.worker.ts)
+ *
+ * Key Exports:
+ * - jobHandlers: Registry of handlers by JobType
+ * - runJob(): Execute a claimed job and record its outcome
+ *
+ * @module server/utils/job.handlers
+ */
+
+import type { Json } from '~~/database.types'
+import type { Job } from './types'
+import type { JobsClient } from './jobs'
+import { JobStatus, JobType, completeJob, enqueueJob, failJob, isJobCancelled, renewJobLease } from './jobs'
+import { crawlPendingLinks } from './crawler'
+import { scrapeAndSaveLink } from './scrape.controller'
+import { remixArticle } from './article.controller'
+import { useLlmProvider } from './llm'
+import { AiBudgetError, assertAiBudget } from './ai-usage'
+import { recrawlListings } from './recrawl'
+import { discoverLinks } from './discovery'
+import { classifyLinks } from './classifier'
+import { resolveRelatedArticles } from './related'
+import { mirrorArticleImages } from './assets'
+import { rewriteArticleLinks } from './links'
+import { detectArticleSeries } from './series'
+import { sanitizeStoredHtml } from './sanitize'
+
+/**
+ * Everything a handler needs to do its work.
+ */
+export interface JobContext {
+  /** Supabase client (service role) */
+  client: JobsClient;
+  /** The claimed job */
+  job: Job;
+  /** Check whether the job was cancelled since it was claimed */
+  isCancelled: () => Promise<boolean>;
+}
+
+/**
+ * What a handler returns when it finishes.
+ */
+export interface JobOutcome {
+  /** Stored in jobs.result */
+  result?: Json;
+  /** If set, a follow-up job of the same type is enqueued with this payload */
+  continueWith?: Json;
+  /** When the follow-up job may run (default: now) */
+  continueAt?: Date;
+}
+
+export type JobHandler = (context: JobContext) => Promise<JobOutcome>
+
+/**
+ * Crawl one batch of pending links and continue until the queue is empty.
+ * When the crawl is done, a classify job sets Article/Tag/Category statuses.
+ * Payload: { batchSize?: number, site?: string }
+ */
+async function handleCrawl({ client, job, isCancelled }: JobContext): Promise<JobOutcome> {
+  const payload = job.payload as { batchSize?: number; site?: string };
+  const { visited, pending, cancelled } = await crawlPendingLinks(client, {
+    batchSize: payload.batchSize,
+    site: payload.site,
+    isCancelled,
+  });
+
+  if (!cancelled && pending === 0) {
+    await enqueueJob(client, JobType.Classify, {}, { dedupeKey: JobType.Classify });
+  }
+
+  return {
+    result: { visited: visited.length, pending },
+    continueWith: !cancelled && pending > 0 ? payload : undefined,
+  };
+}
+
+/** Delay before series detection runs after a scrape, so bulk scrapes share passes */
+const SERIES_DETECTION_DELAY_MS = 5 * 60_000;
+
+/**
+ * Scrape and save one Article link, then queue mirroring of its images,
+ * rewriting of its links and series detection.
+ * Payload: { linkId: string }
+ */
+async function handleScrape({ client, job }: JobContext): Promise<JobOutcome> {
+  const { linkId } = job.payload as { linkId: string };
+
+  const { data: link, error } = await client
+    .from('found_links')
+    .select('id, href, processed_at')
+    .eq('id', linkId)
+    .single();
+
+  if (error || !link) {
+    throw new Error(error?.message || `Link ${linkId} not found`);
+  }
+
+  // Already scraped by an earlier attempt or another endpoint
+  if (link.processed_at) {
+    return { result: { skipped: true, url: link.href } };
+  }
+
+  const articleId = await scrapeAndSaveLink(client, link);
+  await enqueueJob(client, JobType.MirrorImages, { articleId }, { dedupeKey: `${JobType.MirrorImages}:${articleId}` });
+  await enqueueJob(client, JobType.RewriteLinks, { articleId }, { dedupeKey: `${JobType.RewriteLinks}:${articleId}` });
+  await enqueueJob(client, JobType.DetectSeries, {}, {
+    dedupeKey: JobType.DetectSeries,
+    runAt: new Date(Date.now() + SERIES_DETECTION_DELAY_MS),
+  });
+
+  return { result: { articleId, url: link.href } };
+}
+
+/**
+ * Copy one article's images into storage and rewrite its HTML.
+ * Payload: { articleId: string }
+ */
+async function handleMirrorImages({ client, job }: JobContext): Promise<JobOutcome> {
+  const { articleId } = job.payload as { articleId: string };
+  const result = await mirrorArticleImages(client, articleId);
+
+  return { result: { ...result } };
+}
+
+/**
+ * Rewrite one article's internal links, then queue articles that had
+ * unresolved links to it.
+ * Payload: { articleId: string }
+ */
+async function handleRewriteLinks({ client, job }: JobContext): Promise<JobOutcome> {
+  const { articleId } = job.payload as { articleId: string };
+  const { referrers, ...result } = await rewriteArticleLinks(client, articleId);
+
+  for (const referrerId of referrers) {
+    await enqueueJob(client, JobType.RewriteLinks, { articleId: referrerId }, { dedupeKey: `${JobType.RewriteLinks}:${referrerId}` });
+  }
+
+  return { result: { ...result, referrers: referrers.length } };
+}
+
+/**
+ * Run content, summary and title enhancement for one article, unless the AI
+ * budget is spent.
+ * Payload: { articleId: string, model?: string }
+ */
+async function handleAiRemix({ client, job, isCancelled }: JobContext): Promise<JobOutcome> {
+  const { articleId, model } = job.payload as { articleId: string; model?: string };
+  await assertAiBudget(client);
+  const suggested = await remixArticle(client, articleId, model ? useLlmProvider({ model }) : undefined, isCancelled);
+
+  return { result: { articleId, suggested } };
+}
+
+/**
+ * Re-check listing pages and schedule the next run.
+ * Payload: { intervalMinutes?: number } (0 or missing: run once)
+ */
+async function handleRecrawl({ client, job, isCancelled }: JobContext): Promise<JobOutcome> {
+  const payload = job.payload as { intervalMinutes?: number };
+  const result = await recrawlListings(client, { isCancelled });
+  const intervalMinutes = Number(payload.intervalMinutes) || 0;
+
+  return {
+    result: { ...result },
+    continueWith: !result.cancelled && intervalMinutes > 0 ? payload : undefined,
+    continueAt: new Date(Date.now() + intervalMinutes * 60_000),
+  };
+}
+
+/**
+ * Seed found_links from sitemaps and feeds.
+ * Payload: { site?: string, sitemaps?: boolean, feeds?: boolean, maxFeedPages?: number }
+ */
+async function handleDiscover({ client, job, isCancelled }: JobContext): Promise<JobOutcome> {
+  const payload = job.payload as { site?: string; sitemaps?: boolean; feeds?: boolean; maxFeedPages?: number };
+  const result = await discoverLinks(client, { ...payload, isCancelled });
+
+  return { result: { ...result } };
+}
+
+/**
+ * Classify Visited links and update their statuses.
+ * Payload: { structureChecks?: boolean, structureLimit?: number }
+ */
+async function handleClassify({ client, job, isCancelled }: JobContext): Promise<JobOutcome> {
+  const payload = job.payload as { structureChecks?: boolean; structureLimit?: number };
+  const { changes: _changes, ...summary } = await classifyLinks(client, { ...payload, isCancelled });
+
+  // The full change list can be thousands of rows; keep the job result small
+  return { result: { ...summary } };
+}
+
+/**
+ * Link related posts whose targets were scraped after them.
+ * Payload: {}
+ */
+async function handleResolveRelated({ client, isCancelled }: JobContext): Promise<JobOutcome> {
+  const result = await resolveRelatedArticles(client, { isCancelled });
+
+  return { result: { ...result } };
+}
+
+/**
+ * Group all articles into series (title patterns and series tags).
+ * Payload: {}
+ */
+async function handleDetectSeries({ client, isCancelled }: JobContext): Promise<JobOutcome> {
+  const result = await detectArticleSeries(client, { isCancelled });
+
+  return { result: { ...result } };
+}
+
+/**
+ * Re-sanitize stored article and comment HTML.
+ * Payload: {}
+ */
+async function handleSanitizeContent({ client, isCancelled }: JobContext): Promise<JobOutcome> {
+  const result = await sanitizeStoredHtml(client, { isCancelled });
+
+  return { result: { ...result } };
+}
+
+/**
+ * Registry of job handlers by type.
+ */
+export const jobHandlers: Record<JobType, JobHandler> = {
+  [JobType.Crawl]: handleCrawl,
+  [JobType.Scrape]: handleScrape,
+  [JobType.AiRemix]: handleAiRemix,
+  [JobType.Recrawl]: handleRecrawl,
+  [JobType.Discover]: handleDiscover,
+  [JobType.Classify]: handleClassify,
+  [JobType.ResolveRelated]: handleResolveRelated,
+  [JobType.MirrorImages]: handleMirrorImages,
+  [JobType.RewriteLinks]: handleRewriteLinks,
+  [JobType.DetectSeries]: handleDetectSeries,
+  [JobType.SanitizeContent]: handleSanitizeContent,
+};
+
+/**
+ * Execute a claimed job and record its outcome.
+ *
+ * - Success: job marked succeeded; a continuation job is enqueued if requested
+ * - Failure: job requeued with backoff, or marked failed after max_attempts
+ *   (at once when the AI budget is spent)
+ * - Cancelled while running: outcome is discarded (status stays cancelled)
+ *
+ * The job's lease is renewed every third of leaseSeconds while the handler
+ * runs, so long classify, recrawl or series passes aren't claimed twice.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {Job} job - Job returned by claimNextJob()
+ * @param {number} leaseSeconds - Lease passed to claimNextJob()
+ * @returns {Promise<JobStatus>} Final status from the worker's point of view
+ */
+export async function runJob(client: JobsClient, job: Job, leaseSeconds = 900): Promise<JobStatus> {
+  const handler = jobHandlers[job.type as JobType];
+  console.info(`[Jobs] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  if (!handler) {
+    // Unknown types can never succeed, so don't retry them
+    await failJob(client, { ...job, attempts: job.max_attempts }, new Error(`Unknown job type: ${job.type}`));
+    return JobStatus.Failed;
+  }
+
+  const isCancelled = () => isJobCancelled(client, job.id);
+  const heartbeat = setInterval(() => {
+    renewJobLease(client, job).catch(error => console.warn(`[Jobs] Could not renew lease of job ${job.id}:`, error));
+  }, leaseSeconds * 1000 / 3);
+
+  try {
+    const { result = null, continueWith, continueAt } = await handler({ client, job, isCancelled });
+
+    if (await isCancelled()) {
+      console.info(`[Jobs] ${job.type} job ${job.id} was cancelled`);
+      return JobStatus.Cancelled;
+    }
+
+    await completeJob(client, job, result);
+    console.info(`[Jobs] ${job.type} job ${job.id} succeeded`);
+
+    if (continueWith !== undefined) {
+      await enqueueJob(client, job.type as JobType, continueWith, {
+        runAt: continueAt,
+        maxAttempts: job.max_attempts,
+        dedupeKey: job.dedupe_key ?? undefined,
+      });
+    }
+
+    return JobStatus.Succeeded;
+  } catch (error) {
+    console.error(`[Jobs] ${job.type} job ${job.id} failed:`, error);
+    // Retrying won't help until the budget resets
+    const final = error instanceof AiBudgetError;
+    return failJob(client, final ? { ...job, attempts: job.max_attempts } : job, error);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
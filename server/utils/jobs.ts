@@ -0,0 +1,353 @@
+/**
+ * ALEXANDRIAN SCRAPING - Background Job Queue
+ *
+ * Durable job queue backed by the Supabase `jobs` table. Long-running work
+ * (site crawling, article scraping, AI remixing) is enqueued here and executed
+ * by the worker plugin (/server/plugins/jobs.worker.ts) instead of running
+ * inside a single HTTP request that dies on timeout or when the browser closes.
+ *
+ * Architecture Role:
+ * - Persistence layer for background work
+ * - Used by /server/api/crawl.ts, /server/api/recrawl.ts, /server/api/discover.ts,
+ *   /server/api/classify, /server/api/resolve-related.ts, /server/api/mirror-images.ts,
+ *   /server/api/rewrite-links, /server/api/detect-series.ts, /server/api/sanitize-content.ts,
+ *   /server/api/scrap.ts and /server/api/ai/remix-all.ts to enqueue work
+ * - Used by the worker plugin to claim, complete, retry and fail jobs
+ * - Used by /server/api/jobs/ to list, inspect and cancel jobs
+ *
+ * Job Lifecycle (JobStatus):
+ * ```
+ * queued ──→ running ──→ succeeded
+ *   ↑           │
+ *   └─ retry ───┤ (attempts < max_attempts, exponential backoff)
+ *               └──→ failed
+ * queued | running ──→ cancelled (via /api/jobs/{id}/cancel)
+ * ```
+ *
+ * Key Exports:
+ * - enqueueJob(): Insert a new queued job
+ * - claimNextJob(): Atomically claim the next due job (claim_next_job RPC)
+ * - renewJobLease(): Keep a long-running job from being reclaimed
+ * - completeJob() / failJob(): Record job outcome, scheduling retries
+ * - cancelJob() / isJobCancelled(): Cooperative cancellation
+ * - useJobsSupabaseClient(): Service role client for code running outside a request
+ *
+ * @module server/utils/jobs
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '~~/database.types'
+import type { Job } from './types'
+
+/**
+ * Supabase client used by job code.
+ * Either the request-scoped service role client or the worker client.
+ */
+export type JobsClient = SupabaseClient<Database>
+
+/**
+ * Status values stored in jobs.status.
+ *
+ * @enum {string}
+ */
+export enum JobStatus {
+  /** Waiting for a worker (run_at may be in the future) */
+  Queued = 'queued',
+  /** Claimed by a worker */
+  Running = 'running',
+  /** Handler finished without error */
+  Succeeded = 'succeeded',
+  /** Handler failed on its last allowed attempt */
+  Failed = 'failed',
+  /** Cancelled through the API */
+  Cancelled = 'cancelled',
+}
+
+/**
+ * Kinds of background work. Each type has a handler in job.handlers.ts.
+ *
+ * @enum {string}
+ */
+export enum JobType {
+  /** Crawl a batch of pending found_links (continues itself until done) */
+  Crawl = 'crawl',
+  /** Scrape and save one Article link */
+  Scrape = 'scrape',
+  /** Run AI content, summary and title enhancement for one article */
+  AiRemix = 'ai-remix',
+  /** Re-check listing pages for new and changed posts (reschedules itself) */
+  Recrawl = 'recrawl',
+  /** Seed found_links from sitemaps and feeds */
+  Discover = 'discover',
+  /** Classify Visited links as Article/Tag/Category */
+  Classify = 'classify',
+  /** Link related posts that couldn't be resolved when their article was scraped */
+  ResolveRelated = 'resolve-related',
+  /** Copy one article's images into our storage and rewrite its HTML */
+  MirrorImages = 'mirror-images',
+  /** Point one article's links to other scraped articles, tags and categories at our routes */
+  RewriteLinks = 'rewrite-links',
+  /** Group all articles into multi-part series */
+  DetectSeries = 'detect-series',
+  /** Re-sanitize all stored article and comment HTML */
+  SanitizeContent = 'sanitize-content',
+}
+
+/**
+ * Options for enqueueJob().
+ */
+export interface EnqueueJobOptions {
+  /** Earliest time the job may run (default: now) */
+  runAt?: Date;
+  /** Attempts before the job is marked as failed (default: 3) */
+  maxAttempts?: number;
+  /** At most one queued/running job may exist per key */
+  dedupeKey?: string;
+}
+
+/** Postgres unique_violation error code */
+const UNIQUE_VIOLATION = '23505';
+
+/** First retry delay; doubled on each further attempt */
+const RETRY_BASE_DELAY_MS = 30_000;
+
+/** Upper bound for the retry delay */
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+let workerClient: JobsClient | null = null;
+
+/**
+ * Get a service role Supabase client that does not depend on an H3 event.
+ * The worker plugin runs outside of any request, so serverSupabaseServiceRole()
+ * can't be used there. Mirrors its configuration.
+ *
+ * @returns {JobsClient} Shared service role client
+ * @throws {Error} If the Supabase service key is not configured
+ */
+export function useJobsSupabaseClient(): JobsClient {
+  if (workerClient) return workerClient;
+
+  const {
+    supabase: { serviceKey },
+    public: { supabase: { url } },
+  } = useRuntimeConfig();
+
+  if (!serviceKey) {
+    throw new Error('Missing `SUPABASE_SERVICE_KEY` in `.env`');
+  }
+
+  workerClient = createClient<Database>(url, serviceKey, {
+    auth: {
+      detectSessionInUrl: false,
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  return workerClient;
+}
+
+/**
+ * Add a job to the queue.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {JobType} type - Kind of work
+ * @param {Json} payload - Handler input
+ * @param {EnqueueJobOptions} options - Scheduling options
+ * @returns {Promise<Job | null>} The new job, or null if an active job with the same dedupeKey exists
+ *
+ * @example
+ * await enqueueJob(client, JobType.Scrape, { linkId, href }, { dedupeKey: `scrape:${linkId}` });
+ */
+export async function enqueueJob(
+  client: JobsClient,
+  type: JobType,
+  payload: Json = {},
+  options: EnqueueJobOptions = {}
+): Promise<Job | null> {
+  const { data, error } = await client
+    .from('jobs')
+    .insert({
+      type,
+      payload,
+      status: JobStatus.Queued,
+      run_at: (options.runAt ?? new Date()).toISOString(),
+      max_attempts: options.maxAttempts ?? 3,
+      dedupe_key: options.dedupeKey ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Another queued/running job already owns this dedupe key
+    if (error.code === UNIQUE_VIOLATION && options.dedupeKey) {
+      console.info(`[Jobs] Skipped ${type}: ${options.dedupeKey} is already queued`);
+      return null;
+    }
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Claim the next due job, marking it as running.
+ * Also reclaims jobs whose worker stopped before finishing (lease expired),
+ * or fails them if that was their last attempt.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {number} leaseSeconds - Seconds after which a running job is considered abandoned
+ * @returns {Promise<Job | null>} Claimed job or null if none are due
+ */
+export async function claimNextJob(client: JobsClient, leaseSeconds = 900): Promise<Job | null> {
+  const { data, error } = await client.rpc('claim_next_job', { lease_seconds: leaseSeconds });
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+/**
+ * Extend the lease of a running job.
+ * runJob() calls this periodically while a handler works, so only jobs whose
+ * worker actually stopped are reclaimed by claim_next_job().
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {Job} job - Running job
+ */
+export async function renewJobLease(client: JobsClient, job: Job): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await client
+    .from('jobs')
+    .update({ locked_at: now, updated_at: now })
+    .eq('id', job.id)
+    .eq('status', JobStatus.Running);
+
+  if (error) throw error;
+}
+
+/**
+ * Mark a running job as succeeded.
+ * Has no effect if the job was cancelled while running.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {Job} job - Job being completed
+ * @param {Json} result - Handler result stored on the job
+ */
+export async function completeJob(client: JobsClient, job: Job, result: Json = null): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await client
+    .from('jobs')
+    .update({
+      status: JobStatus.Succeeded,
+      result,
+      last_error: null,
+      locked_at: null,
+      finished_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('status', JobStatus.Running);
+
+  if (error) throw error;
+}
+
+/**
+ * Delay before retrying a job that failed on its Nth attempt.
+ * Exponential: 30s, 1m, 2m, 4m… capped at 1 hour.
+ *
+ * @param {number} attempts - Attempts made so far (1-indexed)
+ * @returns {number} Delay in milliseconds
+ */
+export function getJobRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Record a failed attempt.
+ * Requeues the job with backoff while attempts remain, otherwise marks it failed.
+ * Errors with a retryAfterMs (PolitenessError, LlmError) are not retried earlier than that.
+ * Has no effect if the job was cancelled while running.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {Job} job - Job that failed
+ * @param {unknown} error - Error thrown by the handler
+ * @returns {Promise<JobStatus>} New job status (Queued or Failed)
+ */
+export async function failJob(client: JobsClient, job: Job, error: unknown): Promise<JobStatus> {
+  const message = error instanceof Error ? error.message : String(error);
+  const canRetry = job.attempts < job.max_attempts;
+  const retryAfterMs = error instanceof Error && 'retryAfterMs' in error && typeof error.retryAfterMs === 'number'
+    ? error.retryAfterMs
+    : 0;
+  const now = new Date();
+
+  const { error: updateError } = await client
+    .from('jobs')
+    .update(canRetry
+      ? {
+          status: JobStatus.Queued,
+          run_at: new Date(now.getTime() + Math.max(getJobRetryDelayMs(job.attempts), retryAfterMs)).toISOString(),
+          last_error: message,
+          locked_at: null,
+          updated_at: now.toISOString(),
+        }
+      : {
+          status: JobStatus.Failed,
+          last_error: message,
+          locked_at: null,
+          finished_at: now.toISOString(),
+          updated_at: now.toISOString(),
+        })
+    .eq('id', job.id)
+    .eq('status', JobStatus.Running);
+
+  if (updateError) throw updateError;
+
+  return canRetry ? JobStatus.Queued : JobStatus.Failed;
+}
+
+/**
+ * Cancel a queued or running job.
+ * Running handlers notice the cancellation through isJobCancelled() and stop early.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} jobId - UUID of the job
+ * @returns {Promise<Job | null>} Cancelled job, or null if it was not queued/running
+ */
+export async function cancelJob(client: JobsClient, jobId: string): Promise<Job | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await client
+    .from('jobs')
+    .update({
+      status: JobStatus.Cancelled,
+      locked_at: null,
+      finished_at: now,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .in('status', [JobStatus.Queued, JobStatus.Running])
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Check whether a job has been cancelled.
+ * Handlers call this between units of work.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} jobId - UUID of the job
+ * @returns {Promise<boolean>} True if the job is cancelled
+ */
+export async function isJobCancelled(client: JobsClient, jobId: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('jobs')
+    .select('status')
+    .eq('id', jobId)
+    .single();
+
+  if (error) throw error;
+  return data.status === JobStatus.Cancelled;
+}
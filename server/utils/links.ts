@@ -0,0 +1,349 @@
+/**
+ * ALEXANDRIAN SCRAPING - Internal Link Rewriting
+ *
+ * Articles link to each other through the source site's URLs
+ * (thealexandrian.net/wordpress/{id}/...), which sends readers back to the
+ * original blog. This pass points those links at our own routes instead:
+ * - Article links → /post/{uuid} (matched by site and old_id)
+ * - Tag links → /tags/{slug} (matched by tags.slug)
+ * - Category links → /categories/{slug} (matched by categories.slug)
+ *
+ * Links are recognized with the urlPatterns of the site profile the URL
+ * belongs to. Both content and ai_content are rewritten. Links whose target
+ * isn't in the database keep their source URL and are recorded in
+ * unresolved_links, so missing targets show up in GET /api/rewrite-links/unresolved.
+ *
+ * Runs as a rewrite-links job after each scrape. When an article is saved,
+ * articles with unresolved links to it are queued again.
+ *
+ * Key Exports:
+ * - rewriteArticleLinks(): Rewrite one article's links and record unresolved ones
+ * - rewriteInternalLinks(): Rewrite links in an HTML fragment (no database)
+ * - parseLinkTarget(): What a source-site URL points at
+ * - toSlug(): URL slug for a tag or category name
+ *
+ * @module server/utils/links
+ */
+
+import { JSDOM } from 'jsdom'
+import type { TablesInsert } from '~~/database.types'
+import type { JobsClient } from './jobs'
+import { getSiteProfileForUrl } from './site-profiles'
+
+/**
+ * Route prefixes of our own pages that links are rewritten to.
+ * The sanitizer keeps URLs under these relative.
+ */
+export const INTERNAL_ROUTES = {
+  article: '/post',
+  tag: '/tags',
+  category: '/categories',
+} as const
+
+export type LinkKind = keyof typeof INTERNAL_ROUTES
+
+/**
+ * What a link on a source site points at.
+ */
+export interface LinkTarget {
+  /** Site profile id */
+  source: string;
+  kind: LinkKind;
+  /** WordPress post id (article) or slug (tag, category) */
+  key: string;
+  /** Fragment kept on the rewritten link (e.g. '#comments') */
+  hash: string;
+}
+
+/**
+ * A link that couldn't be rewritten because its target isn't scraped.
+ */
+export interface UnresolvedLink extends Omit<LinkTarget, 'hash'> {
+  /** Absolute source URL as found in the article */
+  href: string;
+}
+
+/**
+ * Outcome of rewriteArticleLinks().
+ */
+export interface RewriteLinksResult {
+  articleId: string;
+  /** Links rewritten to our routes (content and ai_content) */
+  rewritten: number;
+  /** Distinct source URLs left pointing at the source site */
+  unresolved: number;
+  /** Articles with unresolved links to this one, which should be rewritten again */
+  referrers: string[];
+}
+
+/** Tries to write the rewritten HTML when the article keeps changing underneath */
+const MAX_WRITE_ATTEMPTS = 3
+
+/**
+ * Build the URL slug for a tag or category name, the way WordPress does for
+ * plain names ("Three Clue Rule" → "three-clue-rule").
+ *
+ * @param {string} name - Tag or category name
+ * @returns {string} Lowercase slug
+ */
+export function toSlug(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')  // Accents split off by NFKD
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Find out what a URL on one of the configured sites points at.
+ *
+ * @param {string} href - Absolute URL
+ * @returns {LinkTarget | null} Target, or null for other sites and other pages
+ *
+ * @example
+ * parseLinkTarget('https://thealexandrian.net/wordpress/1118/roleplaying-games/three-clue-rule#comments');
+ * // { source: 'alexandrian', kind: 'article', key: '1118', hash: '#comments' }
+ */
+export function parseLinkTarget(href: string): LinkTarget | null {
+  const profile = getSiteProfileForUrl(href)
+  if (!profile) return null
+
+  const url = new URL(href)
+  // Patterns are anchored at the end of the path; query strings and fragments would break them
+  const page = `${url.origin}${url.pathname}`
+  const { article, tag, category } = profile.urlPatterns
+
+  const articleMatch = page.match(article)
+  if (articleMatch) return { source: profile.id, kind: 'article', key: articleMatch[1], hash: url.hash }
+
+  const tagMatch = page.match(tag)
+  if (tagMatch) return { source: profile.id, kind: 'tag', key: toSlug(decodeURIComponent(tagMatch[1])), hash: '' }
+
+  const categoryMatch = page.match(category)
+  if (categoryMatch) return { source: profile.id, kind: 'category', key: toSlug(decodeURIComponent(categoryMatch[1])), hash: '' }
+
+  return null
+}
+
+/**
+ * Key of a target in the lookup passed to rewriteInternalLinks().
+ */
+export function linkTargetKey(target: Pick<LinkTarget, 'source' | 'kind' | 'key'>): string {
+  return `${target.source}:${target.kind}:${target.key}`
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Rewrite Links in HTML
+ *
+ * Points <a> links to source-site articles, tags and categories at our
+ * routes. Relative hrefs are resolved against baseUrl first.
+ *
+ * @param {string} html - HTML fragment
+ * @param {string} baseUrl - URL the HTML came from
+ * @param {Map<string, string>} paths - Our path by linkTargetKey() (missing: unresolved)
+ * @returns {{ html: string, rewritten: number, unresolved: UnresolvedLink[] }} Rewritten HTML and links left as they were
+ *
+ * @example
+ * rewriteInternalLinks('<a href="/wordpress/1118/rpg/three-clue-rule">Clues</a>', article.link,
+ *   new Map([['alexandrian:article:1118', '/post/6f1c…']]));
+ * // { html: '<a href="/post/6f1c…">Clues</a>', rewritten: 1, unresolved: [] }
+ */
+export function rewriteInternalLinks(
+  html: string,
+  baseUrl: string,
+  paths: Map<string, string>
+): { html: string; rewritten: number; unresolved: UnresolvedLink[] } {
+  const document = new JSDOM(`<!DOCTYPE html><body>${html}</body>`).window.document
+  const unresolved = new Map<string, UnresolvedLink>()
+  let rewritten = 0
+
+  for (const a of Array.from(document.querySelectorAll('a[href]'))) {
+    let href: string
+    let target: LinkTarget | null
+    try {
+      href = new URL(a.getAttribute('href') ?? '', baseUrl).href
+      target = parseLinkTarget(href)
+    } catch {
+      // Malformed href or slug, left as it is
+      continue
+    }
+    if (!target) continue
+
+    const path = paths.get(linkTargetKey(target))
+    if (path) {
+      a.setAttribute('href', `${path}${target.hash}`)
+      rewritten++
+    } else {
+      const { hash: _hash, ...rest } = target
+      unresolved.set(href, { ...rest, href })
+    }
+  }
+
+  return { html: rewritten ? document.body.innerHTML : html, rewritten, unresolved: [...unresolved.values()] }
+}
+
+/**
+ * Look up our paths for a set of targets.
+ */
+async function resolveTargets(client: JobsClient, targets: UnresolvedLink[]): Promise<Map<string, string>> {
+  const paths = new Map<string, string>()
+  const sources = new Set(targets.map(target => target.source))
+
+  for (const source of sources) {
+    const keys = (kind: LinkKind) => [...new Set(targets
+      .filter(target => target.source === source && target.kind === kind)
+      .map(target => target.key))]
+
+    const oldIds = keys('article').map(Number)
+    if (oldIds.length > 0) {
+      const { data, error } = await client
+        .from('articles')
+        .select('id, old_id')
+        .eq('source', source)
+        .in('old_id', oldIds)
+
+      if (error) throw new Error(`Failed to resolve article links: ${error.message}`)
+      data?.forEach(row => paths.set(
+        linkTargetKey({ source, kind: 'article', key: String(row.old_id) }),
+        `${INTERNAL_ROUTES.article}/${row.id}`
+      ))
+    }
+
+    // Tags and categories aren't stored per site, any site's slug matches
+    for (const [kind, table] of [['tag', 'tags'], ['category', 'categories']] as const) {
+      const slugs = keys(kind)
+      if (slugs.length === 0) continue
+
+      const { data, error } = await client
+        .from(table)
+        .select('slug')
+        .in('slug', slugs)
+
+      if (error) throw new Error(`Failed to resolve ${kind} links: ${error.message}`)
+      data?.forEach(row => row.slug && paths.set(
+        linkTargetKey({ source, kind, key: row.slug }),
+        `${INTERNAL_ROUTES[kind]}/${row.slug}`
+      ))
+    }
+  }
+
+  return paths
+}
+
+/**
+ * Replaces an article's unresolved_links rows and finds the articles waiting
+ * for it, once its rewritten HTML is saved (see rewriteArticleLinks()).
+ */
+async function recordUnresolvedLinks(
+  client: JobsClient,
+  article: { id: string; source: string; old_id: number },
+  content: ReturnType<typeof rewriteInternalLinks>,
+  aiContent: ReturnType<typeof rewriteInternalLinks> | null
+): Promise<RewriteLinksResult> {
+  // Record Unresolved Links
+  const unresolved = new Map<string, UnresolvedLink>()
+  ;[...content.unresolved, ...(aiContent?.unresolved ?? [])].forEach(link => unresolved.set(link.href, link))
+
+  const { error: deleteError } = await client
+    .from('unresolved_links')
+    .delete()
+    .eq('article_id', article.id)
+
+  if (deleteError) throw new Error(`Failed to clear previous unresolved links: ${deleteError.message}`)
+
+  const rows: TablesInsert<'unresolved_links'>[] = [...unresolved.values()].map(link => ({
+    article_id: article.id,
+    href: link.href,
+    source: link.source,
+    kind: link.kind,
+    target: link.key,
+  }))
+
+  if (rows.length > 0) {
+    const { error: insertError } = await client.from('unresolved_links').insert(rows)
+    if (insertError) throw new Error(`Failed to save unresolved links: ${insertError.message}`)
+  }
+
+  // Find Articles Waiting for This One
+  const { data: waiting, error: waitingError } = await client
+    .from('unresolved_links')
+    .select('article_id')
+    .eq('source', article.source)
+    .eq('kind', 'article')
+    .eq('target', String(article.old_id))
+
+  if (waitingError) throw new Error(`Failed to find referring articles: ${waitingError.message}`)
+
+  const result: RewriteLinksResult = {
+    articleId: article.id,
+    rewritten: content.rewritten + (aiContent?.rewritten ?? 0),
+    unresolved: rows.length,
+    referrers: [...new Set((waiting ?? []).map(row => row.article_id))].filter(id => id !== article.id),
+  }
+
+  console.info(`[Links] ${article.id}: ${result.rewritten} rewritten, ${result.unresolved} unresolved, ${result.referrers.length} referrers`)
+  return result
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Rewrite an Article's Links
+ *
+ * Rewrites links in the article's content and ai_content to our routes,
+ * replaces its unresolved_links rows with the links that are still missing
+ * and sets links_rewritten_at. Safe to run again: rewritten links no longer
+ * match a source site and are left alone.
+ *
+ * The HTML is written back only if articles.content_changed_at is still the
+ * value read; otherwise the article is read and rewritten again. ai_content is
+ * only written when its links changed, so a suggestion approved meanwhile is kept.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} articleId - Article UUID
+ * @returns {Promise<RewriteLinksResult>} Counts and articles waiting for this one
+ * @throws {Error} If the article can't be loaded, keeps changing or a database write fails
+ *
+ * @example
+ * const { rewritten, unresolved, referrers } = await rewriteArticleLinks(client, articleId);
+ */
+export async function rewriteArticleLinks(client: JobsClient, articleId: string): Promise<RewriteLinksResult> {
+  for (let attempt = 1; ; attempt++) {
+    // === PHASE 1: Load Article ===
+    const { data: article, error: loadError } = await client
+      .from('articles')
+      .select('id, source, old_id, link, content, ai_content, content_changed_at')
+      .eq('id', articleId)
+      .single()
+
+    if (loadError || !article) throw new Error(loadError?.message || `Article ${articleId} not found`)
+
+    // === PHASE 2: Resolve Targets ===
+    // Every link counts as unresolved against an empty lookup
+    const targets = [article.content, article.ai_content ?? '']
+      .flatMap(html => rewriteInternalLinks(html, article.link, new Map()).unresolved)
+    const paths = await resolveTargets(client, targets)
+
+    // === PHASE 3: Rewrite Content ===
+    const content = rewriteInternalLinks(article.content, article.link, paths)
+    const aiContent = article.ai_content === null
+      ? null
+      : rewriteInternalLinks(article.ai_content, article.link, paths)
+
+    const { data: updated, error: updateError } = await client
+      .from('articles')
+      .update({
+        content: content.html,
+        ...(aiContent && aiContent.rewritten > 0 ? { ai_content: aiContent.html } : {}),
+        links_rewritten_at: new Date().toISOString(),
+      })
+      .eq('id', article.id)
+      .eq('content_changed_at', article.content_changed_at)
+      .select('id')
+
+    if (updateError) throw new Error(`Failed to update article links: ${updateError.message}`)
+    // === PHASE 4: Record Unresolved Links ===
+    if (updated.length > 0) return recordUnresolvedLinks(client, article, content, aiContent)
+    if (attempt === MAX_WRITE_ATTEMPTS) throw new Error(`Article ${article.id} kept changing while its links were rewritten`)
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * ALEXANDRIAN SCRAPING - Article Listing
+ *
+ * Query parameters, sorting and cursor pagination for GET /api/articles.
+ *
+ * Offset pagination shifts when articles are inserted while a reader scrolls
+ * (the same article shows up twice, or one is skipped). Cursors fix that:
+ * every sort is a (column, id) pair, and a cursor holds the pair of the last
+ * article returned, so the next page starts strictly after it whatever was
+ * added in between.
+ *
+ * Key Exports:
+ * - parseArticleListQuery(): Validate the query parameters of GET /api/articles
+ * - encodeCursor() / decodeCursor(): Opaque cursor strings
+ * - cursorFilter(): PostgREST or() filter for the rows after a cursor
+ * - monthRange(): created_at range of a year or month
+ *
+ * @module server/utils/listing
+ */
+
+import { createError } from 'h3'
+
+/**
+ * Article columns the listing can be sorted by, by sort name.
+ */
+export const ARTICLE_SORTS = {
+  date: 'created_at',
+  title: 'title',
+  comments: 'comment_count',
+} as const
+
+export type ArticleSort = keyof typeof ARTICLE_SORTS
+
+/**
+ * Direction each sort uses when none is given.
+ */
+const DEFAULT_ORDER: Record<ArticleSort, SortOrder> = {
+  date: 'desc',
+  title: 'asc',
+  comments: 'desc',
+}
+
+export type SortOrder = 'asc' | 'desc'
+
+/**
+ * Position after the last article of a page.
+ */
+export interface ArticleCursor {
+  sort: ArticleSort;
+  order: SortOrder;
+  /** Sort column value of the last article */
+  value: string | number;
+  /** Id of the last article (tie-breaker) */
+  id: string;
+}
+
+/**
+ * Validated query parameters of GET /api/articles.
+ */
+export interface ArticleListQuery {
+  /** Tag slug */
+  tag?: string;
+  /** Category slug */
+  category?: string;
+  /** created_at range [from, to) from year / month */
+  dateFrom?: string;
+  dateTo?: string;
+  /** Only articles with (true) or without (false) AI content */
+  hasAi?: boolean;
+  /** Only articles with (true) or without (false) comments */
+  hasComments?: boolean;
+  sort: ArticleSort;
+  order: SortOrder;
+  page: number;
+  limit: number;
+  cursor?: ArticleCursor;
+}
+
+/** Largest page size a client can ask for */
+export const MAX_LIST_LIMIT = 50
+
+function badRequest(message: string): never {
+  throw createError({ statusCode: 400, statusMessage: message })
+}
+
+/**
+ * Read a non-empty string parameter.
+ */
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
+
+/**
+ * Read a boolean parameter (`true`/`false`, `1`/`0`).
+ */
+function toBoolean(name: string, value: unknown): boolean | undefined {
+  if (value === undefined || value === '') return undefined
+  if (value === 'true' || value === '1') return true
+  if (value === 'false' || value === '0') return false
+  return badRequest(`Invalid ${name}: ${String(value)} (expected true or false)`)
+}
+
+/**
+ * Get the created_at range covered by a year, or by one month of it.
+ *
+ * @param {number} year - Four-digit year
+ * @param {number} [month] - Month, 1-12
+ * @returns {{ from: string, to: string }} ISO timestamps, from inclusive, to exclusive
+ *
+ * @example
+ * monthRange(2010, 12);
+ * // { from: '2010-12-01T00:00:00.000Z', to: '2011-01-01T00:00:00.000Z' }
+ */
+export function monthRange(year: number, month?: number): { from: string; to: string } {
+  const from = new Date(Date.UTC(year, (month ?? 1) - 1, 1))
+  const to = month === undefined
+    ? new Date(Date.UTC(year + 1, 0, 1))
+    : new Date(Date.UTC(year, month, 1))
+
+  return { from: from.toISOString(), to: to.toISOString() }
+}
+
+/**
+ * Turn a cursor into the string clients pass back as ?cursor=.
+ */
+export function encodeCursor(cursor: ArticleCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString('base64url')
+}
+
+/**
+ * Read a cursor string made by encodeCursor().
+ *
+ * @param {string} value - Cursor from the query string
+ * @returns {ArticleCursor} Decoded cursor
+ * @throws {H3Error} 400 if the cursor is malformed
+ */
+export function decodeCursor(value: string): ArticleCursor {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+  } catch {
+    return badRequest('Invalid cursor')
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 4) return badRequest('Invalid cursor')
+  const [sort, order, cursorValue, id] = parsed as unknown[]
+
+  if (
+    typeof sort !== 'string' || !Object.hasOwn(ARTICLE_SORTS, sort)
+    || (order !== 'asc' && order !== 'desc')
+    || (typeof cursorValue !== 'string' && typeof cursorValue !== 'number')
+    || typeof id !== 'string'
+  ) {
+    return badRequest('Invalid cursor')
+  }
+
+  return { sort: sort as ArticleSort, order, value: cursorValue, id }
+}
+
+/**
+ * Quote a value for a PostgREST filter string (titles contain commas and
+ * parentheses, which would otherwise split the or() list).
+ */
+function quoteFilterValue(value: string | number): string {
+  if (typeof value === 'number') return String(value)
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * Build the PostgREST or() filter matching the articles after a cursor in
+ * its sort order: (column, id) past (value, id).
+ *
+ * @param {ArticleCursor} cursor - Position after the last article returned
+ * @returns {string} Filter for query.or()
+ *
+ * @example
+ * cursorFilter({ sort: 'date', order: 'desc', value: '2010-12-01T00:00:00+00:00', id: 'b2…' });
+ * // 'created_at.lt."2010-12-01T00:00:00+00:00",and(created_at.eq."2010-12-01T00:00:00+00:00",id.lt."b2…")'
+ */
+export function cursorFilter(cursor: ArticleCursor): string {
+  const column = ARTICLE_SORTS[cursor.sort]
+  const op = cursor.order === 'asc' ? 'gt' : 'lt'
+  const value = quoteFilterValue(cursor.value)
+
+  return `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${quoteFilterValue(cursor.id)})`
+}
+
+/**
+ * Validate the query parameters of GET /api/articles.
+ *
+ * @param {Record<string, unknown>} query - Parsed query string (getQuery())
+ * @returns {ArticleListQuery} Filters, sort and pagination
+ * @throws {H3Error} 400 for unknown sorts, invalid dates or booleans, and
+ *   cursors made for another sort
+ */
+export function parseArticleListQuery(query: Record<string, unknown>): ArticleListQuery {
+  // === Sort ===
+  const sort = (toText(query.sort) ?? 'date') as ArticleSort
+  if (!Object.hasOwn(ARTICLE_SORTS, sort)) {
+    badRequest(`Invalid sort: ${sort} (expected ${Object.keys(ARTICLE_SORTS).join(', ')})`)
+  }
+
+  const order = (toText(query.order) ?? DEFAULT_ORDER[sort]) as SortOrder
+  if (order !== 'asc' && order !== 'desc') badRequest(`Invalid order: ${order} (expected asc or desc)`)
+
+  // === Date ===
+  let dateFrom: string | undefined
+  let dateTo: string | undefined
+  const year = toText(query.year)
+  const month = toText(query.month)
+
+  if (month && !year) badRequest('month requires year')
+  if (year) {
+    if (!/^\d{4}$/.test(year)) badRequest(`Invalid year: ${year}`)
+    if (month && !/^(0?[1-9]|1[0-2])$/.test(month)) badRequest(`Invalid month: ${month}`)
+
+    const range = monthRange(Number(year), month ? Number(month) : undefined)
+    dateFrom = range.from
+    dateTo = range.to
+  }
+
+  // === Pagination ===
+  const cursorParam = toText(query.cursor)
+  const cursor = cursorParam ? decodeCursor(cursorParam) : undefined
+  if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+    badRequest('Cursor was made for another sort order')
+  }
+
+  return {
+    tag: toText(query.tag),
+    category: toText(query.category),
+    dateFrom,
+    dateTo,
+    hasAi: toBoolean('hasAi', query.hasAi),
+    hasComments: toBoolean('hasComments', query.hasComments),
+    sort,
+    order,
+    page: Math.max(1, Number(query.page) || 1),
+    limit: Math.min(MAX_LIST_LIMIT, Math.max(1, Number(query.limit) || 12)),
+    cursor,
+  }
+}
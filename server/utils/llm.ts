@@ -0,0 +1,477 @@
+/**
+ * ALEXANDRIAN SCRAPING - LLM Providers
+ *
+ * processArticleWithAI() sends prompts to whichever provider the environment
+ * is configured for, so the AI endpoints and the ai-remix job don't depend on
+ * one API.
+ *
+ * Each model's context window comes from runtimeConfig.ai.contextTokens
+ * (defaultContextTokens for others); chunking.ts splits long articles to fit.
+ *
+ * Model choice: a model passed by the caller (e.g. an ai-remix job's payload),
+ * then the environment's (openRouterModel, ai.model), then the prompt's
+ * default model (prompts.ts), then DEFAULT_MODEL. Prompts' sampling
+ * parameters are sent with each request.
+ *
+ * Answers are cached (ai-cache.ts, runtimeConfig.ai.cache): providers from
+ * useLlmProvider() carry the configured cache, which processArticleWithAI()
+ * and runAiTask() consult first.
+ *
+ * Requests are rate limited and retried (rate-limit.ts,
+ * runtimeConfig.ai.rateLimit): providers from useLlmProvider() share one
+ * token bucket per model, and 429/5xx answers, timeouts and network errors
+ * are retried with backoff.
+ *
+ * Every call is recorded (ai-usage.ts, runtimeConfig.ai.usage) with its
+ * tokens, latency, cost and outcome; API keys are redacted from logs. Providers
+ * from useLlmProvider() check the AI budget caps before each call they send.
+ *
+ * Providers (runtimeConfig.ai.provider):
+ * - openrouter: OpenRouter chat completions (runtimeConfig.openRouterKey,
+ *   model from runtimeConfig.openRouterModel or DEFAULT_MODEL)
+ * - openai-compatible: any server with an OpenAI-style /chat/completions
+ *   endpoint, like Ollama or llama.cpp (runtimeConfig.ai.baseUrl, apiKey, model)
+ * - mock: deterministic answers without any network, for offline development
+ *   and tests
+ *
+ * Key Exports:
+ * - useLlmProvider(): Provider from runtimeConfig.ai
+ * - processArticleWithAI(): Run one prompt (with the system prompt)
+ * - createOpenRouterProvider(), createOpenAICompatibleProvider(), createMockProvider()
+ *
+ * @module server/utils/llm
+ */
+
+import { createHash } from 'node:crypto'
+import { SYSTEM_PROMPT } from './prompts'
+import type { PromptParameters, PromptTemplate } from './prompts'
+import type { OutputSchema } from './ai-tasks'
+import type { AiCache } from './ai-cache'
+import { completeWithCache, useAiCache } from './ai-cache'
+import type { RetryPolicy, TokenBucket } from './rate-limit'
+import { NO_RETRY, isRetryableStatus, parseRateLimitHeaders, retryDelay, useLlmRateLimit } from './rate-limit'
+import type { AiBudgetGuard, AiUsageRecorder } from './ai-usage'
+import { recordAiCall, redactSecrets, useAiBudgetGuard, useAiUsageRecorder } from './ai-usage'
+
+const OPEN_ROUTER_BASE_URL = 'https://openrouter.ai/api/v1'
+
+/** OpenRouter model used when none is configured */
+export const DEFAULT_MODEL = 'deepseek/deepseek-chat-v3-0324:free'
+
+/** Context window assumed for models without one in runtimeConfig.ai.contextTokens */
+export const DEFAULT_CONTEXT_TOKENS = 8192
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions extends PromptParameters {
+  /** Ask for a JSON object with these keys (JSON mode; see ai-tasks.ts) */
+  schema?: OutputSchema;
+  /** Prompt template id, recorded with cached answers (not sent) */
+  promptId?: string;
+}
+
+/**
+ * Something that answers chat messages.
+ */
+export interface LlmProvider {
+  /** Provider name, for logs */
+  name: string;
+  /** Model answering (recorded with AI suggestions and revisions) */
+  model: string;
+  /** Model's context window in tokens, prompt and answer together (chunking.ts) */
+  contextTokens: number;
+  /** Answer cache consulted by processArticleWithAI() and runAiTask() */
+  cache?: AiCache;
+  /** Records every call, cached answers included (ai-usage.ts) */
+  recorder?: AiUsageRecorder;
+  /**
+   * Send messages and return the answer text.
+   * @throws {LlmError} If the request fails or the answer is empty
+   */
+  complete(messages: LlmMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+export interface OpenRouterConfig {
+  apiKey: string;
+  model?: string;
+  contextTokens?: number;
+  cache?: AiCache;
+  limiter?: TokenBucket;
+  retry?: RetryPolicy;
+  recorder?: AiUsageRecorder;
+  budget?: AiBudgetGuard;
+  referer?: string;
+  siteTitle?: string;
+}
+
+export interface OpenAICompatibleConfig {
+  /** API root, e.g. http://localhost:11434/v1 (/chat/completions is appended) */
+  baseUrl: string;
+  /** Bearer token; local servers usually need none */
+  apiKey?: string;
+  model: string;
+  /** Context window in tokens (default: DEFAULT_CONTEXT_TOKENS) */
+  contextTokens?: number;
+  /** Answer cache (default: none) */
+  cache?: AiCache;
+  /** Provider name, for logs (default: openai-compatible) */
+  name?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Extra request body fields */
+  body?: Record<string, unknown>;
+  /** Records every call (default: none; see ai-usage.ts) */
+  recorder?: AiUsageRecorder;
+  /** Checked before every call (default: none; see ai-usage.ts) */
+  budget?: AiBudgetGuard;
+  /** Bucket every request waits on (default: none; see rate-limit.ts) */
+  limiter?: TokenBucket;
+  /** Retries and timeout (default: NO_RETRY) */
+  retry?: RetryPolicy;
+  /** Fetch implementation (tests) */
+  fetch?: typeof fetch;
+  /** Sleep between retries (tests) */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Usage block of a chat completions response.
+ */
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  /** Cost in USD (OpenRouter, when asked with usage.include) */
+  cost?: number;
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown,
+    /** Wait asked for by the provider (Retry-After), in ms */
+    public retryAfterMs?: number
+  ) {
+    super(message)
+    this.name = 'LlmError'
+  }
+}
+
+/**
+ * Provider for any OpenAI-style chat completions endpoint.
+ *
+ * @param {OpenAICompatibleConfig} config - Endpoint, key and model
+ * @returns {LlmProvider} Provider posting to {baseUrl}/chat/completions
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LlmProvider {
+  const name = config.name || 'openai-compatible'
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+  const doFetch = config.fetch ?? fetch
+  const sleep = config.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)))
+  const retry = config.retry ?? NO_RETRY
+  const redact = (text: string) => redactSecrets(text, config.apiKey ? [config.apiKey] : [])
+
+  /**
+   * Send one request and return the answer text and usage.
+   */
+  async function send(body: string): Promise<{ content: string; usage?: CompletionUsage }> {
+    let response: Response
+    let text: string
+    try {
+      response = await doFetch(url, {
+        method: 'POST',
+        headers: {
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          ...config.headers,
+          'Content-Type': 'application/json',
+        },
+        body,
+        ...(retry.timeoutMs ? { signal: AbortSignal.timeout(retry.timeoutMs) } : {}),
+      })
+      config.limiter?.observe(response.headers)
+      text = await response.text()
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new LlmError(`${name} request timed out after ${retry.timeoutMs}ms`, 504)
+      }
+      throw new LlmError(`${name} request failed: ${redact(error instanceof Error ? error.message : 'Unknown error')}`, 502)
+    }
+
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch {
+      data = text
+    }
+
+    if (!response.ok) {
+      console.error(`[LLM] ${name} error:`, { status: response.status, data: redact(text) })
+      const { retryAfterMs } = parseRateLimitHeaders(response.headers, Date.now())
+      throw new LlmError(`${name} request failed`, response.status, data, retryAfterMs ?? undefined)
+    }
+
+    const answer = data as { choices?: { message?: { content?: string } }[]; usage?: CompletionUsage } | null
+    const content = answer?.choices?.[0]?.message?.content
+    if (!content) {
+      throw new LlmError(`Invalid response format from ${name}`, undefined, data)
+    }
+
+    return { content, usage: answer?.usage }
+  }
+
+  /**
+   * Send a request, waiting for the rate limit and retrying failures.
+   */
+  async function sendWithRetries(body: string): Promise<{ content: string; usage?: CompletionUsage }> {
+    for (let attempt = 0; ; attempt++) {
+      await config.limiter?.take()
+      try {
+        return await send(body)
+      } catch (error) {
+        const retryable = error instanceof LlmError && error.statusCode !== undefined && isRetryableStatus(error.statusCode)
+        if (!retryable || attempt >= retry.maxRetries) throw error
+
+        const wait = Math.min(error.retryAfterMs ?? retryDelay(attempt, retry), retry.maxBackoffMs)
+        console.warn(`[LLM] ${name} ${error.statusCode}, retry ${attempt + 1}/${retry.maxRetries} in ${wait}ms`)
+        // Rate limited: hold back every request to this model, not just this one
+        if (error.statusCode === 429 && config.limiter) config.limiter.pause(wait)
+        else await sleep(wait)
+      }
+    }
+  }
+
+  return {
+    name,
+    model: config.model,
+    contextTokens: config.contextTokens || DEFAULT_CONTEXT_TOKENS,
+    cache: config.cache,
+    recorder: config.recorder,
+    async complete(messages, options = {}) {
+      await config.budget?.check(config.model)
+      console.info(`[LLM] ${name} request`, { model: config.model, messageCount: messages.length, json: Boolean(options.schema), temperature: options.temperature })
+
+      const body = JSON.stringify({
+        model: config.model,
+        messages,
+        ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+        ...(options.schema ? { response_format: { type: 'json_object' } } : {}),
+        ...config.body,
+      })
+
+      const call = { provider: name, model: config.model, promptId: options.promptId }
+      const started = Date.now()
+      try {
+        const { content, usage } = await sendWithRetries(body)
+        await recordAiCall(config.recorder, {
+          ...call,
+          outcome: 'success',
+          inputTokens: usage?.prompt_tokens,
+          outputTokens: usage?.completion_tokens,
+          reportedCostUsd: usage?.cost,
+          latencyMs: Date.now() - started,
+        })
+        return content
+      } catch (error) {
+        await recordAiCall(config.recorder, {
+          ...call,
+          outcome: 'error',
+          statusCode: error instanceof LlmError ? error.statusCode : undefined,
+          error: error instanceof Error ? error.message : String(error),
+          latencyMs: Date.now() - started,
+        })
+        throw error
+      }
+    },
+  }
+}
+
+/**
+ * Provider for OpenRouter.
+ *
+ * @param {OpenRouterConfig} config - API key, model (default: DEFAULT_MODEL) and attribution headers
+ * @returns {LlmProvider} OpenRouter provider
+ */
+export function createOpenRouterProvider(config: OpenRouterConfig): LlmProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: OPEN_ROUTER_BASE_URL,
+    apiKey: config.apiKey,
+    model: config.model || DEFAULT_MODEL,
+    contextTokens: config.contextTokens,
+    cache: config.cache,
+    limiter: config.limiter,
+    retry: config.retry,
+    recorder: config.recorder,
+    budget: config.budget,
+    // Report the cost of each call (usage.cost, USD)
+    body: { usage: { include: true } },
+    headers: {
+      'HTTP-Referer': config.referer || '',
+      'X-Title': config.siteTitle || '',
+    },
+  })
+}
+
+/**
+ * Default mock answer: a hash of the user messages plus the first line of the
+ * last one, so the same prompt always gets the same answer. JSON requests get
+ * an object with every schema key (strings made the same way, the first enum
+ * value).
+ */
+function mockAnswer(messages: LlmMessage[], options: CompletionOptions = {}): string {
+  const userMessages = messages.filter(message => message.role === 'user').map(message => message.content)
+  const hash = createHash('sha256').update(userMessages.join('\n')).digest('hex').slice(0, 8)
+  const firstLine = (userMessages[userMessages.length - 1] ?? '').trim().split('\n')[0].slice(0, 120)
+  const text = `[mock ${hash}] ${firstLine}`
+
+  if (!options.schema) return text
+
+  return JSON.stringify(Object.fromEntries(Object.entries(options.schema).map(([key, spec]) => [
+    key,
+    spec.type === 'enum' ? spec.values[0] : spec.type === 'string[]' ? [`[mock ${hash}] ${key}`] : text.slice(0, spec.maxLength),
+  ])))
+}
+
+export interface MockProviderOptions {
+  /** Answer for each request (default: hash and first prompt line) */
+  respond?: (messages: LlmMessage[], options?: CompletionOptions) => string;
+  /** Model name reported (default: mock) */
+  model?: string;
+  /** Context window in tokens (default: DEFAULT_CONTEXT_TOKENS) */
+  contextTokens?: number;
+  /** Answer cache (default: none) */
+  cache?: AiCache;
+  /** Records every call, without tokens or cost (default: none) */
+  recorder?: AiUsageRecorder;
+}
+
+/**
+ * Provider answering without any network.
+ *
+ * @param {MockProviderOptions} [options] - Answers, model name and context window
+ * @returns {LlmProvider} Mock provider
+ *
+ * @example
+ * const provider = createMockProvider({ respond: () => 'The Three Clue Rule' })
+ * await processArticleWithAI(prompt, provider) // 'The Three Clue Rule'
+ */
+export function createMockProvider(options: MockProviderOptions = {}): LlmProvider {
+  const respond = options.respond ?? mockAnswer
+  const { recorder } = options
+  const model = options.model || 'mock'
+
+  return {
+    name: 'mock',
+    model,
+    contextTokens: options.contextTokens || DEFAULT_CONTEXT_TOKENS,
+    cache: options.cache,
+    recorder,
+    async complete(messages, options) {
+      const reply = respond(messages, options)
+      await recordAiCall(recorder, { provider: 'mock', model, promptId: options?.promptId, outcome: 'success', latencyMs: 0 })
+      return reply
+    },
+  }
+}
+
+export interface LlmProviderOptions {
+  /** Model overriding the configured one */
+  model?: string;
+  /** Prompt the provider is for: its default model applies when none is configured */
+  prompt?: PromptTemplate;
+}
+
+/**
+ * Get the provider configured in runtimeConfig.ai.
+ *
+ * @param {LlmProviderOptions} [options] - Model override, or the prompt to pick a model for
+ * @returns {LlmProvider} Provider with the configured answer cache, usage recorder, budget guard, rate limit and retries
+ * @throws {Error} If the provider or cache driver is unknown, or an OpenAI-compatible provider lacks baseUrl or model
+ *
+ * @example
+ * const provider = useLlmProvider({ prompt: TITLE_OPTIMIZATION });
+ */
+export function useLlmProvider(options: LlmProviderOptions = {}): LlmProvider {
+  const config = useRuntimeConfig()
+  const { ai } = config
+  const { model, prompt } = options
+  const contextTokens = (name: string) => Number((ai.contextTokens as Record<string, unknown>)[name]) || ai.defaultContextTokens
+  const cache = useAiCache()
+  const recorder = useAiUsageRecorder()
+
+  if (ai.provider === 'openrouter') {
+    const name = model || config.openRouterModel || prompt?.model || DEFAULT_MODEL
+    return createOpenRouterProvider({
+      apiKey: config.openRouterKey,
+      model: name,
+      contextTokens: contextTokens(name),
+      cache,
+      recorder,
+      budget: useAiBudgetGuard({ reportsCost: true }),
+      ...useLlmRateLimit('openrouter', name),
+    })
+  }
+  if (ai.provider === 'openai-compatible') {
+    const name = model || ai.model || prompt?.model
+    if (!ai.baseUrl || !name) {
+      throw new Error('The openai-compatible LLM provider needs runtimeConfig.ai.baseUrl and ai.model')
+    }
+    return createOpenAICompatibleProvider({
+      baseUrl: ai.baseUrl,
+      apiKey: ai.apiKey,
+      model: name,
+      contextTokens: contextTokens(name),
+      cache,
+      recorder,
+      budget: useAiBudgetGuard(),
+      ...useLlmRateLimit('openai-compatible', name),
+    })
+  }
+  if (ai.provider === 'mock') {
+    const name = model || 'mock'
+    return createMockProvider({ model: name, contextTokens: contextTokens(name), cache, recorder })
+  }
+  throw new Error(`Unknown LLM provider: ${ai.provider}`)
+}
+
+/**
+ * Run one prompt through a provider, after the system prompt. Answers come
+ * from the provider's cache when it has them (ai-cache.ts).
+ *
+ * @param {string} prompt - Formatted prompt (prompts.ts)
+ * @param {LlmProvider} provider - Provider (default: useLlmProvider())
+ * @param {CompletionOptions} [options] - Sampling parameters and prompt id (the template's)
+ * @returns {Promise<string>} Answer text
+ * @throws {LlmError} If the provider fails
+ */
+export async function processArticleWithAI(
+  prompt: string,
+  provider: LlmProvider = useLlmProvider(),
+  options?: CompletionOptions
+) {
+  const messages: LlmMessage[] = [
+    {
+      role: 'system',
+      content: SYSTEM_PROMPT.prompt
+    },
+    {
+      role: 'user',
+      content: prompt
+    }
+  ]
+
+  try {
+    console.info(`Processing article with AI (${provider.name}, ${provider.model})...`)
+    return await completeWithCache(provider, messages, options)
+  } catch (error: unknown) {
+    console.error('Article processing failed:', error)
+    if (error instanceof Error) {
+      throw error
+    }
+    throw new LlmError('Article processing failed with unknown error')
+  }
+}
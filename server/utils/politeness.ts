@@ -0,0 +1,475 @@
+/**
+ * ALEXANDRIAN SCRAPING - Crawl Politeness Engine
+ *
+ * Every request to the source site goes through this module so the crawler,
+ * scrapeArticles() and scrapeHome() share one set of manners:
+ *
+ * - robots.txt: fetched once per origin, Disallow/Allow rules and Crawl-delay honoured
+ * - User-Agent: configurable, sent with every request (including robots.txt)
+ * - Pacing: minimum delay between requests per origin (max of minDelayMs and Crawl-delay)
+ * - Rate cap: at most requestsPerMinute requests per origin in any 60s window
+ * - Backoff: 429/503 (and other 5xx/network errors) are retried, waiting for
+ *   Retry-After when given, exponential backoff otherwise
+ * - Waits are never shortened: when Retry-After, Crawl-delay or a block asks
+ *   for more than maxBackoffMs, the request fails with a PolitenessError
+ *   carrying retryAfterMs, and the job queue retries it no earlier than that
+ *
+ * Architecture Role:
+ * - Network layer for the scraping pipeline
+ * - Used by crawler.ts (getLinksFromUrl, fetchPageConditionally) and scraper.ts
+ * - Configured through runtimeConfig.crawler
+ *
+ * Testing:
+ * createPoliteFetcher() takes the fetch, sleep and clock implementations as
+ * dependencies, so an instance can be pointed at a local HTTP stand-in
+ * (e.g. a node:http server on localhost) without Nitro.
+ *
+ * Key Exports:
+ * - createPoliteFetcher(): Create a fetcher with its own per-origin state
+ * - usePoliteFetcher(): Shared fetcher configured from runtimeConfig.crawler
+ * - politeFetchHtml(): Fetch a page's HTML through the shared fetcher
+ * - parseRobotsTxt() / isPathAllowed(): robots.txt parsing and matching
+ * - PolitenessError: Error for disallowed or failed requests
+ *
+ * @module server/utils/politeness
+ */
+
+/**
+ * Politeness settings (runtimeConfig.crawler).
+ */
+export interface PolitenessConfig {
+  /** User-Agent header sent with every request */
+  userAgent: string;
+  /** Maximum requests per origin in any 60 second window */
+  requestsPerMinute: number;
+  /** Minimum delay between requests to the same origin (ms) */
+  minDelayMs: number;
+  /** Retries for 429/5xx responses and network errors */
+  maxRetries: number;
+  /** First backoff delay when no Retry-After is given (ms), doubled per retry */
+  backoffBaseMs: number;
+  /** Longest wait slept through (ms); longer server-imposed waits fail the request */
+  maxBackoffMs: number;
+  /** Whether robots.txt is fetched and honoured */
+  respectRobotsTxt: boolean;
+}
+
+/**
+ * Rules that apply to our user agent from one robots.txt.
+ */
+export interface RobotsRules {
+  /** Allow patterns */
+  allow: string[];
+  /** Disallow patterns */
+  disallow: string[];
+  /** Crawl-delay in milliseconds, if given */
+  crawlDelayMs?: number;
+}
+
+/**
+ * Response returned by the polite fetcher (2xx or 304).
+ */
+export interface PoliteResponse {
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: Headers;
+  /** Response body as text (empty for 304 and binary requests) */
+  body: string;
+  /** Raw response body, only set for binary requests */
+  data?: Buffer;
+}
+
+/**
+ * Request options for the polite fetcher.
+ */
+export interface PoliteRequestInit {
+  /** Extra request headers (User-Agent is always set) */
+  headers?: Record<string, string>;
+  /** Read the body as bytes into `data` instead of text (images, files) */
+  binary?: boolean;
+}
+
+/**
+ * A fetcher with its own per-origin robots.txt cache and request pacing.
+ */
+export interface PoliteFetcher {
+  /**
+   * Fetch a URL politely. Resolves for 2xx and 304 responses.
+   * @throws {PolitenessError} If robots.txt disallows the URL or all retries fail
+   */
+  fetch(url: string, init?: PoliteRequestInit): Promise<PoliteResponse>;
+  /** Whether robots.txt allows fetching the URL */
+  isAllowed(url: string): Promise<boolean>;
+}
+
+/**
+ * Injectable dependencies for createPoliteFetcher().
+ */
+export interface PoliteFetcherDeps {
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Sleep implementation (default: setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Clock in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+export class PolitenessError extends Error {
+  constructor(
+    message: string,
+    public url: string,
+    public statusCode?: number,
+    /** How long the site asked us to wait before the next request (ms) */
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'PolitenessError';
+  }
+}
+
+export const defaultPolitenessConfig: PolitenessConfig = {
+  userAgent: 'AlexandrianArchiveBot/1.0',
+  requestsPerMinute: 30,
+  minDelayMs: 1000,
+  maxRetries: 4,
+  backoffBaseMs: 2000,
+  maxBackoffMs: 5 * 60 * 1000,
+  respectRobotsTxt: true,
+};
+
+/** Status codes that are retried with backoff */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/** How long a fetched robots.txt is trusted */
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** How long an unreachable robots.txt (5xx/network) blocks the origin */
+const ROBOTS_UNREACHABLE_TTL_MS = 5 * 60 * 1000;
+
+/** Rolling window for requestsPerMinute */
+const RATE_WINDOW_MS = 60 * 1000;
+
+/**
+ * Parse robots.txt and return the rules for a user agent.
+ *
+ * Group selection follows RFC 9309: the group whose User-agent token equals
+ * our product token (compared case-insensitively) wins, falling back to the
+ * `*` group. Crawl-delay (non-standard) is read from the same group.
+ *
+ * @param {string} text - robots.txt content
+ * @param {string} userAgent - Full User-Agent string (product token is the part before '/')
+ * @returns {RobotsRules} Rules for the user agent (empty if none apply)
+ *
+ * @example
+ * parseRobotsTxt('User-agent: *\nDisallow: /wp-admin/\nCrawl-delay: 5', 'AlexandrianArchiveBot/1.0');
+ * // { allow: [], disallow: ['/wp-admin/'], crawlDelayMs: 5000 }
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const product = userAgent.split('/')[0].trim().toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' && value) current.rules.allow.push(value);
+    else if (field === 'disallow' && value) current.rules.disallow.push(value);
+    else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (!isNaN(seconds) && seconds >= 0) current.rules.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  // The group naming our product token wins, then '*'
+  const best = groups.find(group => group.agents.includes(product))
+    ?? groups.find(group => group.agents.includes('*'));
+
+  return best?.rules ?? { allow: [], disallow: [] };
+}
+
+/**
+ * Convert a robots.txt path pattern into a RegExp.
+ * Supports `*` (any characters) and a trailing `$` (end of URL).
+ */
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Check a path against robots rules.
+ * The longest matching pattern wins; Allow wins ties.
+ *
+ * @param {RobotsRules} rules - Rules from parseRobotsTxt()
+ * @param {string} path - URL path including query string (e.g. '/wordpress/123/slug?p=1')
+ * @returns {boolean} True if the path may be fetched
+ */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  let allowLength = -1;
+  let disallowLength = -1;
+
+  for (const pattern of rules.allow) {
+    if (robotsPatternToRegExp(pattern).test(path)) allowLength = Math.max(allowLength, pattern.length);
+  }
+  for (const pattern of rules.disallow) {
+    if (robotsPatternToRegExp(pattern).test(path)) disallowLength = Math.max(disallowLength, pattern.length);
+  }
+
+  return disallowLength === -1 || allowLength >= disallowLength;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date).
+ *
+ * @param {string | null} value - Header value
+ * @param {number} now - Current time in ms
+ * @returns {number | null} Delay in ms, or null if missing/invalid
+ */
+export function parseRetryAfter(value: string | null, now: number): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Create a polite fetcher with its own per-origin state.
+ *
+ * Requests to the same origin are serialized: each waits for the pacing
+ * delay, the per-minute cap and any Retry-After block before it is sent.
+ *
+ * @param {Partial<PolitenessConfig>} config - Overrides for defaultPolitenessConfig
+ * @param {PoliteFetcherDeps} deps - fetch/sleep/clock implementations
+ * @returns {PoliteFetcher} Fetcher instance
+ *
+ * @example
+ * const fetcher = createPoliteFetcher({ userAgent: 'TestBot/1.0', minDelayMs: 0 });
+ * const { body } = await fetcher.fetch('http://127.0.0.1:4000/wordpress/1/post');
+ */
+export function createPoliteFetcher(config: Partial<PolitenessConfig> = {}, deps: PoliteFetcherDeps = {}): PoliteFetcher {
+  const settings: PolitenessConfig = { ...defaultPolitenessConfig, ...config };
+  const fetchImpl = deps.fetch ?? globalThis.fetch;
+  const sleep = deps.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const now = deps.now ?? Date.now;
+
+  const origins = new Map<string, {
+    robots: Promise<RobotsRules> | null;
+    robotsExpiresAt: number;
+    lastRequestAt: number;
+    blockedUntil: number;
+    recent: number[];
+    queue: Promise<void>;
+  }>();
+
+  function getOrigin(origin: string) {
+    let state = origins.get(origin);
+    if (!state) {
+      state = { robots: null, robotsExpiresAt: 0, lastRequestAt: 0, blockedUntil: 0, recent: [], queue: Promise.resolve() };
+      origins.set(origin, state);
+    }
+    return state;
+  }
+
+  /**
+   * Wait until the origin may receive another request, then reserve the slot.
+   * Throws instead of waiting longer than maxBackoffMs.
+   */
+  async function waitForSlot(origin: string, crawlDelayMs = 0) {
+    const state = getOrigin(origin);
+
+    // Chain onto the origin's queue so concurrent callers don't burst
+    const turn = state.queue.then(async () => {
+      const interval = Math.max(settings.minDelayMs, crawlDelayMs);
+      let wait = Math.max(state.lastRequestAt + interval, state.blockedUntil) - now();
+
+      // Per-minute cap over a rolling window
+      state.recent = state.recent.filter(at => at > now() - RATE_WINDOW_MS);
+      if (state.recent.length >= settings.requestsPerMinute) {
+        wait = Math.max(wait, state.recent[0] + RATE_WINDOW_MS - now());
+      }
+
+      if (wait > settings.maxBackoffMs) {
+        throw new PolitenessError(
+          `${origin} asks to wait ${wait}ms, longer than maxBackoffMs (${settings.maxBackoffMs}ms)`,
+          origin,
+          undefined,
+          wait
+        );
+      }
+      if (wait > 0) await sleep(wait);
+
+      state.lastRequestAt = now();
+      state.recent.push(state.lastRequestAt);
+    });
+
+    state.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  async function loadRobots(origin: string): Promise<RobotsRules> {
+    const state = getOrigin(origin);
+    if (state.robots && state.robotsExpiresAt > now()) return state.robots;
+
+    state.robots = (async () => {
+      await waitForSlot(origin);
+      try {
+        const response = await fetchImpl(`${origin}/robots.txt`, {
+          headers: { 'User-Agent': settings.userAgent },
+        });
+
+        if (response.ok) {
+          state.robotsExpiresAt = now() + ROBOTS_TTL_MS;
+          return parseRobotsTxt(await response.text(), settings.userAgent);
+        }
+
+        if (response.status >= 500) throw new Error(`robots.txt returned ${response.status}`);
+
+        // 4xx: no robots.txt, everything is allowed (RFC 9309)
+        state.robotsExpiresAt = now() + ROBOTS_TTL_MS;
+        return { allow: [], disallow: [] };
+      } catch (error) {
+        // Unreachable robots.txt: assume full disallow for a while (RFC 9309)
+        console.warn(`[Politeness] robots.txt unreachable for ${origin}:`, error);
+        state.robotsExpiresAt = now() + ROBOTS_UNREACHABLE_TTL_MS;
+        return { allow: [], disallow: ['/'] };
+      }
+    })();
+
+    return state.robots;
+  }
+
+  async function getRules(url: URL): Promise<RobotsRules> {
+    if (!settings.respectRobotsTxt) return { allow: [], disallow: [] };
+    return loadRobots(url.origin);
+  }
+
+  async function isAllowed(url: string): Promise<boolean> {
+    const parsed = new URL(url);
+    const rules = await getRules(parsed);
+    return isPathAllowed(rules, parsed.pathname + parsed.search);
+  }
+
+  async function politeFetch(url: string, init: PoliteRequestInit = {}): Promise<PoliteResponse> {
+    const parsed = new URL(url);
+    const rules = await getRules(parsed);
+
+    if (!isPathAllowed(rules, parsed.pathname + parsed.search)) {
+      throw new PolitenessError(`Disallowed by robots.txt: ${url}`, url);
+    }
+
+    const state = getOrigin(parsed.origin);
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+      await waitForSlot(parsed.origin, rules.crawlDelayMs);
+      const backoff = Math.min(settings.maxBackoffMs, settings.backoffBaseMs * 2 ** attempt);
+
+      let response: Response;
+      try {
+        response = await fetchImpl(url, {
+          headers: { ...init.headers, 'User-Agent': settings.userAgent },
+        });
+      } catch (error) {
+        // Network error: back off and retry
+        lastError = error;
+        state.blockedUntil = now() + backoff;
+        continue;
+      }
+
+      if (response.ok || response.status === 304) {
+        if (init.binary) {
+          const data = Buffer.from(await response.arrayBuffer());
+          return { status: response.status, headers: response.headers, body: '', data };
+        }
+
+        return {
+          status: response.status,
+          headers: response.headers,
+          body: response.status === 304 ? '' : await response.text(),
+        };
+      }
+
+      if (!RETRYABLE_STATUSES.has(response.status)) {
+        throw new PolitenessError(`Request failed with status ${response.status}: ${url}`, url, response.status);
+      }
+
+      // 429/5xx: wait for Retry-After if the server sent one, otherwise back off
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'), now());
+      state.blockedUntil = now() + (retryAfter ?? backoff);
+      lastError = new PolitenessError(`Request failed with status ${response.status}: ${url}`, url, response.status, retryAfter ?? undefined);
+
+      // Longer than we sleep through: give up now so the job is retried later
+      if (retryAfter !== null && retryAfter > settings.maxBackoffMs) {
+        console.warn(`[Politeness] ${response.status} from ${url}, Retry-After ${retryAfter}ms exceeds maxBackoffMs`);
+        throw lastError;
+      }
+      console.warn(`[Politeness] ${response.status} from ${url}, retrying in ${state.blockedUntil - now()}ms`);
+    }
+
+    if (lastError instanceof PolitenessError) throw lastError;
+    const message = lastError instanceof Error ? lastError.message : 'Unknown error';
+    throw new PolitenessError(`Request failed after ${settings.maxRetries + 1} attempts: ${message}`, url);
+  }
+
+  return {
+    fetch: politeFetch,
+    isAllowed,
+  };
+}
+
+let sharedFetcher: PoliteFetcher | null = null;
+
+/**
+ * Get the shared polite fetcher configured from runtimeConfig.crawler.
+ * One instance per server so all pipeline code shares pacing and robots.txt state.
+ *
+ * @returns {PoliteFetcher} Shared fetcher
+ */
+export function usePoliteFetcher(): PoliteFetcher {
+  if (!sharedFetcher) {
+    const { crawler } = useRuntimeConfig();
+    sharedFetcher = createPoliteFetcher(crawler);
+  }
+  return sharedFetcher;
+}
+
+/**
+ * Fetch a page's HTML through the shared polite fetcher.
+ *
+ * @param {string} url - Page URL
+ * @returns {Promise<string>} Page HTML
+ * @throws {PolitenessError} If robots.txt disallows the URL or the request fails
+ */
+export async function politeFetchHtml(url: string): Promise<string> {
+  const { body } = await usePoliteFetcher().fetch(url);
+  return body;
+}
@@ -1,6 +1,13 @@
 /**
  * Prompts for AI processing of articles
- * Using TypeScript template literal types for type safety
+ *
+ * Every template is registered in PROMPT_REGISTRY under an id, with a semantic
+ * version, the variables it uses, sampling parameters and optionally a default
+ * model. AI suggestions and revisions record the id and version of the prompt
+ * that wrote them (promptRef()).
+ *
+ * Versioning: bump the major version when the answer's shape changes, the
+ * minor version when the instructions change, the patch for wording fixes.
  */
 
 export interface PromptTemplateVars {
@@ -10,9 +17,42 @@ export interface PromptTemplateVars {
   tags?: string[];
 }
 
+export type PromptVariable = keyof PromptTemplateVars
+
+/**
+ * Sampling parameters sent with a prompt (see CompletionOptions in llm.ts).
+ */
+export interface PromptParameters {
+  temperature?: number;
+  /** Longest answer in tokens; unset for answers as long as their input */
+  maxTokens?: number;
+}
+
 export interface PromptTemplate {
+  /** Registry id, recorded with AI suggestions and revisions */
+  id: string;
   prompt: string;
   description: string;
+  /** Semantic version, bumped whenever the prompt text changes */
+  version: string;
+  /** Variables the prompt uses: required ones must be set, optional ones render empty */
+  variables: Partial<Record<PromptVariable, 'required' | 'optional'>>;
+  parameters: PromptParameters;
+  /** Model used when neither the caller nor the environment picks one (useLlmProvider()) */
+  model?: string;
+}
+
+/**
+ * A prompt was formatted with a missing or unknown variable.
+ */
+export class PromptError extends Error {
+  constructor(
+    message: string,
+    public promptId: string
+  ) {
+    super(message);
+    this.name = 'PromptError';
+  }
 }
 
 export const SYSTEM_PROMPT = {
@@ -20,35 +60,68 @@ export const SYSTEM_PROMPT = {
   description: 'System prompt for AI processing'
 };
 
+/**
+ * System prompt for structured tasks (ai-tasks.ts)
+ */
+export const JSON_SYSTEM_PROMPT = {
+  prompt: "When responding, output only one JSON object with the keys the user message asks for, with no Markdown fences or commentary.",
+  description: 'System prompt for AI tasks answered in JSON'
+};
+
 /**
  * Article summarization prompt
  * Generates a concise summary of the article content
  */
 export const ARTICLE_SUMMARY: PromptTemplate = {
-  prompt: `You are a professional copywriter and content summarizer. Given a blog post extract, write a concise and compelling summary in exactly two sentences. Capture the main idea and tone of the content. Avoid copying sentences verbatim from the source. Use clear, professional language that would appeal to a general online audience. Output only the summary.
+  id: 'article-summary',
+  prompt: `You are a professional copywriter and content summarizer. Given a blog post extract, write a concise and compelling summary in exactly two sentences. Capture the main idea and tone of the content. Avoid copying sentences verbatim from the source. Use clear, professional language that would appeal to a general online audience. Also list the post's key points and the reading level it is written for.
 
 Title: {title}
 Categories: {categories}
 Tags: {tags}
 
 Content:
+{articleContent}`,
+  description: 'Generates a concise summary of an article with its key points and reading level',
+  version: '2.0.0',
+  variables: { articleContent: 'required', title: 'required', categories: 'optional', tags: 'optional' },
+  parameters: { temperature: 0.3, maxTokens: 512 }
+};
+
+/**
+ * Chunk summarization prompt
+ * Summarizes one part of an article too long for one prompt; the part
+ * summaries are then summarized with ARTICLE_SUMMARY (chunking.ts)
+ */
+export const CHUNK_SUMMARY: PromptTemplate = {
+  id: 'chunk-summary',
+  prompt: `You are a professional copywriter and content summarizer. Below is one part of a longer blog post; the summaries of all parts will be combined into one summary later. Write three to five sentences covering the main points of this part, in plain text. Output only the sentences.
+
+Title: {title}
+
+Part:
 {articleContent}
 
-Summary:`,
-  description: 'Generates a concise summary of an article'
+Summary of this part:`,
+  description: 'Summarizes one part of a long article for map-reduce summarization',
+  version: '1.0.0',
+  variables: { articleContent: 'required', title: 'required' },
+  parameters: { temperature: 0.3, maxTokens: 512 }
 };
 
 /**
  * Blog enhancement prompt
- * Suggests improvements for the article's HTML/CSS styling
+ * Suggests improvements for the article's HTML structure
  */
 export const BLOG_ENHANCEMENT: PromptTemplate = {
+  id: 'blog-enhancement',
   prompt: `You are a senior frontend engineer.
 
-TASK: rewrite the HTML below to be clean, semantic and styled with Tailwind.  
+TASK: rewrite the HTML below to be clean and semantic.  
 
 CONSTRAINTS (read carefully):  
 • **Return raw HTML only.**  
+• **Do NOT add class, id or style attributes; the site styles the markup itself.**  
 • **Do NOT wrap the answer in "", <pre>, Markdown fences, or any other wrapper.**  
 • **Do NOT add commentary, explanations, or blank lines.**  
 • **The first character of your reply must be \`<\`.**  
@@ -56,7 +129,10 @@ CONSTRAINTS (read carefully):
 ---- ORIGINAL HTML ----
 {articleContent}
 ---- END ORIGINAL HTML ----`,
-  description: 'Suggests HTML/CSS improvements for better readability and user experience'
+  description: 'Suggests HTML structure improvements for better readability',
+  version: '1.1.0',
+  variables: { articleContent: 'required' },
+  parameters: { temperature: 0.2 }
 };
 
 /**
@@ -64,6 +140,7 @@ CONSTRAINTS (read carefully):
  * Suggests improvements for the article title
  */
 export const TITLE_OPTIMIZATION: PromptTemplate = {
+  id: 'title-optimization',
   prompt: `You are an editorial strategist.
 
 INPUT
@@ -71,7 +148,7 @@ INPUT
 Original Title: {title}
 Categories: {categories}
 Tags: {tags}
-Content: {content}
+Content: {articleContent}
 
 TASK
 -----
@@ -82,38 +159,83 @@ Craft a **new** title that:
 • Removes boiler-plate prefixes such as “Ex-RPGNet Review:” or website branding.  
 • Avoids repeating the old title verbatim.
 
-If your first attempt is not shorter, immediately revise until it is.
+If your first attempt is not shorter, immediately revise until it is.`,
+  description: 'Generates a shorter, punchier title for better engagement and SEO',
+  version: '2.1.0',
+  variables: { articleContent: 'required', title: 'required', categories: 'optional', tags: 'optional' },
+  parameters: { temperature: 0.7, maxTokens: 100 }
+};
 
-OUTPUT  
-------
-Return the new title only, on a single line with no extra text.
+/**
+ * All prompt templates by id
+ */
+export const PROMPT_REGISTRY: Readonly<Record<string, PromptTemplate>> = Object.fromEntries(
+  [ARTICLE_SUMMARY, CHUNK_SUMMARY, BLOG_ENHANCEMENT, TITLE_OPTIMIZATION].map(template => [template.id, template])
+);
 
-new title:`,
-  description: 'Generates a shorter, punchier title for better engagement and SEO'
-};
+/**
+ * Look up a prompt template by id.
+ *
+ * @param {string} id - Registry id
+ * @returns {PromptTemplate | undefined} The template, if registered
+ */
+export function getPromptTemplate(id: string): PromptTemplate | undefined {
+  return PROMPT_REGISTRY[id];
+}
+
+/**
+ * Prompt id and version to record with AI output (suggestions.ts, revisions.ts).
+ *
+ * @example
+ * await saveSuggestions(client, article.id, [
+ *   { field: 'ai_title', value: title, model: provider.model, ...promptRef(TITLE_OPTIMIZATION) },
+ * ]);
+ */
+export function promptRef(template: PromptTemplate): { promptId: string; promptVersion: string } {
+  return { promptId: template.id, promptVersion: template.version };
+}
 
 
 /**
- * Helper function to format prompts with variables
+ * Fill a template's {placeholders} with variables.
+ *
+ * Every required variable must be set (empty strings and arrays count as
+ * missing); optional ones left out render as empty text. Variables the
+ * template doesn't declare, and placeholders it doesn't declare, are errors.
+ *
+ * @param {PromptTemplate} template - Prompt template
+ * @param {Partial<PromptTemplateVars>} vars - Variable values
+ * @returns {string} Formatted prompt
+ * @throws {PromptError} If a required variable is missing or a variable is unknown
  */
 export function formatPrompt(
   template: PromptTemplate,
   vars: Partial<PromptTemplateVars>
 ): string {
-  let formatted = template.prompt;
-  
-  // Replace each variable in the template
-  Object.entries(vars).forEach(([key, value]) => {
-    const placeholder = `{${key}}`;
-    if (Array.isArray(value)) {
-      formatted = formatted.replace(placeholder, value.join(', '));
-    } else if (value) {
-      formatted = formatted.replace(placeholder, value);
-    } else {
-      // Remove the line containing the empty variable
-      formatted = formatted.replace(new RegExp(`.*${placeholder}.*\n?`), '');
+  const unknown = Object.keys(vars).filter(key =>
+    !(key in template.variables) && vars[key as PromptVariable] !== undefined
+  );
+  if (unknown.length > 0) {
+    throw new PromptError(`Unknown variables for prompt ${template.id}: ${unknown.join(', ')}`, template.id);
+  }
+
+  const values = new Map<string, string>();
+  const missing: string[] = [];
+  for (const [key, use] of Object.entries(template.variables)) {
+    const value = vars[key as PromptVariable];
+    const text = Array.isArray(value) ? value.join(', ') : value ?? '';
+    if (!text && use === 'required') missing.push(key);
+    values.set(key, text);
+  }
+  if (missing.length > 0) {
+    throw new PromptError(`Missing variables for prompt ${template.id}: ${missing.join(', ')}`, template.id);
+  }
+
+  return template.prompt.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = values.get(key);
+    if (value === undefined) {
+      throw new PromptError(`Prompt ${template.id} uses an undeclared variable: ${placeholder}`, template.id);
     }
+    return value;
   });
-
-  return formatted;
 }
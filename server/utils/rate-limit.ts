@@ -0,0 +1,255 @@
+/**
+ * ALEXANDRIAN SCRAPING - LLM Rate Limiting
+ *
+ * Batches (remix-all, model comparisons) used to sleep a fixed 20 seconds
+ * between AI calls and gave up on the first 429. Instead, every request to a
+ * provider waits for a token from its model's bucket, and failed requests are
+ * retried:
+ *
+ * - Token bucket per provider and model: requestsPerMinute refill (from
+ *   runtimeConfig.ai.rateLimit.requestsPerMinute, defaultRequestsPerMinute
+ *   for other models), bursts of up to `burst` requests
+ * - Rate-limit headers: X-RateLimit-Remaining / X-RateLimit-Reset (sent by
+ *   OpenRouter) drain the bucket and block it until the reset when exhausted
+ * - Retries: 429, 408 and 5xx answers, timeouts and network errors, waiting
+ *   for Retry-After when given, jittered exponential backoff otherwise; a 429
+ *   blocks the whole bucket, so concurrent requests wait too
+ *
+ * Buckets are shared by everything in the process (endpoints and the job
+ * worker) through useLlmRateLimit().
+ *
+ * Testing:
+ * createTokenBucket() takes the sleep and clock implementations as
+ * dependencies, like createPoliteFetcher() (politeness.ts).
+ *
+ * Key Exports:
+ * - useLlmRateLimit(): Shared bucket and retry policy for a provider and model
+ * - createTokenBucket(): A bucket with its own state
+ * - parseRateLimitHeaders(): X-RateLimit-* headers
+ * - retryDelay(), isRetryableStatus(): Retry policy
+ *
+ * @module server/utils/rate-limit
+ */
+
+import { parseRetryAfter } from './politeness'
+
+/**
+ * Retry settings for LLM requests (runtimeConfig.ai.rateLimit).
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** First backoff delay when no Retry-After is given (ms), doubled per retry */
+  backoffBaseMs: number;
+  /** Upper bound for any single backoff (ms) */
+  maxBackoffMs: number;
+  /** Abort requests taking longer than this (ms, 0: never) */
+  timeoutMs: number;
+}
+
+/** No retries, no timeout: providers created without a policy */
+export const NO_RETRY: RetryPolicy = { maxRetries: 0, backoffBaseMs: 0, maxBackoffMs: 0, timeoutMs: 0 }
+
+/**
+ * Rate-limit state reported by a response.
+ */
+export interface RateLimitHeaders {
+  /** Requests allowed in the current window */
+  limit: number | null;
+  /** Requests left in the current window */
+  remaining: number | null;
+  /** When the window resets (ms since the epoch) */
+  resetAt: number | null;
+  /** Retry-After delay (ms) */
+  retryAfterMs: number | null;
+}
+
+/**
+ * Requests to one provider and model.
+ */
+export interface TokenBucket {
+  /** Wait for a token and take it; callers are served in order */
+  take(): Promise<void>;
+  /** Hand out no tokens for the next ms milliseconds */
+  pause(ms: number): void;
+  /** Adjust to the rate-limit headers of a response */
+  observe(headers: Headers): void;
+}
+
+/**
+ * Injectable dependencies for createTokenBucket().
+ */
+export interface TokenBucketDeps {
+  /** Sleep implementation (default: setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Clock in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Parse a number header, or null when missing or invalid.
+ */
+function numberHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(name)
+  if (value === null || value.trim() === '') return null
+  const number = Number(value)
+  return isNaN(number) ? null : number
+}
+
+/**
+ * Parse the rate-limit headers of a response. X-RateLimit-Reset is accepted
+ * in epoch milliseconds (OpenRouter), epoch seconds or seconds from now.
+ *
+ * @param {Headers} headers - Response headers
+ * @param {number} now - Current time in ms
+ * @returns {RateLimitHeaders} Parsed values (null when not sent)
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number): RateLimitHeaders {
+  const reset = numberHeader(headers, 'x-ratelimit-reset')
+  let resetAt: number | null = null
+  if (reset !== null) {
+    if (reset > 1e12) resetAt = reset
+    else if (reset > 1e9) resetAt = reset * 1000
+    else resetAt = now + reset * 1000
+  }
+
+  return {
+    limit: numberHeader(headers, 'x-ratelimit-limit'),
+    remaining: numberHeader(headers, 'x-ratelimit-remaining'),
+    resetAt,
+    retryAfterMs: parseRetryAfter(headers.get('retry-after'), now),
+  }
+}
+
+/**
+ * Whether a failed request with this status is worth retrying.
+ *
+ * @param {number} status - HTTP status code
+ * @returns {boolean} True for 408, 429 and 5xx
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Backoff before a retry: backoffBaseMs doubled per attempt, capped at
+ * maxBackoffMs, with the upper half randomized so retries of parallel
+ * requests don't arrive together.
+ *
+ * @param {number} attempt - Attempts failed so far, minus one (0 for the first retry)
+ * @param {RetryPolicy} policy - Retry settings
+ * @param {() => number} random - Random source in [0, 1) (tests)
+ * @returns {number} Delay in ms
+ */
+export function retryDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxBackoffMs, policy.backoffBaseMs * 2 ** attempt)
+  return Math.round(ceiling / 2 + random() * ceiling / 2)
+}
+
+/**
+ * Create a token bucket.
+ *
+ * @param {number} requestsPerMinute - Refill rate (0: unlimited, only pauses and headers apply)
+ * @param {number} burst - Tokens available at once
+ * @param {TokenBucketDeps} deps - sleep/clock implementations
+ * @returns {TokenBucket} Bucket, full
+ *
+ * @example
+ * const bucket = createTokenBucket(20, 1);
+ * await bucket.take(); // immediately
+ * await bucket.take(); // 3 seconds later
+ */
+export function createTokenBucket(requestsPerMinute: number, burst: number, deps: TokenBucketDeps = {}): TokenBucket {
+  const sleep = deps.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)))
+  const now = deps.now ?? Date.now
+  const limited = requestsPerMinute > 0
+  const capacity = Math.max(1, burst)
+  const perMs = requestsPerMinute / 60_000
+
+  let tokens = capacity
+  let updatedAt = now()
+  let blockedUntil = 0
+  let queue: Promise<void> = Promise.resolve()
+
+  function refill() {
+    const time = now()
+    if (limited) tokens = Math.min(capacity, tokens + (time - updatedAt) * perMs)
+    updatedAt = time
+  }
+
+  return {
+    take() {
+      // Chain onto the queue so concurrent callers are served in order
+      const turn = queue.then(async () => {
+        // Re-check after each sleep: a pause may have been added meanwhile
+        for (;;) {
+          refill()
+          const refillWait = limited && tokens < 1 ? (1 - tokens) / perMs : 0
+          const wait = Math.max(blockedUntil - now(), refillWait)
+          if (wait <= 0) break
+          await sleep(Math.ceil(wait))
+        }
+        if (limited) tokens -= 1
+      })
+
+      queue = turn.catch(() => {})
+      return turn
+    },
+    pause(ms) {
+      blockedUntil = Math.max(blockedUntil, now() + ms)
+    },
+    observe(headers) {
+      const { remaining, resetAt } = parseRateLimitHeaders(headers, now())
+      if (remaining === null) return
+
+      refill()
+      if (limited) tokens = Math.min(tokens, remaining)
+      if (remaining <= 0 && resetAt !== null) blockedUntil = Math.max(blockedUntil, resetAt)
+    },
+  }
+}
+
+/**
+ * A provider's shared bucket and retry policy, as passed to the providers in
+ * llm.ts.
+ */
+export interface LlmRateLimit {
+  limiter: TokenBucket;
+  retry: RetryPolicy;
+}
+
+const buckets = new Map<string, TokenBucket>()
+
+/**
+ * Get the shared bucket for a provider and model, and the retry policy, from
+ * runtimeConfig.ai.rateLimit.
+ *
+ * @param {string} provider - Provider name
+ * @param {string} model - Model name
+ * @returns {LlmRateLimit} Bucket (one per provider and model in this process) and retry policy
+ *
+ * @example
+ * createOpenRouterProvider({ apiKey, model, ...useLlmRateLimit('openrouter', model) });
+ */
+export function useLlmRateLimit(provider: string, model: string): LlmRateLimit {
+  const { rateLimit } = useRuntimeConfig().ai
+  const key = `${provider}:${model}`
+
+  let limiter = buckets.get(key)
+  if (!limiter) {
+    const perModel = (rateLimit.requestsPerMinute as Record<string, unknown>)[model]
+    const requestsPerMinute = Number(perModel ?? rateLimit.defaultRequestsPerMinute) || 0
+    limiter = createTokenBucket(requestsPerMinute, Number(rateLimit.burst) || 1)
+    buckets.set(key, limiter)
+  }
+
+  return {
+    limiter,
+    retry: {
+      maxRetries: Number(rateLimit.maxRetries) || 0,
+      backoffBaseMs: Number(rateLimit.backoffBaseMs) || 0,
+      maxBackoffMs: Number(rateLimit.maxBackoffMs) || 0,
+      timeoutMs: Number(rateLimit.timeoutMs) || 0,
+    },
+  }
+}
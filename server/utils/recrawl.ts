@@ -0,0 +1,262 @@
+/**
+ * ALEXANDRIAN SCRAPING - Incremental Re-crawl
+ *
+ * Keeps the mirror current without wiping found_links. The full crawl treats
+ * Visited links as done forever, so new posts are only found while a listing
+ * page is still Pending. A re-crawl revisits the listing pages where new posts
+ * appear (home page, tag and category pages) and re-checks the articles they
+ * link to.
+ *
+ * Change Detection (per found_links row):
+ * - etag / last_modified: sent back as If-None-Match / If-Modified-Since,
+ *   a 304 response means the page is unchanged
+ * - content_hash: SHA-256 of the page's main content (hashPageContent()),
+ *   catches changes when the server doesn't support validators
+ * - last_checked_at: when the row was last re-checked
+ *
+ * Re-crawl Flow:
+ * 1. Load listing pages of every site profile (start URL plus Tag and Category
+ *    links; first page only)
+ * 2. Fetch each conditionally; skip unchanged pages
+ * 3. Insert links not yet in found_links as Pending
+ * 4. Re-check already scraped articles linked from changed listings
+ * 5. Changed articles: reset processed_at and enqueue a scrape job
+ * 6. If new links were found, enqueue a crawl job to visit them
+ *
+ * Key Exports:
+ * - recrawlListings(): Run one incremental re-crawl
+ *
+ * @module server/utils/recrawl
+ */
+
+import { JSDOM } from 'jsdom'
+import type { Tables } from '~~/database.types'
+import type { JobsClient } from './jobs'
+import { JobType, enqueueJob } from './jobs'
+import { CrawlStatus, extractInternalLinks, fetchPageConditionally, hashPageContent } from './crawler'
+import { getSiteProfileForUrl, siteProfiles } from './site-profiles'
+
+type CheckedLink = Pick<Tables<'found_links'>, 'id' | 'href' | 'status' | 'processed_at' | 'etag' | 'last_modified' | 'content_hash'>
+
+/**
+ * Options for recrawlListings().
+ */
+export interface RecrawlOptions {
+  /** Checked between pages; returning true stops the re-crawl early */
+  isCancelled?: () => Promise<boolean>;
+}
+
+/**
+ * Outcome of one re-crawl.
+ */
+export interface RecrawlResult {
+  /** Listing pages fetched */
+  listingsChecked: number;
+  /** Listing pages whose content changed */
+  listingsChanged: number;
+  /** Links inserted into found_links as Pending */
+  newLinks: number;
+  /** Articles re-checked */
+  articlesChecked: number;
+  /** Articles queued for re-scraping */
+  articlesChanged: number;
+  /** Whether the re-crawl stopped because the job was cancelled */
+  cancelled: boolean;
+}
+
+const checkedColumns = 'id, href, status, processed_at, etag, last_modified, content_hash'
+
+/** Rows read per page (Supabase caps responses at 1000 rows) */
+const PAGE_SIZE = 1000
+
+/**
+ * Fetch a page conditionally and record the result on its found_links row.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {CheckedLink} link - Row to check
+ * @returns {Promise<{ changed: boolean, document: Document | null }>} Parsed page if it changed
+ */
+async function checkLink(client: JobsClient, link: CheckedLink) {
+  const checkedAt = new Date().toISOString()
+  const page = await fetchPageConditionally(link.href!, {
+    etag: link.etag,
+    lastModified: link.last_modified,
+  })
+
+  if (page.notModified) {
+    await client
+      .from('found_links')
+      .update({ last_checked_at: checkedAt })
+      .eq('id', link.id)
+    return { changed: false, document: null }
+  }
+
+  const document = new JSDOM(page.html).window.document
+  const contentHash = hashPageContent(document, getSiteProfileForUrl(link.href!) ?? undefined)
+  // A row without a hash has never been checked: store a baseline, not a change
+  const changed = link.content_hash !== null && link.content_hash !== contentHash
+
+  const { error } = await client
+    .from('found_links')
+    .update({
+      etag: page.etag,
+      last_modified: page.lastModified,
+      content_hash: contentHash,
+      last_checked_at: checkedAt,
+    })
+    .eq('id', link.id)
+
+  if (error) throw new Error(`Failed to update ${link.href}: ${error.message}`)
+
+  return { changed, document }
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Incremental Re-crawl
+ *
+ * Revisits listing pages, records new links and queues changed articles for
+ * re-scraping. See module documentation for the full flow.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {RecrawlOptions} options - Cancellation check
+ * @returns {Promise<RecrawlResult>} Counts of checked and changed pages
+ * @throws {Error} If found_links can't be read or written
+ */
+export async function recrawlListings(client: JobsClient, options: RecrawlOptions = {}): Promise<RecrawlResult> {
+  const { isCancelled } = options
+  const result: RecrawlResult = {
+    listingsChecked: 0,
+    listingsChanged: 0,
+    newLinks: 0,
+    articlesChecked: 0,
+    articlesChanged: 0,
+    cancelled: false,
+  }
+
+  // === PHASE 1: Load Known Links ===
+  const knownHrefs = new Set<string>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error: loadError } = await client
+      .from('found_links')
+      .select('id, href')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (loadError) throw new Error(`Failed to load links from Supabase: ${loadError.message}`)
+    for (const rec of data ?? []) {
+      if (rec.href) knownHrefs.add(rec.href)
+    }
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  // Listing pages: every site's home page plus first page of every tag and category
+  const startUrls = siteProfiles.map(profile => `"${profile.startUrl}"`).join(',')
+  const listingRows: CheckedLink[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error: listingError } = await client
+      .from('found_links')
+      .select(checkedColumns)
+      .or(`href.in.(${startUrls}),status.in.(${CrawlStatus.Tag},${CrawlStatus.Category})`)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (listingError) throw new Error(`Failed to load listing pages: ${listingError.message}`)
+    listingRows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const listings = listingRows.filter(rec => {
+    const profile = rec.href ? getSiteProfileForUrl(rec.href) : null
+    return profile && !profile.urlPatterns.pagination.test(rec.href!)
+  })
+  console.info(`[Recrawl] Checking ${listings.length} listing pages`)
+
+  // === PHASE 2: Check Listing Pages ===
+  const linkedFromChanged = new Set<string>()
+
+  for (const listing of listings) {
+    if (isCancelled && await isCancelled()) {
+      return { ...result, cancelled: true }
+    }
+
+    result.listingsChecked++
+
+    try {
+      const { changed, document } = await checkLink(client, listing)
+      if (!document) continue
+      if (changed) result.listingsChanged++
+
+      const links = extractInternalLinks(document, new Set(), listing.href!)
+
+      // === PHASE 3: Record New Links ===
+      const newLinks = links.filter(link => !knownHrefs.has(link))
+      if (newLinks.length > 0) {
+        const { error: insertError } = await client
+          .from('found_links')
+          .insert(newLinks.map(href => ({ href, status: CrawlStatus.Pending })))
+
+        if (insertError) throw new Error(`Failed to insert links: ${insertError.message}`)
+        newLinks.forEach(link => knownHrefs.add(link))
+        result.newLinks += newLinks.length
+        console.info(`[Recrawl] ${newLinks.length} new links on ${listing.href}`)
+      }
+
+      if (changed) links.forEach(link => linkedFromChanged.add(link))
+    } catch (error) {
+      // One unreachable listing shouldn't stop the re-crawl
+      console.error(`[Recrawl] Failed to check ${listing.href}:`, error)
+    }
+  }
+
+  // === PHASE 4: Re-check Scraped Articles From Changed Listings ===
+  const hrefs = Array.from(linkedFromChanged)
+  const articles: CheckedLink[] = []
+  // Query in chunks to keep the IN (...) filter short
+  for (let i = 0; i < hrefs.length; i += 100) {
+    const { data, error } = await client
+      .from('found_links')
+      .select(checkedColumns)
+      .eq('status', CrawlStatus.Article)
+      .not('processed_at', 'is', null)
+      .in('href', hrefs.slice(i, i + 100))
+
+    if (error) throw new Error(`Failed to load articles: ${error.message}`)
+    articles.push(...(data ?? []))
+  }
+  console.info(`[Recrawl] Re-checking ${articles.length} articles`)
+
+  for (const article of articles) {
+    if (isCancelled && await isCancelled()) {
+      return { ...result, cancelled: true }
+    }
+
+    result.articlesChecked++
+
+    try {
+      const { changed } = await checkLink(client, article)
+      if (!changed) continue
+
+      // === PHASE 5: Queue Changed Article for Re-scraping ===
+      await client
+        .from('found_links')
+        .update({ processed_at: null })
+        .eq('id', article.id)
+
+      await enqueueJob(client, JobType.Scrape, { linkId: article.id }, {
+        dedupeKey: `${JobType.Scrape}:${article.id}`,
+      })
+      result.articlesChanged++
+      console.info(`[Recrawl] Changed: ${article.href}`)
+    } catch (error) {
+      console.error(`[Recrawl] Failed to check ${article.href}:`, error)
+    }
+  }
+
+  // === PHASE 6: Crawl Newly Found Links ===
+  if (result.newLinks > 0) {
+    await enqueueJob(client, JobType.Crawl, {}, { dedupeKey: JobType.Crawl })
+  }
+
+  console.info('[Recrawl] Finished', result)
+  return result
+}
@@ -0,0 +1,209 @@
+/**
+ * ALEXANDRIAN SCRAPING - Related Posts
+ *
+ * Turns the YARPP related-post ids extracted by the scraper (old WordPress
+ * post ids, kept in articles.related_old_ids) into article_related rows
+ * between article UUIDs.
+ *
+ * Resolution happens in two places:
+ * 1. When an article is saved (saveRelatedArticles()): its own related posts
+ *    that are already scraped are linked, and articles saved earlier that list
+ *    it as related are linked to it (the deferred half)
+ * 2. The resolve-related job (resolveRelatedArticles()): a full pass over all
+ *    articles that links whatever can be resolved, for backfills and repairs
+ *
+ * Ids are resolved within the article's site (articles.source), since
+ * WordPress post ids are only unique per site.
+ *
+ * Key Exports:
+ * - buildRelatedRows(): article_related rows for one article
+ * - saveRelatedArticles(): Link one saved article in both directions
+ * - resolveRelatedArticles(): Deferred pass over all articles
+ *
+ * @module server/utils/related
+ */
+
+import type { Tables, TablesInsert } from '~~/database.types'
+import type { JobsClient } from './jobs'
+
+type RelatedSource = Pick<Tables<'articles'>, 'id' | 'source' | 'old_id' | 'related_old_ids'>
+
+/**
+ * Options for resolveRelatedArticles().
+ */
+export interface ResolveRelatedOptions {
+  /** Checked between pages of articles; returning true stops the pass */
+  isCancelled?: () => Promise<boolean>;
+}
+
+/**
+ * Outcome of resolveRelatedArticles().
+ */
+export interface ResolveRelatedResult {
+  /** Articles with related post ids */
+  articles: number;
+  /** Related posts resolved (rows that already existed are left as they were) */
+  linked: number;
+  /** Related post ids with no scraped article yet */
+  unresolved: number;
+  /** Whether the pass stopped because the job was cancelled */
+  cancelled: boolean;
+}
+
+/** Rows read per page (Supabase caps responses at 1000 rows) */
+const PAGE_SIZE = 1000
+
+/** Rows written per upsert */
+const WRITE_CHUNK_SIZE = 500
+
+/**
+ * Build article_related rows for one article from an old id → UUID lookup.
+ * Unknown ids and links to itself are skipped; position is the YARPP order.
+ */
+export function buildRelatedRows(article: RelatedSource, idsByOldId: Map<number, string>): TablesInsert<'article_related'>[] {
+  return article.related_old_ids.flatMap((oldId, position) => {
+    const relatedId = idsByOldId.get(oldId)
+    return relatedId && relatedId !== article.id
+      ? [{ article_id: article.id, related_article_id: relatedId, position }]
+      : []
+  })
+}
+
+/**
+ * Upsert article_related rows in chunks, keeping rows that already exist.
+ */
+async function upsertRelatedRows(client: JobsClient, rows: TablesInsert<'article_related'>[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+    const { error } = await client
+      .from('article_related')
+      .upsert(rows.slice(i, i + WRITE_CHUNK_SIZE), {
+        onConflict: 'article_id,related_article_id',
+        ignoreDuplicates: true,
+      })
+
+    if (error) throw new Error(`Failed to save related articles: ${error.message}`)
+  }
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Related Posts for a Saved Article
+ *
+ * Replaces the article's own related posts with the ones that can be
+ * resolved now, then links articles saved earlier that list this article.
+ * Called by scrapeAndSaveLink() after the article row is saved.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {RelatedSource} article - Saved article with its related_old_ids
+ * @returns {Promise<{linked: number, unresolved: number, incoming: number}>} Rows written and ids left for later
+ * @throws {Error} If article_related can't be read or written
+ */
+export async function saveRelatedArticles(
+  client: JobsClient,
+  article: RelatedSource
+): Promise<{ linked: number; unresolved: number; incoming: number }> {
+  // === PHASE 1: Resolve This Article's Related Posts ===
+  const idsByOldId = new Map<number, string>()
+  if (article.related_old_ids.length > 0) {
+    const { data: targets, error: targetsError } = await client
+      .from('articles')
+      .select('id, old_id')
+      .eq('source', article.source)
+      .in('old_id', article.related_old_ids)
+
+    if (targetsError) throw new Error(`Failed to resolve related articles: ${targetsError.message}`)
+    targets?.forEach(target => idsByOldId.set(target.old_id, target.id))
+  }
+
+  // Replace rows from a previous scrape, YARPP may suggest different posts now
+  const { error: deleteError } = await client
+    .from('article_related')
+    .delete()
+    .eq('article_id', article.id)
+
+  if (deleteError) throw new Error(`Failed to clear previous related articles: ${deleteError.message}`)
+
+  const rows = buildRelatedRows(article, idsByOldId)
+  await upsertRelatedRows(client, rows)
+
+  // === PHASE 2: Link Articles That Were Waiting for This One ===
+  const { data: referrers, error: referrersError } = await client
+    .from('articles')
+    .select('id, source, old_id, related_old_ids')
+    .eq('source', article.source)
+    .contains('related_old_ids', [article.old_id])
+
+  if (referrersError) throw new Error(`Failed to find referring articles: ${referrersError.message}`)
+
+  const incoming = (referrers ?? []).flatMap(referrer =>
+    buildRelatedRows(referrer, new Map([[article.old_id, article.id]])))
+  await upsertRelatedRows(client, incoming)
+
+  return {
+    linked: rows.length,
+    unresolved: new Set(article.related_old_ids).size - idsByOldId.size,
+    incoming: incoming.length,
+  }
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Deferred Related Posts Pass
+ *
+ * Links every article's related posts that can be resolved. Existing rows are
+ * kept, so the pass can run any time (e.g. after a bulk scrape or after
+ * articles were scraped before related_old_ids existed and then re-scraped).
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {ResolveRelatedOptions} options - Cancellation check
+ * @returns {Promise<ResolveRelatedResult>} Counts of articles, rows written and unresolved ids
+ * @throws {Error} If articles or article_related can't be read or written
+ */
+export async function resolveRelatedArticles(
+  client: JobsClient,
+  options: ResolveRelatedOptions = {}
+): Promise<ResolveRelatedResult> {
+  const result: ResolveRelatedResult = { articles: 0, linked: 0, unresolved: 0, cancelled: false }
+
+  // === PHASE 1: Load Article Ids ===
+  const articles: RelatedSource[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('articles')
+      .select('id, source, old_id, related_old_ids')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load articles: ${error.message}`)
+    articles.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const idsBySource = new Map<string, Map<number, string>>()
+  articles.forEach(article => {
+    const ids = idsBySource.get(article.source) ?? new Map<number, string>()
+    ids.set(article.old_id, article.id)
+    idsBySource.set(article.source, ids)
+  })
+
+  // === PHASE 2: Link Related Posts ===
+  const withRelated = articles.filter(article => article.related_old_ids.length > 0)
+  result.articles = withRelated.length
+
+  for (let i = 0; i < withRelated.length; i += PAGE_SIZE) {
+    if (options.isCancelled && await options.isCancelled()) {
+      result.cancelled = true
+      break
+    }
+
+    const rows = withRelated.slice(i, i + PAGE_SIZE).flatMap(article => {
+      const ids = idsBySource.get(article.source) ?? new Map<number, string>()
+      result.unresolved += article.related_old_ids.filter(oldId => !ids.has(oldId)).length
+      return buildRelatedRows(article, ids)
+    })
+
+    await upsertRelatedRows(client, rows)
+    result.linked += rows.length
+  }
+
+  console.info(`[Related] ${result.linked} links for ${result.articles} articles, ${result.unresolved} unresolved`)
+  return result
+}
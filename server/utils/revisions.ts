@@ -0,0 +1,290 @@
+/**
+ * ALEXANDRIAN SCRAPING - Article Revisions
+ *
+ * Re-scrapes and approved AI suggestions overwrite an article's content, ai_content,
+ * ai_title and ai_summary. Every write of those fields also records the new
+ * value in article_revisions with where it came from:
+ * - scrape: scrapeAndSaveLink()
+ * - ai: approved AI suggestions (suggestions.ts; model, prompt id and version)
+ * - manual: updateArticle() without an AI source, edited AI suggestions
+ * - rollback: an older revision restored by rollbackArticleRevision()
+ *
+ * A value equal to the field's latest revision isn't recorded again, so
+ * re-scraping an unchanged post adds nothing. Revisions keep values as their
+ * source wrote them; image mirroring and link rewriting aren't revisions and
+ * are queued again after a content rollback.
+ *
+ * Key Exports:
+ * - recordArticleRevisions(): Record new field values
+ * - rollbackArticleRevision(): Restore an older value
+ * - diffRevisionValues(): Line (HTML) or word (text) diff of two values
+ *
+ * @module server/utils/revisions
+ */
+
+import { createHash } from 'node:crypto'
+import type { Tables, TablesInsert } from '~~/database.types'
+import type { JobsClient } from './jobs'
+import { sanitizeHtml } from './sanitize'
+
+/**
+ * Article fields with a revision history.
+ */
+export const REVISION_FIELDS = ['content', 'ai_content', 'ai_title', 'ai_summary'] as const
+
+export type RevisionField = typeof REVISION_FIELDS[number]
+
+/** Revision columns without the value (lists and diffs) */
+export const REVISION_SUMMARY_COLUMNS = 'id, article_id, field, source, model, prompt_id, prompt_version, rollback_of, created_at'
+
+/** Fields holding HTML (sanitized on rollback, diffed by line) */
+const HTML_FIELDS: readonly RevisionField[] = ['content', 'ai_content']
+
+/**
+ * Where a value came from.
+ */
+export interface RevisionSource {
+  source: 'scrape' | 'ai' | 'manual' | 'rollback';
+  /** AI model that wrote the value */
+  model?: string;
+  /** Registry id of the prompt template (prompts.ts) */
+  promptId?: string;
+  /** Version of the prompt template */
+  promptVersion?: string;
+  /** Rollbacks: the revision restored */
+  rollbackOf?: string;
+}
+
+/**
+ * One field's new value and its source, for recordArticleRevisions().
+ */
+export type RevisionChange = RevisionSource & {
+  field: RevisionField;
+  /** New value; null and undefined aren't recorded */
+  value: string | null | undefined;
+}
+
+/**
+ * A run of unchanged, removed or added text in a diff.
+ */
+export interface DiffPart {
+  type: 'equal' | 'removed' | 'added';
+  value: string;
+}
+
+/** Largest token grid compared token by token; bigger diffs replace the whole value */
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Check that a string names a field with revisions.
+ */
+export function isRevisionField(field: unknown): field is RevisionField {
+  return typeof field === 'string' && (REVISION_FIELDS as readonly string[]).includes(field)
+}
+
+/**
+ * Build the changes for every revision field set in an update, all with the
+ * same source.
+ *
+ * @param {Partial<Record<RevisionField, string | null>>} values - Fields being written
+ * @param {RevisionSource} source - Where they came from
+ * @returns {RevisionChange[]} One change per field present
+ */
+export function revisionChanges(
+  values: Partial<Record<RevisionField, string | null>>,
+  source: RevisionSource
+): RevisionChange[] {
+  return REVISION_FIELDS
+    .filter(field => field in values)
+    .map(field => ({ ...source, field, value: values[field] }))
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Record Revisions
+ *
+ * Records the values just written to an article. Values equal to the field's
+ * latest revision (by md5, like the value_hash column) are skipped.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} articleId - Article UUID
+ * @param {RevisionChange[]} changes - Field values and their sources
+ * @returns {Promise<number>} Revisions recorded
+ * @throws {Error} If article_revisions can't be read or written
+ *
+ * @example
+ * await recordArticleRevisions(client, article.id, [
+ *   { field: 'ai_summary', value: summary, source: 'ai', model, ...promptRef(ARTICLE_SUMMARY) },
+ * ]);
+ */
+export async function recordArticleRevisions(
+  client: JobsClient,
+  articleId: string,
+  changes: RevisionChange[]
+): Promise<number> {
+  const present = changes.filter((change): change is RevisionChange & { value: string } => typeof change.value === 'string')
+  if (present.length === 0) return 0
+
+  const { data: latest, error: latestError } = await client
+    .from('article_revisions')
+    .select('field, value_hash')
+    .eq('article_id', articleId)
+    .in('field', present.map(change => change.field))
+    .order('created_at', { ascending: false })
+
+  if (latestError) throw new Error(`Failed to load revisions: ${latestError.message}`)
+
+  // Rows are newest first; keep the first hash per field
+  const latestHash = new Map<string, string | null>()
+  latest?.forEach(row => latestHash.has(row.field) || latestHash.set(row.field, row.value_hash))
+
+  const rows: TablesInsert<'article_revisions'>[] = present
+    .filter(change => latestHash.get(change.field) !== createHash('md5').update(change.value).digest('hex'))
+    .map(change => ({
+      article_id: articleId,
+      field: change.field,
+      value: change.value,
+      source: change.source,
+      model: change.model ?? null,
+      prompt_id: change.promptId ?? null,
+      prompt_version: change.promptVersion ?? null,
+      rollback_of: change.rollbackOf ?? null,
+    }))
+
+  if (rows.length === 0) return 0
+
+  const { error } = await client.from('article_revisions').insert(rows)
+  if (error) throw new Error(`Failed to save revisions: ${error.message}`)
+
+  return rows.length
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Roll Back to a Revision
+ *
+ * Writes an older revision's value back to its field and records that as a
+ * rollback revision. Restored HTML is sanitized again; restored content is
+ * marked for image mirroring and link rewriting (the caller queues the jobs).
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} articleId - Article UUID
+ * @param {string} revisionId - Revision to restore (must belong to the article)
+ * @returns {Promise<Tables<'article_revisions'>>} The restored revision, or null if it doesn't exist
+ * @throws {Error} If the article can't be updated or the rollback can't be recorded
+ */
+export async function rollbackArticleRevision(
+  client: JobsClient,
+  articleId: string,
+  revisionId: string
+): Promise<Tables<'article_revisions'> | null> {
+  const { data: revision, error: loadError } = await client
+    .from('article_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .eq('article_id', articleId)
+    .maybeSingle()
+
+  if (loadError) throw new Error(`Failed to load revision: ${loadError.message}`)
+  if (!revision || !isRevisionField(revision.field)) return null
+
+  const field = revision.field
+  const value = HTML_FIELDS.includes(field) ? sanitizeHtml(revision.value) : revision.value
+  const update: Partial<Tables<'articles'>> = { [field]: value }
+  if (field === 'content') {
+    update.images_mirrored_at = null
+    update.links_rewritten_at = null
+  }
+
+  const { error: updateError } = await client
+    .from('articles')
+    .update(update)
+    .eq('id', articleId)
+
+  if (updateError) throw new Error(`Failed to restore revision: ${updateError.message}`)
+
+  // Always recorded, even when the value equals the latest revision
+  const { error: recordError } = await client
+    .from('article_revisions')
+    .insert({ article_id: articleId, field, value, source: 'rollback', rollback_of: revision.id })
+
+  if (recordError) throw new Error(`Failed to record rollback: ${recordError.message}`)
+
+  console.info(`[Revisions] ${articleId}: ${field} rolled back to ${revision.id}`)
+  return revision
+}
+
+/**
+ * Split a value into diff tokens: lines of HTML (a break after each block
+ * element) or words and whitespace of plain text.
+ */
+function tokenize(value: string, html: boolean): string[] {
+  if (!html) return value.split(/(\s+)/).filter(Boolean)
+
+  return value
+    .replace(/(<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|div|table|tr|figure)>|<br\s*\/?>)/gi, '$1\n')
+    .split(/(?<=\n)/)
+    .filter(Boolean)
+}
+
+/**
+ * Append a token to the diff, merging runs of the same type.
+ */
+function pushPart(parts: DiffPart[], type: DiffPart['type'], value: string): void {
+  const last = parts[parts.length - 1]
+  if (last?.type === type) last.value += value
+  else parts.push({ type, value })
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Diff Two Values
+ *
+ * Longest-common-subsequence diff of two revision values, by line for HTML
+ * fields and by word for titles and summaries. Values too large to compare
+ * token by token come back as one removal and one addition.
+ *
+ * @param {string} from - Older value
+ * @param {string} to - Newer value
+ * @param {RevisionField} field - Field the values belong to (picks the tokens)
+ * @returns {DiffPart[]} Runs of equal, removed and added text, in order
+ *
+ * @example
+ * diffRevisionValues('Three Clue Rule', 'The Three Clue Rule', 'ai_title');
+ * // [{ type: 'added', value: 'The ' }, { type: 'equal', value: 'Three Clue Rule' }]
+ */
+export function diffRevisionValues(from: string, to: string, field: RevisionField): DiffPart[] {
+  const html = HTML_FIELDS.includes(field)
+  const a = tokenize(from, html)
+  const b = tokenize(to, html)
+  const parts: DiffPart[] = []
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (from) parts.push({ type: 'removed', value: from })
+    if (to) parts.push({ type: 'added', value: to })
+    return from === to ? [{ type: 'equal', value: from }] : parts
+  }
+
+  // lcs[i][j]: common tokens of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++])
+    } else {
+      pushPart(parts, 'added', b[j++])
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++])
+  while (j < b.length) pushPart(parts, 'added', b[j++])
+
+  return parts
+}
@@ -0,0 +1,356 @@
+/**
+ * ALEXANDRIAN SCRAPING - HTML Sanitizer
+ *
+ * Cleans HTML before it is stored, because pages/post/[id].vue renders article
+ * content with v-html. Runs on scraped content and comments (parseArticleHtml())
+ * and on every AI write of article HTML (updateArticle(), saveSuggestions(),
+ * reviewer edits in reviewSuggestion()). HTML stored before a rule changed is
+ * cleaned by the sanitize-content job (sanitizeStoredHtml()).
+ *
+ * What it does:
+ * - Keeps whitelisted tags (ALLOWED_TAGS) and attributes (ALLOWED_ATTRIBUTES);
+ *   unknown tags are unwrapped, dangerous ones (DROPPED_TAGS) removed with content
+ * - Strips scripts, event handlers, inline styles and comments
+ * - Allows only http(s), mailto and tel URLs; rewrites relative URLs to
+ *   absolute ones against the page URL (except our own /assets/ paths and
+ *   the routes internal links are rewritten to, see links.ts)
+ * - Removes WordPress cruft (share buttons, like boxes, related-post wrappers)
+ * - Normalizes: drops empty paragraphs and blocks, unwraps bare <span>s,
+ *   adds rel="noopener noreferrer" to links opening a new tab
+ *
+ * class and id attributes are dropped: stored HTML must not be able to pick up
+ * the site's own styles (e.g. a full-page overlay) or clash with its element ids.
+ *
+ * Key Exports:
+ * - sanitizeHtml(): Sanitize an HTML fragment
+ * - sanitizeStoredHtml(): Re-sanitize every stored article and comment
+ * - WORDPRESS_CRUFT_SELECTORS: Elements removed from every page
+ *
+ * @module server/utils/sanitize
+ */
+
+import { JSDOM } from 'jsdom'
+import type { Tables } from '~~/database.types'
+import { LOCAL_ASSET_PATH } from './assets'
+import type { JobsClient } from './jobs'
+import { INTERNAL_ROUTES } from './links'
+
+type StoredArticle = Pick<Tables<'articles'>, 'id' | 'link' | 'content' | 'ai_content' | 'content_changed_at'>
+
+/**
+ * Options for sanitizeHtml().
+ */
+export interface SanitizeOptions {
+  /** URL the HTML came from; relative links are resolved against it */
+  baseUrl?: string;
+  /** Extra selectors to remove (e.g. a site profile's cruft) */
+  removeSelectors?: string[];
+}
+
+/**
+ * Options for sanitizeStoredHtml().
+ */
+export interface SanitizeStoredOptions {
+  /** Checked between pages of rows; returning true stops the pass */
+  isCancelled?: () => Promise<boolean>;
+}
+
+/**
+ * Outcome of sanitizeStoredHtml().
+ */
+export interface SanitizeStoredResult {
+  /** Articles read */
+  articles: number;
+  /** Articles whose content or ai_content changed */
+  articlesCleaned: number;
+  /** Articles left alone because their content changed while the pass ran */
+  articlesSkipped: number;
+  /** Comments with HTML read */
+  comments: number;
+  /** Comments whose content_html changed */
+  commentsCleaned: number;
+  /** Whether the pass stopped because the job was cancelled */
+  cancelled: boolean;
+}
+
+/** Tags kept as they are */
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'article', 'aside', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup',
+  'dd', 'del', 'details', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 'q', 's',
+  'samp', 'section', 'small', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot',
+  'th', 'thead', 'time', 'tr', 'u', 'ul',
+])
+
+/** Tags removed together with their content */
+const DROPPED_TAGS = new Set([
+  'applet', 'base', 'button', 'embed', 'form', 'frame', 'frameset', 'iframe', 'input', 'link', 'math',
+  'meta', 'noscript', 'object', 'script', 'select', 'style', 'svg', 'template', 'textarea', 'title',
+])
+
+/** Attributes kept on every allowed tag */
+const GLOBAL_ATTRIBUTES = new Set(['title', 'lang', 'dir'])
+
+/** Attributes kept on specific tags */
+const ALLOWED_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'rel', 'target']),
+  blockquote: new Set(['cite']),
+  col: new Set(['span']),
+  img: new Set(['src', 'alt', 'width', 'height', 'loading']),
+  ol: new Set(['start', 'reversed', 'type']),
+  q: new Set(['cite']),
+  td: new Set(['colspan', 'rowspan']),
+  th: new Set(['colspan', 'rowspan', 'scope']),
+  time: new Set(['datetime']),
+}
+
+/** Rows read per page (Supabase caps responses at 1000 rows) */
+const PAGE_SIZE = 1000
+
+/** Attributes holding URLs */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite'])
+
+/** URL schemes allowed after resolution */
+const ALLOWED_SCHEMES = new Set(['http:', 'https:', 'mailto:', 'tel:'])
+
+/** Our own paths, kept relative */
+const LOCAL_PATH_PREFIXES = [LOCAL_ASSET_PATH, ...Object.values(INTERNAL_ROUTES)].map(path => `${path}/`)
+
+/** Containers removed when they end up empty (inline tags are kept, they may hold a space) */
+const REMOVE_WHEN_EMPTY = new Set(['p', 'div', 'section', 'figure'])
+
+/**
+ * WordPress plugin markup that isn't article content: sharing buttons, like
+ * boxes, related-post wrappers and view counters.
+ */
+export const WORDPRESS_CRUFT_SELECTORS = [
+  '.sharedaddy',
+  '.sd-sharing-enabled',
+  '.sd-like',
+  '.jp-relatedposts',
+  '#jp-post-flair',
+  '.addtoany_share_save_container',
+  '.a2a_kit',
+  '.shareaholic-canvas',
+  '.sociable',
+  '.fb-like',
+  '.twitter-share-button',
+  '.tweetmeme_button',
+  '.wp_rp_wrap',
+  '.yarpp-related',
+  '.post-views',
+  '.wpcnt',
+]
+
+/**
+ * Check a URL and make it absolute.
+ *
+ * @returns {string | null} Safe URL, or null if it must be dropped
+ */
+function sanitizeUrl(value: string, baseUrl?: string): string | null {
+  // Like browsers: trim control characters and spaces, drop tabs and newlines ("java\tscript:")
+  const url = value
+    // eslint-disable-next-line no-control-regex
+    .replace(/^[\u0000-\u0020]+|[\u0000-\u0020]+$/g, '')
+    .replace(/[\t\n\r]/g, '')
+  if (!url) return null
+
+  // In-page anchors, our own mirrored assets and rewritten internal links stay relative
+  if (url.startsWith('#') || LOCAL_PATH_PREFIXES.some(prefix => url.startsWith(prefix))) return url
+
+  try {
+    const resolved = baseUrl ? new URL(url, baseUrl) : new URL(url)
+    return ALLOWED_SCHEMES.has(resolved.protocol) ? resolved.href : null
+  } catch {
+    // Relative URL without a base: keep it only if it has no scheme at all
+    return /^[a-z][a-z0-9+.-]*:/i.test(url) ? null : url
+  }
+}
+
+/**
+ * Whether an element has no text (whitespace and &nbsp; don't count) and no images, rules or tables.
+ */
+function isEmpty(el: Element): boolean {
+  return !el.textContent?.replace(/\s/g, '') && !el.querySelector('img, hr, table')
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Sanitize HTML
+ *
+ * Returns a safe, normalized copy of an HTML fragment (see module docs for the rules).
+ *
+ * @param {string} html - HTML fragment (scraped content, comment body or AI output)
+ * @param {SanitizeOptions} options - Base URL for relative links and extra selectors to remove
+ * @returns {string} Sanitized HTML
+ *
+ * @example
+ * sanitizeHtml('<p onclick="x()">Hi <a href="/about">me</a><script>alert(1)</script></p>', {
+ *   baseUrl: 'https://thealexandrian.net/wordpress/1/post'
+ * });
+ * // '<p>Hi <a href="https://thealexandrian.net/about">me</a></p>'
+ */
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): string {
+  const { document, NodeFilter } = new JSDOM(`<!DOCTYPE html><body>${html}</body>`).window
+  const body = document.body
+
+  // === 1) Remove WordPress Cruft ===
+  for (const selector of [...WORDPRESS_CRUFT_SELECTORS, ...(options.removeSelectors ?? [])]) {
+    body.querySelectorAll(selector).forEach(el => el.remove())
+  }
+
+  // === 2) Remove Comments ===
+  const walker = document.createTreeWalker(body, NodeFilter.SHOW_COMMENT)
+  const comments: Node[] = []
+  while (walker.nextNode()) comments.push(walker.currentNode)
+  comments.forEach(node => node.parentNode?.removeChild(node))
+
+  // === 3) Filter Tags & Attributes ===
+  // Deepest elements first, so unwrapping a parent never revisits its children
+  const elements = Array.from(body.querySelectorAll('*')).reverse()
+  for (const el of elements) {
+    const tag = el.tagName.toLowerCase()
+
+    if (DROPPED_TAGS.has(tag)) {
+      el.remove()
+      continue
+    }
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      el.replaceWith(...Array.from(el.childNodes))
+      continue
+    }
+
+    for (const { name, value } of Array.from(el.attributes)) {
+      if (!GLOBAL_ATTRIBUTES.has(name) && !ALLOWED_ATTRIBUTES[tag]?.has(name)) {
+        el.removeAttribute(name)
+        continue
+      }
+
+      if (URL_ATTRIBUTES.has(name)) {
+        const url = sanitizeUrl(value, options.baseUrl)
+        if (url === null) el.removeAttribute(name)
+        else el.setAttribute(name, url)
+      }
+    }
+
+    if (tag === 'img' && !el.hasAttribute('src')) {
+      el.remove()
+      continue
+    }
+
+    // === 4) Normalize ===
+    if (tag === 'a' && el.hasAttribute('target')) {
+      if (el.getAttribute('target') === '_blank') el.setAttribute('rel', 'noopener noreferrer')
+      else el.removeAttribute('target')
+    }
+
+    if (tag === 'span' && el.attributes.length === 0) {
+      el.replaceWith(...Array.from(el.childNodes))
+      continue
+    }
+
+    if (REMOVE_WHEN_EMPTY.has(tag) && isEmpty(el)) el.remove()
+  }
+
+  return body.innerHTML.trim()
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Re-sanitize Stored HTML
+ *
+ * Runs sanitizeHtml() over every article's content and ai_content and every
+ * comment's content_html, writing back what changed. For HTML stored before
+ * the sanitizer existed or before one of its rules changed; sanitizing is
+ * idempotent, so the pass can run any time.
+ *
+ * Article writes only apply if content_changed_at is still the value read, so
+ * a scrape landing meanwhile (already sanitized) is never overwritten.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {SanitizeStoredOptions} options - Cancellation check
+ * @returns {Promise<SanitizeStoredResult>} Counts of rows read and cleaned
+ * @throws {Error} If articles or comments can't be read or written
+ */
+export async function sanitizeStoredHtml(
+  client: JobsClient,
+  options: SanitizeStoredOptions = {}
+): Promise<SanitizeStoredResult> {
+  const result: SanitizeStoredResult = {
+    articles: 0,
+    articlesCleaned: 0,
+    articlesSkipped: 0,
+    comments: 0,
+    commentsCleaned: 0,
+    cancelled: false,
+  }
+  const links = new Map<string, string>()
+
+  // === PHASE 1: Articles ===
+  for (let from = 0; ; from += PAGE_SIZE) {
+    if (options.isCancelled && await options.isCancelled()) return { ...result, cancelled: true }
+
+    const { data, error } = await client
+      .from('articles')
+      .select('id, link, content, ai_content, content_changed_at')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load articles: ${error.message}`)
+    const articles: StoredArticle[] = data ?? []
+
+    for (const article of articles) {
+      result.articles++
+      links.set(article.id, article.link)
+
+      const content = sanitizeHtml(article.content, { baseUrl: article.link })
+      const aiContent = article.ai_content === null ? null : sanitizeHtml(article.ai_content)
+      if (content === article.content && aiContent === article.ai_content) continue
+
+      const { data: updated, error: updateError } = await client
+        .from('articles')
+        .update({ content, ai_content: aiContent })
+        .eq('id', article.id)
+        .eq('content_changed_at', article.content_changed_at)
+        .select('id')
+
+      if (updateError) throw new Error(`Failed to update article ${article.id}: ${updateError.message}`)
+      if (updated.length > 0) result.articlesCleaned++
+      else result.articlesSkipped++
+    }
+
+    if (articles.length < PAGE_SIZE) break
+  }
+
+  // === PHASE 2: Comments ===
+  for (let from = 0; ; from += PAGE_SIZE) {
+    if (options.isCancelled && await options.isCancelled()) return { ...result, cancelled: true }
+
+    const { data: comments, error } = await client
+      .from('comments')
+      .select('id, article_id, content_html')
+      .not('content_html', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load comments: ${error.message}`)
+
+    for (const comment of comments ?? []) {
+      result.comments++
+      const html = sanitizeHtml(comment.content_html ?? '', { baseUrl: links.get(comment.article_id) })
+      if (html === comment.content_html) continue
+
+      const { error: updateError } = await client
+        .from('comments')
+        .update({ content_html: html })
+        .eq('id', comment.id)
+
+      if (updateError) throw new Error(`Failed to update comment ${comment.id}: ${updateError.message}`)
+      result.commentsCleaned++
+    }
+
+    if (!comments || comments.length < PAGE_SIZE) break
+  }
+
+  console.info('[Sanitize] Finished', result)
+  return result
+}
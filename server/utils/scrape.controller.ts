@@ -0,0 +1,219 @@
+/**
+ * ALEXANDRIAN SCRAPING - Scrape Persistence Controller
+ *
+ * Scrapes a single Article link and saves the result with all of its
+ * relationships. Extracted from /server/api/scrap.ts so the same code runs
+ * from the scrape job handler.
+ *
+ * Data Flow:
+ * found_links (Article) → scrapeArticles() → RawArticle
+ *   ├→ articles table (+ article_revisions when the content changed)
+ *   ├→ categories table + article_categories junction
+ *   ├→ tags table + article_tags junction
+ *   ├→ comments table
+ *   └→ article_related (YARPP related posts)
+ *
+ * Key Exports:
+ * - scrapeAndSaveLink(): Scrape, persist and mark a found_links row as processed
+ *
+ * @module server/utils/scrape.controller
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { Tables } from '~~/database.types'
+import type { JobsClient } from './jobs'
+import { scrapeArticles } from './scraper'
+import { saveRelatedArticles } from './related'
+import { toSlug } from './links'
+import { recordArticleRevisions } from './revisions'
+
+/**
+ * Scrape one Article link and save it to the database.
+ *
+ * Processing Flow:
+ * 1. Call scrapeArticles() to extract HTML content
+ * 2. Upsert article record into articles table (by link)
+ * 3. Upsert categories and create article_categories relationships
+ * 4. Upsert tags and create article_tags relationships
+ * 5. Replace comments with article_id and parent_id (reply threading) references
+ *    (replace_article_comments RPC, one transaction)
+ * 6. Link related posts in article_related (see related.ts)
+ * 7. Mark link as processed with timestamp
+ *
+ * Safe to call again for an article that was already scraped: incremental
+ * re-crawls reset processed_at on changed articles and scrape them again.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {Pick<Tables<'found_links'>, 'id' | 'href'>} link - found_links row to scrape
+ * @returns {Promise<string>} UUID of the saved article
+ * @throws {Error} If scraping or any database write fails
+ */
+export async function scrapeAndSaveLink(
+  client: JobsClient,
+  link: Pick<Tables<'found_links'>, 'id' | 'href'>
+): Promise<string> {
+  // Validate link href exists
+  if (!link.href) {
+    throw new Error('Link href is missing')
+  }
+
+  // Extract article content and comments from HTML
+  const { article, comments } = await scrapeArticles(link.href)
+
+  // Insert or update article record (exclude relationships)
+  // Upserting on link lets re-scrapes of changed articles update in place,
+  // keeping the article id and any ai_* fields
+  const { data: savedArticle, error: saveError } = await client
+    .from('articles')
+    .upsert({
+      source: article.source,
+      old_id: article.old_id,
+      related_old_ids: article.related_ids.filter(id => id > 0),
+      title: article.title,
+      link: article.link,
+      images: article.images,
+      // Content points at the source site's images again until they are mirrored
+      images_mirrored_at: null,
+      // Links point at the source site again until they are rewritten
+      links_rewritten_at: null,
+      created_at: article.created_at,
+      content: article.content
+    }, {
+      onConflict: 'link'  // Unique constraint on link column
+    })
+    .select()
+    .single()
+
+  if (!savedArticle || saveError) {
+    throw new Error(saveError?.message || 'Failed to save article')
+  }
+  console.info(`Saved article ${savedArticle.id}`)
+
+  // Keep the content of earlier scrapes in the revision history
+  await recordArticleRevisions(client, savedArticle.id, [
+    { field: 'content', value: savedArticle.content, source: 'scrape' },
+  ])
+
+  // === Process Categories ===
+  // Create category records and relationships
+  for (const categoryName of article.categories) {
+    // Upsert category (insert if new, return existing if duplicate)
+    const { data: category, error: categoryError } = await client
+      .from('categories')
+      .upsert({
+        name: categoryName,
+        description: '',
+        slug: toSlug(categoryName)  // Matched by internal link rewriting (links.ts)
+      }, {
+        onConflict: 'name'  // Unique constraint on name column
+      })
+      .select()
+      .single()
+
+    if (categoryError || !category) {
+      throw new Error(`Failed to save category ${categoryName}: ${categoryError?.message}`)
+    }
+
+    // Create many-to-many relationship (already present on re-scrapes)
+    const { error: relationError } = await client
+      .from('article_categories')
+      .upsert({
+        article_id: savedArticle.id,
+        category_id: category.id
+      }, {
+        ignoreDuplicates: true
+      })
+
+    if (relationError) {
+      throw new Error(`Failed to link article to category: ${relationError.message}`)
+    }
+  }
+  console.info(`Saved ${article.categories.length} categories`)
+
+  // === Process Tags ===
+  // Create tag records and relationships
+  for (const tagName of article.tags) {
+    // Upsert tag with generated slug
+    const { data: tag, error: tagError } = await client
+      .from('tags')
+      .upsert({
+        name: tagName,
+        description: '',
+        slug: toSlug(tagName)  // Generate URL-friendly slug
+      }, {
+        onConflict: 'name'  // Unique constraint on name column
+      })
+      .select()
+      .single()
+
+    if (tagError || !tag) {
+      throw new Error(`Failed to save tag ${tagName}: ${tagError?.message}`)
+    }
+
+    // Create many-to-many relationship (already present on re-scrapes)
+    const { error: relationError } = await client
+      .from('article_tags')
+      .upsert({
+        article_id: savedArticle.id,
+        tag_id: tag.id
+      }, {
+        ignoreDuplicates: true
+      })
+
+    if (relationError) {
+      throw new Error(`Failed to link article to tag: ${relationError.message}`)
+    }
+  }
+  console.info(`Saved ${article.tags.length} tags`)
+
+  // === Process Comments ===
+  // Ids are assigned here so replies can reference their parent in the same
+  // insert (parents come before their replies in page order)
+  const commentIds = new Map(comments.map(comment => [comment.old_id, randomUUID()]))
+  const commentsWithRef = comments.map(comment => ({
+    id: commentIds.get(comment.old_id),
+    parent_id: comment.parent_old_id === null ? null : commentIds.get(comment.parent_old_id) ?? null,
+    old_id: comment.old_id,
+    author: comment.author,
+    author_url: comment.author_url,
+    content: comment.content,
+    content_html: comment.content_html,
+    created_at: comment.created_at,
+    article_id: savedArticle.id
+  }))
+
+  // Replace comments from a previous scrape of this article in one
+  // transaction, so a failed insert keeps the old ones
+  const { data: savedComments, error: commentsError } = await client
+    .rpc('replace_article_comments', {
+      target_article_id: savedArticle.id,
+      new_comments: commentsWithRef
+    })
+
+  if (commentsError) {
+    throw new Error(`Failed to save comments: ${commentsError.message}`)
+  }
+  console.info(`Saved ${savedComments} comments`)
+
+  // === Process Related Posts ===
+  // Links this article's YARPP related posts and articles waiting for it
+  const related = await saveRelatedArticles(client, savedArticle)
+  console.info(`Linked ${related.linked + related.incoming} related posts (${related.unresolved} not scraped yet)`)
+
+  // === Mark Link as Processed ===
+  // Set timestamp to prevent re-processing
+  const processedAt = new Date().toISOString()
+  const { error: updateError } = await client
+    .from('found_links')
+    .update({
+      processed_at: processedAt,
+    })
+    .eq('id', link.id)
+
+  if (updateError) {
+    throw new Error(`Failed to update link status: ${updateError.message}`)
+  }
+  console.info(`Updated ${link.id} with processed_at: ${processedAt}`)
+
+  return savedArticle.id
+}
@@ -7,21 +7,29 @@
  * Architecture Role:
  * - Core content extraction layer
  * - Transforms HTML into structured RawArticle and RawComment objects
- * - Used by /server/api/scrap.ts and /server/api/process-links.ts
+ * - Used by the scrape job (scrape.controller.ts) and /server/api/process-links.ts
  * - Handles WordPress-specific HTML structure and metadata
  *
+ * Fetching and parsing are separate: scrapeArticles()/scrapeHome() fetch the
+ * page and hand the HTML to parseArticleHtml()/parseHomeHtml(), which need no
+ * network access. The fixture tests in tests/scraper run the parsers against
+ * saved pages.
+ *
  * Key Exports:
- * - scrapeArticles(): Main article extraction function
+ * - scrapeArticles(): Main article extraction function (fetch + parse)
+ * - parseArticleHtml(): Article extraction from HTML
  * - scrapeHome(): Homepage menu/link extraction (future use)
+ * - parseHomeHtml(): Homepage extraction from HTML
  *
  * HTML Structure Dependencies:
- * The Alexandrian uses a specific WordPress theme with identifiable selectors:
+ * Selectors, date formats and URL patterns come from the site profile
+ * (site-profiles.ts). The Alexandrian uses a WordPress theme with these selectors:
  * - Article container: #yui-main .first .item.entry
  * - Title: .itemhead h3 a
  * - Date: .itemhead .chronodata
  * - Content: .storycontent
  * - Categories/Tags: .metadata .category/.tags a
- * - Comments: .commentlist li
+ * - Comments: .commentlist li[id^="comment-"] (replies nested in .children)
  * - Related articles: .yarpp-template-thumbnails (YARPP plugin)
  *
  * @module server/utils/scraper
@@ -32,29 +40,90 @@
 import { JSDOM } from 'jsdom';
 import { parse, format } from 'date-fns';
 import type { RawComment, RawArticle } from './types';
+import { politeFetchHtml } from './politeness';
+import { sanitizeHtml } from './sanitize';
+import type { SiteProfile } from './site-profiles';
+import { getSiteProfile, getSiteProfileForUrl } from './site-profiles';
+
+/**
+ * Parses a date with the first matching date-fns format.
+ *
+ * @param {string} raw - Date text from the page
+ * @param {string[]} formats - date-fns formats, tried in order
+ * @returns {Date | null} Parsed date, or null if no format matches
+ */
+function parseSiteDate(raw: string, formats: string[]): Date | null {
+  for (const dateFormat of formats) {
+    const parsed = parse(raw, dateFormat, new Date());
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Reads a wall-clock time as a time in the given timezone.
+ * parse() returns the time in the server's zone; its fields are the site's.
+ *
+ * @param {Date} local - Parsed date, fields as written on the site
+ * @param {string} timeZone - IANA timezone of the site
+ * @returns {Date} The same wall-clock time in timeZone
+ */
+function inTimeZone(local: Date, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    local.getFullYear(), local.getMonth(), local.getDate(),
+    local.getHours(), local.getMinutes(), local.getSeconds()
+  );
+  const zoneFormat = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  });
+  // Offset of timeZone at an instant, in ms
+  const offsetAt = (instant: number) => {
+    const fields = Object.fromEntries(zoneFormat.formatToParts(instant).map(part => [part.type, Number(part.value)]));
+    return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second) - instant;
+  };
+  // Second pass for times near a DST change, where the offset differs
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
 
 /**
  * Scrapes homepage content including menu and featured links.
  * Currently used for exploration; not part of main scraping pipeline.
  *
+ * @param {SiteProfile} profile - Site to scrape (default: The Alexandrian)
  * @returns {Promise<Object>} Object with promote (menu) and links arrays
  */
-export async function scrapeHome() {
-  const html = await $fetch<string>('https://thealexandrian.net/');
+export async function scrapeHome(profile: SiteProfile = getSiteProfile()) {
+  const html = await politeFetchHtml(profile.startUrl);
+  return parseHomeHtml(html, profile);
+}
+
+/**
+ * Extracts menu and featured links from homepage HTML.
+ *
+ * @param {string} html - Homepage HTML
+ * @param {SiteProfile} profile - Site the page belongs to (default: The Alexandrian)
+ * @returns {Object} Object with promote (menu) and links arrays
+ */
+export function parseHomeHtml(html: string, profile: SiteProfile = getSiteProfile()) {
   const dom = new JSDOM(html);
   const document = dom.window.document;
+  const host = new URL(profile.startUrl).host;
 
-  const promote = Array.from(document.querySelectorAll('#menu a')).map((el: Element) => {
+  const promote = Array.from(document.querySelectorAll(profile.selectors.homeMenu)).map((el: Element) => {
     const link = (el as HTMLAnchorElement).getAttribute('href') || '';
     const img = (el.querySelector('img') as HTMLImageElement)?.getAttribute('src') || '';
     const text = el.textContent?.trim() || (el.querySelector('img') as HTMLImageElement)?.getAttribute('alt') || '';
     return { link, img, text };
   });
 
-  const links = Array.from(document.querySelectorAll('#third a')).map((el: Element) => {
+  const links = Array.from(document.querySelectorAll(profile.selectors.homeLinks)).map((el: Element) => {
     const link = (el as HTMLAnchorElement).getAttribute('href') || '';
     const text = el.textContent?.trim() || '';
-    const isInternal = link.includes('thealexandrian.net/');
+    const isInternal = link.includes(`${host}/`);
 
     return { link, text, isInternal };
   });
@@ -74,43 +143,76 @@ export async function scrapeHome() {
  * Extraction Process:
  * 1. Fetch HTML from the article URL
  * 2. Parse HTML using JSDOM
- * 3. Extract article container (#yui-main .first .item.entry)
+ * 3. Extract article container (profile selectors.article, e.g. #yui-main .first .item.entry)
  * 4. Extract metadata (ID, title, date)
- * 5. Extract content and remove related articles block
+ * 5. Extract content, remove related articles block and sanitize it (sanitize.ts)
  * 6. Extract images from content
  * 7. Extract categories and tags
- * 8. Extract comments with authors and dates
+ * 8. Extract comments with authors, author URLs, dates, sanitized HTML and reply threading
  * 9. Extract related article IDs (from YARPP plugin)
  *
- * Date Parsing:
+ * Date Parsing (profile dateFormats, first match wins):
  * - Article dates: "MMMM do, yyyy" (e.g., "January 1st, 2020")
  * - Comment dates: "MMMM do, yyyy - h:mm a" (e.g., "January 1st, 2020 - 3:45 pm")
- * - Output format: YYYY-MM-DD for database storage
+ * - Output format: YYYY-MM-DD for articles; ISO 8601 in UTC for comments, whose
+ *   times are read in the profile's timeZone
  *
  * WordPress Structure Notes:
  * - old_id is extracted from post-{id} attribute on entry element
  * - Categories/tags are stored as plain text arrays (not IDs)
  * - Related articles use YARPP plugin (.yarpp-template-thumbnails)
- * - Comments use WordPress default structure (.commentlist li)
+ * - Comments use WordPress default structure (.commentlist li), with replies
+ *   nested in a .children list inside the parent comment
  *
  * @param {string} url - Full URL to the article page
+ * @param {SiteProfile} profile - Site profile (default: the profile matching the URL's origin)
  * @returns {Promise<{article: RawArticle, comments: RawComment[]}>} Article data and comments
+ * @throws {Error} If the URL belongs to no site profile
  * @throws {Error} If article container is not found in HTML
+ * @throws {PolitenessError} If robots.txt disallows the URL or the request fails after retries
  *
  * @example
  * const { article, comments } = await scrapeArticles('https://thealexandrian.net/wordpress/123/post-title');
  * console.log(article.title);  // "Article Title"
  * console.log(comments.length);  // 15
  */
-export async function scrapeArticles(url: string): Promise<{ article: RawArticle; comments: RawComment[] }> {
-  // Fetch raw HTML from the article URL
-  const html = await $fetch<string>(url);
-  const dom = new JSDOM(html);
+export async function scrapeArticles(
+  url: string,
+  profile: SiteProfile | null = getSiteProfileForUrl(url)
+): Promise<{ article: RawArticle; comments: RawComment[] }> {
+  if (!profile) throw new Error(`No site profile for ${url}`);
+
+  // Fetch raw HTML from the article URL (robots.txt, pacing and backoff)
+  const html = await politeFetchHtml(url);
+  return parseArticleHtml(html, url, profile);
+}
+
+/**
+ * Extracts article data and comments from article page HTML.
+ * Does no network access; see scrapeArticles() for the extraction steps.
+ *
+ * Missing optional parts (metadata, comments, related posts, images) yield
+ * empty arrays instead of errors, so a markup change degrades the output
+ * rather than failing the scrape.
+ *
+ * @param {string} html - Article page HTML
+ * @param {string} url - URL the page was fetched from (resolves relative links)
+ * @param {SiteProfile} profile - Site the page belongs to
+ * @returns {{article: RawArticle, comments: RawComment[]}} Article data and comments
+ * @throws {Error} If article container is not found in HTML
+ */
+export function parseArticleHtml(
+  html: string,
+  url: string,
+  profile: SiteProfile
+): { article: RawArticle; comments: RawComment[] } {
+  const { selectors, dateFormats, timeZone } = profile;
+  const dom = new JSDOM(html, { url });
   const document = dom.window.document;
 
   // === 1) Locate Main Article Container ===
   // The Alexandrian uses a YUI-based layout with specific container structure
-  const entry = document.querySelector('#yui-main .first .item.entry');
+  const entry = document.querySelector(selectors.article);
   if (!entry) throw new Error('Article container not found');
 
   // === 2) Extract WordPress Post ID ===
@@ -119,20 +221,20 @@ export async function scrapeArticles(url: string): Promise<{ article: RawArticle
   const old_id = oldIdAttr ? parseInt(oldIdAttr[1], 10) : NaN;
 
   // === 3) Extract Title & Canonical Link ===
-  const titleEl = entry.querySelector('.itemhead h3 a') as HTMLAnchorElement;
+  const titleEl = entry.querySelector(selectors.title) as HTMLAnchorElement;
   const title = titleEl?.textContent?.trim() || '';
   const link = titleEl?.href || '';
 
   // === 4) Extract & Parse Creation Date ===
   // Date format: "January 1st, 2020"
-  const dateEl = entry.querySelector('.itemhead .chronodata');
+  const dateEl = entry.querySelector(selectors.date);
   const created_at_raw = dateEl?.textContent?.trim() || '';
   let created_at = '';
 
   try {
     // Parse date using date-fns
-    const created_at_date = parse(created_at_raw, 'MMMM do, yyyy', new Date());
-    if (created_at_date && !isNaN(created_at_date.getTime())) {
+    const created_at_date = parseSiteDate(created_at_raw, dateFormats.article);
+    if (created_at_date) {
       // Convert to YYYY-MM-DD format for database
       created_at = format(created_at_date, 'yyyy-MM-dd');
     }
@@ -143,65 +245,92 @@ export async function scrapeArticles(url: string): Promise<{ article: RawArticle
   }
 
   // === 5) Extract Content & Images ===
-  const storyEl = entry.querySelector('.storycontent');
+  const storyEl = entry.querySelector(selectors.content);
 
   // Remove related articles block (YARPP plugin) from content
   // This block is extracted separately below
-  const relatedEls = document.querySelectorAll('.yarpp-thumbnail');
-  const relatedBlock = storyEl?.querySelector('.yarpp-template-thumbnails');
+  const relatedEls = document.querySelectorAll(selectors.related);
+  const relatedBlock = storyEl?.querySelector(selectors.relatedBlock);
   relatedBlock?.remove();
 
-  // Get full HTML content (preserving formatting, images, etc.)
-  const content = storyEl?.innerHTML.trim() ?? '';
+  // Get full HTML content (preserving formatting, images, etc.), sanitized
+  // because it is rendered with v-html (relative links become absolute)
+  const content = sanitizeHtml(storyEl?.innerHTML ?? '', { baseUrl: url });
 
   // Extract all image URLs from content
   const images = Array.from(storyEl?.querySelectorAll('img') ?? [])
     .map(img => (img as HTMLImageElement).src);
 
   // === 6) Extract Categories & Tags ===
-  // WordPress metadata is stored in small.metadata element
-  const metaEl = entry.querySelector('small.metadata')!;
-  const categories = Array.from(metaEl.querySelectorAll('.category a'))
-    .map(a => a.textContent!.trim());
-  const tags = Array.from(metaEl.querySelectorAll('.tags a'))
-    .map(a => a.textContent!.trim());
+  // WordPress metadata is stored in small.metadata element (missing on some posts)
+  const metaEl = entry.querySelector(selectors.metadata);
+  const categories = Array.from(metaEl?.querySelectorAll(selectors.categories) ?? [])
+    .map(a => a.textContent?.trim() ?? '')
+    .filter(name => name.length > 0);
+  const tags = Array.from(metaEl?.querySelectorAll(selectors.tags) ?? [])
+    .map(a => a.textContent?.trim() ?? '')
+    .filter(name => name.length > 0);
 
   // === 7) Extract Comments ===
-  const commentEls = document.querySelectorAll('.commentlist li');
-  const comments: RawComment[] = Array.from(commentEls).map((li: Element) => {
-    // Extract comment author from <cite> tag
-    const authorEl = li.querySelector('cite');
-    const author = authorEl?.textContent?.trim() || '';
-
+  // Replies are nested inside their parent's <li> (WordPress threaded comments),
+  // so each comment's own content excludes its replies
+  const commentEls = Array.from(document.querySelectorAll(selectors.comment));
+  const comments: RawComment[] = commentEls.map((li: Element) => {
     // Extract WordPress comment ID from li id="comment-{id}"
     const old_id = Number(li.id.replace('comment-', ''));
 
-    // Collect all paragraphs as comment content
-    // Comments can span multiple <p> tags
-    const paras = Array.from(li.querySelectorAll('p'))
-      .map((p: Element) => p.textContent?.trim() || '')
-      .filter(t => t.length > 0);
-    const content = paras;
+    // Parent is the closest enclosing comment (null for top-level comments)
+    const parentEl = li.parentElement?.closest(selectors.comment);
+    const parent_old_id = parentEl ? Number(parentEl.id.replace('comment-', '')) : null;
+
+    // Work on a copy without replies, author and date line
+    const own = li.cloneNode(true) as Element;
+    own.querySelectorAll(selectors.commentReplies).forEach(el => el.remove());
+
+    // Extract comment author from <cite> tag; linked authors have their site URL
+    const authorEl = own.querySelector(selectors.commentAuthor);
+    const author = authorEl?.textContent?.trim() || '';
+    const authorLink = authorEl?.closest('a') ?? authorEl?.querySelector('a');
+    const author_url = (authorLink as HTMLAnchorElement | null | undefined)?.href || null;
 
     // Extract and parse comment date
     // Format: "January 1st, 2020 - 3:45 pm"
-    const dateLink = li.querySelector('div small a');
+    const dateLink = own.querySelector(selectors.commentDate);
     const raw = dateLink?.textContent?.trim() || '';
-    let comment_created_at = new Date().toISOString().split('T')[0]; // Default fallback
+    let comment_created_at = new Date().toISOString(); // Default fallback
 
     try {
-      const parsed = parse(raw, "MMMM do, yyyy - h:mm a", new Date());
-      if (parsed && !isNaN(parsed.getTime())) {
-        comment_created_at = format(parsed, 'yyyy-MM-dd');
+      const parsed = parseSiteDate(raw, dateFormats.comment);
+      if (parsed) {
+        // The site shows times in its own timezone; store them in UTC
+        comment_created_at = inTimeZone(parsed, timeZone).toISOString();
       }
     } catch {
       console.error('Failed to parse comment date:', raw);
     }
 
+    own.querySelectorAll(selectors.commentMetadata).forEach(el => el.remove());
+    authorEl?.remove();
+
+    // Body HTML: remaining elements (paragraphs, blockquotes, lists), without
+    // bare text such as "Says:"
+    const bodyEls = Array.from(own.children);
+    const content_html = sanitizeHtml(bodyEls.map(el => el.outerHTML).join('\n'), { baseUrl: url });
+
+    // Paragraph text, used where HTML isn't wanted
+    // Comments can span multiple <p> tags
+    const content = bodyEls
+      .flatMap(el => (el.matches('p') ? [el] : Array.from(el.querySelectorAll('p'))))
+      .map((p: Element) => p.textContent?.trim() || '')
+      .filter(t => t.length > 0);
+
     return {
       old_id,
+      parent_old_id,
       author,
+      author_url,
       content,
+      content_html,
       created_at: comment_created_at
     };
   });
@@ -209,16 +338,17 @@ export async function scrapeArticles(url: string): Promise<{ article: RawArticle
 
   // === 8) Extract Related Articles ===
   // YARPP (Yet Another Related Posts Plugin) generates thumbnail links
-  // URLs contain WordPress post IDs: /wordpress/{id}/{slug}
+  // URLs contain WordPress post IDs: /wordpress/{id}/{slug} (profile article pattern)
   const related: number[] = Array.from(relatedEls).map(a => {
     const href = (a as HTMLAnchorElement).href || '';
-    const match = href.match(/wordpress\/(\d+)\//);
+    const match = href.match(profile.urlPatterns.article);
     const relatedId = match ? Number(match[1]) : 0;
     return relatedId;
   });
 
   // === 9) Assemble Final Article Object ===
   const article: RawArticle = {
+    source: profile.id,
     old_id,
     title,
     link,
@@ -0,0 +1,44 @@
+/**
+ * ALEXANDRIAN SCRAPING - Full-Text Search Helpers
+ *
+ * Search itself runs in Postgres (search_articles() in the article_search
+ * migration): a tsvector over title, AI summary, content text and comment
+ * text, ranked with ts_rank_cd. This module turns its output into what
+ * /api/search returns.
+ *
+ * Key Exports:
+ * - highlightSnippet(): Escape a ts_headline snippet and mark its matches
+ * - SNIPPET_MATCH_START / SNIPPET_MATCH_END: Markers search_articles() puts around matches
+ *
+ * @module server/utils/search
+ */
+
+/** Private-use characters that can't appear in stored text (chr(57344) / chr(57345) in SQL) */
+export const SNIPPET_MATCH_START = '\uE000'
+export const SNIPPET_MATCH_END = '\uE001'
+
+/** HTML entities for the characters escaped in snippets */
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&#39;',
+}
+
+/**
+ * Turn a ts_headline snippet into safe HTML with matches in <mark>.
+ * The snippet is article text, so everything but the markers is escaped.
+ *
+ * @param {string} snippet - Snippet from search_articles()
+ * @returns {string} HTML for v-html
+ *
+ * @example
+ * highlightSnippet('three clue <rule>');  // 'three <mark>clue</mark> &lt;rule&gt;'
+ */
+export function highlightSnippet(snippet: string): string {
+  return snippet
+    .replace(/[&<>"']/g, char => HTML_ESCAPES[char])
+    .replaceAll(SNIPPET_MATCH_START, '<mark>')
+    .replaceAll(SNIPPET_MATCH_END, '</mark>')
+}
@@ -0,0 +1,362 @@
+/**
+ * ALEXANDRIAN SCRAPING - Series Detection
+ *
+ * The Alexandrian publishes many multi-part series ("Node-Based Scenario
+ * Design – Part 3: …", "Thinking About Megadungeons (Part 2)"). This pass
+ * groups articles into series so the post page can link the other parts.
+ *
+ * Detection:
+ * 1. Title patterns: "Name – Part 2", "Name, Part II: Subtitle",
+ *    "Name (Part 2)", "Name: Chapter 3", "Name #4" (parseSeriesTitle())
+ * 2. Series tags: a tag named like a title series ("node-based-scenario-design")
+ *    pulls in the articles tagged with it that have no part number (prologues,
+ *    epilogues, addenda), as does a title equal to the series name; tags
+ *    named "… Series" / "Series: …" form a series of their own
+ * A series needs at least two articles of the same site. An article belongs
+ * to one series at most; title matches win over tags.
+ *
+ * Runs as a detect-series job over all articles, queued a few minutes after
+ * scrapes so a bulk scrape triggers it a few times rather than per article.
+ *
+ * Key Exports:
+ * - detectArticleSeries(): Full pass, rewrites series and article_series
+ * - detectSeries(): Group articles into series (no database)
+ * - parseSeriesTitle(): Series name and part number of a title
+ *
+ * @module server/utils/series
+ */
+
+import type { TablesInsert } from '~~/database.types'
+import type { JobsClient } from './jobs'
+import { toSlug } from './links'
+
+/**
+ * An article as seen by series detection.
+ */
+export interface SeriesCandidate {
+  id: string;
+  /** Site profile id (articles.source) */
+  source: string;
+  title: string;
+  created_at: string;
+  tags: { name: string; slug: string | null }[];
+}
+
+/**
+ * A series found by detectSeries(), articles in chronological order.
+ */
+export interface DetectedSeries {
+  source: string;
+  slug: string;
+  name: string;
+  detectedBy: 'title' | 'tag';
+  articles: { id: string; part: number | null }[];
+}
+
+/**
+ * Options for detectArticleSeries().
+ */
+export interface DetectSeriesOptions {
+  /** Checked between writes; returning true stops the pass */
+  isCancelled?: () => Promise<boolean>;
+}
+
+/**
+ * Outcome of detectArticleSeries().
+ */
+export interface DetectSeriesResult {
+  /** Articles looked at */
+  articles: number;
+  /** Series found */
+  series: number;
+  /** Articles placed in a series */
+  members: number;
+  /** Whether the pass stopped because the job was cancelled */
+  cancelled: boolean;
+}
+
+/** Rows read per page (Supabase caps responses at 1000 rows) */
+const PAGE_SIZE = 1000
+
+/**
+ * "Name – Part 2", "Name, Part II: Subtitle", "Name (Chapter 3)", "Name: Session 12".
+ * Group 1 is the name, group 2 the number.
+ */
+const PART_TITLE = /^(.+?)[\s,:.–—-]*\(?\s*\b(?:part|chapter|session|episode|volume|vol\.)\s+(\d+|[ivxlc]+)\b\s*\)?(?:\s*[:.–—-].*)?$/i
+
+/** "Name #4" or "Name #4: Subtitle" */
+const NUMBER_TITLE = /^(.+?)\s+#(\d+)\b(?:\s*[:.–—-].*)?$/
+
+/** Tags that name a series outright: "Three Clue Rule Series", "Series: Ptolus" */
+const SERIES_TAG = /^(?:series\s*:\s*(.+)|(.+?)\s+series)$/i
+
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 }
+
+/**
+ * Read a part number written in digits or Roman numerals.
+ */
+function toPartNumber(value: string): number | null {
+  if (/^\d+$/.test(value)) return Number(value)
+
+  const digits = value.toLowerCase().split('').map(char => ROMAN_VALUES[char])
+  if (digits.some(digit => digit === undefined)) return null
+
+  // Subtract a numeral that precedes a larger one (IV, IX, XL)
+  return digits.reduce((total, digit, i) => total + (digit < (digits[i + 1] ?? 0) ? -digit : digit), 0)
+}
+
+/**
+ * Get the series name and part number from an article title.
+ *
+ * @param {string} title - Article title
+ * @returns {{ name: string, part: number } | null} Series name and part, or null if the title has no part
+ *
+ * @example
+ * parseSeriesTitle('Node-Based Scenario Design – Part 3: The Plan');
+ * // { name: 'Node-Based Scenario Design', part: 3 }
+ */
+export function parseSeriesTitle(title: string): { name: string; part: number } | null {
+  const match = title.trim().match(PART_TITLE) ?? title.trim().match(NUMBER_TITLE)
+  if (!match) return null
+
+  const name = match[1].replace(/[\s,:.–—(-]+$/, '').trim()
+  const part = toPartNumber(match[2])
+  if (!name || part === null || part < 1) return null
+
+  return { name, part }
+}
+
+/**
+ * Chronological order, id as tie-breaker (like the article listing).
+ */
+function byDate(a: SeriesCandidate, b: SeriesCandidate): number {
+  return a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id)
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Group Articles into Series
+ *
+ * Applies the title and tag rules described above to a set of articles.
+ * Series are returned in order of their first article, with their articles
+ * in publication order; the name is the one used by the first article.
+ *
+ * @param {SeriesCandidate[]} candidates - Articles with their tags
+ * @returns {DetectedSeries[]} Series with two or more articles
+ *
+ * @example
+ * detectSeries([
+ *   { id: 'a', source: 'alexandrian', title: 'Three Clue Rule – Part 1', created_at: '2008-01-01', tags: [] },
+ *   { id: 'b', source: 'alexandrian', title: 'Three Clue Rule – Part 2', created_at: '2008-01-08', tags: [] },
+ * ]);
+ * // [{ source: 'alexandrian', slug: 'three-clue-rule', name: 'Three Clue Rule', detectedBy: 'title', articles: [...] }]
+ */
+export function detectSeries(candidates: SeriesCandidate[]): DetectedSeries[] {
+  const sorted = [...candidates].sort(byDate)
+  const groups = new Map<string, DetectedSeries>()
+  const assigned = new Set<string>()
+
+  const groupFor = (source: string, name: string, detectedBy: DetectedSeries['detectedBy']) => {
+    const slug = toSlug(name)
+    const key = `${source}:${slug}`
+    const group = groups.get(key) ?? { source, slug, name, detectedBy, articles: [] }
+    groups.set(key, group)
+    return group
+  }
+
+  // === PASS 1: Part Numbers in Titles ===
+  for (const article of sorted) {
+    const parsed = parseSeriesTitle(article.title)
+    if (!parsed || !toSlug(parsed.name)) continue
+
+    groupFor(article.source, parsed.name, 'title').articles.push({ id: article.id, part: parsed.part })
+    assigned.add(article.id)
+  }
+
+  // Single "Part 1" titles aren't a series (yet); their articles stay free for tags
+  for (const [key, group] of groups) {
+    if (group.articles.length < 2) {
+      group.articles.forEach(article => assigned.delete(article.id))
+      groups.delete(key)
+    }
+  }
+
+  // === PASS 2: Series Tags ===
+  for (const article of sorted) {
+    if (assigned.has(article.id)) continue
+
+    // An article titled just like the series (its unnumbered first part)
+    const namesake = groups.get(`${article.source}:${toSlug(article.title)}`)
+    if (namesake) {
+      namesake.articles.push({ id: article.id, part: null })
+      assigned.add(article.id)
+      continue
+    }
+
+    for (const tag of article.tags) {
+      const slug = tag.slug || toSlug(tag.name)
+      const titleSeries = groups.get(`${article.source}:${slug}`)
+      const tagName = tag.name.trim().match(SERIES_TAG)
+      const group = titleSeries
+        ?? (tagName ? groupFor(article.source, (tagName[1] ?? tagName[2]).trim(), 'tag') : undefined)
+
+      if (group && toSlug(group.name)) {
+        group.articles.push({ id: article.id, part: null })
+        assigned.add(article.id)
+        break
+      }
+    }
+  }
+
+  // === PASS 3: Order Members ===
+  const order = new Map(sorted.map((article, i) => [article.id, i]))
+  return [...groups.values()]
+    .filter(group => group.articles.length >= 2)
+    .map(group => ({
+      ...group,
+      articles: [...group.articles].sort((a, b) => order.get(a.id)! - order.get(b.id)!),
+    }))
+    .sort((a, b) => order.get(a.articles[0].id)! - order.get(b.articles[0].id)!)
+}
+
+/**
+ * Load every article with its tags, a page at a time.
+ */
+async function loadCandidates(client: JobsClient): Promise<SeriesCandidate[]> {
+  const candidates: SeriesCandidate[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('articles')
+      .select('id, source, title, created_at, tags: article_tags ( tag: tags ( name, slug ) )')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load articles: ${error.message}`)
+    candidates.push(...(data ?? []).map(({ tags, ...article }) => ({
+      ...article,
+      tags: tags.flatMap(({ tag }) => tag ? [tag] : []),
+    })))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return candidates
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Series Detection Pass
+ *
+ * Detects series over all articles and stores them: series rows are upserted
+ * by (source, slug), so their ids survive later passes, each article's
+ * article_series row is replaced, and series and memberships that weren't
+ * found again are removed.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {DetectSeriesOptions} options - Cancellation check
+ * @returns {Promise<DetectSeriesResult>} Counts of articles, series and members
+ * @throws {Error} If articles, series or article_series can't be read or written
+ */
+export async function detectArticleSeries(
+  client: JobsClient,
+  options: DetectSeriesOptions = {}
+): Promise<DetectSeriesResult> {
+  // === PHASE 1: Detect ===
+  const candidates = await loadCandidates(client)
+  const detected = detectSeries(candidates)
+  const result: DetectSeriesResult = { articles: candidates.length, series: 0, members: 0, cancelled: false }
+
+  // === PHASE 2: Save Series and Members ===
+  const seriesIds: string[] = []
+  const memberIds: string[] = []
+
+  for (const series of detected) {
+    if (options.isCancelled && await options.isCancelled()) {
+      result.cancelled = true
+      return result
+    }
+
+    const { data: row, error: seriesError } = await client
+      .from('series')
+      .upsert({
+        source: series.source,
+        slug: series.slug,
+        name: series.name,
+        detected_by: series.detectedBy,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'source,slug' })
+      .select('id')
+      .single()
+
+    if (seriesError || !row) throw new Error(`Failed to save series ${series.slug}: ${seriesError?.message}`)
+
+    const members: TablesInsert<'article_series'>[] = series.articles.map((article, i) => ({
+      article_id: article.id,
+      series_id: row.id,
+      position: i + 1,
+      part: article.part,
+    }))
+
+    const { error: membersError } = await client
+      .from('article_series')
+      .upsert(members, { onConflict: 'article_id' })
+
+    if (membersError) throw new Error(`Failed to save series ${series.slug} articles: ${membersError.message}`)
+
+    seriesIds.push(row.id)
+    memberIds.push(...members.map(member => member.article_id))
+  }
+
+  result.series = seriesIds.length
+  result.members = memberIds.length
+
+  // === PHASE 3: Remove What Wasn't Found Again ===
+  // Members first, then series left without any (also catches series that
+  // were renamed to a new slug)
+  const keep = new Set(memberIds)
+  const staleIds: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('article_series')
+      .select('article_id')
+      .order('article_id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load series members: ${error.message}`)
+    staleIds.push(...(data ?? []).map(row => row.article_id).filter(id => !keep.has(id)))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  for (let i = 0; i < staleIds.length; i += PAGE_SIZE) {
+    const { error } = await client
+      .from('article_series')
+      .delete()
+      .in('article_id', staleIds.slice(i, i + PAGE_SIZE))
+
+    if (error) throw new Error(`Failed to remove series members: ${error.message}`)
+  }
+
+  const keepSeries = new Set(seriesIds)
+  const emptyIds: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('series')
+      .select('id')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load series: ${error.message}`)
+    emptyIds.push(...(data ?? []).map(row => row.id).filter(id => !keepSeries.has(id)))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  for (let i = 0; i < emptyIds.length; i += PAGE_SIZE) {
+    const { error } = await client
+      .from('series')
+      .delete()
+      .in('id', emptyIds.slice(i, i + PAGE_SIZE))
+
+    if (error) throw new Error(`Failed to remove series: ${error.message}`)
+  }
+
+  console.info(`[Series] ${result.series} series with ${result.members} articles (${staleIds.length} removed from series)`)
+  return result
+}
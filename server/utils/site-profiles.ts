@@ -0,0 +1,187 @@
+/**
+ * ALEXANDRIAN SCRAPING - Site Profiles
+ *
+ * Declares everything that is specific to one source blog: where crawling
+ * starts, which selectors hold the article parts, how and in which timezone
+ * dates are written and which URL patterns mark articles, tags and
+ * categories. The crawler, scraper, classifier, discovery and taxonomy
+ * extraction read these instead of hard-coding The Alexandrian's WordPress
+ * theme, so another RPG blog can be mirrored by adding a profile.
+ *
+ * Adding a Site:
+ * 1. Add a SiteProfile to siteProfiles (id is stored in articles.source)
+ * 2. Start discovery or a crawl with ?site={id}
+ * Links are matched to their profile by origin (getSiteProfileForUrl()).
+ *
+ * Key Exports:
+ * - SiteProfile: Profile format
+ * - siteProfiles: All configured profiles
+ * - getSiteProfile(): Profile by id (default: The Alexandrian)
+ * - getSiteProfileForUrl(): Profile whose startUrl shares the URL's origin
+ *
+ * @module server/utils/site-profiles
+ */
+
+/**
+ * CSS selectors for one site's theme.
+ * Selectors marked "within entry" are queried inside the article container.
+ */
+export interface SiteSelectors {
+  /** Main column; hashed for change detection */
+  mainContent: string;
+  /** Article container on a single post page */
+  article: string;
+  /** Title link (within entry); its href is the canonical link */
+  title: string;
+  /** Publish date (within entry) */
+  date: string;
+  /** Article body (within entry) */
+  content: string;
+  /** Categories/tags wrapper (within entry) */
+  metadata: string;
+  /** Category links (within metadata) */
+  categories: string;
+  /** Tag links (within metadata) */
+  tags: string;
+  /** One element per comment, including nested replies */
+  comment: string;
+  /** Comment author (within comment); a link inside or around it is the author's URL */
+  commentAuthor: string;
+  /** Comment date (within comment) */
+  commentDate: string;
+  /** Date/permalink line removed from the comment body (within comment) */
+  commentMetadata: string;
+  /** List holding a comment's replies (within comment) */
+  commentReplies: string;
+  /** Related post links (e.g. YARPP thumbnails) */
+  related: string;
+  /** Related posts block removed from the body (within content) */
+  relatedBlock: string;
+  /** Home page menu links (scrapeHome) */
+  homeMenu: string;
+  /** Home page sidebar links (scrapeHome) */
+  homeLinks: string;
+}
+
+/**
+ * URL patterns for one site, tested against the full URL.
+ */
+export interface SiteUrlPatterns {
+  /** Article pages; group 1 is the post id */
+  article: RegExp;
+  /** Tag listing pages (with pagination); group 1 is the tag slug */
+  tag: RegExp;
+  /** Category listing pages (with pagination); group 1 is the category slug */
+  category: RegExp;
+  /** Paginated listings (page 2 and later) */
+  pagination: RegExp;
+}
+
+/**
+ * Everything that is specific to one source site.
+ */
+export interface SiteProfile {
+  /** Stable identifier, stored in articles.source */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Home page; crawling starts here and its origin identifies the site */
+  startUrl: string;
+  /** Theme selectors */
+  selectors: SiteSelectors;
+  /** IANA timezone the site writes comment times in (WordPress "Timezone" setting) */
+  timeZone: string;
+  /** date-fns formats, tried in order */
+  dateFormats: {
+    article: string[];
+    comment: string[];
+  };
+  /** URL patterns */
+  urlPatterns: SiteUrlPatterns;
+  /** Sitemap locations tried when robots.txt declares none (relative to startUrl) */
+  sitemapPaths: string[];
+  /** Feed locations, tried in order (relative to startUrl) */
+  feedPaths: string[];
+}
+
+/**
+ * The Alexandrian (https://thealexandrian.net/), WordPress with a YUI-based theme.
+ */
+const alexandrian: SiteProfile = {
+  id: 'alexandrian',
+  name: 'The Alexandrian',
+  startUrl: 'https://thealexandrian.net/',
+  selectors: {
+    mainContent: '#yui-main',
+    article: '#yui-main .first .item.entry',
+    title: '.itemhead h3 a',
+    date: '.itemhead .chronodata',
+    content: '.storycontent',
+    metadata: 'small.metadata',
+    categories: '.category a',
+    tags: '.tags a',
+    comment: '.commentlist li[id^="comment-"]',
+    commentAuthor: 'cite',
+    commentDate: 'div small a',
+    commentMetadata: '.commentmetadata',
+    commentReplies: '.children',
+    related: '.yarpp-thumbnail',
+    relatedBlock: '.yarpp-template-thumbnails',
+    homeMenu: '#menu a',
+    homeLinks: '#third a',
+  },
+  timeZone: 'America/Chicago',
+  dateFormats: {
+    article: ['MMMM do, yyyy'],           // January 1st, 2020
+    comment: ['MMMM do, yyyy - h:mm a'],  // January 1st, 2020 - 3:45 pm
+  },
+  urlPatterns: {
+    article: /\/wordpress\/(\d+)(?:\/[^/?#]+)+\/?$/,  // /wordpress/{id}[/{category}]/{slug}
+    tag: /\/tag\/([^/?#]+)(?:\/page\/\d+)?\/?$/,
+    category: /\/category\/([^/?#]+)(?:\/page\/\d+)?\/?$/,
+    pagination: /\/page\/\d+/,
+  },
+  sitemapPaths: ['sitemap.xml', 'sitemap_index.xml', 'wp-sitemap.xml'],
+  feedPaths: ['feed/', 'feed/atom/'],
+};
+
+/**
+ * All configured site profiles.
+ */
+export const siteProfiles: SiteProfile[] = [alexandrian];
+
+/** Profile used when no site is given */
+export const DEFAULT_SITE_PROFILE_ID = alexandrian.id;
+
+/**
+ * Get a site profile by id.
+ *
+ * @param {string} id - Profile id (default: The Alexandrian)
+ * @returns {SiteProfile} Profile
+ * @throws {Error} If no profile has this id
+ */
+export function getSiteProfile(id: string = DEFAULT_SITE_PROFILE_ID): SiteProfile {
+  const profile = siteProfiles.find(p => p.id === id);
+  if (!profile) throw new Error(`Unknown site profile: ${id}`);
+  return profile;
+}
+
+/**
+ * Find the profile of the site a URL belongs to.
+ *
+ * @param {string} url - Full URL
+ * @returns {SiteProfile | null} Profile whose startUrl has the same origin, or null
+ *
+ * @example
+ * getSiteProfileForUrl('https://thealexandrian.net/wordpress/123/post')?.id;  // 'alexandrian'
+ */
+export function getSiteProfileForUrl(url: string): SiteProfile | null {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    return null;
+  }
+
+  return siteProfiles.find(p => new URL(p.startUrl).origin === origin) ?? null;
+}
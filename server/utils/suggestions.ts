@@ -0,0 +1,262 @@
+/**
+ * ALEXANDRIAN SCRAPING - AI Suggestion Review
+ *
+ * AI output isn't published directly. remixArticle() and the /api/ai
+ * endpoints save titles, summaries and content as pending suggestions; a
+ * reviewer approves, edits or rejects each one on the review page
+ * (pages/review.vue). Only then is the text written to the article's ai_*
+ * column, which is all the public pages read.
+ *
+ * Suggestion Lifecycle:
+ * ```
+ * pending ──→ approved  (value written to the ai_* column)
+ *    │──────→ edited    (reviewer's edited_value written instead)
+ *    └──────→ rejected  (nothing written)
+ * ```
+ *
+ * Approvals are recorded as revisions (source ai with the model, prompt id
+ * and version; edits as manual), so they can be compared and rolled back.
+ *
+ * Key Exports:
+ * - saveSuggestions(): Store AI output as pending suggestions
+ * - parseSuggestionReview(): Validate a review request
+ * - reviewSuggestion(): Approve, edit or reject a pending suggestion
+ *
+ * @module server/utils/suggestions
+ */
+
+import type { Tables, TablesInsert } from '~~/database.types'
+import type { JobsClient } from './jobs'
+import { recordArticleRevisions } from './revisions'
+import { sanitizeHtml } from './sanitize'
+
+/**
+ * Article columns AI suggestions are made for.
+ */
+export const SUGGESTION_FIELDS = ['ai_content', 'ai_title', 'ai_summary'] as const
+
+export type SuggestionField = typeof SUGGESTION_FIELDS[number]
+
+/**
+ * Scraped column each AI field rewrites, shown next to the suggestion.
+ */
+export const SUGGESTION_ORIGINALS = {
+  ai_content: 'content',
+  ai_title: 'title',
+  ai_summary: 'summary',
+} as const satisfies Record<SuggestionField, keyof Tables<'articles'>>
+
+export const SUGGESTION_STATUSES = ['pending', 'approved', 'rejected', 'edited'] as const
+
+export type SuggestionStatus = typeof SUGGESTION_STATUSES[number]
+
+/**
+ * One piece of AI output, for saveSuggestions().
+ */
+export interface NewSuggestion {
+  field: SuggestionField;
+  value: string;
+  /** Model that wrote it */
+  model?: string;
+  /** Registry id of the prompt template (prompts.ts) */
+  promptId?: string;
+  /** Version of the prompt template */
+  promptVersion?: string;
+}
+
+/**
+ * Reviewer's decision on a suggestion.
+ */
+export type SuggestionReview =
+  | { action: 'approve' }
+  | { action: 'reject' }
+  | { action: 'edit'; value: string }
+
+/**
+ * Why a review couldn't be applied.
+ */
+export class SuggestionReviewError extends Error {
+  constructor(
+    message: string,
+    public statusCode: 400 | 404 | 409
+  ) {
+    super(message)
+    this.name = 'SuggestionReviewError'
+  }
+}
+
+/**
+ * Check that a string names a field AI suggestions are made for.
+ */
+export function isSuggestionField(field: unknown): field is SuggestionField {
+  return typeof field === 'string' && (SUGGESTION_FIELDS as readonly string[]).includes(field)
+}
+
+/**
+ * Read a review request body: `{ action: 'approve' | 'reject' }` or
+ * `{ action: 'edit', value }`.
+ *
+ * @param {unknown} body - Request body
+ * @returns {SuggestionReview} The review
+ * @throws {SuggestionReviewError} 400 for an unknown action or an edit without text
+ */
+export function parseSuggestionReview(body: unknown): SuggestionReview {
+  const { action, value } = (body ?? {}) as { action?: unknown; value?: unknown }
+
+  if (action === 'approve' || action === 'reject') return { action }
+  if (action === 'edit') {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new SuggestionReviewError('Edits need the edited text as value', 400)
+    }
+    return { action, value }
+  }
+
+  throw new SuggestionReviewError('action must be approve, reject or edit', 400)
+}
+
+/**
+ * Store AI output as pending suggestions. HTML content is sanitized first,
+ * since the review page shows it rendered.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} articleId - Article UUID
+ * @param {NewSuggestion[]} suggestions - AI output by field
+ * @param {string} [baseUrl] - Article URL, to resolve relative links in content
+ * @returns {Promise<Tables<'ai_suggestions'>[]>} Saved suggestions
+ * @throws {Error} If the suggestions can't be saved
+ *
+ * @example
+ * await saveSuggestions(client, article.id, [
+ *   { field: 'ai_title', value: optimizedTitle, model, ...promptRef(TITLE_OPTIMIZATION) },
+ * ]);
+ */
+export async function saveSuggestions(
+  client: JobsClient,
+  articleId: string,
+  suggestions: NewSuggestion[],
+  baseUrl?: string
+): Promise<Tables<'ai_suggestions'>[]> {
+  const rows: TablesInsert<'ai_suggestions'>[] = suggestions
+    .filter(suggestion => suggestion.value.trim())
+    .map(suggestion => ({
+      article_id: articleId,
+      field: suggestion.field,
+      value: suggestion.field === 'ai_content' ? sanitizeHtml(suggestion.value, { baseUrl }) : suggestion.value.trim(),
+      model: suggestion.model ?? null,
+      prompt_id: suggestion.promptId ?? null,
+      prompt_version: suggestion.promptVersion ?? null,
+    }))
+
+  if (rows.length === 0) return []
+
+  const { data, error } = await client.from('ai_suggestions').insert(rows).select()
+  if (error) throw new Error(`Failed to save AI suggestions: ${error.message}`)
+
+  console.info(`[Suggestions] ${articleId}: ${rows.map(row => row.field).join(', ')} pending review`)
+  return data ?? []
+}
+
+/**
+ * Return a claimed suggestion to pending after its publish failed.
+ * Failures are logged: the caller is already reporting the publish error.
+ */
+async function releaseSuggestion(client: JobsClient, suggestion: Tables<'ai_suggestions'>): Promise<void> {
+  const { error } = await client
+    .from('ai_suggestions')
+    .update({ status: 'pending', edited_value: null, reviewed_at: null })
+    .eq('id', suggestion.id)
+    .eq('status', suggestion.status)
+
+  if (error) console.error(`[Suggestions] Failed to return ${suggestion.id} to pending:`, error.message)
+}
+
+/**
+ * ALEXANDRIAN SCRAPING - Review a Suggestion
+ *
+ * Approving writes the suggestion to its article column; editing writes the
+ * reviewer's text instead (sanitized like AI HTML); rejecting only records
+ * the decision. Only pending suggestions can be reviewed.
+ *
+ * The suggestion is claimed (status set) before the article is written, so two
+ * reviewers can't both publish it. If writing the article or its revision
+ * fails, the suggestion goes back to pending and the review can be retried.
+ *
+ * @param {JobsClient} client - Supabase client
+ * @param {string} suggestionId - Suggestion UUID
+ * @param {SuggestionReview} review - approve, reject, or edit with the new text
+ * @returns {Promise<Tables<'ai_suggestions'>>} The reviewed suggestion
+ * @throws {SuggestionReviewError} 404 if missing, 409 if already reviewed, 400 for empty edits
+ * @throws {Error} If the article or suggestion can't be updated
+ */
+export async function reviewSuggestion(
+  client: JobsClient,
+  suggestionId: string,
+  review: SuggestionReview
+): Promise<Tables<'ai_suggestions'>> {
+  const { data: suggestion, error: loadError } = await client
+    .from('ai_suggestions')
+    .select('*')
+    .eq('id', suggestionId)
+    .maybeSingle()
+
+  if (loadError) throw new Error(`Failed to load suggestion: ${loadError.message}`)
+  if (!suggestion || !isSuggestionField(suggestion.field)) {
+    throw new SuggestionReviewError(`Suggestion not found: ${suggestionId}`, 404)
+  }
+  if (suggestion.status !== 'pending') {
+    throw new SuggestionReviewError(`Suggestion was already ${suggestion.status}`, 409)
+  }
+
+  const field = suggestion.field
+  let editedValue: string | null = null
+  if (review.action === 'edit') {
+    editedValue = field === 'ai_content' ? sanitizeHtml(review.value) : review.value.trim()
+    if (!editedValue) throw new SuggestionReviewError('Edited text is empty', 400)
+  }
+
+  const status: SuggestionStatus = review.action === 'approve' ? 'approved' : review.action === 'edit' ? 'edited' : 'rejected'
+
+  // Claim the suggestion first, so two reviewers can't both publish it
+  const { data: reviewed, error: reviewError } = await client
+    .from('ai_suggestions')
+    .update({ status, edited_value: editedValue, reviewed_at: new Date().toISOString() })
+    .eq('id', suggestion.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle()
+
+  if (reviewError) throw new Error(`Failed to review suggestion: ${reviewError.message}`)
+  if (!reviewed) throw new SuggestionReviewError('Suggestion was reviewed meanwhile', 409)
+
+  if (status !== 'rejected') {
+    const value = editedValue ?? suggestion.value
+    try {
+      const { error: publishError } = await client
+        .from('articles')
+        .update({ [field]: value })
+        .eq('id', suggestion.article_id)
+
+      if (publishError) throw new Error(`Failed to publish suggestion: ${publishError.message}`)
+
+      await recordArticleRevisions(client, suggestion.article_id, [
+        editedValue === null
+          ? {
+              field,
+              value,
+              source: 'ai',
+              model: suggestion.model ?? undefined,
+              promptId: suggestion.prompt_id ?? undefined,
+              promptVersion: suggestion.prompt_version ?? undefined,
+            }
+          : { field, value, source: 'manual' },
+      ])
+    } catch (error) {
+      // Hand the suggestion back, so the review can be retried
+      await releaseSuggestion(client, reviewed)
+      throw error
+    }
+  }
+
+  console.info(`[Suggestions] ${suggestion.id}: ${field} of ${suggestion.article_id} ${status}`)
+  return reviewed
+}
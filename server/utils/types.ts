@@ -11,8 +11,8 @@
  *
  * Key Type Categories:
  * 1. Raw Types (RawArticle, RawComment): Data as scraped from HTML
- * 2. Database Types (Article, Tag, Category, Comment): Supabase table schemas
- * 3. Query Types (ArticleWithRelations): Complex joined query results
+ * 2. Database Types (Article, Tag, Category, Comment, Job, Series, ArticleRevision): Supabase table schemas
+ * 3. Query Types (ArticleWithRelations, SearchResult, ArticleNavigation, RevisionDiff): Complex joined query results
  * 4. Utility Types (PaginationMeta, PaginatedResponse): API response structures
  *
  * @module server/utils/types
@@ -36,6 +36,8 @@ export type SupabaseError = any;
  * - Content is raw HTML from the page
  */
 export interface RawArticle {
+  /** Site profile id the article was scraped from (see site-profiles.ts) */
+  source: string;
   /** Original WordPress post ID from thealexandrian.net */
   old_id: number;
   /** Article title extracted from page */
@@ -67,11 +69,17 @@ export interface RawArticle {
 export interface RawComment {
   /** Original WordPress comment ID */
   old_id: number;
+  /** WordPress ID of the comment this one replies to (null for top-level comments) */
+  parent_old_id: number | null;
   /** Comment author name */
   author: string;
+  /** Author's website, if the name is linked */
+  author_url: string | null;
   /** Array of paragraph text from the comment */
   content: string[];
-  /** Comment date in YYYY-MM-DD format */
+  /** Comment body HTML (links, blockquotes, lists), without author, date or replies */
+  content_html: string;
+  /** Comment date and time, ISO 8601 in UTC (read in the site profile's timeZone) */
   created_at: string;
 }
 
@@ -103,6 +111,30 @@ export type Tag = Tables<'tags'>
  */
 export type Comment = Tables<'comments'>
 
+/**
+ * Background job as stored in the 'jobs' table.
+ * See server/utils/jobs.ts for statuses and lifecycle.
+ */
+export type Job = Tables<'jobs'>
+
+/**
+ * Multi-part series as stored in the 'series' table.
+ * Detected from titles and tags by server/utils/series.ts.
+ */
+export type Series = Tables<'series'>
+
+/**
+ * Earlier value of an article field as stored in the 'article_revisions' table.
+ * Recorded by server/utils/revisions.ts.
+ */
+export type ArticleRevision = Tables<'article_revisions'>
+
+/**
+ * AI output awaiting or after review as stored in the 'ai_suggestions' table.
+ * See server/utils/suggestions.ts for statuses.
+ */
+export type AiSuggestion = Tables<'ai_suggestions'>
+
 // ============================================================================
 // PAGINATION TYPES
 // ============================================================================
@@ -120,6 +152,8 @@ export interface PaginationMeta {
   totalPages: number;
   /** Whether more pages exist after this one */
   hasMore: boolean;
+  /** Cursor for the page after this one, where the endpoint supports cursors (null on the last page) */
+  nextCursor?: string | null;
 }
 
 /**
@@ -162,3 +196,106 @@ export type ArticleWithRelations = Article & {
     tag: Tag;
   }>;
 };
+
+/**
+ * Tag with the number of articles using it (tag_counts view).
+ * For related tags, the number of articles shared with the tag or category.
+ */
+export type TagWithCount = Tag & {
+  article_count: number;
+};
+
+/**
+ * Category with the number of articles in it (category_counts view).
+ */
+export type CategoryWithCount = Category & {
+  article_count: number;
+};
+
+/**
+ * A tag or category page: the taxonomy with its count and the tags that
+ * share the most articles with it (/api/tags/{slug}, /api/categories/{slug}).
+ */
+export type TaxonomyDetail<T extends Tag | Category> = T & {
+  article_count: number;
+  /** Most common other tags on the same articles */
+  related: TagWithCount[];
+};
+
+/**
+ * Comment with its replies nested below it.
+ * Built from the flat comments table by buildCommentThreads() (comments.ts).
+ */
+export type CommentThread = Comment & {
+  /** Direct replies, oldest first */
+  replies: CommentThread[];
+};
+
+/**
+ * Article matched by full-text search (search_articles() in the
+ * article_search migration, served by /api/search).
+ */
+export type SearchResult = Pick<Article, 'id' | 'title' | 'ai_title' | 'summary' | 'ai_summary' | 'images' | 'created_at'> & {
+  /** ts_rank_cd relevance, between 0 and 1 */
+  rank: number;
+  /** Matching passages of the content, HTML-escaped with matches in <mark> */
+  snippet: string;
+};
+
+/**
+ * Link to another article in post navigation.
+ */
+export type ArticleLink = Pick<Article, 'id' | 'title' | 'ai_title' | 'created_at'>;
+
+/**
+ * Article in a series, in chronological order.
+ */
+export type SeriesArticle = ArticleLink & {
+  /** Place in the series, 1-based */
+  position: number;
+  /** Part number from the title, if it has one */
+  part: number | null;
+};
+
+/**
+ * Previous/next and series navigation of a post (/api/articles/{id}/navigation).
+ */
+export interface ArticleNavigation {
+  /** Older article of the same site, chronologically */
+  previous: ArticleLink | null;
+  /** Newer article of the same site, chronologically */
+  next: ArticleLink | null;
+  /** The series the article belongs to, with all its articles */
+  series: (Pick<Series, 'id' | 'slug' | 'name'> & {
+    /** This article's place in the series, 1-based */
+    position: number;
+    articles: SeriesArticle[];
+  }) | null;
+}
+
+/**
+ * Revision in a list, without its value (/api/articles/{id}/revisions).
+ */
+export type RevisionSummary = Omit<ArticleRevision, 'value' | 'value_hash'>;
+
+/**
+ * Two values of one field compared (/api/articles/{id}/revisions/diff).
+ */
+export interface RevisionDiff {
+  field: string;
+  from: RevisionSummary;
+  /** null: the article's current value */
+  to: RevisionSummary | null;
+  parts: { type: 'equal' | 'removed' | 'added'; value: string }[];
+}
+
+/**
+ * Suggestion on the review page, with the article it was made for
+ * (/api/suggestions). `original` is the scraped title, summary or content;
+ * `current` the value approved earlier (null if none).
+ */
+export type SuggestionWithArticle = AiSuggestion & {
+  article: Pick<Article, 'id' | 'title' | 'link' | 'created_at'>;
+  original: string | null;
+  current: string | null;
+};
@@ -0,0 +1,56 @@
+-- Durable background jobs for crawl, scrape and AI work.
+-- Jobs are claimed by the Nitro worker (server/plugins/jobs.worker.ts) through
+-- claim_next_job(), which uses SKIP LOCKED so several workers can share the queue.
+
+CREATE TABLE jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  dedupe_key TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX idx_jobs_type ON jobs(type);
+
+-- Only one active (queued or running) job per dedupe key
+CREATE UNIQUE INDEX idx_jobs_active_dedupe_key ON jobs(dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('queued', 'running');
+
+-- Atomically claim the next due job.
+-- Jobs left running longer than lease_seconds (crashed worker) are claimed again.
+CREATE OR REPLACE FUNCTION claim_next_job(lease_seconds INTEGER DEFAULT 900)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_at = NOW(),
+      started_at = COALESCE(jobs.started_at, NOW()),
+      updated_at = NOW()
+  WHERE jobs.id = (
+    SELECT j.id
+    FROM jobs j
+    WHERE (j.status = 'queued' AND j.run_at <= NOW())
+       OR (j.status = 'running' AND j.locked_at < NOW() - make_interval(secs => lease_seconds))
+    ORDER BY j.run_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
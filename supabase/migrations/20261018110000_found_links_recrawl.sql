@@ -0,0 +1,8 @@
+-- Change detection for incremental re-crawls (see server/utils/recrawl.ts).
+-- Validators from the last fetch are sent back as If-None-Match / If-Modified-Since.
+
+ALTER TABLE found_links
+  ADD COLUMN etag TEXT,
+  ADD COLUMN last_modified TEXT,
+  ADD COLUMN content_hash TEXT,
+  ADD COLUMN last_checked_at TIMESTAMPTZ;
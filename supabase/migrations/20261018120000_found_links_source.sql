@@ -0,0 +1,10 @@
+-- Seed discovery from sitemaps and WordPress feeds (see server/utils/discovery.ts).
+-- source records how a link was first found; published_at comes from the
+-- sitemap <lastmod> or the feed item's publish date.
+
+ALTER TABLE found_links
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'crawl'
+    CHECK (source IN ('crawl', 'sitemap', 'feed')),
+  ADD COLUMN published_at TIMESTAMPTZ;
+
+CREATE INDEX found_links_source_idx ON found_links (source);
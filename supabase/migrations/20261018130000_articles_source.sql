@@ -0,0 +1,11 @@
+-- Multi-site scraping (see server/utils/site-profiles.ts).
+-- source is the id of the site profile an article was scraped from.
+
+ALTER TABLE articles
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'alexandrian';
+
+CREATE INDEX articles_source_idx ON articles (source);
+
+-- WordPress post ids are only unique within one site
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_old_id_key;
+ALTER TABLE articles ADD CONSTRAINT articles_source_old_id_key UNIQUE (source, old_id);
@@ -0,0 +1,10 @@
+-- Threaded comments (see parseArticleHtml() in server/utils/scraper.ts).
+-- parent_id points at the comment being replied to; top-level comments have none.
+
+ALTER TABLE comments
+  ADD COLUMN parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  ADD COLUMN author_url TEXT,
+  ADD COLUMN content_html TEXT;
+
+CREATE INDEX comments_article_id_idx ON comments (article_id);
+CREATE INDEX comments_parent_id_idx ON comments (parent_id);
@@ -0,0 +1,15 @@
+-- Related posts (see server/utils/related.ts).
+-- related_old_ids keeps the WordPress ids from the YARPP block so links to
+-- articles that are scraped later can be resolved then.
+
+ALTER TABLE articles
+  ADD COLUMN related_old_ids INTEGER[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX articles_related_old_ids_idx ON articles USING GIN (related_old_ids);
+
+-- position keeps the order YARPP showed the related posts in
+ALTER TABLE article_related
+  ADD COLUMN position SMALLINT NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS article_related_article_id_related_article_id_key
+  ON article_related (article_id, related_article_id);
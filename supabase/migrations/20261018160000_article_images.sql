@@ -0,0 +1,36 @@
+-- Mirrored article images (see server/utils/assets.ts).
+-- images holds one row per distinct file (deduplicated by SHA-256);
+-- article_images records where an article used it and with which alt text.
+
+CREATE TABLE images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hash TEXT NOT NULL UNIQUE,
+  storage_key TEXT NOT NULL,
+  url TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE article_images (
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  image_id UUID NOT NULL REFERENCES images(id) ON DELETE CASCADE,
+  source_url TEXT NOT NULL,
+  alt TEXT,
+  position SMALLINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (article_id, source_url)
+);
+
+CREATE INDEX article_images_source_url_idx ON article_images (source_url);
+CREATE INDEX article_images_image_id_idx ON article_images (image_id);
+
+-- NULL until the article's images are mirrored; reset when it is re-scraped
+ALTER TABLE articles
+  ADD COLUMN images_mirrored_at TIMESTAMPTZ;
+
+-- Public bucket for the 'supabase' storage driver
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('article-images', 'article-images', true)
+ON CONFLICT (id) DO NOTHING;
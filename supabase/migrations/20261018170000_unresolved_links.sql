@@ -0,0 +1,34 @@
+-- Internal link rewriting (see server/utils/links.ts).
+-- unresolved_links records source-site links whose target isn't scraped yet;
+-- target is the WordPress post id (kind 'article') or slug ('tag', 'category').
+
+CREATE TABLE unresolved_links (
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  href TEXT NOT NULL,
+  source TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('article', 'tag', 'category')),
+  target TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (article_id, href)
+);
+
+CREATE INDEX unresolved_links_target_idx ON unresolved_links (source, kind, target);
+
+-- NULL until the article's links are rewritten; reset when it is re-scraped
+ALTER TABLE articles
+  ADD COLUMN links_rewritten_at TIMESTAMPTZ;
+
+-- Category links are matched by slug, like tags
+ALTER TABLE categories
+  ADD COLUMN slug TEXT;
+
+UPDATE categories
+SET slug = trim(BOTH '-' FROM regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g'))
+WHERE slug IS NULL;
+
+UPDATE tags
+SET slug = trim(BOTH '-' FROM regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g'))
+WHERE slug IS NULL;
+
+CREATE INDEX IF NOT EXISTS categories_slug_idx ON categories (slug);
+CREATE INDEX IF NOT EXISTS tags_slug_idx ON tags (slug);
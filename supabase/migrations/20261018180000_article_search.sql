@@ -0,0 +1,161 @@
+-- Full-text search over articles and their comments (see server/api/search.ts).
+-- article_search keeps one tsvector per article, outside the articles table so
+-- `SELECT *` on articles doesn't carry it. Triggers on articles and comments
+-- keep it current; search_articles() ranks, highlights, filters and paginates.
+--
+-- Weights: A title (and AI title), B AI summary, C content text, D comment text.
+
+CREATE TABLE article_search (
+  article_id UUID PRIMARY KEY REFERENCES articles(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX article_search_document_idx ON article_search USING GIN (document);
+
+-- Plain text of stored HTML (tags dropped, common entities decoded)
+CREATE OR REPLACE FUNCTION html_to_text(html TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT replace(replace(replace(replace(replace(replace(
+    regexp_replace(coalesce(html, ''), '<[^>]*>', ' ', 'g'),
+    '&nbsp;', ' '), '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#39;', ''''), '&amp;', '&');
+$$;
+
+-- Rebuild the search documents of some articles
+CREATE OR REPLACE FUNCTION refresh_article_search(article_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO article_search (article_id, document, updated_at)
+  SELECT
+    a.id,
+    setweight(to_tsvector('english', a.title || ' ' || coalesce(a.ai_title, '')), 'A')
+      || setweight(to_tsvector('english', coalesce(a.ai_summary, '')), 'B')
+      || setweight(to_tsvector('english', html_to_text(a.content)), 'C')
+      || setweight(to_tsvector('english', coalesce((
+        SELECT string_agg(array_to_string(c.content, ' '), ' ')
+        FROM comments c
+        WHERE c.article_id = a.id
+      ), '')), 'D'),
+    now()
+  FROM articles a
+  WHERE a.id = ANY(article_ids)
+  ON CONFLICT (article_id) DO UPDATE
+  SET document = EXCLUDED.document, updated_at = EXCLUDED.updated_at;
+$$;
+
+CREATE OR REPLACE FUNCTION articles_search_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_article_search(ARRAY[NEW.id]);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER articles_search_refresh
+AFTER INSERT OR UPDATE OF title, ai_title, ai_summary, content ON articles
+FOR EACH ROW EXECUTE FUNCTION articles_search_trigger();
+
+-- Comments are replaced in bulk on every scrape; refresh once per statement
+CREATE OR REPLACE FUNCTION comments_search_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_article_search(ARRAY(SELECT DISTINCT article_id FROM old_comments));
+  ELSE
+    PERFORM refresh_article_search(ARRAY(SELECT DISTINCT article_id FROM new_comments));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER comments_search_insert
+AFTER INSERT ON comments
+REFERENCING NEW TABLE AS new_comments
+FOR EACH STATEMENT EXECUTE FUNCTION comments_search_trigger();
+
+CREATE TRIGGER comments_search_update
+AFTER UPDATE ON comments
+REFERENCING NEW TABLE AS new_comments
+FOR EACH STATEMENT EXECUTE FUNCTION comments_search_trigger();
+
+CREATE TRIGGER comments_search_delete
+AFTER DELETE ON comments
+REFERENCING OLD TABLE AS old_comments
+FOR EACH STATEMENT EXECUTE FUNCTION comments_search_trigger();
+
+-- Ranked, highlighted and filtered search.
+-- query uses web search syntax ("exact phrase", -excluded, or).
+-- Snippets mark matches with U+E000/U+E001 so the API can HTML-escape the text
+-- before turning them into <mark> tags.
+CREATE OR REPLACE FUNCTION search_articles(
+  query TEXT,
+  tag_slugs TEXT[] DEFAULT NULL,
+  category_slugs TEXT[] DEFAULT NULL,
+  date_from TIMESTAMPTZ DEFAULT NULL,
+  date_to TIMESTAMPTZ DEFAULT NULL,
+  result_limit INTEGER DEFAULT 12,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  ai_title TEXT,
+  summary TEXT,
+  ai_summary TEXT,
+  images TEXT[],
+  created_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', query) AS tsq
+  ),
+  matches AS (
+    SELECT a.*, ts_rank_cd(s.document, q.tsq, 32) AS rank
+    FROM article_search s
+    JOIN articles a ON a.id = s.article_id
+    CROSS JOIN q
+    WHERE s.document @@ q.tsq
+      AND (date_from IS NULL OR a.created_at >= date_from)
+      AND (date_to IS NULL OR a.created_at <= date_to)
+      AND (tag_slugs IS NULL OR EXISTS (
+        SELECT 1 FROM article_tags atg JOIN tags t ON t.id = atg.tag_id
+        WHERE atg.article_id = a.id AND t.slug = ANY(tag_slugs)
+      ))
+      AND (category_slugs IS NULL OR EXISTS (
+        SELECT 1 FROM article_categories acg JOIN categories c ON c.id = acg.category_id
+        WHERE acg.article_id = a.id AND c.slug = ANY(category_slugs)
+      ))
+  ),
+  page AS (
+    SELECT m.*, count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.created_at DESC
+    LIMIT result_limit OFFSET result_offset
+  )
+  -- Headlines are built for the returned page only (they re-parse the text)
+  SELECT
+    p.id, p.title::TEXT, p.ai_title::TEXT, p.summary::TEXT, p.ai_summary::TEXT, p.images::TEXT[],
+    p.created_at::TIMESTAMPTZ, p.rank::REAL,
+    ts_headline('english', html_to_text(p.content), q.tsq,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+    p.total_count
+  FROM page p
+  CROSS JOIN q
+  ORDER BY p.rank DESC, p.created_at DESC;
+$$;
+
+-- Index existing articles
+SELECT refresh_article_search(ARRAY(SELECT id FROM articles));
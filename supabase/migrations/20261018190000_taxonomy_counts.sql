@@ -0,0 +1,56 @@
+-- Tag and category browsing (see server/api/tags/ and server/api/categories/).
+-- The views add article counts to the taxonomy tables; related_tags() lists
+-- the tags that share the most articles with a tag or a category.
+
+CREATE OR REPLACE VIEW tag_counts AS
+SELECT t.id, t.name, t.slug, t.description, count(atg.article_id) AS article_count
+FROM tags t
+LEFT JOIN article_tags atg ON atg.tag_id = t.id
+GROUP BY t.id;
+
+CREATE OR REPLACE VIEW category_counts AS
+SELECT c.id, c.name, c.slug, c.description, count(acg.article_id) AS article_count
+FROM categories c
+LEFT JOIN article_categories acg ON acg.category_id = c.id
+GROUP BY c.id;
+
+CREATE INDEX IF NOT EXISTS article_tags_tag_id_idx ON article_tags (tag_id);
+CREATE INDEX IF NOT EXISTS article_categories_category_id_idx ON article_categories (category_id);
+
+-- Tags on the articles of one tag (excluding itself) or one category.
+-- article_count is the number of shared articles.
+CREATE OR REPLACE FUNCTION related_tags(
+  tag_slug TEXT DEFAULT NULL,
+  category_slug TEXT DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  description TEXT,
+  article_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH scope AS (
+    SELECT atg.article_id
+    FROM article_tags atg
+    JOIN tags t ON t.id = atg.tag_id
+    WHERE t.slug = tag_slug
+    UNION
+    SELECT acg.article_id
+    FROM article_categories acg
+    JOIN categories c ON c.id = acg.category_id
+    WHERE c.slug = category_slug
+  )
+  SELECT t.id, t.name::TEXT, t.slug::TEXT, t.description::TEXT, count(*) AS article_count
+  FROM scope s
+  JOIN article_tags atg ON atg.article_id = s.article_id
+  JOIN tags t ON t.id = atg.tag_id
+  WHERE t.slug IS DISTINCT FROM tag_slug
+  GROUP BY t.id
+  ORDER BY article_count DESC, t.name
+  LIMIT result_limit;
+$$;
@@ -0,0 +1,48 @@
+-- Article listing filters and sorts (see server/api/articles/index.ts).
+-- comment_count lets /api/articles filter on "has comments" and sort by
+-- comment count without joining comments; triggers keep it current.
+
+ALTER TABLE articles
+  ADD COLUMN comment_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION refresh_article_comment_count(article_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE articles a
+  SET comment_count = (SELECT count(*) FROM comments c WHERE c.article_id = a.id)
+  WHERE a.id = ANY(article_ids);
+$$;
+
+-- Comments are replaced in bulk on every scrape; refresh once per statement
+CREATE OR REPLACE FUNCTION comments_count_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_article_comment_count(ARRAY(SELECT DISTINCT article_id FROM old_comments));
+  ELSE
+    PERFORM refresh_article_comment_count(ARRAY(SELECT DISTINCT article_id FROM new_comments));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER comments_count_insert
+AFTER INSERT ON comments
+REFERENCING NEW TABLE AS new_comments
+FOR EACH STATEMENT EXECUTE FUNCTION comments_count_trigger();
+
+CREATE TRIGGER comments_count_delete
+AFTER DELETE ON comments
+REFERENCING OLD TABLE AS old_comments
+FOR EACH STATEMENT EXECUTE FUNCTION comments_count_trigger();
+
+UPDATE articles a
+SET comment_count = (SELECT count(*) FROM comments c WHERE c.article_id = a.id);
+
+-- Keyset pagination: every sort is (column, id)
+CREATE INDEX IF NOT EXISTS articles_created_at_id_idx ON articles (created_at, id);
+CREATE INDEX IF NOT EXISTS articles_title_id_idx ON articles (title, id);
+CREATE INDEX IF NOT EXISTS articles_comment_count_id_idx ON articles (comment_count, id);
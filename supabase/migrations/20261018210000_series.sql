@@ -0,0 +1,29 @@
+-- Multi-part series (see server/utils/series.ts).
+-- Series are detected from title patterns ("… – Part 2") and series tags by
+-- the detect-series job, which rewrites both tables on every pass.
+
+CREATE TABLE series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL DEFAULT 'alexandrian',
+  slug TEXT NOT NULL,
+  name TEXT NOT NULL,
+  -- 'title' (part numbers in titles) or 'tag' (shared series tag)
+  detected_by TEXT NOT NULL CHECK (detected_by IN ('title', 'tag')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (source, slug)
+);
+
+-- An article belongs to at most one series; position is its chronological
+-- place in it (1-based), part the number from its title if there is one
+CREATE TABLE article_series (
+  article_id UUID PRIMARY KEY REFERENCES articles(id) ON DELETE CASCADE,
+  series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  part INTEGER
+);
+
+CREATE INDEX article_series_series_id_position_idx ON article_series (series_id, position);
+
+-- Chronological previous/next within a site
+CREATE INDEX IF NOT EXISTS articles_source_created_at_id_idx ON articles (source, created_at, id);
@@ -0,0 +1,33 @@
+-- Revision history of article content and AI output (see server/utils/revisions.ts).
+-- One row per change of one field, with where the value came from. Values are
+-- stored as their source wrote them (image mirroring and link rewriting
+-- aren't revisions; they run again after a rollback).
+
+CREATE TABLE article_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('content', 'ai_content', 'ai_title', 'ai_summary')),
+  value TEXT NOT NULL,
+  -- Unchanged values (e.g. re-scrapes of an unedited post) aren't recorded again
+  value_hash TEXT GENERATED ALWAYS AS (md5(value)) STORED,
+  source TEXT NOT NULL CHECK (source IN ('scrape', 'ai', 'manual', 'rollback')),
+  -- AI revisions: model and prompt version that produced the value
+  model TEXT,
+  prompt_version TEXT,
+  -- Rollback revisions: the revision whose value was restored
+  rollback_of UUID REFERENCES article_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX article_revisions_article_id_field_created_at_idx
+  ON article_revisions (article_id, field, created_at DESC);
+
+-- Current values become the first revisions
+INSERT INTO article_revisions (article_id, field, value, source)
+SELECT id, 'content', content, 'scrape' FROM articles
+UNION ALL
+SELECT id, 'ai_content', ai_content, 'ai' FROM articles WHERE ai_content IS NOT NULL
+UNION ALL
+SELECT id, 'ai_title', ai_title, 'ai' FROM articles WHERE ai_title IS NOT NULL
+UNION ALL
+SELECT id, 'ai_summary', ai_summary, 'ai' FROM articles WHERE ai_summary IS NOT NULL;
@@ -0,0 +1,37 @@
+-- Human review of AI output (see server/utils/suggestions.ts).
+-- AI titles, summaries and content are saved here as pending suggestions;
+-- only an approved (or edited and approved) suggestion is written to the
+-- article's ai_* column, which is all the public pages read.
+
+CREATE TABLE ai_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('ai_content', 'ai_title', 'ai_summary')),
+  -- Text as the model wrote it (HTML already sanitized)
+  value TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'edited')),
+  -- Edited suggestions: the text the reviewer approved instead
+  edited_value TEXT,
+  model TEXT,
+  prompt_version TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  reviewed_at TIMESTAMPTZ,
+  CHECK ((status = 'edited') = (edited_value IS NOT NULL))
+);
+
+CREATE INDEX ai_suggestions_status_created_at_idx ON ai_suggestions (status, created_at);
+CREATE INDEX ai_suggestions_article_id_idx ON ai_suggestions (article_id);
+
+-- AI text written before review existed was never approved: it becomes a
+-- pending suggestion and leaves the public pages until someone approves it
+-- (the values are also kept in article_revisions)
+INSERT INTO ai_suggestions (article_id, field, value)
+SELECT id, 'ai_content', ai_content FROM articles WHERE ai_content IS NOT NULL
+UNION ALL
+SELECT id, 'ai_title', ai_title FROM articles WHERE ai_title IS NOT NULL
+UNION ALL
+SELECT id, 'ai_summary', ai_summary FROM articles WHERE ai_summary IS NOT NULL;
+
+UPDATE articles
+SET ai_content = NULL, ai_title = NULL, ai_summary = NULL
+WHERE ai_content IS NOT NULL OR ai_title IS NOT NULL OR ai_summary IS NOT NULL;
@@ -0,0 +1,25 @@
+-- Prompt registry (see server/utils/prompts.ts): AI output records the id of
+-- the prompt that wrote it next to its version, now a semantic version.
+
+ALTER TABLE ai_suggestions ADD COLUMN prompt_id TEXT;
+ALTER TABLE article_revisions ADD COLUMN prompt_id TEXT;
+
+-- Earlier AI output came from the one prompt each field had; its versions
+-- were plain numbers
+UPDATE ai_suggestions
+SET prompt_id = CASE field
+    WHEN 'ai_content' THEN 'blog-enhancement'
+    WHEN 'ai_title' THEN 'title-optimization'
+    WHEN 'ai_summary' THEN 'article-summary'
+  END,
+  prompt_version = prompt_version || '.0.0'
+WHERE prompt_version ~ '^\d+$';
+
+UPDATE article_revisions
+SET prompt_id = CASE field
+    WHEN 'ai_content' THEN 'blog-enhancement'
+    WHEN 'ai_title' THEN 'title-optimization'
+    WHEN 'ai_summary' THEN 'article-summary'
+  END,
+  prompt_version = prompt_version || '.0.0'
+WHERE source = 'ai' AND prompt_version ~ '^\d+$';
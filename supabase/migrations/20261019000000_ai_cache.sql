@@ -0,0 +1,32 @@
+-- Cached AI answers (see server/utils/ai-cache.ts), keyed by a SHA-256 of the
+-- provider, model, rendered messages and sampling parameters. Re-running a
+-- remix with unchanged prompts and content is answered from here.
+
+CREATE TABLE ai_cache (
+  key TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  -- Prompt template id (server/utils/prompts.ts), for invalidation
+  prompt_id TEXT,
+  response TEXT NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_hit_at TIMESTAMPTZ,
+  -- NULL: never expires
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX ai_cache_expires_at_idx ON ai_cache (expires_at);
+CREATE INDEX ai_cache_model_idx ON ai_cache (model);
+CREATE INDEX ai_cache_prompt_id_idx ON ai_cache (prompt_id);
+
+-- Answer for a key unless expired, counting the hit (NULL on a miss)
+CREATE OR REPLACE FUNCTION ai_cache_lookup(cache_key TEXT)
+RETURNS TEXT
+LANGUAGE sql
+AS $$
+  UPDATE ai_cache
+  SET hits = hits + 1, last_hit_at = now()
+  WHERE key = cache_key AND (expires_at IS NULL OR expires_at > now())
+  RETURNING response;
+$$;
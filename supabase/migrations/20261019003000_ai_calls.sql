@@ -0,0 +1,56 @@
+-- One row per AI call (see server/utils/ai-usage.ts): model, prompt, tokens,
+-- latency, estimated cost and outcome. Cached answers are recorded too, at
+-- no cost, so hit rates show up next to spend.
+
+CREATE TABLE ai_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  -- Prompt template id (server/utils/prompts.ts)
+  prompt_id TEXT,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'error', 'cached')),
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  latency_ms INTEGER NOT NULL,
+  -- Estimated USD; NULL when the model has no known price
+  cost_usd NUMERIC(12, 6),
+  status_code INTEGER,
+  -- Error message, secrets redacted
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX ai_calls_created_at_idx ON ai_calls (created_at);
+CREATE INDEX ai_calls_model_idx ON ai_calls (model);
+
+-- Totals per UTC day and model since a time (GET /api/ai/usage, budget caps)
+CREATE OR REPLACE FUNCTION ai_usage_totals(since TIMESTAMPTZ)
+RETURNS TABLE (
+  day DATE,
+  model TEXT,
+  calls BIGINT,
+  errors BIGINT,
+  cached BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cost_usd NUMERIC,
+  latency_ms BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (created_at AT TIME ZONE 'UTC')::date AS day,
+    model,
+    count(*) AS calls,
+    count(*) FILTER (WHERE outcome = 'error') AS errors,
+    count(*) FILTER (WHERE outcome = 'cached') AS cached,
+    coalesce(sum(input_tokens), 0) AS input_tokens,
+    coalesce(sum(output_tokens), 0) AS output_tokens,
+    coalesce(sum(cost_usd), 0) AS cost_usd,
+    coalesce(sum(latency_ms) FILTER (WHERE outcome <> 'cached'), 0) AS latency_ms
+  FROM ai_calls
+  WHERE created_at >= since
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
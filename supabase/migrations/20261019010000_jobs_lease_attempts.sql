@@ -0,0 +1,39 @@
+-- Abandoned jobs that used up their attempts are failed instead of re-run.
+-- Before this, a job that crashed the worker every time was reclaimed forever.
+-- Workers renew locked_at while a handler runs (renewJobLease), so only jobs
+-- whose worker really stopped reach the lease expiry.
+
+CREATE OR REPLACE FUNCTION claim_next_job(lease_seconds INTEGER DEFAULT 900)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE jobs
+  SET status = 'failed',
+      last_error = format('Lease expired on attempt %s of %s', jobs.attempts, jobs.max_attempts),
+      locked_at = NULL,
+      finished_at = NOW(),
+      updated_at = NOW()
+  WHERE jobs.status = 'running'
+    AND jobs.locked_at < NOW() - make_interval(secs => lease_seconds)
+    AND jobs.attempts >= jobs.max_attempts;
+
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_at = NOW(),
+      started_at = COALESCE(jobs.started_at, NOW()),
+      updated_at = NOW()
+  WHERE jobs.id = (
+    SELECT j.id
+    FROM jobs j
+    WHERE (j.status = 'queued' AND j.run_at <= NOW())
+       OR (j.status = 'running' AND j.locked_at < NOW() - make_interval(secs => lease_seconds))
+    ORDER BY j.run_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- When articles.content last changed, so long-running rewrites of the HTML
+-- (image mirroring, see server/utils/assets.ts) can write back only if nobody
+-- changed it in the meantime: UPDATE ... WHERE content_changed_at = <value read>.
+
+ALTER TABLE articles
+  ADD COLUMN content_changed_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp();
+
+CREATE OR REPLACE FUNCTION articles_content_changed_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.content_changed_at = clock_timestamp();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER articles_content_changed
+BEFORE UPDATE OF content ON articles
+FOR EACH ROW EXECUTE FUNCTION articles_content_changed_trigger();
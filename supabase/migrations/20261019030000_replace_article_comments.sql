@@ -0,0 +1,23 @@
+-- Replaces an article's comments in one transaction (see scrapeAndSaveLink()
+-- in server/utils/scrape.controller.ts). Before this, a re-scrape deleted the
+-- old comments and inserted the new ones in separate requests, so a failed
+-- insert lost every comment. Replies reference their parent by id in the same
+-- batch; foreign keys are checked once the whole insert is done.
+
+CREATE OR REPLACE FUNCTION replace_article_comments(target_article_id UUID, new_comments JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  saved INTEGER;
+BEGIN
+  DELETE FROM comments WHERE article_id = target_article_id;
+
+  INSERT INTO comments (id, parent_id, old_id, author, author_url, content, content_html, created_at, article_id)
+  SELECT id, parent_id, old_id, author, author_url, COALESCE(content, '{}'), content_html, created_at, target_article_id
+  FROM jsonb_populate_recordset(NULL::comments, new_comments);
+
+  GET DIAGNOSTICS saved = ROW_COUNT;
+  RETURN saved;
+END;
+$$;
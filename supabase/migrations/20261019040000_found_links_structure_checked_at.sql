@@ -0,0 +1,7 @@
+-- When the link classifier last fetched the page for a structure check (see
+-- server/utils/classifier.ts). Links no check could classify stay Visited;
+-- each run checks the never-checked ones first, then the longest-unchecked,
+-- so the same pages aren't fetched on every run.
+
+ALTER TABLE found_links
+  ADD COLUMN structure_checked_at TIMESTAMPTZ;
@@ -0,0 +1,139 @@
+/**
+ * ALEXANDRIAN SCRAPING - AI Cache Tests
+ *
+ * Re-running AI work on unchanged articles must be answered from the cache:
+ * the same request (provider, model, messages, sampling parameters) hits,
+ * any difference misses. Entries expire after their TTL and can be
+ * invalidated by model or prompt. Structured replies are only cached once
+ * valid, and a broken cache never breaks the AI call.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { aiCacheKey, completeWithCache, createMemoryAiCache } from '../../server/utils/ai-cache'
+import type { AiCache } from '../../server/utils/ai-cache'
+import { TITLE_TASK, runAiTask } from '../../server/utils/ai-tasks'
+import { createMockProvider, processArticleWithAI } from '../../server/utils/llm'
+import type { LlmMessage } from '../../server/utils/llm'
+
+const provider = { name: 'openrouter', model: 'openai/gpt-4.1-nano' }
+const messages: LlmMessage[] = [{ role: 'user', content: 'Summarize: The Three Clue Rule' }]
+const entry = { provider: provider.name, model: provider.model }
+
+/**
+ * Mock provider with a cache, counting the requests that reach it.
+ */
+function countingProvider(cache: AiCache, respond: (messages: LlmMessage[]) => string = () => 'Answer') {
+  const counter = { calls: 0 }
+  const mock = createMockProvider({
+    cache,
+    respond: (messages) => {
+      counter.calls++
+      return respond(messages)
+    },
+  })
+  return { provider: mock, counter }
+}
+
+describe('aiCacheKey', () => {
+  it('is the same for the same request, whatever the prompt id', () => {
+    expect(aiCacheKey(provider, messages, { temperature: 0.3, promptId: 'article-summary' }))
+      .toBe(aiCacheKey(provider, [{ ...messages[0] }], { temperature: 0.3 }))
+  })
+
+  it('changes with the model, messages or sampling parameters', () => {
+    const key = aiCacheKey(provider, messages, { temperature: 0.3 })
+
+    expect(aiCacheKey({ ...provider, model: 'mistralai/ministral-8b' }, messages, { temperature: 0.3 })).not.toBe(key)
+    expect(aiCacheKey(provider, [{ role: 'user', content: 'Summarize: Node-Based Design' }], { temperature: 0.3 })).not.toBe(key)
+    expect(aiCacheKey(provider, messages, { temperature: 0.7 })).not.toBe(key)
+    expect(aiCacheKey(provider, messages, { temperature: 0.3, maxTokens: 100 })).not.toBe(key)
+  })
+})
+
+describe('createMemoryAiCache', () => {
+  it('expires entries after their TTL', async () => {
+    let now = Date.parse('2026-10-18T12:00:00Z')
+    const cache = createMemoryAiCache(60, () => now)
+    await cache.set('key', { ...entry, response: 'Answer' })
+
+    expect(await cache.get('key')).toBe('Answer')
+    now += 61_000
+    expect(await cache.get('key')).toBeNull()
+    expect(await cache.stats()).toEqual({ entries: 1, expired: 1 })
+  })
+
+  it('keeps entries without a TTL', async () => {
+    let now = Date.parse('2026-10-18T12:00:00Z')
+    const cache = createMemoryAiCache(0, () => now)
+    await cache.set('key', { ...entry, response: 'Answer' })
+
+    now += 365 * 86_400_000
+    expect(await cache.get('key')).toBe('Answer')
+  })
+
+  it('invalidates by model, prompt and expiry', async () => {
+    let now = Date.parse('2026-10-18T12:00:00Z')
+    const cache = createMemoryAiCache(60, () => now)
+    await cache.set('a', { ...entry, promptId: 'article-summary', response: 'A' })
+    await cache.set('b', { ...entry, promptId: 'title-optimization', response: 'B' })
+    await cache.set('c', { provider: 'mock', model: 'mock', response: 'C' })
+
+    expect(await cache.invalidate({ promptId: 'title-optimization' })).toBe(1)
+    expect(await cache.invalidate({ model: 'mock' })).toBe(1)
+    expect(await cache.invalidate({ expired: true })).toBe(0)
+    now += 61_000
+    expect(await cache.invalidate({ expired: true })).toBe(1)
+    expect(await cache.stats()).toEqual({ entries: 0, expired: 0 })
+  })
+})
+
+describe('processArticleWithAI', () => {
+  it('answers repeated prompts from the cache', async () => {
+    const { provider, counter } = countingProvider(createMemoryAiCache(0))
+
+    expect(await processArticleWithAI('Summarize: The Three Clue Rule', provider)).toBe('Answer')
+    expect(await processArticleWithAI('Summarize: The Three Clue Rule', provider)).toBe('Answer')
+    expect(counter.calls).toBe(1)
+
+    await processArticleWithAI('Summarize: The Three Clue Rule', provider, { temperature: 0.7 })
+    expect(counter.calls).toBe(2)
+  })
+
+  it('asks the provider when the cache fails', async () => {
+    const broken: AiCache = {
+      ...createMemoryAiCache(0),
+      get: async () => { throw new Error('connection refused') },
+      set: async () => { throw new Error('connection refused') },
+    }
+    const { provider, counter } = countingProvider(broken)
+
+    expect(await processArticleWithAI('Summarize: The Three Clue Rule', provider)).toBe('Answer')
+    expect(counter.calls).toBe(1)
+  })
+})
+
+describe('runAiTask', () => {
+  it('caches valid answers only', async () => {
+    const replies = ['Not JSON', '{ "title": "The Three Clue Rule" }', '{ "title": "Three Clues" }']
+    const cache = createMemoryAiCache(0)
+    const { provider, counter } = countingProvider(cache, () => replies[counter.calls - 1])
+    const vars = { title: 'Three Clue Rule', articleContent: '<p>Clues.</p>' }
+
+    // First run: invalid answer, then a correction (neither cached)
+    expect(await runAiTask(TITLE_TASK, vars, provider)).toEqual({ title: 'The Three Clue Rule' })
+    // Second run: nothing valid cached for the first request, asks again
+    expect(await runAiTask(TITLE_TASK, vars, provider)).toEqual({ title: 'Three Clues' })
+    // Third run: answered from the cache
+    expect(await runAiTask(TITLE_TASK, vars, provider)).toEqual({ title: 'Three Clues' })
+    expect(counter.calls).toBe(3)
+  })
+})
+
+describe('completeWithCache', () => {
+  it('asks providers without a cache directly', async () => {
+    const mock = createMockProvider()
+    const reply = await completeWithCache(mock, messages)
+
+    expect(reply).toMatch(/^\[mock [0-9a-f]{8}\]/)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * ALEXANDRIAN SCRAPING - Structured AI Task Tests
+ *
+ * Titles and summaries are asked for as JSON and validated against the task's
+ * schema. Replies wrapped in Markdown or with sloppy values must still parse,
+ * invalid ones must be sent back for a correction, and a model that never
+ * gets it right must fail with AiOutputError instead of saving garbage.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  AiOutputError,
+  MAX_REPAIR_ATTEMPTS,
+  SUMMARY_TASK,
+  TITLE_TASK,
+  describeSchema,
+  parseTaskOutput,
+  runAiTask,
+} from '../../server/utils/ai-tasks'
+import { createMockProvider } from '../../server/utils/llm'
+import type { LlmMessage } from '../../server/utils/llm'
+
+const summary = {
+  summary: 'Players need three clues for every conclusion. One will be missed, one misread, one found.',
+  keyPoints: ['Plan three clues per conclusion', 'Players will miss clues'],
+  readingLevel: 'intermediate',
+}
+
+describe('parseTaskOutput', () => {
+  it('accepts JSON in Markdown fences and trims values', () => {
+    const result = parseTaskOutput(TITLE_TASK.schema, 'Here you go:\n```json\n{ "title": "  Three Clue Rule " }\n```')
+
+    expect(result).toEqual({ ok: true, value: { title: 'Three Clue Rule' } })
+  })
+
+  it('matches enum values case-insensitively and drops unknown keys', () => {
+    const result = parseTaskOutput(SUMMARY_TASK.schema, JSON.stringify({ ...summary, readingLevel: 'Advanced', extra: 1 }))
+
+    expect(result).toEqual({ ok: true, value: { ...summary, readingLevel: 'advanced' } })
+  })
+
+  it('lists every missing or invalid key', () => {
+    const result = parseTaskOutput(SUMMARY_TASK.schema, JSON.stringify({
+      summary: 'x'.repeat(801),
+      keyPoints: ['One', ''],
+    }))
+
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.errors).toEqual([
+      '"summary" is 801 characters, at most 800 allowed',
+      '"keyPoints" must be an array of non-empty strings',
+      '"readingLevel" is missing',
+    ])
+  })
+
+  it('rejects too many items and unknown enum values', () => {
+    const result = parseTaskOutput(SUMMARY_TASK.schema, JSON.stringify({
+      ...summary,
+      keyPoints: ['1', '2', '3', '4', '5', '6'],
+      readingLevel: 'expert',
+    }))
+
+    expect(!result.ok && result.errors).toEqual([
+      '"keyPoints" has 6 items, at most 5 allowed',
+      '"readingLevel" must be one of beginner, intermediate, advanced',
+    ])
+  })
+
+  it('rejects replies that are not a JSON object', () => {
+    expect(parseTaskOutput(TITLE_TASK.schema, 'Three Clue Rule').ok).toBe(false)
+    expect(parseTaskOutput(TITLE_TASK.schema, '{ "title": "Three Clue Rule",, }').ok).toBe(false)
+  })
+})
+
+describe('describeSchema', () => {
+  it('lists every key with its limits', () => {
+    const description = describeSchema(SUMMARY_TASK.schema)
+
+    expect(description).toContain('"summary" (string, at most 800 characters)')
+    expect(description).toContain('"keyPoints" (array of strings, at most 5)')
+    expect(description).toContain('"readingLevel" (one of "beginner", "intermediate", "advanced")')
+  })
+})
+
+describe('runAiTask', () => {
+  it('returns the validated output and asks for JSON mode', async () => {
+    const calls: { messages: LlmMessage[]; schema?: unknown }[] = []
+    const provider = createMockProvider({
+      respond: (messages, options) => {
+        calls.push({ messages, schema: options?.schema })
+        return JSON.stringify(summary)
+      },
+    })
+
+    const output = await runAiTask(SUMMARY_TASK, { title: 'Three Clue Rule', articleContent: '<p>Clues.</p>' }, provider)
+
+    expect(output).toEqual(summary)
+    expect(calls).toHaveLength(1)
+    expect(calls[0].schema).toBe(SUMMARY_TASK.schema)
+    expect(calls[0].messages[1].content).toContain('Title: Three Clue Rule')
+    expect(calls[0].messages[1].content).toContain('"readingLevel"')
+  })
+
+  it('sends the errors back and accepts the corrected reply', async () => {
+    const replies = ['The Three Clue Rule', '{ "title": "The Three Clue Rule" }']
+    const calls: LlmMessage[][] = []
+    const provider = createMockProvider({
+      respond: (messages) => {
+        calls.push([...messages])
+        return replies[calls.length - 1]
+      },
+    })
+
+    const output = await runAiTask(TITLE_TASK, { title: 'Three Clue Rule', articleContent: '<p>Clues.</p>' }, provider)
+
+    expect(output).toEqual({ title: 'The Three Clue Rule' })
+    expect(calls).toHaveLength(2)
+    const repair = calls[1]
+    expect(repair[2]).toEqual({ role: 'assistant', content: 'The Three Clue Rule' })
+    expect(repair[3].content).toContain('Reply is not a JSON object')
+  })
+
+  it('throws AiOutputError when no reply is valid', async () => {
+    let calls = 0
+    const provider = createMockProvider({
+      respond: () => {
+        calls++
+        return '{ "title": "" }'
+      },
+    })
+
+    const error = await runAiTask(TITLE_TASK, { title: 'Three Clue Rule', articleContent: '<p>Clues.</p>' }, provider).catch(e => e)
+
+    expect(error).toBeInstanceOf(AiOutputError)
+    expect(error.statusCode).toBe(502)
+    expect(error.errors).toEqual(['"title" must be a non-empty string'])
+    expect(calls).toBe(MAX_REPAIR_ATTEMPTS + 1)
+  })
+
+  it('accepts the mock provider\'s default answers', async () => {
+    const provider = createMockProvider()
+
+    const output = await runAiTask(SUMMARY_TASK, { title: 'Three Clue Rule', articleContent: '<p>Clues.</p>' }, provider)
+
+    expect(output.readingLevel).toBe('beginner')
+    expect(output.keyPoints).toHaveLength(1)
+    expect(await runAiTask(SUMMARY_TASK, { title: 'Three Clue Rule', articleContent: '<p>Clues.</p>' }, provider)).toEqual(output)
+  })
+})
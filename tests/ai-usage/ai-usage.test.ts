@@ -0,0 +1,241 @@
+/**
+ * ALEXANDRIAN SCRAPING - AI Usage Accounting Tests
+ *
+ * Every AI call must be recorded with its tokens, latency, cost and outcome,
+ * cached answers included, and without leaking API keys into logs or the
+ * ai_calls table. Daily and monthly totals drive the usage report and the
+ * budget caps checked before every provider call.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  AiBudgetError,
+  budgetStatus,
+  createAiBudgetGuard,
+  createSupabaseUsageRecorder,
+  estimateCost,
+  redactSecrets,
+  summarizeUsage,
+} from '../../server/utils/ai-usage'
+import type { AiCall, AiUsageRecorder, AiUsageRow } from '../../server/utils/ai-usage'
+import { createMemoryAiCache } from '../../server/utils/ai-cache'
+import { createMockProvider, createOpenAICompatibleProvider, processArticleWithAI } from '../../server/utils/llm'
+import { createFakeSupabase } from '../helpers/supabase'
+
+const pricing = { 'openai/gpt-4.1-nano': { input: 0.1, output: 0.4 } }
+const call: AiCall = { provider: 'openrouter', model: 'openai/gpt-4.1-nano', outcome: 'success', inputTokens: 10_000, outputTokens: 1_000, latencyMs: 900 }
+
+/**
+ * Recorder keeping calls in memory.
+ */
+function memoryRecorder() {
+  const calls: AiCall[] = []
+  const recorder: AiUsageRecorder = { record: async (call) => { calls.push(call) } }
+  return { recorder, calls }
+}
+
+/**
+ * Usage row with zeroes for everything not given.
+ */
+function row(values: Partial<AiUsageRow> & Pick<AiUsageRow, 'day' | 'model'>): AiUsageRow {
+  return { calls: 0, errors: 0, cached: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, latency_ms: 0, ...values }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('estimateCost', () => {
+  it('prices tokens per million', () => {
+    expect(estimateCost(call, pricing)).toBeCloseTo(0.0014)
+  })
+
+  it('prefers the cost reported by the provider', () => {
+    expect(estimateCost({ ...call, reportedCostUsd: 0.002 }, pricing)).toBe(0.002)
+  })
+
+  it('costs nothing for cached answers, failures and free models', () => {
+    expect(estimateCost({ ...call, outcome: 'cached' }, pricing)).toBe(0)
+    expect(estimateCost({ ...call, outcome: 'error' }, pricing)).toBe(0)
+    expect(estimateCost({ ...call, model: 'deepseek/deepseek-chat-v3-0324:free' }, pricing)).toBe(0)
+  })
+
+  it('is unknown for models without a price', () => {
+    expect(estimateCost({ ...call, model: 'mistralai/ministral-8b' }, pricing)).toBeNull()
+  })
+})
+
+describe('redactSecrets', () => {
+  it('masks bearer tokens, API keys and known secrets', () => {
+    expect(redactSecrets('Authorization: Bearer abc.def-123')).toBe('Authorization: Bearer [redacted]')
+    expect(redactSecrets('{"key":"sk-or-v1-0123456789abcdef"}')).toBe('{"key":"[redacted]"}')
+    expect(redactSecrets('token=local-secret-42', ['local-secret-42'])).toBe('token=[redacted]')
+  })
+
+  it('leaves short known values alone', () => {
+    expect(redactSecrets('the model answered', ['the'])).toBe('the model answered')
+  })
+})
+
+describe('summarizeUsage', () => {
+  it('totals per day, per model and overall', () => {
+    const rows = [
+      row({ day: '2026-10-17', model: 'openai/gpt-4.1-nano', calls: 4, cached: 1, input_tokens: 100, output_tokens: 10, cost_usd: 0.5, latency_ms: 3000 }),
+      row({ day: '2026-10-18', model: 'openai/gpt-4.1-nano', calls: 2, errors: 1, cost_usd: 0.25, latency_ms: 1000 }),
+      row({ day: '2026-10-18', model: 'deepseek/deepseek-chat-v3-0324:free', calls: 2, latency_ms: 4000 }),
+    ]
+
+    const report = summarizeUsage(rows, new Date('2026-10-17T00:00:00Z'))
+
+    expect(report.totals).toEqual({ calls: 8, errors: 1, cached: 1, inputTokens: 100, outputTokens: 10, costUsd: 0.75, avgLatencyMs: 1143 })
+    expect(report.byDay.map(day => [day.day, day.calls, day.costUsd])).toEqual([['2026-10-17', 4, 0.5], ['2026-10-18', 4, 0.25]])
+    expect(report.byModel.map(model => model.model)).toEqual(['deepseek/deepseek-chat-v3-0324:free', 'openai/gpt-4.1-nano'])
+    expect(report.byModel[1].avgLatencyMs).toBe(800)
+  })
+})
+
+describe('budgetStatus', () => {
+  const now = new Date('2026-10-18T15:00:00Z')
+  const rows = [
+    row({ day: '2026-10-02', model: 'openai/gpt-4.1-nano', cost_usd: 8 }),
+    row({ day: '2026-10-18', model: 'openai/gpt-4.1-nano', cost_usd: 1.5 }),
+  ]
+
+  it('reports spend today and this month', () => {
+    expect(budgetStatus(rows, { dailyUsd: 0, monthlyUsd: 0 }, now)).toEqual({
+      dailyUsd: 0,
+      monthlyUsd: 0,
+      spentTodayUsd: 1.5,
+      spentThisMonthUsd: 9.5,
+      exceeded: null,
+    })
+  })
+
+  it('flags the cap that was reached', () => {
+    expect(budgetStatus(rows, { dailyUsd: 1, monthlyUsd: 100 }, now).exceeded).toBe('daily')
+    expect(budgetStatus(rows, { dailyUsd: 5, monthlyUsd: 9 }, now).exceeded).toBe('monthly')
+    expect(budgetStatus(rows, { dailyUsd: 5, monthlyUsd: 10 }, now).exceeded).toBeNull()
+  })
+})
+
+describe('recording calls', () => {
+  it('records tokens and the reported cost of successful calls', async () => {
+    const { recorder, calls } = memoryRecorder()
+    const fetch = (async () => new Response(JSON.stringify({
+      choices: [{ message: { content: 'Answer' } }],
+      usage: { prompt_tokens: 120, completion_tokens: 30, cost: 0.0001 },
+    }), { status: 200 })) as unknown as typeof globalThis.fetch
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch, recorder })
+
+    await processArticleWithAI('Question', provider, { promptId: 'article-summary' })
+
+    expect(calls).toHaveLength(1)
+    expect(calls[0]).toMatchObject({
+      provider: 'openai-compatible',
+      model: 'm',
+      promptId: 'article-summary',
+      outcome: 'success',
+      inputTokens: 120,
+      outputTokens: 30,
+      reportedCostUsd: 0.0001,
+    })
+  })
+
+  it('records failures and keeps the API key out of logs', async () => {
+    const { recorder, calls } = memoryRecorder()
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const fetch = (async () => new Response(JSON.stringify({ error: 'Invalid key sk-or-v1-0123456789abcdef' }), { status: 401 })) as unknown as typeof globalThis.fetch
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', apiKey: 'sk-or-v1-0123456789abcdef', model: 'm', fetch, recorder })
+
+    await expect(provider.complete([{ role: 'user', content: 'Question' }])).rejects.toMatchObject({ statusCode: 401 })
+
+    expect(calls[0]).toMatchObject({ outcome: 'error', statusCode: 401 })
+    expect(JSON.stringify(logged.mock.calls)).not.toContain('0123456789abcdef')
+  })
+
+  it('records cached answers', async () => {
+    const { recorder, calls } = memoryRecorder()
+    const provider = createMockProvider({ cache: createMemoryAiCache(0), recorder })
+
+    await processArticleWithAI('Question', provider)
+    await processArticleWithAI('Question', provider)
+
+    expect(calls.map(call => call.outcome)).toEqual(['success', 'cached'])
+  })
+
+  it('answers even when recording fails', async () => {
+    const recorder: AiUsageRecorder = { record: async () => { throw new Error('connection refused') } }
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const provider = createMockProvider({ respond: () => 'Answer', recorder })
+
+    expect(await processArticleWithAI('Question', provider)).toBe('Answer')
+  })
+})
+
+describe('budget guard', () => {
+  const today = new Date().toISOString().slice(0, 10)
+  const budget = { dailyUsd: 1, monthlyUsd: 0 }
+
+  /**
+   * Provider answering every request, with a guard over usage rows the test can add to.
+   */
+  function guarded(model: string, options: { reportsCost?: boolean } = {}) {
+    const rows: AiUsageRow[] = []
+    const { client } = createFakeSupabase({}, { rpc: { ai_usage_totals: () => rows } })
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: 'Answer' } }] }), { status: 200 }))
+    const provider = createOpenAICompatibleProvider({
+      baseUrl: 'http://llm',
+      model,
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      budget: createAiBudgetGuard(client, { budget, pricing, ...options }),
+    })
+    return { provider, rows, fetch }
+  }
+
+  it('checks the caps before every call, not once per batch', async () => {
+    const { provider, rows, fetch } = guarded('openai/gpt-4.1-nano')
+
+    await provider.complete([{ role: 'user', content: 'First' }])
+    rows.push(row({ day: today, model: 'openai/gpt-4.1-nano', cost_usd: 1.2 }))
+
+    await expect(provider.complete([{ role: 'user', content: 'Second' }])).rejects.toBeInstanceOf(AiBudgetError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses models without a price while a cap is set', async () => {
+    const { provider, fetch } = guarded('llama3.1:8b')
+
+    await expect(provider.complete([{ role: 'user', content: 'Question' }])).rejects.toMatchObject({
+      statusCode: 402,
+      message: expect.stringContaining('No price for llama3.1:8b'),
+    })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('lets free models and providers reporting their cost through', async () => {
+    await expect(guarded('deepseek/deepseek-chat-v3-0324:free').provider.complete([{ role: 'user', content: 'Question' }])).resolves.toBe('Answer')
+    await expect(guarded('anthropic/unpriced', { reportsCost: true }).provider.complete([{ role: 'user', content: 'Question' }])).resolves.toBe('Answer')
+  })
+
+  it('checks nothing without caps', async () => {
+    const rpc = vi.fn(() => [])
+    const { client } = createFakeSupabase({}, { rpc: { ai_usage_totals: rpc } })
+
+    await createAiBudgetGuard(client, { budget: { dailyUsd: 0, monthlyUsd: 0 }, pricing }).check('llama3.1:8b')
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('warns once per model recorded without a cost', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { client, tables } = createFakeSupabase({ ai_calls: [] })
+    const recorder = createSupabaseUsageRecorder(client, pricing)
+
+    await recorder.record({ ...call, model: 'llama3.1:8b' })
+    await recorder.record({ ...call, model: 'llama3.1:8b' })
+    await recorder.record(call)
+
+    expect(tables.ai_calls.map(row => row.cost_usd)).toEqual([null, null, 0.0014])
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0][0]).toContain('No price for llama3.1:8b')
+  })
+})
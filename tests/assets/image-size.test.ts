@@ -0,0 +1,61 @@
+/**
+ * ALEXANDRIAN SCRAPING - Image Size Tests
+ *
+ * readImageSize() records the dimensions of mirrored images (assets.ts).
+ * The headers below are the smallest byte sequences each format needs.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { readImageSize } from '../../server/utils/assets'
+
+describe('readImageSize', () => {
+  it('reads PNG dimensions from IHDR', () => {
+    const png = Buffer.alloc(24)
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png, 0)
+    png.write('IHDR', 12, 'ascii')
+    png.writeUInt32BE(640, 16)
+    png.writeUInt32BE(480, 20)
+
+    expect(readImageSize(png)).toEqual({ width: 640, height: 480, format: 'png' })
+  })
+
+  it('reads GIF dimensions from the screen descriptor', () => {
+    const gif = Buffer.alloc(10)
+    gif.write('GIF89a', 0, 'ascii')
+    gif.writeUInt16LE(120, 6)
+    gif.writeUInt16LE(60, 8)
+
+    expect(readImageSize(gif)).toEqual({ width: 120, height: 60, format: 'gif' })
+  })
+
+  it('skips JPEG segments up to the start-of-frame marker', () => {
+    const app0 = [0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]
+    const sof0 = [0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0x2c, 0x01, 0x90, 0x03, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+    const jpeg = Buffer.from([0xff, 0xd8, ...app0, ...sof0])
+
+    expect(readImageSize(jpeg)).toEqual({ width: 400, height: 300, format: 'jpeg' })
+  })
+
+  it('reads extended WebP (VP8X) dimensions', () => {
+    const webp = Buffer.alloc(30)
+    webp.write('RIFF', 0, 'ascii')
+    webp.write('WEBP', 8, 'ascii')
+    webp.write('VP8X', 12, 'ascii')
+    webp.writeUIntLE(1023, 24, 3)
+    webp.writeUIntLE(767, 27, 3)
+
+    expect(readImageSize(webp)).toEqual({ width: 1024, height: 768, format: 'webp' })
+  })
+
+  it('reads SVG width/height, falling back to the viewBox', () => {
+    expect(readImageSize(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="32" height="16"></svg>')))
+      .toEqual({ width: 32, height: 16, format: 'svg' })
+    expect(readImageSize(Buffer.from('<?xml version="1.0"?><svg viewBox="0 0 100 50"></svg>')))
+      .toEqual({ width: 100, height: 50, format: 'svg' })
+  })
+
+  it('returns null for files that are not images', () => {
+    expect(readImageSize(Buffer.from('<!DOCTYPE html><html><body>Not found</body></html>'))).toBeNull()
+    expect(readImageSize(Buffer.from([0xff, 0xd8]))).toBeNull()
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * ALEXANDRIAN SCRAPING - Image Mirroring Tests
+ *
+ * mirrorArticleImages() downloads for a long time between reading and writing
+ * an article; a scrape or link rewrite landing in between must survive. The
+ * tables live in the in-memory Supabase stand-in, downloads and storage are stubs.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mirrorArticleImages } from '../../server/utils/assets'
+import type { AssetStorage } from '../../server/utils/assets'
+import { createFakeSupabase } from '../helpers/supabase'
+
+const link = 'https://thealexandrian.net/wordpress/1118/roleplaying-games/three-clue-rule'
+
+/**
+ * Smallest PNG header readImageSize() accepts.
+ */
+function png(width: number, height: number) {
+  const data = Buffer.alloc(24)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data, 0)
+  data.write('IHDR', 12, 'ascii')
+  data.writeUInt32BE(width, 16)
+  data.writeUInt32BE(height, 20)
+  return data
+}
+
+const storage: AssetStorage = {
+  driver: 'memory',
+  owns: url => url.startsWith('/assets/'),
+  save: async key => `/assets/${key}`,
+}
+
+function article(content: string) {
+  return {
+    id: 'article-1',
+    link,
+    content,
+    images: ['https://thealexandrian.net/images/clue.png'],
+    content_changed_at: '2026-10-18T10:00:00.000000+00:00',
+    images_mirrored_at: null,
+  }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('mirrorArticleImages', () => {
+  it('rewrites images to their mirrored copies', async () => {
+    const { client, tables } = createFakeSupabase({
+      articles: [article('<p><img src="/images/clue.png" srcset="/images/clue-300.png 300w"></p>')],
+    })
+
+    const result = await mirrorArticleImages(client, 'article-1', {
+      storage,
+      maxBytes: 1_000_000,
+      download: async () => ({ data: png(640, 480), contentType: 'image/png' }),
+    })
+
+    expect(result).toMatchObject({ found: 1, downloaded: 1, failed: 0 })
+    expect(tables.articles[0].content).toMatch(/^<p><img src="\/assets\/[0-9a-f]{2}\/[0-9a-f]{64}\.png" width="640" height="480"><\/p>$/)
+    expect(tables.articles[0].images).toEqual([expect.stringMatching(/^\/assets\//)])
+    expect(tables.articles[0].images_mirrored_at).not.toBeNull()
+  })
+
+  it('keeps content written while images were downloading', async () => {
+    const { client, tables } = createFakeSupabase({
+      articles: [article('<p><img src="/images/clue.png"></p>')],
+    })
+
+    const result = await mirrorArticleImages(client, 'article-1', {
+      storage,
+      maxBytes: 1_000_000,
+      download: async () => {
+        // A re-scrape lands mid-download
+        Object.assign(tables.articles[0], {
+          content: '<p>Updated intro</p><p><img src="/images/clue.png"></p><p><img src="/images/new.png"></p>',
+          content_changed_at: '2026-10-18T10:05:00.000000+00:00',
+        })
+        return { data: png(640, 480), contentType: 'image/png' }
+      },
+    })
+
+    expect(result.failed).toBe(0)
+    const { content, images_mirrored_at } = tables.articles[0]
+    expect(content).toContain('<p>Updated intro</p>')
+    expect(content).toMatch(/<img src="\/assets\/[^"]+\.png" width="640" height="480">/)
+    // The new image wasn't part of this run: it stays on the source site for the next one
+    expect(content).toContain('<img src="/images/new.png">')
+    expect(images_mirrored_at).toBeNull()
+  })
+})
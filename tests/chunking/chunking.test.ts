@@ -0,0 +1,124 @@
+/**
+ * ALEXANDRIAN SCRAPING - Prompt Chunking Tests
+ *
+ * Long articles are split at block boundaries to fit the model's context
+ * window (chunking.ts). Chunks must stay under the budget and join back to
+ * the same HTML; enhancement and map-reduce summaries run against a mock
+ * provider with a small context window.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { chunkHtml, contentBudget, enhanceHtmlInChunks, estimateTokens, summarizeInChunks } from '../../server/utils/chunking'
+import { createMockProvider } from '../../server/utils/llm'
+import type { LlmMessage } from '../../server/utils/llm'
+import { BLOG_ENHANCEMENT } from '../../server/utils/prompts'
+
+const paragraph = (n: number) => `<p>Paragraph ${n} of the essay, about clues and scenario design in ${'many words '.repeat(20)}</p>`
+
+const essay = Array.from({ length: 40 }, (_, n) => paragraph(n)).join('')
+
+describe('chunkHtml', () => {
+  it('keeps HTML that fits in one chunk', () => {
+    expect(chunkHtml('<p>Short.</p>', 100)).toEqual(['<p>Short.</p>'])
+    expect(chunkHtml('  ', 100)).toEqual([])
+  })
+
+  it('splits between blocks, under the budget, without losing content', () => {
+    const chunks = chunkHtml(essay, 400)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(400)
+      expect(chunk).toMatch(/^<p>.*<\/p>$/)
+    }
+    expect(chunks.join('')).toBe(essay)
+  })
+
+  it('splits a long list into several lists', () => {
+    const items = Array.from({ length: 30 }, (_, n) => `<li>Item ${n} ${'with detail '.repeat(10)}</li>`).join('')
+    const chunks = chunkHtml(`<ul class="clues">${items}</ul>`, 200)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk).toMatch(/^<ul class="clues"><li>.*<\/li><\/ul>$/)
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(200)
+    }
+    expect(chunks.join('').match(/<li>/g)).toHaveLength(30)
+  })
+
+  it('splits a single huge paragraph between words', () => {
+    const text = 'word '.repeat(2000)
+    const chunks = chunkHtml(`<p>${text}</p>`, 300)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(300)
+    }
+    expect(chunks.map(chunk => chunk.replace(/<\/?p>/g, '')).join('')).toBe(text)
+  })
+})
+
+describe('contentBudget', () => {
+  it('leaves room for the prompt and the answer', () => {
+    const provider = createMockProvider({ contextTokens: 8192 })
+    const budget = contentBudget(provider, BLOG_ENHANCEMENT, {}, { ratio: 1.5 })
+
+    expect(budget).toBeGreaterThan(1000)
+    expect(budget * 2.5).toBeLessThan(8192)
+  })
+
+  it('rejects context windows too small to use', () => {
+    expect(() => contentBudget(createMockProvider({ contextTokens: 300 }), BLOG_ENHANCEMENT, {}, { ratio: 1.5 }))
+      .toThrow(/too small/)
+  })
+})
+
+describe('enhanceHtmlInChunks', () => {
+  it('sends one prompt when the article fits', async () => {
+    const prompts: string[] = []
+    const provider = createMockProvider({
+      respond: (messages: LlmMessage[]) => {
+        prompts.push(messages[1].content)
+        return '<p class="enhanced">Done</p>'
+      },
+    })
+
+    expect(await enhanceHtmlInChunks('<p>Short.</p>', provider)).toBe('<p class="enhanced">Done</p>')
+    expect(prompts).toHaveLength(1)
+  })
+
+  it('enhances long articles chunk by chunk and joins the results in order', async () => {
+    let calls = 0
+    const provider = createMockProvider({ contextTokens: 2048, respond: () => `<p>Part ${++calls}</p>` })
+
+    const result = await enhanceHtmlInChunks(essay, provider)
+
+    expect(calls).toBeGreaterThan(1)
+    expect(result).toBe(Array.from({ length: calls }, (_, n) => `<p>Part ${n + 1}</p>`).join('\n'))
+  })
+})
+
+describe('summarizeInChunks', () => {
+  it('summarizes the parts, then the part summaries', async () => {
+    const prompts: string[] = []
+    const provider = createMockProvider({
+      contextTokens: 2048,
+      respond: (messages: LlmMessage[], options) => {
+        prompts.push(messages[1].content)
+        // Only the final summary is a structured task (SUMMARY_TASK)
+        return options?.schema
+          ? JSON.stringify({ summary: 'Final summary.', keyPoints: ['Three clues per conclusion.'], readingLevel: 'beginner' })
+          : 'Part summary.'
+      },
+    })
+
+    const output = await summarizeInChunks({ articleContent: essay, title: 'Three Clue Rule' }, provider)
+
+    expect(output).toEqual({ summary: 'Final summary.', keyPoints: ['Three clues per conclusion.'], readingLevel: 'beginner' })
+    const partPrompts = prompts.filter(prompt => prompt.includes('one part of a longer blog post'))
+    expect(partPrompts.length).toBeGreaterThan(1)
+    // The last prompt summarizes the part summaries, with the article's title
+    expect(prompts[prompts.length - 1]).toContain('Part summary.\n\nPart summary.')
+    expect(prompts[prompts.length - 1]).toContain('Title: Three Clue Rule')
+  })
+})
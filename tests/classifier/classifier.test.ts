@@ -0,0 +1,119 @@
+/**
+ * ALEXANDRIAN SCRAPING - Link Classifier Tests
+ *
+ * URL-pattern classification (classifyLinkUrl(), rule 2 of classifier.ts)
+ * against fixture URLs of each site profile, and the classification pass over
+ * found_links in the in-memory Supabase stand-in.
+ *
+ * Fixture Layout:
+ * fixtures/{site profile id}.json  { url: expected CrawlStatus name, or null if no rule matches }
+ */
+
+import { readFileSync, readdirSync } from 'node:fs'
+import { basename, join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { classifyLinks } from '../../server/utils/classifier'
+import { CrawlStatus, classifyLinkUrl } from '../../server/utils/crawler'
+import { PolitenessError, politeFetchHtml } from '../../server/utils/politeness'
+import { createFakeSupabase } from '../helpers/supabase'
+
+vi.mock('../../server/utils/politeness', async importOriginal => ({
+  ...await importOriginal<typeof import('../../server/utils/politeness')>(),
+  politeFetchHtml: vi.fn(),
+}))
+
+const fixturesDir = join(__dirname, 'fixtures')
+const SITE = 'https://thealexandrian.net/'
+
+for (const file of readdirSync(fixturesDir).filter(name => name.endsWith('.json'))) {
+  describe(`URL patterns: ${basename(file, '.json')}`, () => {
+    const expected: Record<string, keyof typeof CrawlStatus | null> = JSON.parse(readFileSync(join(fixturesDir, file), 'utf-8'))
+
+    for (const [url, status] of Object.entries(expected)) {
+      it(`${url} → ${status ?? 'no match'}`, () => {
+        expect(classifyLinkUrl(url)).toBe(status === null ? null : CrawlStatus[status])
+      })
+    }
+  })
+}
+
+function link(id: string, href: string, status = CrawlStatus.Visited) {
+  return { id, href, status, visited: true, structure_checked_at: null as string | null }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('classifyLinks', () => {
+  const links = () => [
+    link('1', `${SITE}wordpress/1118/roleplaying-games/three-clue-rule`),
+    link('2', `${SITE}tag/gamemastery-101/page/2`),
+    link('3', `${SITE}category/roleplaying-games`),
+    link('4', `${SITE}wp-content/uploads/2008/03/map.PDF`),
+    link('5', `${SITE}about`),
+    link('6', `${SITE}wordpress/1119/roleplaying-games/three-clue-rule-addendum`, CrawlStatus.Pending),
+  ]
+
+  it('classifies Visited links by file extension and URL pattern', async () => {
+    const { client, tables } = createFakeSupabase({ found_links: links() })
+
+    const report = await classifyLinks(client, { structureChecks: false })
+
+    expect(report).toMatchObject({ applied: true, checked: 5, structureChecked: 0, unclassified: 1, counts: { Article: 1, Tag: 1, Category: 1, File: 1 } })
+    expect(report.changes.map(change => [change.id, change.rule])).toEqual([
+      ['1', 'url-pattern'], ['2', 'url-pattern'], ['3', 'url-pattern'], ['4', 'file-extension'],
+    ])
+    expect(tables.found_links.map(rec => rec.status)).toEqual([
+      CrawlStatus.Article, CrawlStatus.Tag, CrawlStatus.Category, CrawlStatus.File, CrawlStatus.Visited, CrawlStatus.Pending,
+    ])
+  })
+
+  it('only reports changes on a dry run', async () => {
+    const { client, tables } = createFakeSupabase({ found_links: links() })
+
+    const report = await classifyLinks(client, { dryRun: true, structureChecks: false })
+
+    expect(report).toMatchObject({ applied: false, changes: expect.arrayContaining([expect.objectContaining({ id: '1', to: CrawlStatus.Article })]) })
+    expect(tables.found_links).toEqual(links())
+  })
+
+  it('classifies Visited links beyond the first 1000 rows', async () => {
+    const found_links = Array.from({ length: 1500 }, (_, i) =>
+      link(`link-${String(i).padStart(4, '0')}`, `${SITE}wordpress/${i}/roleplaying-games/post-${i}`))
+    const { client, tables } = createFakeSupabase({ found_links }, { maxRows: 1000 })
+
+    const report = await classifyLinks(client, { structureChecks: false })
+
+    expect(report).toMatchObject({ checked: 1500, unclassified: 0, counts: { Article: 1500 } })
+    expect(tables.found_links.every(rec => rec.status === CrawlStatus.Article)).toBe(true)
+  })
+
+  it('checks the structure of links not checked yet before checking any again', async () => {
+    const pages = ['about', 'contact', 'archives', 'links'].map((slug, i) => link(`${i + 1}`, `${SITE}${slug}`))
+    const { client, tables } = createFakeSupabase({ found_links: pages })
+    vi.mocked(politeFetchHtml).mockImplementation(async url => {
+      if (url === `${SITE}contact`) throw new PolitenessError(`HTTP 503 for ${url}`, url, 503)
+      return '<html><body class="page"><p>Static page</p></body></html>'
+    })
+
+    const fetched = async () => {
+      vi.mocked(politeFetchHtml).mockClear()
+      await classifyLinks(client, { structureLimit: 2 })
+      return vi.mocked(politeFetchHtml).mock.calls.map(([url]) => url)
+    }
+
+    expect(await fetched()).toEqual([`${SITE}about`, `${SITE}contact`])
+    expect(await fetched()).toEqual([`${SITE}archives`, `${SITE}links`])
+    expect(tables.found_links.every(rec => rec.status === CrawlStatus.Visited && rec.structure_checked_at)).toBe(true)
+  })
+
+  it('fetches no pages with a structureLimit of 0', async () => {
+    const { client } = createFakeSupabase({ found_links: [link('1', `${SITE}about`)] })
+
+    expect(await classifyLinks(client, { structureLimit: 0 })).toMatchObject({ structureChecked: 0, unclassified: 1 })
+    expect(politeFetchHtml).not.toHaveBeenCalled()
+  })
+})
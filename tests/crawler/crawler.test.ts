@@ -0,0 +1,145 @@
+/**
+ * ALEXANDRIAN SCRAPING - Crawl Bookkeeping Tests
+ *
+ * Discovery stores sitemap links already classified; crawl batches must never
+ * re-add those rows as Pending, and duplicate cleanup must keep the row the
+ * pipeline knows most about. Pages come from a stub of the polite fetcher and
+ * found_links lives in the in-memory Supabase stand-in.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { CrawlStatus, crawlPendingLinks, getDuplicateLinks } from '../../server/utils/crawler'
+import type { LinkRecord } from '../../server/utils/crawler'
+import { discoverLinks } from '../../server/utils/discovery'
+import { PolitenessError, politeFetchHtml } from '../../server/utils/politeness'
+import { createFakeSupabase } from '../helpers/supabase'
+
+vi.mock('../../server/utils/politeness', async importOriginal => ({
+  ...await importOriginal<typeof import('../../server/utils/politeness')>(),
+  politeFetchHtml: vi.fn(),
+}))
+
+const SITE = 'https://thealexandrian.net/'
+const article = `${SITE}wordpress/1234/roleplaying-games/three-clue-rule`
+const tag = `${SITE}tag/gamemastery-101`
+
+/**
+ * Pages served by the stub fetcher; anything else is a 404.
+ */
+const pages: Record<string, string> = {
+  [`${SITE}robots.txt`]: `User-agent: *\nSitemap: ${SITE}sitemap.xml\n`,
+  [`${SITE}sitemap.xml`]: `<?xml version="1.0"?>
+    <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <url><loc>${article}</loc><lastmod>2008-03-27T10:00:00Z</lastmod></url>
+      <url><loc>${tag}</loc></url>
+      <url><loc>${SITE}about</loc></url>
+    </urlset>`,
+  [`${SITE}about`]: `<html><body>
+      <a href="${article}">The Three Clue Rule</a>
+      <a href="${tag}#top">Gamemastery 101</a>
+      <a href="${SITE}contact">Contact</a>
+    </body></html>`,
+  [`${SITE}contact`]: `<html><body>
+      <a href="${article}?replytocom=5">Reply</a>
+      <a href="${SITE}about">About</a>
+    </body></html>`,
+}
+
+function link(id: string, href: string, status: CrawlStatus, processed_at: string | null = null): LinkRecord {
+  return { id, href, status, visited: false, processed_at }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.mocked(politeFetchHtml).mockImplementation(async (url) => {
+    if (url in pages) return pages[url]
+    throw new PolitenessError(`HTTP 404 for ${url}`, url, 404)
+  })
+})
+
+describe('getDuplicateLinks', () => {
+  it('keeps the scraped or most classified row of each href', async () => {
+    const links = [
+      link('1', article, CrawlStatus.Pending),
+      link('2', article, CrawlStatus.Article, '2026-10-01T00:00:00Z'),
+      link('3', article, CrawlStatus.Visited),
+      link('4', tag, CrawlStatus.Visited),
+      link('5', tag, CrawlStatus.Tag),
+      link('6', `${SITE}about`, CrawlStatus.Pending),
+    ]
+
+    expect((await getDuplicateLinks(links)).map(rec => rec.id)).toEqual(['1', '3', '4'])
+  })
+
+  it('prefers a scraped row over a better status', async () => {
+    const links = [link('1', article, CrawlStatus.Article), link('2', article, CrawlStatus.Visited, '2026-10-01T00:00:00Z')]
+
+    expect((await getDuplicateLinks(links)).map(rec => rec.id)).toEqual(['1'])
+  })
+})
+
+describe('discovery, then crawl, then crawl again', () => {
+  it('keeps classified rows and their processed_at', async () => {
+    const { client, tables } = createFakeSupabase({ found_links: [], jobs: [] })
+
+    const discovered = await discoverLinks(client, { feeds: false })
+    expect(discovered.classified).toEqual({ article: 1, tag: 1, category: 0, pending: 1 })
+
+    // The article gets scraped before the crawl reaches it
+    const articleRow = tables.found_links.find(rec => rec.href === article)!
+    articleRow.processed_at = '2026-10-18T09:00:00Z'
+
+    const first = await crawlPendingLinks(client, { batchSize: 1 })
+    expect(first.visited).toEqual([`${SITE}about`])
+    expect(first.pending).toBe(1)
+
+    const second = await crawlPendingLinks(client)
+    expect(second.visited).toEqual([`${SITE}contact`])
+    expect(second.pending).toBe(0)
+
+    const rows = tables.found_links.map(rec => [rec.href, rec.status])
+    expect(rows).toEqual([
+      [article, CrawlStatus.Article],
+      [tag, CrawlStatus.Tag],
+      [`${SITE}about`, CrawlStatus.Visited],
+      [`${SITE}contact`, CrawlStatus.Visited],
+    ])
+    expect(tables.found_links.find(rec => rec.href === article)).toMatchObject({ id: articleRow.id, processed_at: '2026-10-18T09:00:00Z' })
+  })
+
+  it('cleans up duplicates left by earlier crawls without losing the article', async () => {
+    const { client, tables } = createFakeSupabase({
+      found_links: [
+        link('a', article, CrawlStatus.Article, '2026-10-18T09:00:00Z'),
+        link('b', article, CrawlStatus.Pending),
+        link('c', `${SITE}contact`, CrawlStatus.Pending),
+      ],
+    })
+
+    await crawlPendingLinks(client)
+
+    expect(tables.found_links.filter(rec => rec.href === article)).toEqual([
+      link('a', article, CrawlStatus.Article, '2026-10-18T09:00:00Z'),
+    ])
+  })
+
+  it('knows classified rows stored beyond the first 1000', async () => {
+    const found_links = Array.from({ length: 1200 }, (_, i) =>
+      link(`link-${String(i).padStart(4, '0')}`, `${SITE}wordpress/${i}/roleplaying-games/post-${i}`, CrawlStatus.Article))
+    found_links.push(
+      link('link-1200', article, CrawlStatus.Article, '2026-10-18T09:00:00Z'),
+      link('link-1201', tag, CrawlStatus.Tag),
+      link('link-1202', `${SITE}about`, CrawlStatus.Pending),
+      link('link-1203', `${SITE}contact`, CrawlStatus.Visited),
+    )
+    const { client, tables } = createFakeSupabase({ found_links }, { maxRows: 1000 })
+
+    const result = await crawlPendingLinks(client)
+
+    expect(result).toMatchObject({ visited: [`${SITE}about`], pending: 0 })
+    expect(tables.found_links).toHaveLength(1204)
+    expect(tables.found_links.filter(rec => rec.status === CrawlStatus.Pending)).toEqual([])
+  })
+})
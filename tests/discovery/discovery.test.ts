@@ -0,0 +1,103 @@
+/**
+ * ALEXANDRIAN SCRAPING - Sitemap & Feed Parser Tests
+ *
+ * Runs parseSitemap() and parseFeed() (discovery.ts) offline against saved
+ * sitemaps and feeds in the formats WordPress and its sitemap plugins write,
+ * and discoverLinks() with fetches served from the fixtures and found_links in
+ * the in-memory Supabase stand-in.
+ *
+ * Fixture Layout:
+ * fixtures/{site profile id}/sitemap*.xml  Sitemap index or urlset
+ * fixtures/{site profile id}/feed*         RSS 2.0 or Atom feed page
+ */
+
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { CrawlStatus } from '../../server/utils/crawler'
+import { discoverLinks, parseFeed, parseSitemap } from '../../server/utils/discovery'
+import { PolitenessError, politeFetchHtml } from '../../server/utils/politeness'
+import { createFakeSupabase } from '../helpers/supabase'
+
+vi.mock('../../server/utils/politeness', async importOriginal => ({
+  ...await importOriginal<typeof import('../../server/utils/politeness')>(),
+  politeFetchHtml: vi.fn(),
+}))
+
+const SITE = 'https://thealexandrian.net/'
+
+function fixture(file: string) {
+  return readFileSync(join(__dirname, 'fixtures', 'alexandrian', file), 'utf-8')
+}
+
+describe('parseSitemap', () => {
+  it('lists the child sitemaps of an index', () => {
+    expect(parseSitemap(fixture('sitemap_index.xml'))).toEqual({
+      sitemaps: [`${SITE}sitemap-misc.xml`, `${SITE}sitemap-pt-post-2008-03.xml`],
+      urls: [],
+    })
+  })
+
+  it('reads page URLs with their lastmod as UTC, skipping entries without a loc', () => {
+    expect(parseSitemap(fixture('sitemap-pt-post-2008-03.xml'))).toEqual({
+      sitemaps: [],
+      urls: [
+        { loc: `${SITE}wordpress/1118/roleplaying-games/three-clue-rule`, lastmod: '2008-03-27T10:00:00.000Z' },
+        { loc: `${SITE}wordpress/1147/roleplaying-games/node-based-scenario-design-part-1`, lastmod: '2008-03-31T13:15:00.000Z' },
+        { loc: `${SITE}wordpress/1201/roleplaying-games/dont-prep-plots`, lastmod: '2008-04-07T00:00:00.000Z' },
+        { loc: `${SITE}tag/gamemastery-101`, lastmod: null },
+        { loc: `${SITE}about`, lastmod: null },
+      ],
+    })
+  })
+
+  it('returns nothing for a page that isn\'t a sitemap', () => {
+    expect(parseSitemap('<html><body><p>Not found</p></body></html>')).toEqual({ sitemaps: [], urls: [] })
+  })
+})
+
+describe('parseFeed', () => {
+  it('reads RSS item links and publish dates, skipping items without a link', () => {
+    expect(parseFeed(fixture('feed.rss'))).toEqual([
+      { link: `${SITE}wordpress/51234/roleplaying-games/ask-the-alexandrian-clue-types`, published: '2026-10-16T14:00:00.000Z' },
+      { link: `${SITE}wordpress/51201/roleplaying-games/random-gm-tip-describe-the-room`, published: '2026-10-14T13:30:00.000Z' },
+      { link: `${SITE}wordpress/51190/roleplaying-games/undated-post`, published: null },
+    ])
+  })
+
+  it('reads Atom alternate links, falling back to the entry\'s only link and its updated date', () => {
+    expect(parseFeed(fixture('feed-atom.xml'))).toEqual([
+      { link: `${SITE}wordpress/51234/roleplaying-games/ask-the-alexandrian-clue-types`, published: '2026-10-16T14:00:00.000Z' },
+      { link: `${SITE}wordpress/51201/roleplaying-games/random-gm-tip-describe-the-room`, published: '2026-10-14T13:30:00.000Z' },
+    ])
+  })
+})
+
+describe('discoverLinks', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    vi.mocked(politeFetchHtml).mockImplementation(async url => {
+      if (url === `${SITE}sitemap.xml`) return fixture('sitemap-pt-post-2008-03.xml')
+      throw new PolitenessError('HTTP 404', url, 404)
+    })
+  })
+
+  it('recognizes known links beyond the first 1000 rows', async () => {
+    const urls = parseSitemap(fixture('sitemap-pt-post-2008-03.xml')).urls.map(url => url.loc)
+    const found_links = Array.from({ length: 1500 }, (_, i) => ({
+      id: `link-${String(i).padStart(4, '0')}`,
+      href: `${SITE}wordpress/${i}/roleplaying-games/post-${i}`,
+      status: CrawlStatus.Article,
+      published_at: null,
+    }))
+    // Stored last, so a single capped read wouldn't return them
+    urls.forEach((href, i) => Object.assign(found_links[found_links.length - urls.length + i], { href }))
+    const { client, tables } = createFakeSupabase({ found_links, jobs: [] }, { maxRows: 1000 })
+
+    const result = await discoverLinks(client, { feeds: false })
+
+    expect(result).toMatchObject({ discovered: urls.length, inserted: 0, datesFilled: 3 })
+    expect(tables.found_links).toHaveLength(1500)
+    expect(tables.jobs).toEqual([])
+  })
+})
@@ -0,0 +1,314 @@
+/**
+ * ALEXANDRIAN SCRAPING - In-Memory Supabase Stand-In
+ *
+ * Just enough of the supabase-js query builder for pipeline code to run
+ * against plain arrays: select/insert/update/upsert/delete with the filters,
+ * ordering and paging the server utils use, plus RPCs implemented by the test.
+ * Selected columns are ignored (whole rows come back) and embedded relations
+ * aren't supported.
+ */
+
+import type { JobsClient } from '../../server/utils/jobs'
+
+type Row = Record<string, unknown>
+type Tables = Record<string, Row[]>
+type Predicate = (row: Row) => boolean
+
+interface QueryError {
+  message: string;
+  code?: string;
+}
+
+/**
+ * Options for createFakeSupabase().
+ */
+export interface FakeSupabaseOptions {
+  /** RPC implementations by function name; throwing returns an error */
+  rpc?: Record<string, (args: Record<string, unknown>, tables: Tables) => unknown>;
+  /** Unique constraints: returns true if row may not coexist with other */
+  unique?: Record<string, (row: Row, other: Row) => boolean>;
+  /** Returns an error message to fail a write on table */
+  failWrite?: (table: string, action: 'insert' | 'update' | 'upsert' | 'delete', rows: Row[]) => string | null;
+  /** Most rows a select returns, like PostgREST's max-rows (default: no cap) */
+  maxRows?: number;
+}
+
+/**
+ * Fake client and its tables (mutated in place by queries).
+ */
+export function createFakeSupabase(initial: Record<string, object[]> = {}, options: FakeSupabaseOptions = {}) {
+  const tables = initial as Tables
+  let nextId = 1
+
+  const client = {
+    from: (table: string) => new Query(table),
+    rpc: async (name: string, args: Record<string, unknown> = {}) => {
+      const handler = options.rpc?.[name]
+      if (!handler) return { data: null, error: { message: `Unknown function ${name}` } }
+      try {
+        return { data: handler(args, tables), error: null }
+      } catch (err) {
+        return { data: null, error: { message: err instanceof Error ? err.message : String(err) } }
+      }
+    },
+  }
+
+  class Query {
+    private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select'
+    private values: Row[] = []
+    private patch: Row = {}
+    private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {}
+    private filters: Predicate[] = []
+    private sort: { column: string; ascending: boolean }[] = []
+    private window: [number, number] | null = null
+    private returning = false
+    private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+
+    constructor(private table: string) {
+      tables[table] ??= []
+    }
+
+    select() {
+      this.returning = true
+      return this
+    }
+
+    insert(values: Row | Row[]) {
+      this.action = 'insert'
+      this.values = Array.isArray(values) ? values : [values]
+      return this
+    }
+
+    update(patch: Row) {
+      this.action = 'update'
+      this.patch = patch
+      return this
+    }
+
+    upsert(values: Row | Row[], upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+      this.action = 'upsert'
+      this.values = Array.isArray(values) ? values : [values]
+      this.upsertOptions = upsertOptions
+      return this
+    }
+
+    delete() {
+      this.action = 'delete'
+      return this
+    }
+
+    eq(column: string, value: unknown) {
+      return this.where(row => row[column] === value)
+    }
+
+    neq(column: string, value: unknown) {
+      return this.where(row => row[column] !== value)
+    }
+
+    gt(column: string, value: unknown) {
+      return this.where(row => compare(row[column], value) > 0)
+    }
+
+    gte(column: string, value: unknown) {
+      return this.where(row => compare(row[column], value) >= 0)
+    }
+
+    lt(column: string, value: unknown) {
+      return this.where(row => compare(row[column], value) < 0)
+    }
+
+    lte(column: string, value: unknown) {
+      return this.where(row => compare(row[column], value) <= 0)
+    }
+
+    in(column: string, values: unknown[]) {
+      return this.where(row => values.includes(row[column]))
+    }
+
+    is(column: string, value: unknown) {
+      return this.where(row => (row[column] ?? null) === value)
+    }
+
+    not(column: string, operator: string, value: unknown) {
+      const test = operatorPredicate(column, operator, value)
+      return this.where(row => !test(row))
+    }
+
+    contains(column: string, values: unknown[]) {
+      return this.where(row => Array.isArray(row[column]) && values.every(value => (row[column] as unknown[]).includes(value)))
+    }
+
+    match(query: Row) {
+      return this.where(row => Object.entries(query).every(([column, value]) => row[column] === value))
+    }
+
+    filter(column: string, operator: string, value: unknown) {
+      return this.where(operatorPredicate(column, operator, value))
+    }
+
+    or(expression: string) {
+      const tests = splitTopLevel(expression).map((part) => {
+        const [column, operator, ...rest] = part.split('.')
+        return operatorPredicate(column, operator, rest.join('.'))
+      })
+      return this.where(row => tests.some(test => test(row)))
+    }
+
+    order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+      this.sort.push({ column, ascending })
+      return this
+    }
+
+    range(from: number, to: number) {
+      this.window = [from, to]
+      return this
+    }
+
+    limit(count: number) {
+      this.window = [0, count - 1]
+      return this
+    }
+
+    single() {
+      this.mode = 'single'
+      return this.run()
+    }
+
+    maybeSingle() {
+      this.mode = 'maybeSingle'
+      return this.run()
+    }
+
+    then<T>(resolve: (value: { data: unknown; error: QueryError | null }) => T, reject?: (reason: unknown) => T) {
+      return this.run().then(resolve, reject)
+    }
+
+    private where(predicate: Predicate) {
+      this.filters.push(predicate)
+      return this
+    }
+
+    private matches(row: Row) {
+      return this.filters.every(predicate => predicate(row))
+    }
+
+    private async run(): Promise<{ data: unknown; error: QueryError | null }> {
+      const rows = tables[this.table]
+      let result: Row[]
+
+      if (this.action !== 'select') {
+        const affected = this.action === 'update' || this.action === 'delete' ? rows.filter(row => this.matches(row)) : this.values
+        const failure = options.failWrite?.(this.table, this.action, affected)
+        if (failure) return { data: null, error: { message: failure } }
+      }
+
+      if (this.action === 'select') {
+        result = rows.filter(row => this.matches(row))
+      } else if (this.action === 'insert') {
+        const inserted = this.values.map(values => ({ id: nextId++, ...values }))
+        const conflict = this.conflict(inserted)
+        if (conflict) return { data: null, error: conflict }
+        rows.push(...inserted)
+        result = inserted
+      } else if (this.action === 'update') {
+        result = rows.filter(row => this.matches(row))
+        result.forEach(row => Object.assign(row, this.patch))
+      } else if (this.action === 'delete') {
+        result = rows.filter(row => this.matches(row))
+        tables[this.table] = rows.filter(row => !result.includes(row))
+      } else {
+        const keys = (this.upsertOptions.onConflict ?? 'id').split(',').map(key => key.trim())
+        result = []
+        for (const values of this.values) {
+          const existing = rows.find(row => keys.every(key => row[key] === values[key]))
+          if (existing && this.upsertOptions.ignoreDuplicates) continue
+          if (existing) {
+            Object.assign(existing, values)
+            result.push(existing)
+          } else {
+            const row = { id: nextId++, ...values }
+            rows.push(row)
+            result.push(row)
+          }
+        }
+      }
+
+      for (const { column, ascending } of [...this.sort].reverse()) {
+        result = [...result].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1))
+      }
+      if (this.window) result = result.slice(this.window[0], this.window[1] + 1)
+      if (this.action === 'select' && options.maxRows) result = result.slice(0, options.maxRows)
+
+      const data = result.map(row => ({ ...row }))
+      if (this.mode === 'many') return { data: this.action === 'select' || this.returning ? data : null, error: null }
+      if (data.length === 1) return { data: data[0], error: null }
+      if (data.length === 0 && this.mode === 'maybeSingle') return { data: null, error: null }
+      return { data: null, error: { message: `Expected one row, got ${data.length}`, code: 'PGRST116' } }
+    }
+
+    private conflict(inserted: Row[]): QueryError | null {
+      const isDuplicate = options.unique?.[this.table]
+      if (!isDuplicate) return null
+
+      const clash = inserted.some((row, i) => [...tables[this.table], ...inserted.slice(0, i)].some(other => isDuplicate(row, other)))
+      return clash ? { message: 'duplicate key value violates unique constraint', code: '23505' } : null
+    }
+  }
+
+  return { client: client as unknown as JobsClient, tables }
+}
+
+/**
+ * Orders numbers, strings and ISO dates; null sorts last.
+ */
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  return (a as number | string) < (b as number | string) ? -1 : 1
+}
+
+/**
+ * Predicate for a PostgREST operator (eq, neq, is, in, gt, ...) with its text value.
+ */
+function operatorPredicate(column: string, operator: string, value: unknown): Predicate {
+  const text = String(value)
+  const parse = (raw: string): unknown => raw === 'null' ? null : raw === 'true' ? true : raw === 'false' ? false : raw
+  const loose = (a: unknown, b: unknown) => a === b || (a !== null && a !== undefined && String(a) === String(b))
+
+  switch (operator) {
+    case 'eq': return row => loose(row[column], parse(text))
+    case 'neq': return row => !loose(row[column], parse(text))
+    case 'is': return row => (row[column] ?? null) === (value === null ? null : parse(text))
+    case 'in': {
+      const values = Array.isArray(value) ? value : text.replace(/^\(|\)$/g, '').split(',').map(item => item.replace(/^"|"$/g, ''))
+      return row => values.some(item => loose(row[column], item))
+    }
+    case 'gt': return row => compare(row[column], value) > 0
+    case 'gte': return row => compare(row[column], value) >= 0
+    case 'lt': return row => compare(row[column], value) < 0
+    case 'lte': return row => compare(row[column], value) <= 0
+    default: throw new Error(`Unsupported operator ${operator}`)
+  }
+}
+
+/**
+ * Splits an or() expression at commas outside parentheses.
+ */
+function splitTopLevel(expression: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of expression) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
@@ -0,0 +1,228 @@
+/**
+ * ALEXANDRIAN SCRAPING - Background Job Queue Tests
+ *
+ * Enqueue dedupe, retry backoff, cancellation and the worker's handling of a
+ * claimed job (jobs.ts, job.handlers.ts). The jobs table lives in the
+ * in-memory Supabase stand-in, with the partial unique index on dedupe_key;
+ * the crawl handler's work is stubbed.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { JobStatus, JobType, cancelJob, enqueueJob, failJob, getJobRetryDelayMs } from '../../server/utils/jobs'
+import { runJob } from '../../server/utils/job.handlers'
+import { crawlPendingLinks } from '../../server/utils/crawler'
+import type { Job } from '../../server/utils/types'
+import { PolitenessError } from '../../server/utils/politeness'
+import { createFakeSupabase } from '../helpers/supabase'
+
+vi.mock('../../server/utils/crawler', async importOriginal => ({
+  ...await importOriginal<typeof import('../../server/utils/crawler')>(),
+  crawlPendingLinks: vi.fn(),
+}))
+
+// Pulls in the Nuxt Supabase module, which only resolves inside Nitro
+vi.mock('../../server/utils/article.controller', () => ({ remixArticle: vi.fn() }))
+
+const NOW = new Date('2026-10-18T12:00:00Z')
+const active = (row: Record<string, unknown>) => row.dedupe_key !== null && (row.status === JobStatus.Queued || row.status === JobStatus.Running)
+
+/**
+ * Jobs table with the idx_jobs_active_dedupe_key constraint.
+ */
+function queue(jobs: Job[] = []) {
+  return createFakeSupabase({ jobs }, {
+    unique: { jobs: (row, other) => active(row) && active(other) && row.dedupe_key === other.dedupe_key },
+  })
+}
+
+/**
+ * A job claimed by the worker.
+ */
+function runningJob(values: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    type: JobType.Crawl,
+    payload: {},
+    status: JobStatus.Running,
+    attempts: 1,
+    max_attempts: 3,
+    run_at: NOW.toISOString(),
+    locked_at: NOW.toISOString(),
+    started_at: NOW.toISOString(),
+    finished_at: null,
+    last_error: null,
+    result: null,
+    dedupe_key: null,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString(),
+    ...values,
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW })
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('enqueueJob', () => {
+  it('skips a job whose dedupe key is already queued or running', async () => {
+    const { client, tables } = queue()
+
+    const first = await enqueueJob(client, JobType.Classify, {}, { dedupeKey: 'classify' })
+    const second = await enqueueJob(client, JobType.Classify, {}, { dedupeKey: 'classify' })
+
+    expect(first).toMatchObject({ type: JobType.Classify, status: JobStatus.Queued, max_attempts: 3 })
+    expect(second).toBeNull()
+    expect(tables.jobs).toHaveLength(1)
+  })
+
+  it('accepts the key again once the earlier job finished', async () => {
+    const { client, tables } = queue()
+
+    await enqueueJob(client, JobType.Classify, {}, { dedupeKey: 'classify' })
+    tables.jobs[0].status = JobStatus.Succeeded
+
+    expect(await enqueueJob(client, JobType.Classify, {}, { dedupeKey: 'classify' })).not.toBeNull()
+  })
+
+  it('never dedupes jobs without a key', async () => {
+    const { client, tables } = queue()
+
+    await enqueueJob(client, JobType.Scrape, { linkId: 1 })
+    await enqueueJob(client, JobType.Scrape, { linkId: 1 })
+
+    expect(tables.jobs).toHaveLength(2)
+  })
+})
+
+describe('failJob', () => {
+  it('doubles the retry delay up to an hour', () => {
+    expect([1, 2, 3, 4].map(getJobRetryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000])
+    expect(getJobRetryDelayMs(20)).toBe(60 * 60 * 1000)
+  })
+
+  it('requeues with backoff while attempts remain', async () => {
+    const job = runningJob({ attempts: 2 })
+    const { client, tables } = queue([{ ...job }])
+
+    expect(await failJob(client, job, new Error('Timeout'))).toBe(JobStatus.Queued)
+    expect(tables.jobs[0]).toMatchObject({
+      status: JobStatus.Queued,
+      run_at: new Date(NOW.getTime() + 60_000).toISOString(),
+      last_error: 'Timeout',
+      locked_at: null,
+    })
+  })
+
+  it('waits at least as long as the site asked', async () => {
+    const job = runningJob()
+    const { client, tables } = queue([{ ...job }])
+
+    await failJob(client, job, new PolitenessError('Retry-After too long', 'https://thealexandrian.net/', 429, 3_600_000))
+
+    expect(tables.jobs[0].run_at).toBe(new Date(NOW.getTime() + 3_600_000).toISOString())
+  })
+
+  it('marks the job failed on its last attempt', async () => {
+    const job = runningJob({ attempts: 3 })
+    const { client, tables } = queue([{ ...job }])
+
+    expect(await failJob(client, job, new Error('Timeout'))).toBe(JobStatus.Failed)
+    expect(tables.jobs[0]).toMatchObject({ status: JobStatus.Failed, finished_at: NOW.toISOString() })
+  })
+
+  it('leaves cancelled jobs alone', async () => {
+    const job = runningJob()
+    const { client, tables } = queue([{ ...job, status: JobStatus.Cancelled }])
+
+    await failJob(client, job, new Error('Timeout'))
+
+    expect(tables.jobs[0].status).toBe(JobStatus.Cancelled)
+  })
+})
+
+describe('cancelJob', () => {
+  it('cancels queued and running jobs only', async () => {
+    const { client, tables } = queue([
+      runningJob({ id: 'queued', status: JobStatus.Queued }),
+      runningJob({ id: 'running' }),
+      runningJob({ id: 'done', status: JobStatus.Succeeded }),
+    ])
+
+    expect(await cancelJob(client, 'queued')).toMatchObject({ status: JobStatus.Cancelled })
+    expect(await cancelJob(client, 'running')).toMatchObject({ status: JobStatus.Cancelled })
+    expect(await cancelJob(client, 'done')).toBeNull()
+    expect(tables.jobs.map(job => job.status)).toEqual([JobStatus.Cancelled, JobStatus.Cancelled, JobStatus.Succeeded])
+  })
+})
+
+describe('runJob', () => {
+  it('completes the job and enqueues the continuation under the same key', async () => {
+    const job = runningJob({ dedupe_key: 'crawl', payload: { batchSize: 10 } })
+    const { client, tables } = queue([{ ...job }])
+    vi.mocked(crawlPendingLinks).mockResolvedValue({ visited: ['https://thealexandrian.net/'], pending: 5, cancelled: false })
+
+    expect(await runJob(client, job)).toBe(JobStatus.Succeeded)
+    expect(tables.jobs.map(row => [row.status, row.dedupe_key, row.payload])).toEqual([
+      [JobStatus.Succeeded, 'crawl', { batchSize: 10 }],
+      [JobStatus.Queued, 'crawl', { batchSize: 10 }],
+    ])
+  })
+
+  it('requeues a failed handler with backoff', async () => {
+    const job = runningJob()
+    const { client, tables } = queue([{ ...job }])
+    vi.mocked(crawlPendingLinks).mockRejectedValue(new Error('Supabase unavailable'))
+
+    expect(await runJob(client, job)).toBe(JobStatus.Queued)
+    expect(tables.jobs[0]).toMatchObject({ status: JobStatus.Queued, last_error: 'Supabase unavailable' })
+  })
+
+  it('discards the outcome of a job cancelled while it ran', async () => {
+    const job = runningJob()
+    const { client, tables } = queue([{ ...job }])
+    vi.mocked(crawlPendingLinks).mockImplementation(async () => {
+      await cancelJob(client, job.id)
+      return { visited: [], pending: 3, cancelled: true }
+    })
+
+    expect(await runJob(client, job)).toBe(JobStatus.Cancelled)
+    expect(tables.jobs).toHaveLength(1)
+    expect(tables.jobs[0].status).toBe(JobStatus.Cancelled)
+  })
+
+  it('fails unknown job types without retrying', async () => {
+    const job = runningJob({ type: 'reticulate-splines' })
+    const { client, tables } = queue([{ ...job }])
+
+    expect(await runJob(client, job)).toBe(JobStatus.Failed)
+    expect(tables.jobs[0]).toMatchObject({ status: JobStatus.Failed, last_error: 'Unknown job type: reticulate-splines' })
+  })
+
+  it('renews the lease while the handler runs', async () => {
+    const job = runningJob()
+    const { client, tables } = queue([{ ...job }])
+    let finish = () => {}
+    vi.mocked(crawlPendingLinks).mockImplementation(() => new Promise((resolve) => {
+      finish = () => resolve({ visited: [], pending: 0, cancelled: false })
+    }))
+
+    const running = runJob(client, job, 90)
+    await vi.advanceTimersByTimeAsync(65_000)
+    expect(tables.jobs[0].locked_at).toBe(new Date(NOW.getTime() + 60_000).toISOString())
+
+    finish()
+    expect(await running).toBe(JobStatus.Succeeded)
+
+    // No renewals after the job finished
+    const lockedAt = tables.jobs[0].locked_at
+    await vi.advanceTimersByTimeAsync(120_000)
+    expect(tables.jobs[0].locked_at).toBe(lockedAt)
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * ALEXANDRIAN SCRAPING - Internal Link Tests
+ *
+ * parseLinkTarget() and rewriteInternalLinks() decide which source-site links
+ * point at our routes (links.ts). The lookup stands in for the database;
+ * rewriteArticleLinks() runs against the in-memory Supabase stand-in.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseLinkTarget, rewriteArticleLinks, rewriteInternalLinks, toSlug } from '../../server/utils/links'
+import { createFakeSupabase } from '../helpers/supabase'
+
+const baseUrl = 'https://thealexandrian.net/wordpress/1118/roleplaying-games/three-clue-rule'
+
+describe('parseLinkTarget', () => {
+  it('reads the post id of article links and keeps the fragment', () => {
+    expect(parseLinkTarget('https://thealexandrian.net/wordpress/1119/roleplaying-games/node-based-scenario-design#comments'))
+      .toEqual({ source: 'alexandrian', kind: 'article', key: '1119', hash: '#comments' })
+  })
+
+  it('reads tag and category slugs, ignoring pagination', () => {
+    expect(parseLinkTarget('https://thealexandrian.net/tag/three-clue-rule/page/2'))
+      .toEqual({ source: 'alexandrian', kind: 'tag', key: 'three-clue-rule', hash: '' })
+    expect(parseLinkTarget('https://thealexandrian.net/category/roleplaying-games/'))
+      .toEqual({ source: 'alexandrian', kind: 'category', key: 'roleplaying-games', hash: '' })
+  })
+
+  it('ignores other pages and other sites', () => {
+    expect(parseLinkTarget('https://thealexandrian.net/about')).toBeNull()
+    expect(parseLinkTarget('https://example.com/wordpress/1119/rpg/post')).toBeNull()
+  })
+})
+
+describe('rewriteInternalLinks', () => {
+  const paths = new Map([
+    ['alexandrian:article:1119', '/post/7b6c0d4e-0000-4000-8000-000000000001'],
+    ['alexandrian:tag:three-clue-rule', '/tags/three-clue-rule'],
+  ])
+
+  it('points resolved links at our routes', () => {
+    const html = '<p><a href="/wordpress/1119/roleplaying-games/node-based-scenario-design#part-2">Nodes</a> '
+      + '<a href="https://thealexandrian.net/tag/three-clue-rule">Tag</a></p>'
+
+    expect(rewriteInternalLinks(html, baseUrl, paths)).toEqual({
+      html: '<p><a href="/post/7b6c0d4e-0000-4000-8000-000000000001#part-2">Nodes</a> '
+        + '<a href="/tags/three-clue-rule">Tag</a></p>',
+      rewritten: 2,
+      unresolved: [],
+    })
+  })
+
+  it('keeps unresolved links and reports each URL once', () => {
+    const href = 'https://thealexandrian.net/wordpress/2000/roleplaying-games/missing-post'
+    const html = `<p><a href="${href}">One</a> <a href="${href}">Two</a> <a href="https://example.com/">Elsewhere</a></p>`
+
+    expect(rewriteInternalLinks(html, baseUrl, paths)).toEqual({
+      html,
+      rewritten: 0,
+      unresolved: [{ source: 'alexandrian', kind: 'article', key: '2000', href }],
+    })
+  })
+
+  it('leaves links that were already rewritten alone', () => {
+    const html = '<a href="/post/7b6c0d4e-0000-4000-8000-000000000001">Nodes</a>'
+
+    expect(rewriteInternalLinks(html, baseUrl, paths)).toEqual({ html, rewritten: 0, unresolved: [] })
+  })
+})
+
+describe('toSlug', () => {
+  it('builds WordPress-style slugs', () => {
+    expect(toSlug('Three Clue Rule')).toBe('three-clue-rule')
+    expect(toSlug("Gamemaster's Café")).toBe('gamemasters-cafe')
+    expect(toSlug('Roleplaying Games / Theory')).toBe('roleplaying-games-theory')
+  })
+})
+
+describe('rewriteArticleLinks', () => {
+  const tagLink = '<a href="https://thealexandrian.net/tag/three-clue-rule">Tag</a>'
+  const changedAt = '2026-10-18T10:00:00.000000+00:00'
+
+  function database(article: { content: string; ai_content: string | null }, failWrite?: (table: string) => string | null) {
+    return createFakeSupabase({
+      articles: [{ id: 'a1', source: 'alexandrian', old_id: 1118, link: baseUrl, content_changed_at: changedAt, ...article }],
+      tags: [{ slug: 'three-clue-rule' }],
+      unresolved_links: [],
+    }, { failWrite })
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+  })
+
+  it('rewrites content changed while links were being resolved, instead of reverting it', async () => {
+    const { client, tables } = database({ content: `<p>${tagLink}</p>`, ai_content: null }, table => {
+      // A re-scrape lands between the read and the first write
+      if (table === 'articles' && tables.articles[0].content_changed_at === changedAt) {
+        Object.assign(tables.articles[0], { content: `<p>Updated ${tagLink}</p>`, content_changed_at: '2026-10-18T10:05:00.000000+00:00' })
+      }
+      return null
+    })
+
+    expect(await rewriteArticleLinks(client, 'a1')).toMatchObject({ rewritten: 1, unresolved: 0 })
+    expect(tables.articles[0].content).toBe('<p>Updated <a href="/tags/three-clue-rule">Tag</a></p>')
+    expect(tables.articles[0].links_rewritten_at).toEqual(expect.any(String))
+  })
+
+  it('leaves ai_content alone when none of its links changed', async () => {
+    const { client, tables } = database({ content: `<p>${tagLink}</p>`, ai_content: '<p>Remix</p>' }, table => {
+      // A suggestion approval lands between the read and the write
+      if (table === 'articles') tables.articles[0].ai_content = '<p>Approved remix</p>'
+      return null
+    })
+
+    await rewriteArticleLinks(client, 'a1')
+
+    expect(tables.articles[0]).toMatchObject({ content: '<p><a href="/tags/three-clue-rule">Tag</a></p>', ai_content: '<p>Approved remix</p>' })
+  })
+})
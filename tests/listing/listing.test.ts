@@ -0,0 +1,117 @@
+/**
+ * ALEXANDRIAN SCRAPING - Article Listing Tests
+ *
+ * Query parameters and cursors of GET /api/articles (listing.ts). Cursors are
+ * opaque to clients but must round-trip exactly and only continue the sort
+ * they were made for.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { cursorFilter, decodeCursor, encodeCursor, monthRange, parseArticleListQuery } from '../../server/utils/listing'
+import type { ArticleCursor } from '../../server/utils/listing'
+
+const id = '7b6c0d4e-1f2a-4b3c-8d9e-0a1b2c3d4e5f'
+
+describe('parseArticleListQuery', () => {
+  it('defaults to newest first, page 1 of 12', () => {
+    expect(parseArticleListQuery({})).toEqual({
+      tag: undefined,
+      category: undefined,
+      dateFrom: undefined,
+      dateTo: undefined,
+      hasAi: undefined,
+      hasComments: undefined,
+      sort: 'date',
+      order: 'desc',
+      page: 1,
+      limit: 12,
+      cursor: undefined,
+    })
+  })
+
+  it('uses each sort\'s own default direction unless order is given', () => {
+    expect(parseArticleListQuery({ sort: 'title' }).order).toBe('asc')
+    expect(parseArticleListQuery({ sort: 'comments' }).order).toBe('desc')
+    expect(parseArticleListQuery({ sort: 'date', order: 'asc' }).order).toBe('asc')
+  })
+
+  it('reads filters and caps the page size', () => {
+    const query = parseArticleListQuery({
+      tag: 'three-clue-rule', category: 'roleplaying-games', year: '2010', month: '2',
+      hasAi: 'true', hasComments: '0', page: '3', limit: '500',
+    })
+
+    expect(query).toMatchObject({
+      tag: 'three-clue-rule',
+      category: 'roleplaying-games',
+      dateFrom: '2010-02-01T00:00:00.000Z',
+      dateTo: '2010-03-01T00:00:00.000Z',
+      hasAi: true,
+      hasComments: false,
+      page: 3,
+      limit: 50,
+    })
+  })
+
+  it.each([
+    [{ sort: 'rating' }],
+    [{ sort: 'constructor', order: 'asc' }],
+    [{ sort: 'toString' }],
+    [{ order: 'sideways' }],
+    [{ month: '5' }],
+    [{ year: '10' }],
+    [{ year: '2010', month: '13' }],
+    [{ hasAi: 'maybe' }],
+    [{ cursor: 'not-a-cursor' }],
+  ])('rejects %j with 400', (query) => {
+    expect(() => parseArticleListQuery(query)).toThrow(expect.objectContaining({ statusCode: 400 }))
+  })
+
+  it('rejects a cursor made for another sort', () => {
+    const cursor = encodeCursor({ sort: 'date', order: 'desc', value: '2010-02-01T00:00:00+00:00', id })
+
+    expect(parseArticleListQuery({ cursor }).cursor?.id).toBe(id)
+    expect(() => parseArticleListQuery({ cursor, sort: 'title' })).toThrow(expect.objectContaining({ statusCode: 400 }))
+  })
+})
+
+describe('cursors', () => {
+  it('round-trip through encodeCursor and decodeCursor', () => {
+    const cursors: ArticleCursor[] = [
+      { sort: 'date', order: 'desc', value: '2010-02-01T12:30:00.123456+00:00', id },
+      { sort: 'title', order: 'asc', value: 'Thinking About "Plot", (Part 2) – Ménage', id },
+      { sort: 'comments', order: 'desc', value: 0, id },
+    ]
+
+    for (const cursor of cursors) {
+      const encoded = encodeCursor(cursor)
+      expect(encoded).toMatch(/^[\w-]+$/)
+      expect(decodeCursor(encoded)).toEqual(cursor)
+    }
+  })
+
+  it('reject a cursor naming an inherited property as its sort', () => {
+    const cursor = Buffer.from(JSON.stringify(['constructor', 'asc', 'x', id])).toString('base64url')
+
+    expect(() => decodeCursor(cursor)).toThrow(expect.objectContaining({ statusCode: 400 }))
+  })
+
+  it('continue strictly after the last (value, id) in the sort direction', () => {
+    expect(cursorFilter({ sort: 'comments', order: 'desc', value: 4, id }))
+      .toBe(`comment_count.lt.4,and(comment_count.eq.4,id.lt."${id}")`)
+    expect(cursorFilter({ sort: 'date', order: 'asc', value: '2010-02-01T00:00:00+00:00', id }))
+      .toBe(`created_at.gt."2010-02-01T00:00:00+00:00",and(created_at.eq."2010-02-01T00:00:00+00:00",id.gt."${id}")`)
+  })
+
+  it('quote titles so commas, parentheses and quotes stay inside the value', () => {
+    expect(cursorFilter({ sort: 'title', order: 'asc', value: 'Clues, "Leads" (Part 1)', id }))
+      .toBe(`title.gt."Clues, \\"Leads\\" (Part 1)",and(title.eq."Clues, \\"Leads\\" (Part 1)",id.gt."${id}")`)
+  })
+})
+
+describe('monthRange', () => {
+  it('covers a whole year, or one month across the year boundary', () => {
+    expect(monthRange(2010)).toEqual({ from: '2010-01-01T00:00:00.000Z', to: '2011-01-01T00:00:00.000Z' })
+    expect(monthRange(2010, 12)).toEqual({ from: '2010-12-01T00:00:00.000Z', to: '2011-01-01T00:00:00.000Z' })
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * ALEXANDRIAN SCRAPING - LLM Provider Tests
+ *
+ * The AI endpoints talk to providers through llm.ts. The mock provider must
+ * answer the same prompt the same way, and the OpenAI-compatible provider
+ * (also used for OpenRouter) must send chat completions requests and surface
+ * failures as LlmError. Requests go to a stub fetch, never the network.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  LlmError,
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  createOpenRouterProvider,
+  processArticleWithAI,
+} from '../../server/utils/llm'
+import type { LlmMessage } from '../../server/utils/llm'
+
+/**
+ * Stub fetch answering every request with one response, recording requests.
+ */
+function stubFetch(status: number, body: unknown) {
+  const requests: { url: string; init: RequestInit }[] = []
+  const fetch = (async (url: string, init: RequestInit) => {
+    requests.push({ url, init })
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+  }) as typeof globalThis.fetch
+
+  return { fetch, requests }
+}
+
+describe('createMockProvider', () => {
+  it('answers the same prompt the same way', async () => {
+    const provider = createMockProvider()
+    const first = await processArticleWithAI('Summarize: The Three Clue Rule\n...', provider)
+
+    expect(first).toMatch(/^\[mock [0-9a-f]{8}\] Summarize: The Three Clue Rule$/)
+    expect(await processArticleWithAI('Summarize: The Three Clue Rule\n...', provider)).toBe(first)
+    expect(await processArticleWithAI('Summarize: Node-Based Scenario Design\n...', provider)).not.toBe(first)
+  })
+
+  it('uses custom answers and sends the system prompt first', async () => {
+    let received: LlmMessage[] = []
+    const provider = createMockProvider({
+      respond: (messages) => {
+        received = messages
+        return 'Three Clue Rule'
+      },
+      model: 'test-model',
+    })
+
+    expect(provider.model).toBe('test-model')
+    expect(await processArticleWithAI('Shorten this title', provider)).toBe('Three Clue Rule')
+    expect(received.map(message => message.role)).toEqual(['system', 'user'])
+    expect(received[1].content).toBe('Shorten this title')
+  })
+})
+
+describe('createOpenAICompatibleProvider', () => {
+  it('posts chat completions and returns the first choice', async () => {
+    const { fetch, requests } = stubFetch(200, { choices: [{ message: { content: 'Answer' } }] })
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1', fetch })
+
+    expect(await provider.complete([{ role: 'user', content: 'Question' }])).toBe('Answer')
+    expect(requests[0].url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(JSON.parse(requests[0].init.body as string)).toEqual({
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'Question' }],
+    })
+    // No key configured: no Authorization header
+    expect(requests[0].init.headers).not.toHaveProperty('Authorization')
+  })
+
+  it('asks for JSON mode when a schema is given', async () => {
+    const { fetch, requests } = stubFetch(200, { choices: [{ message: { content: '{"title":"Answer"}' } }] })
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch })
+
+    await provider.complete([{ role: 'user', content: 'Question' }], { schema: { title: { type: 'string', description: 'Title' } } })
+
+    expect(JSON.parse(requests[0].init.body as string).response_format).toEqual({ type: 'json_object' })
+  })
+
+  it('sends the prompt\'s sampling parameters', async () => {
+    const { fetch, requests } = stubFetch(200, { choices: [{ message: { content: 'Answer' } }] })
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch })
+
+    await processArticleWithAI('Question', provider, { temperature: 0, maxTokens: 100 })
+
+    expect(JSON.parse(requests[0].init.body as string)).toMatchObject({ temperature: 0, max_tokens: 100 })
+  })
+
+  it('throws LlmError with the status for failed requests', async () => {
+    const { fetch } = stubFetch(429, { error: 'Rate limited' })
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', apiKey: 'key', model: 'm', fetch })
+
+    await expect(provider.complete([{ role: 'user', content: 'Question' }])).rejects.toMatchObject({
+      name: 'LlmError',
+      statusCode: 429,
+      response: { error: 'Rate limited' },
+    })
+  })
+
+  it('throws LlmError for answers without content', async () => {
+    const { fetch } = stubFetch(200, { choices: [] })
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch })
+
+    await expect(provider.complete([{ role: 'user', content: 'Question' }])).rejects.toBeInstanceOf(LlmError)
+  })
+})
+
+describe('createOpenRouterProvider', () => {
+  it('defaults to the OpenRouter model', () => {
+    expect(createOpenRouterProvider({ apiKey: 'key' }).model).toBe('deepseek/deepseek-chat-v3-0324:free')
+    expect(createOpenRouterProvider({ apiKey: 'key', model: 'openai/gpt-4.1-nano' }).model).toBe('openai/gpt-4.1-nano')
+  })
+})
@@ -0,0 +1,216 @@
+/**
+ * ALEXANDRIAN SCRAPING - Crawl Politeness Tests
+ *
+ * robots.txt group selection and path rules, and the polite fetcher's pacing
+ * and backoff against a node:http server on localhost. The fetcher's clock and
+ * sleep are fake, so Crawl-delay and Retry-After waits are recorded instead of
+ * slept through.
+ */
+
+import { createServer } from 'node:http'
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { PolitenessError, createPoliteFetcher, isPathAllowed, parseRetryAfter, parseRobotsTxt } from '../../server/utils/politeness'
+
+const START = Date.parse('2026-10-18T12:00:00Z')
+const config = { userAgent: 'AlexandrianArchiveBot/1.0', minDelayMs: 0, requestsPerMinute: 1000, maxRetries: 2, backoffBaseMs: 1000, maxBackoffMs: 60_000 }
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void
+
+let server: Server
+let origin = ''
+let routes: Record<string, Handler> = {}
+let requests: { path: string; userAgent?: string }[] = []
+
+/**
+ * Handler answering with a status, body and headers.
+ */
+function reply(status: number, body = '', headers: Record<string, string> = {}): Handler {
+  return (_req, res) => {
+    res.writeHead(status, { 'Content-Type': 'text/plain', ...headers })
+    res.end(body)
+  }
+}
+
+/**
+ * Handler answering with each response in turn (the last one repeats).
+ */
+function sequence(...handlers: Handler[]): Handler {
+  let calls = 0
+  return (req, res) => handlers[Math.min(calls++, handlers.length - 1)](req, res)
+}
+
+/**
+ * Fake clock and sleep, recording the waits.
+ */
+function fakeTime() {
+  const clock = { now: START, waits: [] as number[] }
+  return {
+    clock,
+    now: () => clock.now,
+    sleep: async (ms: number) => {
+      clock.waits.push(ms)
+      clock.now += ms
+    },
+  }
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push({ path: req.url ?? '', userAgent: req.headers['user-agent'] })
+    const route = routes[req.url ?? ''] ?? reply(404, 'Not found')
+    route(req, res)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  routes = {}
+  requests = []
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('parseRobotsTxt', () => {
+  const robots = [
+    'User-agent: *',
+    'Disallow: /wp-admin/',
+    '',
+    'User-agent: alexandrianarchivebot',
+    'User-agent: OtherBot',
+    'Disallow: /private/',
+    'Crawl-delay: 5',
+    '',
+    'User-agent: Bot',
+    'Disallow: /',
+  ].join('\n')
+
+  it('picks the group naming our product token, case-insensitively', () => {
+    expect(parseRobotsTxt(robots, 'AlexandrianArchiveBot/1.0')).toEqual({ allow: [], disallow: ['/private/'], crawlDelayMs: 5000 })
+  })
+
+  it('ignores groups whose token is only part of ours', () => {
+    expect(parseRobotsTxt(robots, 'SomeBot/2.0')).toEqual({ allow: [], disallow: ['/wp-admin/'] })
+    expect(parseRobotsTxt('User-agent: Bot\nDisallow: /\n', 'AlexandrianArchiveBot/1.0')).toEqual({ allow: [], disallow: [] })
+  })
+
+  it('falls back to the * group and ignores comments', () => {
+    expect(parseRobotsTxt('User-agent: * # everyone\nDisallow: /feed/ # no feeds\n', 'AlexandrianArchiveBot/1.0'))
+      .toEqual({ allow: [], disallow: ['/feed/'] })
+  })
+})
+
+describe('isPathAllowed', () => {
+  const rules = { allow: ['/wp-admin/admin-ajax.php'], disallow: ['/wp-admin/', '/*?replytocom=', '/*.pdf$'] }
+
+  it('applies the longest matching pattern, with wildcards and $', () => {
+    expect(isPathAllowed(rules, '/wp-admin/options.php')).toBe(false)
+    expect(isPathAllowed(rules, '/wp-admin/admin-ajax.php')).toBe(true)
+    expect(isPathAllowed(rules, '/wordpress/1/post?replytocom=5')).toBe(false)
+    expect(isPathAllowed(rules, '/files/map.pdf')).toBe(false)
+    expect(isPathAllowed(rules, '/files/map.pdf.html')).toBe(true)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('120', START)).toBe(120_000)
+    expect(parseRetryAfter(new Date(START + 30_000).toUTCString(), START)).toBe(30_000)
+    expect(parseRetryAfter('soon', START)).toBeNull()
+    expect(parseRetryAfter(null, START)).toBeNull()
+  })
+})
+
+describe('createPoliteFetcher against a local server', () => {
+  it('sends the User-Agent and refuses disallowed paths without requesting them', async () => {
+    routes['/robots.txt'] = reply(200, 'User-agent: *\nDisallow: /private/\n')
+    routes['/page'] = reply(200, 'Hello')
+    const fetcher = createPoliteFetcher(config, fakeTime())
+
+    expect((await fetcher.fetch(`${origin}/page`)).body).toBe('Hello')
+    await expect(fetcher.fetch(`${origin}/private/page`)).rejects.toBeInstanceOf(PolitenessError)
+
+    expect(requests).toEqual([
+      { path: '/robots.txt', userAgent: 'AlexandrianArchiveBot/1.0' },
+      { path: '/page', userAgent: 'AlexandrianArchiveBot/1.0' },
+    ])
+  })
+
+  it('blocks the origin while robots.txt is unreachable', async () => {
+    routes['/robots.txt'] = reply(503)
+    routes['/page'] = reply(200, 'Hello')
+    const fetcher = createPoliteFetcher(config, fakeTime())
+
+    expect(await fetcher.isAllowed(`${origin}/page`)).toBe(false)
+  })
+
+  it('spaces requests by the Crawl-delay', async () => {
+    routes['/robots.txt'] = reply(200, 'User-agent: AlexandrianArchiveBot\nCrawl-delay: 3\n')
+    routes['/a'] = reply(200, 'A')
+    routes['/b'] = reply(200, 'B')
+    const time = fakeTime()
+    const fetcher = createPoliteFetcher(config, time)
+
+    await fetcher.fetch(`${origin}/a`)
+    await fetcher.fetch(`${origin}/b`)
+
+    // robots.txt itself counts as the first request
+    expect(time.clock.waits).toEqual([3000, 3000])
+  })
+
+  it('waits for Retry-After on 429', async () => {
+    routes['/page'] = sequence(reply(429, 'Slow down', { 'Retry-After': '20' }), reply(200, 'Hello'))
+    const time = fakeTime()
+    const fetcher = createPoliteFetcher({ ...config, respectRobotsTxt: false }, time)
+
+    expect((await fetcher.fetch(`${origin}/page`)).body).toBe('Hello')
+    expect(time.clock.waits).toEqual([20_000])
+  })
+
+  it('backs off exponentially on 5xx and gives up after maxRetries', async () => {
+    routes['/page'] = reply(503, 'Unavailable')
+    const time = fakeTime()
+    const fetcher = createPoliteFetcher({ ...config, respectRobotsTxt: false }, time)
+
+    await expect(fetcher.fetch(`${origin}/page`)).rejects.toMatchObject({ statusCode: 503 })
+    expect(requests).toHaveLength(config.maxRetries + 1)
+    expect(time.clock.waits).toEqual([1000, 2000])
+  })
+
+  it('fails instead of shortening a Retry-After longer than maxBackoffMs', async () => {
+    routes['/page'] = reply(429, 'Come back tomorrow', { 'Retry-After': '3600' })
+    routes['/other'] = reply(200, 'Hello')
+    const time = fakeTime()
+    const fetcher = createPoliteFetcher({ ...config, respectRobotsTxt: false }, time)
+
+    await expect(fetcher.fetch(`${origin}/page`)).rejects.toMatchObject({ statusCode: 429, retryAfterMs: 3_600_000 })
+
+    // The origin stays blocked for the full hour
+    time.clock.now += 30 * 60 * 1000
+    await expect(fetcher.fetch(`${origin}/other`)).rejects.toMatchObject({ retryAfterMs: 30 * 60 * 1000 })
+    expect(requests.map(request => request.path)).toEqual(['/page'])
+    expect(time.clock.waits).toEqual([])
+  })
+
+  it('fails instead of shortening a Crawl-delay longer than maxBackoffMs', async () => {
+    routes['/robots.txt'] = reply(200, 'User-agent: *\nCrawl-delay: 120\n')
+    routes['/a'] = reply(200, 'A')
+    const fetcher = createPoliteFetcher(config, fakeTime())
+
+    await expect(fetcher.fetch(`${origin}/a`)).rejects.toMatchObject({ retryAfterMs: 120_000 })
+    expect(requests.map(request => request.path)).toEqual(['/robots.txt'])
+  })
+
+  it('doesn\'t retry other client errors', async () => {
+    routes['/robots.txt'] = reply(404)
+    const fetcher = createPoliteFetcher(config, fakeTime())
+
+    await expect(fetcher.fetch(`${origin}/missing`)).rejects.toMatchObject({ statusCode: 404 })
+    expect(requests.map(request => request.path)).toEqual(['/robots.txt', '/missing'])
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * ALEXANDRIAN SCRAPING - Prompt Registry Tests
+ *
+ * Every AI write records the id and version of the prompt that produced it,
+ * so registered templates must be consistent: unique ids, semantic versions,
+ * and placeholders matching their declared variables. formatPrompt() must
+ * fail loudly on missing or unknown variables instead of dropping lines.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  ARTICLE_SUMMARY,
+  BLOG_ENHANCEMENT,
+  PROMPT_REGISTRY,
+  PromptError,
+  TITLE_OPTIMIZATION,
+  formatPrompt,
+  getPromptTemplate,
+  promptRef,
+} from '../../server/utils/prompts'
+import type { PromptTemplate } from '../../server/utils/prompts'
+
+const template: PromptTemplate = {
+  id: 'test',
+  prompt: 'Title: {title}\nTags: {tags}\n\n{articleContent}',
+  description: 'Test prompt',
+  version: '1.0.0',
+  variables: { articleContent: 'required', title: 'required', tags: 'optional' },
+  parameters: {},
+}
+
+describe('PROMPT_REGISTRY', () => {
+  it('registers every template under its id with a semantic version', () => {
+    expect(Object.keys(PROMPT_REGISTRY).sort()).toEqual(['article-summary', 'blog-enhancement', 'chunk-summary', 'title-optimization'])
+    for (const [id, registered] of Object.entries(PROMPT_REGISTRY)) {
+      expect(registered.id).toBe(id)
+      expect(registered.version).toMatch(/^\d+\.\d+\.\d+$/)
+    }
+    expect(getPromptTemplate('title-optimization')).toBe(TITLE_OPTIMIZATION)
+    expect(getPromptTemplate('missing')).toBeUndefined()
+  })
+
+  it('declares exactly the placeholders each template uses', () => {
+    for (const registered of Object.values(PROMPT_REGISTRY)) {
+      const placeholders = new Set(Array.from(registered.prompt.matchAll(/\{(\w+)\}/g), match => match[1]))
+      expect([...placeholders].sort(), registered.id).toEqual(Object.keys(registered.variables).sort())
+    }
+  })
+
+  it('gives the id and version to record', () => {
+    expect(promptRef(ARTICLE_SUMMARY)).toEqual({ promptId: 'article-summary', promptVersion: ARTICLE_SUMMARY.version })
+  })
+})
+
+describe('formatPrompt', () => {
+  it('fills every placeholder, joining lists', () => {
+    expect(formatPrompt(template, { articleContent: '<p>Clues.</p>', title: 'Three Clue Rule', tags: ['GM', 'Mystery'] }))
+      .toBe('Title: Three Clue Rule\nTags: GM, Mystery\n\n<p>Clues.</p>')
+  })
+
+  it('renders optional variables left out as empty text', () => {
+    expect(formatPrompt(template, { articleContent: '<p>Clues.</p>', title: 'Three Clue Rule', tags: [] }))
+      .toBe('Title: Three Clue Rule\nTags: \n\n<p>Clues.</p>')
+  })
+
+  it('keeps replacement patterns in values as they are', () => {
+    expect(formatPrompt(BLOG_ENHANCEMENT, { articleContent: '<p>Costs $& and $1</p>' })).toContain('<p>Costs $& and $1</p>')
+  })
+
+  it('fails on missing required variables', () => {
+    expect(() => formatPrompt(template, { articleContent: '<p>Clues.</p>' })).toThrow(PromptError)
+    expect(() => formatPrompt(template, { articleContent: '', title: 'Three Clue Rule' })).toThrow('Missing variables for prompt test: articleContent')
+  })
+
+  it('fails on variables the template does not declare', () => {
+    expect(() => formatPrompt(BLOG_ENHANCEMENT, { articleContent: '<p>Clues.</p>', title: 'Three Clue Rule' }))
+      .toThrow('Unknown variables for prompt blog-enhancement: title')
+  })
+
+  it('fails on placeholders the template does not declare', () => {
+    const broken = { ...template, prompt: `${template.prompt}\n{content}` }
+
+    expect(() => formatPrompt(broken, { articleContent: '<p>Clues.</p>', title: 'Three Clue Rule' })).toThrow('undeclared variable: {content}')
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * ALEXANDRIAN SCRAPING - LLM Rate Limiting Tests
+ *
+ * Batches must go as fast as the model's quota allows and no faster: the
+ * token bucket paces requests, rate-limit headers drain and block it, and
+ * failed requests are retried after Retry-After or a jittered backoff.
+ * Time is a fake clock advanced by the fake sleep; requests go to a stub
+ * fetch, never the network.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { createTokenBucket, isRetryableStatus, parseRateLimitHeaders, retryDelay } from '../../server/utils/rate-limit'
+import { createOpenAICompatibleProvider } from '../../server/utils/llm'
+
+const START = Date.parse('2026-10-18T12:00:00Z')
+const policy = { maxRetries: 3, backoffBaseMs: 1000, maxBackoffMs: 10_000, timeoutMs: 0 }
+
+/**
+ * Fake clock and sleep, recording the waits.
+ */
+function fakeTime() {
+  const clock = { now: START, waits: [] as number[] }
+  return {
+    clock,
+    now: () => clock.now,
+    sleep: async (ms: number) => {
+      clock.waits.push(ms)
+      clock.now += ms
+    },
+  }
+}
+
+/**
+ * Stub fetch answering with the responses in order (the last one repeats).
+ */
+function stubFetch(responses: { status: number; body?: unknown; headers?: Record<string, string> }[]) {
+  let calls = 0
+  const fetch = (async () => {
+    const { status, body, headers } = responses[Math.min(calls++, responses.length - 1)]
+    return new Response(JSON.stringify(body ?? { choices: [{ message: { content: 'Answer' } }] }), { status, headers })
+  }) as unknown as typeof globalThis.fetch
+
+  return { fetch, calls: () => calls }
+}
+
+describe('createTokenBucket', () => {
+  it('lets bursts through, then paces at the refill rate', async () => {
+    const time = fakeTime()
+    const bucket = createTokenBucket(20, 2, time)
+
+    for (let i = 0; i < 4; i++) await bucket.take()
+
+    // Two from the burst, then one every 3 seconds
+    expect(time.clock.waits).toEqual([3000, 3000])
+  })
+
+  it('serves concurrent callers in order', async () => {
+    const time = fakeTime()
+    const bucket = createTokenBucket(60, 1, time)
+    const order: number[] = []
+
+    await Promise.all([1, 2, 3].map(n => bucket.take().then(() => order.push(n))))
+
+    expect(order).toEqual([1, 2, 3])
+    expect(time.clock.now - START).toBe(2000)
+  })
+
+  it('waits out pauses', async () => {
+    const time = fakeTime()
+    const bucket = createTokenBucket(0, 1, time)
+
+    await bucket.take()
+    bucket.pause(5000)
+    await bucket.take()
+
+    expect(time.clock.waits).toEqual([5000])
+  })
+
+  it('blocks until the reset when the headers say nothing remains', async () => {
+    const time = fakeTime()
+    const bucket = createTokenBucket(60, 5, time)
+
+    bucket.observe(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(START + 12_000) }))
+    await bucket.take()
+
+    expect(time.clock.now - START).toBe(12_000)
+  })
+})
+
+describe('parseRateLimitHeaders', () => {
+  it('reads OpenRouter\'s headers (reset in epoch milliseconds)', () => {
+    const headers = new Headers({ 'X-RateLimit-Limit': '20', 'X-RateLimit-Remaining': '7', 'X-RateLimit-Reset': String(START + 30_000) })
+
+    expect(parseRateLimitHeaders(headers, START)).toEqual({ limit: 20, remaining: 7, resetAt: START + 30_000, retryAfterMs: null })
+  })
+
+  it('accepts resets in epoch seconds or seconds from now, and Retry-After', () => {
+    expect(parseRateLimitHeaders(new Headers({ 'X-RateLimit-Reset': String(START / 1000 + 30) }), START).resetAt).toBe(START + 30_000)
+    expect(parseRateLimitHeaders(new Headers({ 'X-RateLimit-Reset': '30' }), START).resetAt).toBe(START + 30_000)
+    expect(parseRateLimitHeaders(new Headers({ 'Retry-After': '4' }), START).retryAfterMs).toBe(4000)
+    expect(parseRateLimitHeaders(new Headers(), START)).toEqual({ limit: null, remaining: null, resetAt: null, retryAfterMs: null })
+  })
+})
+
+describe('retry policy', () => {
+  it('doubles the backoff up to the cap, randomizing the upper half', () => {
+    expect(retryDelay(0, policy, () => 0)).toBe(500)
+    expect(retryDelay(0, policy, () => 0.999)).toBe(1000)
+    expect(retryDelay(2, policy, () => 0)).toBe(2000)
+    expect(retryDelay(10, policy, () => 0.5)).toBe(7500)
+  })
+
+  it('retries rate limits, timeouts and server errors only', () => {
+    expect([408, 429, 500, 502, 503, 504].every(isRetryableStatus)).toBe(true)
+    expect([400, 401, 402, 404].some(isRetryableStatus)).toBe(false)
+  })
+})
+
+describe('createOpenAICompatibleProvider with a rate limit', () => {
+  it('retries server errors with backoff', async () => {
+    const time = fakeTime()
+    const { fetch, calls } = stubFetch([{ status: 502 }, { status: 503 }, { status: 200 }])
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch, retry: policy, sleep: time.sleep })
+
+    expect(await provider.complete([{ role: 'user', content: 'Question' }])).toBe('Answer')
+    expect(calls()).toBe(3)
+    expect(time.clock.waits).toHaveLength(2)
+    expect(time.clock.waits[1]).toBeGreaterThanOrEqual(1000)
+  })
+
+  it('holds the model\'s bucket for Retry-After on 429', async () => {
+    const time = fakeTime()
+    const limiter = createTokenBucket(0, 1, time)
+    const { fetch, calls } = stubFetch([{ status: 429, headers: { 'Retry-After': '7' } }, { status: 200 }])
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch, retry: policy, limiter, sleep: time.sleep })
+
+    expect(await provider.complete([{ role: 'user', content: 'Question' }])).toBe('Answer')
+    expect(calls()).toBe(2)
+    expect(time.clock.waits).toEqual([7000])
+  })
+
+  it('gives up after maxRetries', async () => {
+    const time = fakeTime()
+    const { fetch, calls } = stubFetch([{ status: 500, body: { error: 'Upstream down' } }])
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch, retry: policy, sleep: time.sleep })
+
+    await expect(provider.complete([{ role: 'user', content: 'Question' }])).rejects.toMatchObject({ statusCode: 500 })
+    expect(calls()).toBe(policy.maxRetries + 1)
+  })
+
+  it('doesn\'t retry client errors', async () => {
+    const time = fakeTime()
+    const { fetch, calls } = stubFetch([{ status: 401, body: { error: 'No auth' } }])
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch, retry: policy, sleep: time.sleep })
+
+    await expect(provider.complete([{ role: 'user', content: 'Question' }])).rejects.toMatchObject({ statusCode: 401 })
+    expect(calls()).toBe(1)
+  })
+
+  it('retries network errors and timeouts', async () => {
+    const time = fakeTime()
+    const failures = [new TypeError('fetch failed'), new DOMException('The operation timed out', 'TimeoutError')]
+    let calls = 0
+    const fetch = (async () => {
+      const failure = failures[calls++]
+      if (failure) throw failure
+      return new Response(JSON.stringify({ choices: [{ message: { content: 'Answer' } }] }), { status: 200 })
+    }) as unknown as typeof globalThis.fetch
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://llm', model: 'm', fetch, retry: policy, sleep: time.sleep })
+
+    expect(await provider.complete([{ role: 'user', content: 'Question' }])).toBe('Answer')
+    expect(calls).toBe(3)
+  })
+})
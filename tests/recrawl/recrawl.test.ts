@@ -0,0 +1,166 @@
+/**
+ * ALEXANDRIAN SCRAPING - Incremental Re-crawl Tests
+ *
+ * recrawlListings() revisits listing pages, records new links and queues
+ * changed articles for re-scraping (recrawl.ts). Pages come from a stub of the
+ * conditional fetch (answering 304 when the etag matches); found_links and
+ * jobs live in the in-memory Supabase stand-in.
+ */
+
+import { JSDOM } from 'jsdom'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { CrawlStatus, fetchPageConditionally, hashPageContent } from '../../server/utils/crawler'
+import { JobType } from '../../server/utils/jobs'
+import { recrawlListings } from '../../server/utils/recrawl'
+import { createFakeSupabase } from '../helpers/supabase'
+
+vi.mock('../../server/utils/crawler', async importOriginal => ({
+  ...await importOriginal<typeof import('../../server/utils/crawler')>(),
+  fetchPageConditionally: vi.fn(),
+}))
+
+const SITE = 'https://thealexandrian.net/'
+const tag = `${SITE}tag/gamemastery-101`
+const article = `${SITE}wordpress/1118/roleplaying-games/three-clue-rule`
+const newArticle = `${SITE}wordpress/1119/roleplaying-games/three-clue-rule-part-2`
+
+/**
+ * Page with links in the main column.
+ */
+function page(...links: string[]) {
+  return `<html><body><div id="yui-main">${links.map(href => `<a href="${href}">${href}</a>`).join('')}</div></body></html>`
+}
+
+/**
+ * Hash recrawlListings() stores for a page.
+ */
+function hash(html: string) {
+  return hashPageContent(new JSDOM(html).window.document)
+}
+
+/** Pages served by the stub fetch, with their etag; anything else fails */
+let pages: Record<string, { html: string; etag: string }> = {}
+
+function link(id: string, href: string, status: CrawlStatus, values: Record<string, unknown> = {}) {
+  return { id, href, status, visited: true, processed_at: null, etag: null, last_modified: null, content_hash: null, last_checked_at: null, ...values }
+}
+
+beforeEach(() => {
+  pages = {}
+  vi.clearAllMocks()
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.mocked(fetchPageConditionally).mockImplementation(async (url, validators = {}) => {
+    const served = pages[url]
+    if (!served) throw new Error(`HTTP 503 for ${url}`)
+    return {
+      notModified: validators.etag === served.etag,
+      html: validators.etag === served.etag ? '' : served.html,
+      etag: served.etag,
+      lastModified: null,
+    }
+  })
+})
+
+describe('recrawlListings', () => {
+  it('stores a baseline on the first check and queues a crawl of new links', async () => {
+    pages[SITE] = { html: page(article, newArticle), etag: '"home-1"' }
+    const { client, tables } = createFakeSupabase({
+      found_links: [link('home', SITE, CrawlStatus.Visited), link('a1', article, CrawlStatus.Article, { processed_at: '2026-10-01T00:00:00Z' })],
+      jobs: [],
+    })
+
+    const result = await recrawlListings(client)
+
+    expect(result).toEqual({ listingsChecked: 1, listingsChanged: 0, newLinks: 1, articlesChecked: 0, articlesChanged: 0, cancelled: false })
+    expect(tables.found_links[0]).toMatchObject({ etag: '"home-1"', content_hash: hash(pages[SITE].html) })
+    expect(tables.found_links[2]).toMatchObject({ href: newArticle, status: CrawlStatus.Pending })
+    expect(tables.jobs).toEqual([expect.objectContaining({ type: JobType.Crawl, dedupe_key: JobType.Crawl })])
+  })
+
+  it('re-scrapes changed articles linked from a changed listing', async () => {
+    const oldArticle = page(`${SITE}about`)
+    pages[tag] = { html: page(article, newArticle), etag: '"tag-2"' }
+    pages[article] = { html: page(`${SITE}about`, `${SITE}contact`), etag: '"a1-2"' }
+    pages[newArticle] = { html: page(), etag: '"a2-1"' }
+    const { client, tables } = createFakeSupabase({
+      found_links: [
+        link('tag', tag, CrawlStatus.Tag, { etag: '"tag-1"', content_hash: hash(page(article)) }),
+        link('a1', article, CrawlStatus.Article, { processed_at: '2026-10-01T00:00:00Z', etag: '"a1-1"', content_hash: hash(oldArticle) }),
+        link('a2', newArticle, CrawlStatus.Article, { processed_at: '2026-10-01T00:00:00Z', etag: '"a2-1"', content_hash: hash(page()) }),
+      ],
+      jobs: [],
+    })
+
+    const result = await recrawlListings(client)
+
+    expect(result).toMatchObject({ listingsChanged: 1, newLinks: 0, articlesChecked: 2, articlesChanged: 1 })
+    expect(tables.found_links.find(rec => rec.id === 'a1')).toMatchObject({ processed_at: null, etag: '"a1-2"' })
+    // Answered 304: unchanged, still processed
+    expect(tables.found_links.find(rec => rec.id === 'a2')).toMatchObject({ processed_at: '2026-10-01T00:00:00Z' })
+    expect(tables.jobs.map(job => [job.type, job.payload, job.dedupe_key])).toEqual([
+      [JobType.Scrape, { linkId: 'a1' }, `${JobType.Scrape}:a1`],
+    ])
+  })
+
+  it('leaves listings answering 304 alone', async () => {
+    pages[SITE] = { html: page(newArticle), etag: '"home-1"' }
+    const { client, tables } = createFakeSupabase({
+      found_links: [link('home', SITE, CrawlStatus.Visited, { etag: '"home-1"', content_hash: 'abc' })],
+      jobs: [],
+    })
+
+    const result = await recrawlListings(client)
+
+    expect(result).toMatchObject({ listingsChecked: 1, listingsChanged: 0, newLinks: 0 })
+    expect(tables.found_links).toHaveLength(1)
+    expect(tables.found_links[0]).toMatchObject({ content_hash: 'abc', last_checked_at: expect.any(String) })
+    expect(tables.jobs).toEqual([])
+  })
+
+  it('skips pagination pages and keeps going past an unreachable listing', async () => {
+    pages[tag] = { html: page(newArticle), etag: '"tag-1"' }
+    const { client, tables } = createFakeSupabase({
+      found_links: [
+        link('home', SITE, CrawlStatus.Visited),
+        link('page2', `${tag}/page/2`, CrawlStatus.Tag),
+        link('tag', tag, CrawlStatus.Tag),
+      ],
+      jobs: [],
+    })
+
+    const result = await recrawlListings(client)
+
+    expect(vi.mocked(fetchPageConditionally).mock.calls.map(([url]) => url)).toEqual([SITE, tag])
+    expect(result).toMatchObject({ listingsChecked: 2, newLinks: 1 })
+    expect(tables.found_links.map(rec => rec.href)).toContain(newArticle)
+  })
+
+  it('recognizes known links beyond the first 1000 rows', async () => {
+    pages[tag] = { html: page(article, newArticle), etag: '"tag-1"' }
+    const found_links = Array.from({ length: 1200 }, (_, i) =>
+      link(`link-${String(i).padStart(4, '0')}`, `${SITE}wordpress/${i}/roleplaying-games/post-${i}`, CrawlStatus.Article))
+    found_links.push(
+      link('link-1200', article, CrawlStatus.Article, { processed_at: '2026-10-01T00:00:00Z' }),
+      link('link-1201', newArticle, CrawlStatus.Pending),
+      link('link-1202', tag, CrawlStatus.Tag),
+    )
+    const { client, tables } = createFakeSupabase({ found_links, jobs: [] }, { maxRows: 1000 })
+
+    const result = await recrawlListings(client)
+
+    expect(result).toMatchObject({ listingsChecked: 1, newLinks: 0 })
+    expect(tables.found_links).toHaveLength(1203)
+    expect(tables.jobs).toEqual([])
+  })
+
+  it('stops when the job is cancelled', async () => {
+    pages[SITE] = { html: page(newArticle), etag: '"home-1"' }
+    const { client, tables } = createFakeSupabase({ found_links: [link('home', SITE, CrawlStatus.Visited)], jobs: [] })
+
+    expect(await recrawlListings(client, { isCancelled: async () => true })).toMatchObject({ listingsChecked: 0, cancelled: true })
+    expect(tables.found_links).toHaveLength(1)
+    expect(fetchPageConditionally).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * ALEXANDRIAN SCRAPING - Related Posts Tests
+ *
+ * YARPP related-post ids become article_related rows (related.ts), whichever
+ * of two related articles is scraped first. articles and article_related live
+ * in the in-memory Supabase stand-in.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildRelatedRows, resolveRelatedArticles, saveRelatedArticles } from '../../server/utils/related'
+import { createFakeSupabase } from '../helpers/supabase'
+
+function article(id: string, old_id: number, related_old_ids: number[] = [], source = 'alexandrian') {
+  return { id, source, old_id, related_old_ids }
+}
+
+function database(articles: ReturnType<typeof article>[]) {
+  return createFakeSupabase({ articles, article_related: [] })
+}
+
+/**
+ * article_related as [article_id, related_article_id, position] triples.
+ */
+function links(rows: Record<string, unknown>[]) {
+  return rows.map(row => [row.article_id, row.related_article_id, row.position])
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+})
+
+describe('buildRelatedRows', () => {
+  it('keeps the YARPP order, skipping unknown ids and links to itself', () => {
+    const ids = new Map([[1118, 'clues'], [1147, 'nodes'], [2000, 'self']])
+
+    expect(buildRelatedRows(article('self', 2000, [1147, 9999, 2000, 1118]), ids)).toEqual([
+      { article_id: 'self', related_article_id: 'nodes', position: 0 },
+      { article_id: 'self', related_article_id: 'clues', position: 3 },
+    ])
+  })
+
+  it('returns no rows for an article without related posts', () => {
+    expect(buildRelatedRows(article('self', 2000), new Map([[1118, 'clues']]))).toEqual([])
+  })
+})
+
+describe('saveRelatedArticles', () => {
+  it('links related posts already scraped and replaces rows from a previous scrape', async () => {
+    const nodes = article('nodes', 1147, [1118, 1201])
+    const { client, tables } = database([article('clues', 1118), nodes, article('plots', 1201)])
+    tables.article_related.push({ article_id: 'nodes', related_article_id: 'gone', position: 0 })
+
+    expect(await saveRelatedArticles(client, nodes)).toEqual({ linked: 2, unresolved: 0, incoming: 0 })
+    expect(links(tables.article_related)).toEqual([['nodes', 'clues', 0], ['nodes', 'plots', 1]])
+  })
+
+  it('links a related article scraped after the article listing it', async () => {
+    const clues = article('clues', 1118, [1147, 1201])
+    const { client, tables } = database([clues])
+
+    // Neither related post is scraped yet
+    expect(await saveRelatedArticles(client, clues)).toEqual({ linked: 0, unresolved: 2, incoming: 0 })
+
+    // The deferred half: saving 1201 links the waiting article to it, at its YARPP position
+    const plots = article('plots', 1201, [1118])
+    tables.articles.push(plots)
+    expect(await saveRelatedArticles(client, plots)).toEqual({ linked: 1, unresolved: 0, incoming: 1 })
+
+    expect(links(tables.article_related)).toEqual([['plots', 'clues', 0], ['clues', 'plots', 1]])
+  })
+
+  it('leaves incoming rows alone when the related article is re-scraped', async () => {
+    const clues = article('clues', 1118, [1201])
+    const plots = article('plots', 1201)
+    const { client, tables } = database([clues, plots])
+
+    await saveRelatedArticles(client, plots)
+    await saveRelatedArticles(client, plots)
+
+    expect(links(tables.article_related)).toEqual([['clues', 'plots', 0]])
+  })
+
+  it('only resolves ids within the article\'s site', async () => {
+    const clues = article('clues', 1118, [1201])
+    const { client, tables } = database([clues, article('elsewhere', 1201, [1118], 'other-site')])
+
+    expect(await saveRelatedArticles(client, clues)).toEqual({ linked: 0, unresolved: 1, incoming: 0 })
+    expect(tables.article_related).toEqual([])
+  })
+})
+
+describe('resolveRelatedArticles', () => {
+  it('links everything resolvable, keeping existing rows', async () => {
+    const { client, tables } = database([
+      article('clues', 1118, [1147, 9999]),
+      article('nodes', 1147, [1118]),
+      article('plots', 1201),
+    ])
+    tables.article_related.push({ article_id: 'clues', related_article_id: 'nodes', position: 0 })
+
+    expect(await resolveRelatedArticles(client)).toEqual({ articles: 2, linked: 2, unresolved: 1, cancelled: false })
+    expect(links(tables.article_related)).toEqual([['clues', 'nodes', 0], ['nodes', 'clues', 0]])
+  })
+})
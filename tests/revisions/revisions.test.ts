@@ -0,0 +1,74 @@
+/**
+ * ALEXANDRIAN SCRAPING - Revision Diff Tests
+ *
+ * diffRevisionValues() compares two values of an article field for the
+ * revision viewer (revisions.ts): HTML by line, titles and summaries by word.
+ * Joining the equal and added parts must give back the newer value, and the
+ * equal and removed parts the older one.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { diffRevisionValues, revisionChanges } from '../../server/utils/revisions'
+import type { DiffPart } from '../../server/utils/revisions'
+
+/**
+ * Rebuild one side of a diff.
+ */
+function side(parts: DiffPart[], keep: DiffPart['type']): string {
+  return parts.filter(part => part.type === 'equal' || part.type === keep).map(part => part.value).join('')
+}
+
+describe('diffRevisionValues', () => {
+  it('diffs titles by word', () => {
+    expect(diffRevisionValues('Three Clue Rule', 'The Three Clue Rule', 'ai_title')).toEqual([
+      { type: 'added', value: 'The ' },
+      { type: 'equal', value: 'Three Clue Rule' },
+    ])
+  })
+
+  it('diffs HTML by line, one line per block element', () => {
+    const from = '<p>One clue.</p><p>Two clues.</p><p>Three clues.</p>'
+    const to = '<p>One clue.</p><p>Two leads.</p><p>Three clues.</p><p>Conclusion.</p>'
+
+    expect(diffRevisionValues(from, to, 'content')).toEqual([
+      { type: 'equal', value: '<p>One clue.</p>\n' },
+      { type: 'removed', value: '<p>Two clues.</p>\n' },
+      { type: 'added', value: '<p>Two leads.</p>\n' },
+      { type: 'equal', value: '<p>Three clues.</p>\n' },
+      { type: 'added', value: '<p>Conclusion.</p>\n' },
+    ])
+  })
+
+  it('rebuilds both values from the parts', () => {
+    const from = 'Justin argues that every conclusion needs at least three clues.'
+    const to = 'The article argues that each conclusion needs three clues, because players miss them.'
+    const parts = diffRevisionValues(from, to, 'ai_summary')
+
+    expect(side(parts, 'removed')).toBe(from)
+    expect(side(parts, 'added')).toBe(to)
+  })
+
+  it('marks identical values as one equal part', () => {
+    expect(diffRevisionValues('Same', 'Same', 'ai_title')).toEqual([{ type: 'equal', value: 'Same' }])
+  })
+
+  it('replaces values too large to compare token by token', () => {
+    const from = Array.from({ length: 2500 }, (_, i) => `a${i}`).join(' ')
+    const to = Array.from({ length: 2500 }, (_, i) => `b${i}`).join(' ')
+
+    expect(diffRevisionValues(from, to, 'ai_summary')).toEqual([
+      { type: 'removed', value: from },
+      { type: 'added', value: to },
+    ])
+  })
+})
+
+describe('revisionChanges', () => {
+  it('keeps only revision fields that are being written', () => {
+    expect(revisionChanges({ ai_title: 'Clues', ai_summary: null }, { source: 'ai', model: 'test-model', promptVersion: '1' }))
+      .toEqual([
+        { source: 'ai', model: 'test-model', promptVersion: '1', field: 'ai_title', value: 'Clues' },
+        { source: 'ai', model: 'test-model', promptVersion: '1', field: 'ai_summary', value: null },
+      ])
+  })
+})
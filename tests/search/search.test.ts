@@ -0,0 +1,21 @@
+/**
+ * ALEXANDRIAN SCRAPING - Search Snippet Tests
+ *
+ * Snippets are article text rendered with v-html on the search page, so only
+ * the match markers from search_articles() may become tags (search.ts).
+ */
+
+import { describe, expect, it } from 'vitest'
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START, highlightSnippet } from '../../server/utils/search'
+
+describe('highlightSnippet', () => {
+  it('wraps matches in <mark>', () => {
+    expect(highlightSnippet(`the ${SNIPPET_MATCH_START}three${SNIPPET_MATCH_END} clue rule`))
+      .toBe('the <mark>three</mark> clue rule')
+  })
+
+  it('escapes markup in the article text', () => {
+    expect(highlightSnippet(`<img src=x onerror="alert('1')"> & ${SNIPPET_MATCH_START}clue${SNIPPET_MATCH_END}`))
+      .toBe('&lt;img src=x onerror=&quot;alert(&#39;1&#39;)&quot;&gt; &amp; <mark>clue</mark>')
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * ALEXANDRIAN SCRAPING - Series Detection Tests
+ *
+ * Titles and tags that make articles a series (series.ts). Titles are in the
+ * styles The Alexandrian uses for its multi-part essays. The stored pass
+ * (detectArticleSeries()) runs against the in-memory Supabase stand-in.
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { detectArticleSeries, detectSeries, parseSeriesTitle } from '../../server/utils/series'
+import type { SeriesCandidate } from '../../server/utils/series'
+import { createFakeSupabase } from '../helpers/supabase'
+
+let day = 0
+
+/**
+ * A candidate published one day after the previous one.
+ */
+function article(id: string, title: string, tags: string[] = [], source = 'alexandrian'): SeriesCandidate {
+  day++
+  return {
+    id,
+    source,
+    title,
+    created_at: new Date(Date.UTC(2010, 0, day)).toISOString(),
+    tags: tags.map(name => ({ name, slug: null })),
+  }
+}
+
+describe('parseSeriesTitle', () => {
+  it.each([
+    ['Node-Based Scenario Design – Part 3: The Plan', 'Node-Based Scenario Design', 3],
+    ['Thinking About Megadungeons (Part 2)', 'Thinking About Megadungeons', 2],
+    ['Three Clue Rule, Part II', 'Three Clue Rule', 2],
+    ['Gamemastery 101: Chapter 4', 'Gamemastery 101', 4],
+    ['Ptolus Campaign Journal - Session 12', 'Ptolus Campaign Journal', 12],
+    ['Dungeon Dressing #7: Doors', 'Dungeon Dressing', 7],
+    ['Xandering the Dungeon – Part IX', 'Xandering the Dungeon', 9],
+  ])('reads %j', (title, name, part) => {
+    expect(parseSeriesTitle(title)).toEqual({ name, part })
+  })
+
+  it.each([
+    'Three Clue Rule',
+    'Part Time Heroes',
+    'The Art of Pacing',
+    'Reactions to OD&D: Men & Magic',
+    'Part 2',
+  ])('finds no part in %j', (title) => {
+    expect(parseSeriesTitle(title)).toBeNull()
+  })
+})
+
+describe('detectSeries', () => {
+  it('groups numbered titles in publication order, skipping lone parts', () => {
+    const series = detectSeries([
+      article('p2', 'Node-Based Scenario Design – Part 2: The Node'),
+      article('p1', 'Node-Based Scenario Design - Part 1'),
+      article('x', 'Thinking About Dungeons – Part 1'),
+      article('p3', 'Node-based Scenario Design, Part 3'),
+    ])
+
+    expect(series).toEqual([{
+      source: 'alexandrian',
+      slug: 'node-based-scenario-design',
+      name: 'Node-Based Scenario Design',
+      detectedBy: 'title',
+      articles: [{ id: 'p2', part: 2 }, { id: 'p1', part: 1 }, { id: 'p3', part: 3 }],
+    }])
+  })
+
+  it('adds the unnumbered namesake and articles with the series tag', () => {
+    const series = detectSeries([
+      article('intro', 'Three Clue Rule'),
+      article('p2', 'Three Clue Rule – Part 2'),
+      article('p3', 'Three Clue Rule – Part 3'),
+      article('addendum', 'Addendum: Clue Types', ['Three Clue Rule']),
+      article('other', 'Clue Analysis', ['GM Advice']),
+    ])
+
+    expect(series).toHaveLength(1)
+    expect(series[0].articles).toEqual([
+      { id: 'intro', part: null },
+      { id: 'p2', part: 2 },
+      { id: 'p3', part: 3 },
+      { id: 'addendum', part: null },
+    ])
+  })
+
+  it('makes a series of articles sharing a "… Series" tag', () => {
+    const series = detectSeries([
+      article('a', 'Running the Campaign', ['Ptolus Series']),
+      article('b', 'The City by the Spire', ['D&D', 'Series: Ptolus']),
+      article('c', 'Lonely Post', ['Unrelated Series']),
+    ])
+
+    expect(series).toEqual([{
+      source: 'alexandrian',
+      slug: 'ptolus',
+      name: 'Ptolus',
+      detectedBy: 'tag',
+      articles: [{ id: 'a', part: null }, { id: 'b', part: null }],
+    }])
+  })
+
+  it('keeps series of different sites apart', () => {
+    const series = detectSeries([
+      article('a1', 'Thinking About RPGs – Part 1'),
+      article('b1', 'Thinking About RPGs – Part 2', [], 'other-blog'),
+    ])
+
+    expect(series).toEqual([])
+  })
+})
+
+describe('detectArticleSeries', () => {
+  it('removes every series and membership not found again, past the row cap', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const stale = Array.from({ length: 1500 }, (_, i) => `old-${String(i).padStart(4, '0')}`)
+    const { client, tables } = createFakeSupabase({
+      articles: [
+        article('p1', 'Node-Based Scenario Design - Part 1'),
+        article('p2', 'Node-Based Scenario Design - Part 2'),
+      ],
+      series: stale.map(id => ({ id, source: 'alexandrian', slug: id, name: id })),
+      article_series: stale.map((id, i) => ({ article_id: `article-${i}`, series_id: id, position: 1, part: 1 })),
+    }, { maxRows: 1000 })
+
+    const result = await detectArticleSeries(client)
+
+    expect(result).toEqual({ articles: 2, series: 1, members: 2, cancelled: false })
+    expect(tables.series.map(row => row.slug)).toEqual(['node-based-scenario-design'])
+    expect(tables.article_series.map(row => [row.article_id, row.position])).toEqual([['p1', 1], ['p2', 2]])
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * ALEXANDRIAN SCRAPING - Suggestion Review Tests
+ *
+ * parseSuggestionReview() reads the body of POST /api/suggestions/{id}/review
+ * (suggestions.ts): approve and reject need nothing else, edits need the
+ * reviewer's text, and anything else is a 400. reviewSuggestion() runs
+ * against the in-memory Supabase stand-in.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { SuggestionReviewError, isSuggestionField, parseSuggestionReview, reviewSuggestion } from '../../server/utils/suggestions'
+import { createFakeSupabase } from '../helpers/supabase'
+
+describe('parseSuggestionReview', () => {
+  it('accepts approve and reject', () => {
+    expect(parseSuggestionReview({ action: 'approve' })).toEqual({ action: 'approve' })
+    expect(parseSuggestionReview({ action: 'reject', value: 'ignored' })).toEqual({ action: 'reject' })
+  })
+
+  it('keeps the edited text', () => {
+    expect(parseSuggestionReview({ action: 'edit', value: 'The Three Clue Rule' })).toEqual({
+      action: 'edit',
+      value: 'The Three Clue Rule',
+    })
+  })
+
+  it('rejects edits without text', () => {
+    for (const body of [{ action: 'edit' }, { action: 'edit', value: '  ' }, { action: 'edit', value: 42 }]) {
+      expect(() => parseSuggestionReview(body)).toThrow(SuggestionReviewError)
+    }
+  })
+
+  it('rejects unknown actions with a 400', () => {
+    for (const body of [{ action: 'publish' }, {}, null, 'approve']) {
+      try {
+        parseSuggestionReview(body)
+        expect.unreachable()
+      } catch (err) {
+        expect(err).toBeInstanceOf(SuggestionReviewError)
+        expect((err as SuggestionReviewError).statusCode).toBe(400)
+      }
+    }
+  })
+})
+
+describe('isSuggestionField', () => {
+  it('accepts only the AI columns', () => {
+    expect(isSuggestionField('ai_title')).toBe(true)
+    expect(isSuggestionField('ai_content')).toBe(true)
+    expect(isSuggestionField('content')).toBe(false)
+    expect(isSuggestionField(undefined)).toBe(false)
+  })
+})
+
+describe('reviewSuggestion', () => {
+  const suggestion = (values: Record<string, unknown> = {}) => ({
+    id: 's1',
+    article_id: 'a1',
+    field: 'ai_title',
+    value: 'The Three Clue Rule',
+    status: 'pending',
+    edited_value: null,
+    reviewed_at: null,
+    model: 'openai/gpt-4o-mini',
+    prompt_id: 'title-optimization',
+    prompt_version: '2.1.0',
+    ...values,
+  })
+
+  function database(options: Parameters<typeof createFakeSupabase>[1] = {}) {
+    return createFakeSupabase({
+      ai_suggestions: [suggestion()],
+      articles: [{ id: 'a1', title: 'Three Clue Rule', ai_title: null }],
+      article_revisions: [],
+    }, options)
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('publishes an approved suggestion as an ai revision', async () => {
+    const { client, tables } = database()
+
+    expect(await reviewSuggestion(client, 's1', { action: 'approve' })).toMatchObject({ status: 'approved', reviewed_at: expect.any(String) })
+    expect(tables.articles[0].ai_title).toBe('The Three Clue Rule')
+    expect(tables.article_revisions).toEqual([expect.objectContaining({
+      article_id: 'a1', field: 'ai_title', value: 'The Three Clue Rule', source: 'ai', model: 'openai/gpt-4o-mini', prompt_version: '2.1.0',
+    })])
+  })
+
+  it('publishes the reviewer\'s edit as a manual revision', async () => {
+    const { client, tables } = database()
+
+    expect(await reviewSuggestion(client, 's1', { action: 'edit', value: '  The Three Clue Rule, Revisited ' }))
+      .toMatchObject({ status: 'edited', edited_value: 'The Three Clue Rule, Revisited' })
+    expect(tables.articles[0].ai_title).toBe('The Three Clue Rule, Revisited')
+    expect(tables.article_revisions).toEqual([expect.objectContaining({ value: 'The Three Clue Rule, Revisited', source: 'manual', model: null })])
+  })
+
+  it('leaves the article alone on reject', async () => {
+    const { client, tables } = database()
+
+    expect(await reviewSuggestion(client, 's1', { action: 'reject' })).toMatchObject({ status: 'rejected' })
+    expect(tables.articles[0].ai_title).toBeNull()
+    expect(tables.article_revisions).toEqual([])
+  })
+
+  it('refuses suggestions that were already reviewed, or are reviewed meanwhile', async () => {
+    const { client, tables } = database({
+      // Another reviewer approves between the load and the claim
+      failWrite: (table, action) => {
+        if (table === 'ai_suggestions' && action === 'update') tables.ai_suggestions[0].status = 'approved'
+        return null
+      },
+    })
+
+    await expect(reviewSuggestion(client, 's1', { action: 'reject' })).rejects.toMatchObject({ statusCode: 409, message: 'Suggestion was reviewed meanwhile' })
+    await expect(reviewSuggestion(client, 's1', { action: 'approve' })).rejects.toMatchObject({ statusCode: 409, message: 'Suggestion was already approved' })
+    await expect(reviewSuggestion(client, 'missing', { action: 'approve' })).rejects.toMatchObject({ statusCode: 404 })
+    expect(tables.articles[0].ai_title).toBeNull()
+  })
+
+  it('returns the suggestion to pending when publishing fails', async () => {
+    const { client, tables } = database({
+      failWrite: table => table === 'articles' ? 'connection reset' : null,
+    })
+
+    await expect(reviewSuggestion(client, 's1', { action: 'edit', value: 'Edited' })).rejects.toThrow('Failed to publish suggestion: connection reset')
+    expect(tables.ai_suggestions[0]).toMatchObject({ status: 'pending', edited_value: null, reviewed_at: null })
+    expect(tables.article_revisions).toEqual([])
+
+    // The review can be retried
+    const { client: retry } = createFakeSupabase(tables)
+    expect(await reviewSuggestion(retry, 's1', { action: 'approve' })).toMatchObject({ status: 'approved' })
+  })
+})